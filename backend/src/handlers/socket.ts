@@ -1,9 +1,25 @@
 import { Server, Socket } from "socket.io";
-import { ChatService } from "../services/chat";
-import { User, MessagePaginationRequest } from "../utils/types";
+import { ChatService, userChannel } from "../services/chat";
+import { CommandService, parseCommand } from "../services/commands";
+import {
+  User,
+  MessagePaginationRequest,
+  MessageContextRequest,
+  EditMessageRequest,
+  ThreadRequest,
+  ReactionRequest,
+  CreatePollRequest,
+  PollVoteRequest,
+  RoomRole,
+} from "../utils/types";
 import { logger } from "../utils/logger";
+import { validateContent } from "../utils/content";
 
-export function socketHandler(io: Server, chatService: ChatService) {
+export function socketHandler(
+  io: Server,
+  chatService: ChatService,
+  commandService: CommandService
+) {
   io.on("connection", async (socket: Socket) => {
     const user: User = socket.user; // Set by auth middleware
     const slog = logger.child({ mod: "socket", sid: socket.id, uid: user?.id });
@@ -14,10 +30,23 @@ export function socketHandler(io: Server, chatService: ChatService) {
     // Handle joining a room
     socket.on(
       "join_room",
-      async (data: { roomId: string; alreadyJoined: boolean }) => {
+      async (data: {
+        roomId: string;
+        alreadyJoined: boolean;
+        focusMessageId?: string; // open the room around this message
+      }) => {
         slog.debug({ evt: "join_room", data }, "socket event");
         try {
-          const { roomId, alreadyJoined } = data;
+          const { roomId, alreadyJoined, focusMessageId } = data;
+
+          // Membership is granted over REST; removed or banned users stay out
+          if (!(await chatService.isUserInRoom(user.id, roomId))) {
+            socket.emit("error", {
+              message: "Not a member of this room",
+              code: "FORBIDDEN",
+            });
+            return;
+          }
 
           // Join socket room
           socket.join(roomId);
@@ -40,9 +69,18 @@ export function socketHandler(io: Server, chatService: ChatService) {
 
           // Get current room presences & notify user of successful join
           const presences = await chatService.getRoomPresences(roomId);
+          const roles = await chatService.getRoomRoles(roomId);
+          const mutedUntil = await chatService.getMuteExpiry(roomId, user.id);
+          const receipts = await chatService.getReadReceipts(roomId);
 
           // Notify user of successful join
-          socket.emit("room_joined", { roomId, presences });
+          socket.emit("room_joined", {
+            roomId,
+            presences,
+            roles,
+            mutedUntil: mutedUntil ?? undefined,
+            receipts,
+          });
           // Notify others in the room
           !alreadyJoined &&
             socket.to(roomId).emit("room_update", {
@@ -51,16 +89,26 @@ export function socketHandler(io: Server, chatService: ChatService) {
               presences,
             });
 
+          if (focusMessageId) {
+            // Send the messages around the requested one instead
+            await emitMessageContext({ roomId, messageId: focusMessageId });
+            return;
+          }
+
           // Send recent messages to the user
-          const firstPage = await chatService.getMessages({
+          const firstPage = await chatService.getMessages(user.id, {
             roomId,
             limit: 50,
           });
+          if (!firstPage.success || !firstPage.page) {
+            socket.emit("error", firstPage.error);
+            return;
+          }
           socket.emit("recent_messages", {
             roomId,
-            messages: firstPage.messages,
-            hasMore: firstPage.hasMore,
-            nextCursor: firstPage.nextCursor,
+            messages: firstPage.page.messages,
+            hasMore: firstPage.page.hasMore,
+            nextCursor: firstPage.page.nextCursor,
           });
         } catch (error) {
           slog.error(error as Error, "Error joining room");
@@ -69,7 +117,8 @@ export function socketHandler(io: Server, chatService: ChatService) {
       }
     );
 
-    // Handle leaving a room
+    // Handle leaving a room. The membership is ended over REST, which also
+    // tells the room; this only catches the socket up with it
     socket.on("leave_room", async (data: { roomId: string }) => {
       slog.debug({ evt: "leave_room", data }, "socket event");
       try {
@@ -81,26 +130,8 @@ export function socketHandler(io: Server, chatService: ChatService) {
         // Update user's online status
         await chatService.setUserOnlineInRooms(user.id, user.username);
 
-        // Create system message
-        await chatService.createMessage(
-          roomId,
-          user.id,
-          `${user.username} left the room`,
-          "system"
-        );
-
-        // Get updated presences
-        const presences = await chatService.getRoomPresences(roomId);
-
         // Notify user of successful leave
         socket.emit("room_left", { roomId });
-
-        // Notify others in the room
-        socket.to(roomId).emit("room_update", {
-          type: "user_left",
-          roomId,
-          presences,
-        });
       } catch (error) {
         slog.error(error as Error, "Error leaving room");
         socket.emit("error", { message: "Failed to leave room" });
@@ -110,21 +141,101 @@ export function socketHandler(io: Server, chatService: ChatService) {
     // Handle sending messages
     socket.on(
       "send_message",
-      async (data: { roomId: string; content: string }) => {
+      async (data: {
+        roomId: string;
+        content: string;
+        replyToId?: string;
+        attachmentId?: string; // uploaded beforehand; content is its caption
+      }) => {
         slog.debug({ evt: "send_message", data }, "socket event");
         try {
-          const { roomId, content } = data;
+          const { roomId, replyToId, attachmentId } = data;
+
+          const checked = validateContent(data.content ?? "");
+          if (checked.error) {
+            notifySender(roomId, checked.error.message);
+            return;
+          }
+          let { content } = checked;
 
-          if (!content.trim()) {
-            socket.emit("error", { message: "Message cannot be empty" });
+          if (!content && !attachmentId) {
+            notifySender(roomId, "Message cannot be empty");
             return;
           }
 
+          if (attachmentId && replyToId) {
+            notifySender(roomId, "Attachments can't be sent in threads");
+            return;
+          }
+
+          // Slash commands run instead of being stored; each checks its own
+          // permissions (muted members can still /leave)
+          const command =
+            !replyToId && !attachmentId ? parseCommand(content) : null;
+          if (command) {
+            await chatService.bumpActivity(user.id, user.username);
+            const result = await commandService.run(
+              user,
+              roomId,
+              command.name,
+              command.argText
+            );
+            if (!result.success) {
+              // Like rejectIfMuted: the MUTED error as well as the notice
+              if (result.error!.code === "MUTED") {
+                socket.emit("error", result.error);
+              }
+              notifySender(roomId, result.error!.message);
+            } else if (result.result) {
+              socket.emit("command_result", result.result);
+            }
+            return;
+          }
+          // "//text" sends "/text"
+          if (content.startsWith("//")) content = content.slice(1);
+
+          if (await rejectIfReadOnly(roomId)) return;
+          if (await rejectIfMuted(roomId)) return;
+
           // Update heartbeat on message send
           await chatService.bumpActivity(user.id, user.username);
 
+          if (replyToId) {
+            // Thread reply (stored in PostgreSQL, parent counter updated)
+            const result = await chatService.createReply(
+              roomId,
+              user.id,
+              content,
+              replyToId
+            );
+            if (!result.success) {
+              notifySender(roomId, result.error!.message);
+            }
+            return;
+          }
+
+          if (attachmentId) {
+            const result = await chatService.sendAttachment(
+              roomId,
+              user.id,
+              content,
+              attachmentId
+            );
+            if (!result.success) {
+              notifySender(roomId, result.error!.message);
+            }
+            return;
+          }
+
           // Create message (stored in both PostgreSQL and Redis)
-          await chatService.createMessage(roomId, user.id, content.trim());
+          const result = await chatService.sendMessage(
+            roomId,
+            user.id,
+            content
+          );
+          if (!result.success) {
+            notifySender(roomId, result.error!.message);
+          }
         } catch (error) {
           slog.error(error as Error, "Error sending message");
           socket.emit("error", { message: "Failed to send message" });
@@ -132,19 +243,248 @@ export function socketHandler(io: Server, chatService: ChatService) {
       }
     );
 
+    // Handle editing a message
+    socket.on("edit_message", async (data: EditMessageRequest) => {
+      slog.debug({ evt: "edit_message", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.editMessage(user.id, data);
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error editing message");
+        socket.emit("error", { message: "Failed to edit message" });
+      }
+    });
+
+    // Handle deleting a message (author or room creator)
+    socket.on("delete_message", async (data: { messageId: string }) => {
+      slog.debug({ evt: "delete_message", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.deleteMessage(user.id, data.messageId);
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error deleting message");
+        socket.emit("error", { message: "Failed to delete message" });
+      }
+    });
+
+    // Handle pinning and unpinning messages
+    socket.on("pin_message", async (data: { messageId: string }) => {
+      slog.debug({ evt: "pin_message", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.setPinned(
+          user.id,
+          data.messageId,
+          true
+        );
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error pinning message");
+        socket.emit("error", { message: "Failed to pin message" });
+      }
+    });
+
+    socket.on("unpin_message", async (data: { messageId: string }) => {
+      slog.debug({ evt: "unpin_message", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.setPinned(
+          user.id,
+          data.messageId,
+          false
+        );
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error unpinning message");
+        socket.emit("error", { message: "Failed to unpin message" });
+      }
+    });
+
+    // Handle promoting/demoting room members
+    socket.on(
+      "set_member_role",
+      async (data: { roomId: string; userId: string; role: RoomRole }) => {
+        slog.debug({ evt: "set_member_role", data }, "socket event");
+        try {
+          const result = await chatService.setMemberRole(
+            user.id,
+            data.roomId,
+            data.userId,
+            { role: data.role }
+          );
+
+          if (!result.success) {
+            socket.emit("error", result.error);
+          }
+        } catch (error) {
+          slog.error(error as Error, "Error setting member role");
+          socket.emit("error", { message: "Failed to update member role" });
+        }
+      }
+    );
+
+    // Handle reactions
+    socket.on("add_reaction", async (data: ReactionRequest) => {
+      slog.debug({ evt: "add_reaction", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.setReaction(user.id, data, true);
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error adding reaction");
+        socket.emit("error", { message: "Failed to add reaction" });
+      }
+    });
+
+    socket.on("remove_reaction", async (data: ReactionRequest) => {
+      slog.debug({ evt: "remove_reaction", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.setReaction(user.id, data, false);
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error removing reaction");
+        socket.emit("error", { message: "Failed to remove reaction" });
+      }
+    });
+
+    // Polls are posted like messages, so muted members can't start one
+    socket.on("send_poll", async (data: CreatePollRequest) => {
+      slog.debug({ evt: "send_poll", data }, "socket event");
+      try {
+        if (await rejectIfReadOnly(data.roomId)) return;
+        if (await rejectIfMuted(data.roomId)) return;
+
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.createPoll(user.id, data);
+
+        if (!result.success) {
+          notifySender(data.roomId, result.error!.message);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error sending poll");
+        socket.emit("error", { message: "Failed to send poll" });
+      }
+    });
+
+    socket.on("vote_poll", async (data: PollVoteRequest) => {
+      slog.debug({ evt: "vote_poll", data }, "socket event");
+      try {
+        await chatService.bumpActivity(user.id, user.username);
+
+        const result = await chatService.votePoll(user.id, data);
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+        }
+      } catch (error) {
+        slog.error(error as Error, "Error voting in poll");
+        socket.emit("error", { message: "Failed to vote" });
+      }
+    });
+
+    // Handle fetching previous versions of a message
+    socket.on("get_message_history", async (data: { messageId: string }) => {
+      slog.debug({ evt: "get_message_history", data }, "socket event");
+      try {
+        const { messageId } = data;
+
+        const result = await chatService.getMessageRevisions(
+          user.id,
+          messageId
+        );
+
+        if (!result.success) {
+          socket.emit("error", result.error);
+          return;
+        }
+
+        socket.emit("message_history", {
+          messageId,
+          revisions: result.revisions,
+        });
+      } catch (error) {
+        slog.error(error as Error, "Error getting message history");
+        socket.emit("error", { message: "Failed to get message history" });
+      }
+    });
+
+    // Handle loading a thread (parent + paginated replies)
+    socket.on("get_thread", async (data: ThreadRequest) => {
+      slog.debug({ evt: "get_thread", data }, "socket event");
+      try {
+        const result = await chatService.getThread(user.id, data);
+
+        if (!result.success || !result.parent || !result.replies) {
+          socket.emit("error", result.error);
+          return;
+        }
+
+        socket.emit("thread_loaded", {
+          roomId: result.parent.roomId,
+          parent: result.parent,
+          messages: result.replies.messages,
+          hasMore: result.replies.hasMore,
+          nextCursor: result.replies.nextCursor,
+          isPage: !!data.before,
+        });
+      } catch (error) {
+        slog.error(error as Error, "Error loading thread");
+        socket.emit("error", { message: "Failed to load thread" });
+      }
+    });
+
     // Handle loading more messages (pagination)
     socket.on("load_more_messages", async (data: MessagePaginationRequest) => {
       slog.debug({ evt: "load_more_messages", data }, "socket event");
       try {
-        const { roomId, limit = 50, before } = data;
+        const { roomId, limit = 50, before, after } = data;
 
-        const result = await chatService.getMessages({ roomId, limit, before });
+        const result = await chatService.getMessages(user.id, {
+          roomId,
+          limit,
+          before,
+          after,
+        });
 
-        socket.emit("more_messages_loaded", {
+        if (!result.success || !result.page) {
+          socket.emit("error", result.error);
+          return;
+        }
+
+        // Paging forward from a context window towards the latest message
+        socket.emit(after ? "newer_messages_loaded" : "more_messages_loaded", {
           roomId,
-          messages: result.messages,
-          hasMore: result.hasMore,
-          nextCursor: result.nextCursor,
+          messages: result.page.messages,
+          hasMore: result.page.hasMore,
+          nextCursor: result.page.nextCursor,
         });
       } catch (error) {
         slog.error(error as Error, "Error loading more messages");
@@ -152,26 +492,63 @@ export function socketHandler(io: Server, chatService: ChatService) {
       }
     });
 
+    // Handle loading the messages around a given message (e.g. a search hit)
+    socket.on("get_message_context", async (data: MessageContextRequest) => {
+      slog.debug({ evt: "get_message_context", data }, "socket event");
+      try {
+        await emitMessageContext(data);
+      } catch (error) {
+        slog.error(error as Error, "Error loading message context");
+        socket.emit("error", { message: "Failed to load message context" });
+      }
+    });
+
+    // Handle moving the read marker of an open room
+    socket.on(
+      "mark_read",
+      async (data: { roomId: string; messageId: string }) => {
+        slog.debug({ evt: "mark_read", data }, "socket event");
+        try {
+          const { roomId, messageId } = data;
+          await chatService.markRead(user.id, user.username, roomId, messageId);
+        } catch (error) {
+          slog.error(error as Error, "Error marking room read");
+          socket.emit("error", { message: "Failed to mark room as read" });
+        }
+      }
+    );
+
     // Handle typing indicators
     socket.on("typing_start", async (data: { roomId: string }) => {
       slog.debug({ evt: "typing_start", data }, "socket event");
+      try {
+        const { roomId } = data;
 
-      const { roomId } = data;
+        // Only sockets let into the room by join_room may signal in it;
+        // removing a member takes their sockets out
+        if (!socket.rooms.has(roomId)) return;
 
-      await chatService.bumpActivity(user.id, user.username);
+        if (await rejectIfMuted(roomId, false)) return;
 
-      socket.to(roomId).emit("user_typing", {
-        userId: user.id,
-        username: user.username,
-        roomId,
-        isTyping: true,
-      });
+        await chatService.bumpActivity(user.id, user.username);
+
+        socket.to(roomId).emit("user_typing", {
+          userId: user.id,
+          username: user.username,
+          roomId,
+          isTyping: true,
+        });
+      } catch (error) {
+        slog.error(error as Error, "Error starting typing indicator");
+        socket.emit("error", { message: "Failed to send typing indicator" });
+      }
     });
 
     socket.on("typing_stop", (data: { roomId: string }) => {
       slog.debug({ evt: "typing_stop", data }, "socket event");
 
       const { roomId } = data;
+      if (!socket.rooms.has(roomId)) return;
 
       socket.to(roomId).emit("user_typing", {
         userId: user.id,
@@ -198,6 +575,15 @@ export function socketHandler(io: Server, chatService: ChatService) {
 
       try {
         const { roomId } = data;
+
+        if (!(await chatService.isUserInRoom(user.id, roomId))) {
+          socket.emit("error", {
+            message: "Not a member of this room",
+            code: "FORBIDDEN",
+          });
+          return;
+        }
+
         const presences = await chatService.getRoomPresences(roomId);
         socket.emit("room_presences", { roomId, presences });
       } catch (error) {
@@ -227,6 +613,12 @@ export function socketHandler(io: Server, chatService: ChatService) {
       const roomIds = await chatService.getUserRoomIds(user.id);
 
       try {
+        // Personal channel, plus direct rooms so DMs and the peer's
+        // presence arrive without opening them
+        socket.join(userChannel(user.id));
+        const rooms = await chatService.getUserRooms(user.id);
+        socket.join(rooms.filter((r) => r.kind === "direct").map((r) => r.id));
+
         for (const roomId of roomIds) {
           // Notify room members
           const presences = await chatService.getRoomPresences(roomId);
@@ -241,6 +633,53 @@ export function socketHandler(io: Server, chatService: ChatService) {
       }
     }
 
+    // Send a window of messages around a message to this socket
+    async function emitMessageContext(request: MessageContextRequest) {
+      const result = await chatService.getMessageContext(user.id, request);
+
+      if (!result.success || !result.context) {
+        socket.emit("error", result.error);
+        return;
+      }
+
+      socket.emit("message_context", {
+        roomId: request.roomId,
+        ...result.context,
+      });
+    }
+
+    // Why something sent to a room was refused, shown in that room to the
+    // sender alone
+    function notifySender(roomId: string, message: string): void {
+      chatService.sendEphemeral(user.id, roomId, message);
+    }
+
+    // Archived rooms take no new messages
+    async function rejectIfReadOnly(roomId: string): Promise<boolean> {
+      const error = await chatService.checkWritable(roomId);
+      if (!error) return false;
+
+      notifySender(roomId, error.message);
+      return true;
+    }
+
+    // Tell a muted user why their message or typing was dropped: a MUTED
+    // error for the client, and for messages a notice in the room as well
+    async function rejectIfMuted(
+      roomId: string,
+      notify = true
+    ): Promise<boolean> {
+      const mutedUntil = await chatService.getMuteExpiry(roomId, user.id);
+      if (!mutedUntil) return false;
+
+      const message = `You are muted in this room until ${new Date(
+        mutedUntil
+      ).toUTCString()}`;
+      socket.emit("error", { message, code: "MUTED" });
+      if (notify) notifySender(roomId, message);
+      return true;
+    }
+
     // Handle disconnection
     socket.on("disconnect", async (reason) => {
       slog.info({ reason }, "socket disconnected");
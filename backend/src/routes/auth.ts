@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { ChatService } from "../services/chat";
-import { LoginRequest, RegisterRequest } from "../utils/types";
+import {
+  DeleteAccountRequest,
+  LoginRequest,
+  RegisterRequest,
+} from "../utils/types";
 
 export function createAuthRoutes(chatService: ChatService) {
   const router = Router();
@@ -128,5 +132,50 @@ export function createAuthRoutes(chatService: ChatService) {
     }
   });
 
+  // Delete the signed-in account; owned rooms pass to their next owner
+  router.delete("/account", async (req, res) => {
+    req.log.info("auth/account");
+    try {
+      const token = chatService.authService.extractTokenFromHeader(
+        req.headers.authorization
+      );
+
+      if (!token) {
+        return sendError(res, 401, "No token provided", "UNAUTHORIZED");
+      }
+
+      const payload = chatService.authService.verifyToken(token);
+      if (!payload) {
+        return sendError(res, 401, "Invalid or expired token", "UNAUTHORIZED");
+      }
+
+      const { password }: DeleteAccountRequest = req.body ?? {};
+      if (!password) {
+        return sendError(res, 400, "Password is required", "VALIDATION_ERROR");
+      }
+
+      const user = await chatService.dbService.getUserById(payload.userId);
+      if (!user) {
+        return sendError(res, 401, "User not found", "UNAUTHORIZED");
+      }
+
+      // Confirm it's really the account holder, not just a leftover session
+      const verified = await chatService.dbService.authenticateUser(
+        user.email,
+        password
+      );
+      if (!verified) {
+        return sendError(res, 401, "Invalid credentials", "UNAUTHORIZED");
+      }
+
+      await chatService.deleteAccount(user.id);
+
+      res.json({ success: true });
+    } catch (error) {
+      res.log.error(error, "Account deletion error");
+      return sendError(res, 500, "Failed to delete account", "GENERIC");
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { CommandService } from "../services/commands";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+export function createCommandRoutes(commandService: CommandService) {
+  const router = Router();
+
+  // Slash commands with their arguments, for autocomplete and hints
+  router.get("/", (req: AuthenticatedRequest, res) => {
+    req.log.debug("commands");
+    res.json({ commands: commandService.getManifest() });
+  });
+
+  return router;
+}
@@ -1,12 +1,37 @@
-import { Router } from "express";
-import { ChatService } from "../services/chat";
+import express, { Router, Response, NextFunction } from "express";
+import {
+  ChatService,
+  DIRECT_ROOM_PREFIX,
+  MAX_ATTACHMENT_BYTES,
+  MAX_THUMBNAIL_BYTES,
+} from "../services/chat";
 import { AuthenticatedRequest } from "../middleware/auth";
 import {
   CreateRoomRequest,
+  DirectRoomRequest,
   JoinRoomRequest,
   MessagePaginationRequest,
+  MessageSearchRequest,
+  MemberRoleRequest,
+  TransferOwnershipRequest,
+  RemoveMemberRequest,
+  MuteMemberRequest,
+  UpdateRoomRequest,
+  CreateInviteRequest,
+  ScheduleMessageRequest,
 } from "../utils/types";
 
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_SEARCH_LIMIT = 50;
+const MAX_REMOVAL_REASON_LENGTH = 200;
+const MAX_ROOM_NAME_LENGTH = 100;
+const MAX_ROOM_DESCRIPTION_LENGTH = 500;
+const MIN_PASSCODE_LENGTH = 4;
+const MAX_INVITE_EXPIRY_MINUTES = 30 * 24 * 60;
+
+const isPositiveInteger = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
 export function createRoomRoutes(chatService: ChatService) {
   const router = Router();
 
@@ -56,6 +81,59 @@ export function createRoomRoutes(chatService: ChatService) {
     }
   });
 
+  // Search messages across the user's rooms
+  router.get("/search", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/search");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { q, roomId, author, from, to, limit, cursor } = req.query;
+      const query = typeof q === "string" ? q.trim() : "";
+
+      if (!query) {
+        return sendError(
+          res,
+          400,
+          "Search query is required",
+          "VALIDATION_ERROR"
+        );
+      }
+      if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+        return sendError(
+          res,
+          400,
+          "Search query is too long",
+          "VALIDATION_ERROR"
+        );
+      }
+      for (const date of [from, to]) {
+        if (date !== undefined && isNaN(Date.parse(date as string))) {
+          return sendError(res, 400, "Invalid date filter", "VALIDATION_ERROR");
+        }
+      }
+
+      const parsedLimit = limit ? parseInt(limit as string) : 20;
+
+      const request: MessageSearchRequest = {
+        query,
+        roomId: (roomId as string) || undefined,
+        author: (author as string) || undefined,
+        from: (from as string) || undefined,
+        to: (to as string) || undefined,
+        limit: Math.min(Math.max(parsedLimit || 20, 1), MAX_SEARCH_LIMIT),
+        cursor: (cursor as string) || undefined,
+      };
+
+      const result = await chatService.searchMessages(req.user.id, request);
+      res.json(result);
+    } catch (error) {
+      req.log.error(error, "Search messages error");
+      return sendError(res, 500, "Failed to search messages", "GENERIC");
+    }
+  });
+
   // Create room
   router.post("/create", async (req: AuthenticatedRequest, res) => {
     req.log.debug("rooms/create");
@@ -70,6 +148,15 @@ export function createRoomRoutes(chatService: ChatService) {
         return sendError(res, 400, "Room name is required", "VALIDATION_ERROR");
       }
 
+      if (roomData.name.trim().startsWith(DIRECT_ROOM_PREFIX)) {
+        return sendError(
+          res,
+          400,
+          `Room names cannot start with "${DIRECT_ROOM_PREFIX}"`,
+          "VALIDATION_ERROR"
+        );
+      }
+
       if (roomData.isPrivate && !roomData.passcode) {
         return sendError(
           res,
@@ -79,6 +166,15 @@ export function createRoomRoutes(chatService: ChatService) {
         );
       }
 
+      if (roomData.isPrivate && roomData.requiresApproval) {
+        return sendError(
+          res,
+          400,
+          "Private rooms use a passcode instead of approval",
+          "VALIDATION_ERROR"
+        );
+      }
+
       const room = await chatService.createRoom(roomData, req.user.id);
       res.status(201).json({ room });
     } catch (error) {
@@ -95,6 +191,170 @@ export function createRoomRoutes(chatService: ChatService) {
     }
   });
 
+  // Update room settings
+  router.patch("/:roomId", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId (update)");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const {
+        name,
+        description,
+        isPrivate,
+        passcode,
+        requiresApproval,
+        readReceipts,
+      }: UpdateRoomRequest = req.body ?? {};
+
+      if (name !== undefined) {
+        if (typeof name !== "string" || name.trim().length === 0) {
+          return sendError(
+            res,
+            400,
+            "Room name is required",
+            "VALIDATION_ERROR"
+          );
+        }
+        if (name.trim().length > MAX_ROOM_NAME_LENGTH) {
+          return sendError(
+            res,
+            400,
+            `Room name must be less than ${MAX_ROOM_NAME_LENGTH} characters`,
+            "VALIDATION_ERROR"
+          );
+        }
+        if (name.trim().startsWith(DIRECT_ROOM_PREFIX)) {
+          return sendError(
+            res,
+            400,
+            `Room names cannot start with "${DIRECT_ROOM_PREFIX}"`,
+            "VALIDATION_ERROR"
+          );
+        }
+      }
+
+      if (
+        description !== undefined &&
+        (typeof description !== "string" ||
+          description.length > MAX_ROOM_DESCRIPTION_LENGTH)
+      ) {
+        return sendError(
+          res,
+          400,
+          `Description must be less than ${MAX_ROOM_DESCRIPTION_LENGTH} characters`,
+          "VALIDATION_ERROR"
+        );
+      }
+
+      if (isPrivate !== undefined && typeof isPrivate !== "boolean") {
+        return sendError(
+          res,
+          400,
+          "isPrivate must be a boolean",
+          "VALIDATION_ERROR"
+        );
+      }
+
+      if (
+        requiresApproval !== undefined &&
+        typeof requiresApproval !== "boolean"
+      ) {
+        return sendError(
+          res,
+          400,
+          "requiresApproval must be a boolean",
+          "VALIDATION_ERROR"
+        );
+      }
+
+      if (readReceipts !== undefined && typeof readReceipts !== "boolean") {
+        return sendError(
+          res,
+          400,
+          "readReceipts must be a boolean",
+          "VALIDATION_ERROR"
+        );
+      }
+
+      if (
+        passcode !== undefined &&
+        passcode !== null &&
+        (typeof passcode !== "string" ||
+          passcode.trim().length < MIN_PASSCODE_LENGTH)
+      ) {
+        return sendError(
+          res,
+          400,
+          `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters`,
+          "VALIDATION_ERROR"
+        );
+      }
+
+      const result = await chatService.updateRoom(req.user.id, roomId, {
+        name: name?.trim(),
+        description: description?.trim(),
+        isPrivate,
+        passcode,
+        requiresApproval,
+        readReceipts,
+      });
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ room: result.room });
+    } catch (error) {
+      req.log.error(error, "Update room error");
+      if ((error as any).code === "23505") {
+        return sendError(
+          res,
+          409,
+          "Room name already exists",
+          "DUPLICATE_ROOM_NAME"
+        );
+      }
+      return sendError(res, 500, "Failed to update room", "GENERIC");
+    }
+  });
+
+  // Start (or reopen) a direct message with another user
+  router.post("/direct", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/direct");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const directData: DirectRoomRequest = req.body;
+
+      if (!directData.userId) {
+        return sendError(res, 400, "User ID is required", "VALIDATION_ERROR");
+      }
+
+      const result = await chatService.startDirectMessage(
+        req.user.id,
+        directData
+      );
+
+      if (!result.success) {
+        const status = result.error?.code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ room: result.room });
+    } catch (error) {
+      req.log.error(error, "Start direct message error");
+      return sendError(res, 500, "Failed to start direct message", "GENERIC");
+    }
+  });
+
   // Join room
   router.post("/join", async (req: AuthenticatedRequest, res) => {
     req.log.debug("rooms/join");
@@ -105,14 +365,28 @@ export function createRoomRoutes(chatService: ChatService) {
 
       const joinData: JoinRoomRequest = req.body;
 
-      if (!joinData.roomId) {
-        return sendError(res, 400, "Room ID is required", "VALIDATION_ERROR");
+      if (!joinData.roomId && !joinData.inviteToken) {
+        return sendError(
+          res,
+          400,
+          "Room ID or invite token is required",
+          "VALIDATION_ERROR"
+        );
       }
 
       const result = await chatService.joinRoom(req.user.id, joinData);
 
       if (!result.success) {
-        return res.status(400).json({ error: result.error });
+        const code = result.error?.code;
+        const status =
+          code === "BANNED" ||
+          code === "JOIN_REQUEST_SENT" ||
+          code === "JOIN_REQUEST_PENDING"
+            ? 403
+            : code === "INVALID_INVITE"
+            ? 404
+            : 400;
+        return res.status(status).json({ error: result.error });
       }
 
       res.json({ room: result.room, alreadyJoined: result.alreadyJoined });
@@ -122,6 +396,112 @@ export function createRoomRoutes(chatService: ChatService) {
     }
   });
 
+  // Preview the room behind an invite link
+  router.get("/invites/:token", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/invites/:token");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const result = await chatService.getInvitePreview(req.params.token);
+
+      if (!result.success) {
+        return res.status(404).json({ error: result.error });
+      }
+
+      res.json({ invite: result.preview });
+    } catch (error) {
+      req.log.error(error, "Get invite preview error");
+      return sendError(res, 500, "Failed to fetch invite", "GENERIC");
+    }
+  });
+
+  // Archive a room: read-only, unlisted, history kept (owner only)
+  router.post("/:roomId/archive", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/archive");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const result = await chatService.archiveRoom(req.user.id, roomId);
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ room: result.room });
+    } catch (error) {
+      req.log.error(error, "Archive room error");
+      return sendError(res, 500, "Failed to archive room", "GENERIC");
+    }
+  });
+
+  // Hand the room to another member; the owner becomes an admin
+  router.post("/:roomId/transfer", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/transfer");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const { userId }: TransferOwnershipRequest = req.body ?? {};
+
+      if (!userId) {
+        return sendError(res, 400, "User ID is required", "VALIDATION_ERROR");
+      }
+
+      const result = await chatService.transferOwnership(
+        req.user.id,
+        roomId,
+        userId
+      );
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      req.log.error(error, "Transfer ownership error");
+      return sendError(res, 500, "Failed to transfer ownership", "GENERIC");
+    }
+  });
+
+  // Delete a room with all of its history (owner only)
+  router.delete("/:roomId", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId (delete)");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const result = await chatService.deleteRoom(req.user.id, roomId);
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      req.log.error(error, "Delete room error");
+      return sendError(res, 500, "Failed to delete room", "GENERIC");
+    }
+  });
+
   // Leave room
   router.post("/:roomId/leave", async (req: AuthenticatedRequest, res) => {
     req.log.debug("rooms/:roomId/leave");
@@ -140,6 +520,726 @@ export function createRoomRoutes(chatService: ChatService) {
     }
   });
 
+  // Promote or demote a member
+  router.patch(
+    "/:roomId/members/:userId",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/members/:userId");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, userId } = req.params;
+        const roleData: MemberRoleRequest = req.body;
+
+        if (!roleData?.role) {
+          return sendError(res, 400, "Role is required", "VALIDATION_ERROR");
+        }
+
+        const result = await chatService.setMemberRole(
+          req.user.id,
+          roomId,
+          userId,
+          roleData
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ roomId, userId, role: result.role });
+      } catch (error) {
+        req.log.error(error, "Set member role error");
+        return sendError(res, 500, "Failed to update member role", "GENERIC");
+      }
+    }
+  );
+
+  // Kick (ban = false) or ban a member; both share validation
+  const removeMember =
+    (ban: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+      req.log.debug(`rooms/:roomId/members/:userId/${ban ? "ban" : "kick"}`);
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, userId } = req.params;
+        const { reason, expiresAt }: Partial<RemoveMemberRequest> =
+          req.body ?? {};
+
+        if (reason !== undefined && typeof reason !== "string") {
+          return sendError(res, 400, "Invalid reason", "VALIDATION_ERROR");
+        }
+        if (reason && reason.trim().length > MAX_REMOVAL_REASON_LENGTH) {
+          return sendError(
+            res,
+            400,
+            `Reason must be less than ${MAX_REMOVAL_REASON_LENGTH} characters`,
+            "VALIDATION_ERROR"
+          );
+        }
+        if (expiresAt !== undefined) {
+          const expiry = new Date(expiresAt);
+          if (!ban || isNaN(expiry.getTime()) || expiry <= new Date()) {
+            return sendError(
+              res,
+              400,
+              "expiresAt must be a future date on a ban",
+              "VALIDATION_ERROR"
+            );
+          }
+        }
+
+        const result = await chatService.removeMember(
+          req.user.id,
+          roomId,
+          userId,
+          {
+            ban,
+            reason: reason?.trim() || undefined,
+            expiresAt: expiresAt
+              ? new Date(expiresAt).toISOString()
+              : undefined,
+          }
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        req.log.error(error, "Remove member error");
+        return sendError(res, 500, "Failed to remove member", "GENERIC");
+      }
+    };
+
+  router.post("/:roomId/members/:userId/kick", removeMember(false));
+  router.post("/:roomId/members/:userId/ban", removeMember(true));
+
+  // Mute a member for a number of minutes
+  router.post(
+    "/:roomId/members/:userId/mute",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/members/:userId/mute");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, userId } = req.params;
+        const muteData: MuteMemberRequest = req.body;
+
+        if (typeof muteData?.durationMinutes !== "number") {
+          return sendError(
+            res,
+            400,
+            "durationMinutes is required",
+            "VALIDATION_ERROR"
+          );
+        }
+
+        const result = await chatService.muteMember(
+          req.user.id,
+          roomId,
+          userId,
+          muteData
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ roomId, userId, expiresAt: result.expiresAt });
+      } catch (error) {
+        req.log.error(error, "Mute member error");
+        return sendError(res, 500, "Failed to mute member", "GENERIC");
+      }
+    }
+  );
+
+  // Lift a mute before it expires
+  router.delete(
+    "/:roomId/members/:userId/mute",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/members/:userId/unmute");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, userId } = req.params;
+        const result = await chatService.unmuteMember(
+          req.user.id,
+          roomId,
+          userId
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        req.log.error(error, "Unmute member error");
+        return sendError(res, 500, "Failed to unmute member", "GENERIC");
+      }
+    }
+  );
+
+  // Pending join requests (owners and admins)
+  router.get(
+    "/:roomId/join-requests",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/join-requests");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId } = req.params;
+        const result = await chatService.getJoinRequests(req.user.id, roomId);
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ requests: result.requests });
+      } catch (error) {
+        req.log.error(error, "Get join requests error");
+        return sendError(res, 500, "Failed to fetch join requests", "GENERIC");
+      }
+    }
+  );
+
+  // Approve or deny a pending join request
+  const resolveJoinRequest =
+    (approve: boolean) => async (req: AuthenticatedRequest, res: Response) => {
+      req.log.debug(
+        `rooms/:roomId/join-requests/:userId/${approve ? "approve" : "deny"}`
+      );
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, userId } = req.params;
+        const result = await chatService.resolveJoinRequest(
+          req.user.id,
+          roomId,
+          userId,
+          approve
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" || code === "BANNED"
+              ? 403
+              : code === "NOT_FOUND"
+              ? 404
+              : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ roomId, userId, approved: approve });
+      } catch (error) {
+        req.log.error(error, "Resolve join request error");
+        return sendError(res, 500, "Failed to resolve join request", "GENERIC");
+      }
+    };
+
+  router.post(
+    "/:roomId/join-requests/:userId/approve",
+    resolveJoinRequest(true)
+  );
+  router.post("/:roomId/join-requests/:userId/deny", resolveJoinRequest(false));
+
+  // Create an invite link (owners and admins)
+  router.post("/:roomId/invites", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/invites");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const inviteData: CreateInviteRequest = req.body ?? {};
+
+      if (inviteData.expiresInMinutes !== undefined) {
+        if (
+          !isPositiveInteger(inviteData.expiresInMinutes) ||
+          inviteData.expiresInMinutes > MAX_INVITE_EXPIRY_MINUTES
+        ) {
+          return sendError(
+            res,
+            400,
+            `expiresInMinutes must be a whole number between 1 and ${MAX_INVITE_EXPIRY_MINUTES}`,
+            "VALIDATION_ERROR"
+          );
+        }
+      }
+      if (
+        inviteData.maxUses !== undefined &&
+        !isPositiveInteger(inviteData.maxUses)
+      ) {
+        return sendError(
+          res,
+          400,
+          "maxUses must be a positive whole number",
+          "VALIDATION_ERROR"
+        );
+      }
+
+      const result = await chatService.createInvite(req.user.id, roomId, {
+        expiresInMinutes: inviteData.expiresInMinutes,
+        maxUses: inviteData.maxUses,
+      });
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.status(201).json({ invite: result.invite });
+    } catch (error) {
+      req.log.error(error, "Create invite error");
+      return sendError(res, 500, "Failed to create invite", "GENERIC");
+    }
+  });
+
+  // List a room's active invites (owners and admins)
+  router.get("/:roomId/invites", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/invites");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const result = await chatService.getRoomInvites(req.user.id, roomId);
+
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+        return res.status(status).json({ error: result.error });
+      }
+
+      res.json({ invites: result.invites });
+    } catch (error) {
+      req.log.error(error, "Get invites error");
+      return sendError(res, 500, "Failed to fetch invites", "GENERIC");
+    }
+  });
+
+  // Revoke an invite so its link stops working
+  router.delete(
+    "/:roomId/invites/:inviteId",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/invites/:inviteId");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, inviteId } = req.params;
+        const result = await chatService.revokeInvite(
+          req.user.id,
+          roomId,
+          inviteId
+        );
+
+        if (!result.success) {
+          const code = result.error?.code;
+          const status =
+            code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        req.log.error(error, "Revoke invite error");
+        return sendError(res, 500, "Failed to revoke invite", "GENERIC");
+      }
+    }
+  );
+
+  // Uploads are the raw request body, sent as application/octet-stream so
+  // the JSON parser leaves them alone
+  const rawBody = (limit: number) => {
+    const parse = express.raw({ type: () => true, limit });
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+      parse(req, res, (error?: any) => {
+        if (error?.type === "entity.too.large") {
+          return sendError(res, 413, "Upload is too large", "VALIDATION_ERROR");
+        }
+        next(error);
+      });
+  };
+
+  const uploadErrorStatus = (code?: string) =>
+    code === "FORBIDDEN" || code === "MUTED"
+      ? 403
+      : code === "NOT_FOUND"
+      ? 404
+      : 400;
+
+  // Upload a file (?filename=) to send as an attachment message
+  router.post(
+    "/:roomId/attachments",
+    rawBody(MAX_ATTACHMENT_BYTES),
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/attachments");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        if (!Buffer.isBuffer(req.body)) {
+          return sendError(
+            res,
+            400,
+            "Send the file as an application/octet-stream body",
+            "VALIDATION_ERROR"
+          );
+        }
+
+        const { roomId } = req.params;
+        const { filename } = req.query;
+        const result = await chatService.uploadAttachment(
+          req.user.id,
+          roomId,
+          typeof filename === "string" ? filename : "",
+          req.body
+        );
+
+        if (!result.success) {
+          return res
+            .status(uploadErrorStatus(result.error?.code))
+            .json({ error: result.error });
+        }
+
+        res.status(201).json({ attachment: result.attachment });
+      } catch (error) {
+        req.log.error(error, "Upload attachment error");
+        return sendError(res, 500, "Failed to upload attachment", "GENERIC");
+      }
+    }
+  );
+
+  // Add the thumbnail the uploader's client rendered for an image
+  router.put(
+    "/:roomId/attachments/:attachmentId/thumbnail",
+    rawBody(MAX_THUMBNAIL_BYTES),
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/attachments/:attachmentId/thumbnail");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        if (!Buffer.isBuffer(req.body)) {
+          return sendError(
+            res,
+            400,
+            "Send the thumbnail as an application/octet-stream body",
+            "VALIDATION_ERROR"
+          );
+        }
+
+        const { roomId, attachmentId } = req.params;
+        const result = await chatService.uploadThumbnail(
+          req.user.id,
+          roomId,
+          attachmentId,
+          req.body
+        );
+
+        if (!result.success) {
+          return res
+            .status(uploadErrorStatus(result.error?.code))
+            .json({ error: result.error });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        req.log.error(error, "Upload thumbnail error");
+        return sendError(res, 500, "Failed to upload thumbnail", "GENERIC");
+      }
+    }
+  );
+
+  // Download an attachment, or its thumbnail (members only)
+  const downloadAttachment =
+    (thumbnail: boolean) =>
+    async (req: AuthenticatedRequest, res: Response) => {
+      req.log.debug(
+        `rooms/:roomId/attachments/:attachmentId${
+          thumbnail ? "/thumbnail" : ""
+        }`
+      );
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, attachmentId } = req.params;
+        const result = await chatService.getAttachmentFile(
+          req.user.id,
+          roomId,
+          attachmentId,
+          thumbnail
+        );
+
+        if (!result.success || !result.file) {
+          const status = result.error?.code === "FORBIDDEN" ? 403 : 404;
+          return res.status(status).json({ error: result.error });
+        }
+
+        // Only sniffed image types render inline; everything else downloads
+        const { filename, mimeType, data } = result.file;
+        const disposition = mimeType.startsWith("image/")
+          ? "inline"
+          : "attachment";
+        res.set({
+          "Content-Type": mimeType,
+          "Content-Length": String(data.length),
+          "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(
+            filename
+          )}`,
+          "X-Content-Type-Options": "nosniff",
+          "Cache-Control": "private, max-age=86400",
+        });
+        res.end(data);
+      } catch (error) {
+        req.log.error(error, "Download attachment error");
+        return sendError(res, 500, "Failed to fetch attachment", "GENERIC");
+      }
+    };
+
+  router.get("/:roomId/attachments/:attachmentId", downloadAttachment(false));
+  router.get(
+    "/:roomId/attachments/:attachmentId/thumbnail",
+    downloadAttachment(true)
+  );
+
+  // Pinned messages of a room, most recently pinned first
+  router.get("/:roomId/pins", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/pins");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const result = await chatService.getPinnedMessages(req.user.id, roomId);
+
+      if (!result.success) {
+        return res.status(403).json({ error: result.error });
+      }
+
+      res.json({ pins: result.pins });
+    } catch (error) {
+      req.log.error(error, "Get pinned messages error");
+      return sendError(res, 500, "Failed to fetch pinned messages", "GENERIC");
+    }
+  });
+
+  const scheduledErrorStatus = (code?: string) =>
+    code === "FORBIDDEN" ? 403 : code === "NOT_FOUND" ? 404 : 400;
+
+  // The caller's unsent scheduled messages in a room, soonest first
+  router.get("/:roomId/scheduled", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/scheduled");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const result = await chatService.getScheduledMessages(
+        req.user.id,
+        roomId
+      );
+
+      if (!result.success) {
+        return res
+          .status(scheduledErrorStatus(result.error?.code))
+          .json({ error: result.error });
+      }
+
+      res.json({ scheduled: result.scheduled });
+    } catch (error) {
+      req.log.error(error, "Get scheduled messages error");
+      return sendError(
+        res,
+        500,
+        "Failed to fetch scheduled messages",
+        "GENERIC"
+      );
+    }
+  });
+
+  // Write a message now to be posted at sendAt
+  router.post("/:roomId/scheduled", async (req: AuthenticatedRequest, res) => {
+    req.log.debug("rooms/:roomId/scheduled");
+    try {
+      if (!req.user) {
+        return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+      }
+
+      const { roomId } = req.params;
+      const { content, sendAt }: ScheduleMessageRequest = req.body ?? {};
+      const result = await chatService.scheduleMessage(req.user.id, roomId, {
+        content,
+        sendAt,
+      });
+
+      if (!result.success) {
+        return res
+          .status(scheduledErrorStatus(result.error?.code))
+          .json({ error: result.error });
+      }
+
+      res.status(201).json({ scheduled: result.scheduled });
+    } catch (error) {
+      req.log.error(error, "Schedule message error");
+      return sendError(res, 500, "Failed to schedule message", "GENERIC");
+    }
+  });
+
+  // Change the content or time of a message that hasn't gone out; a failed
+  // one is queued again
+  router.patch(
+    "/:roomId/scheduled/:scheduledId",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/scheduled/:scheduledId");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, scheduledId } = req.params;
+        const { content, sendAt }: Partial<ScheduleMessageRequest> =
+          req.body ?? {};
+        const result = await chatService.updateScheduledMessage(
+          req.user.id,
+          roomId,
+          scheduledId,
+          { content, sendAt }
+        );
+
+        if (!result.success) {
+          return res
+            .status(scheduledErrorStatus(result.error?.code))
+            .json({ error: result.error });
+        }
+
+        res.json({ scheduled: result.scheduled });
+      } catch (error) {
+        req.log.error(error, "Update scheduled message error");
+        return sendError(
+          res,
+          500,
+          "Failed to update scheduled message",
+          "GENERIC"
+        );
+      }
+    }
+  );
+
+  router.delete(
+    "/:roomId/scheduled/:scheduledId",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/scheduled/:scheduledId");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, scheduledId } = req.params;
+        const result = await chatService.cancelScheduledMessage(
+          req.user.id,
+          roomId,
+          scheduledId
+        );
+
+        if (!result.success) {
+          return res
+            .status(scheduledErrorStatus(result.error?.code))
+            .json({ error: result.error });
+        }
+
+        res.json({ success: true });
+      } catch (error) {
+        req.log.error(error, "Cancel scheduled message error");
+        return sendError(
+          res,
+          500,
+          "Failed to cancel scheduled message",
+          "GENERIC"
+        );
+      }
+    }
+  );
+
+  // Get the messages around a message (links to older history)
+  router.get(
+    "/:roomId/messages/:messageId/context",
+    async (req: AuthenticatedRequest, res) => {
+      req.log.debug("rooms/:roomId/messages/:messageId/context");
+      try {
+        if (!req.user) {
+          return sendError(res, 401, "Unauthorized", "UNAUTHORIZED");
+        }
+
+        const { roomId, messageId } = req.params;
+        const { limit } = req.query;
+
+        const result = await chatService.getMessageContext(req.user.id, {
+          roomId,
+          messageId,
+          limit: limit ? parseInt(limit as string) : undefined,
+        });
+
+        if (!result.success) {
+          const status = result.error?.code === "FORBIDDEN" ? 403 : 404;
+          return res.status(status).json({ error: result.error });
+        }
+
+        res.json({ roomId, ...result.context });
+      } catch (error) {
+        req.log.error(error, "Get message context error");
+        return sendError(
+          res,
+          500,
+          "Failed to fetch message context",
+          "GENERIC"
+        );
+      }
+    }
+  );
+
   // Get room messages with pagination
   // router.get("/:roomId/messages", async (req: AuthenticatedRequest, res) => {
   //   req.log.debug("rooms/:roomId/messages");
@@ -23,6 +23,10 @@ CREATE TABLE IF NOT EXISTS rooms (
   description TEXT,
   is_private BOOLEAN NOT NULL DEFAULT false,
   passcode_hash TEXT,                         -- bcrypt, nullable
+  requires_approval BOOLEAN NOT NULL DEFAULT false,  -- joins wait for an admin; never with a passcode
+  read_receipts BOOLEAN NOT NULL DEFAULT true,  -- off for large rooms to spare the fan-out
+  archived_at TIMESTAMPTZ,                    -- read-only and unlisted once set
+  kind TEXT NOT NULL DEFAULT 'group' CHECK (kind IN ('group','direct')),  -- direct: 2-person DM
   created_by UUID REFERENCES users(id) ON DELETE SET NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
@@ -34,19 +38,142 @@ CREATE TABLE IF NOT EXISTS room_memberships (
   joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   -- left_at TIMESTAMPTZ,
   is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner','admin','moderator','member')),
+  last_read_message_id UUID,                  -- newest top-level message read; NULL until the first mark_read
   CONSTRAINT room_memberships_pkey PRIMARY KEY (user_id, room_id)
 );
 
+-- Room bans table (banned users can't rejoin until the ban expires)
+CREATE TABLE IF NOT EXISTS room_bans (
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  banned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  expires_at TIMESTAMPTZ,                     -- NULL = permanent
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT room_bans_pkey PRIMARY KEY (room_id, user_id)
+);
+
+-- Room mutes table (durable copy of the mutes cached in Redis)
+CREATE TABLE IF NOT EXISTS room_mutes (
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  muted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT room_mutes_pkey PRIMARY KEY (room_id, user_id)
+);
+
+-- Join requests table (pending joins to rooms that require approval)
+CREATE TABLE IF NOT EXISTS room_join_requests (
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT room_join_requests_pkey PRIMARY KEY (room_id, user_id)
+);
+
+-- Room invites table (shareable tokens that skip the passcode check)
+CREATE TABLE IF NOT EXISTS room_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ,                     -- NULL = never expires
+  max_uses INTEGER CHECK (max_uses > 0),      -- NULL = unlimited
+  uses INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
 -- Messages table
 CREATE TABLE IF NOT EXISTS messages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
   user_id UUID REFERENCES users(id) ON DELETE SET NULL,         -- NULL for system
   content TEXT NOT NULL,
-  message_type TEXT NOT NULL CHECK (message_type IN ('text','system')),
+  message_type TEXT NOT NULL CHECK (message_type IN ('text','system','attachment','poll','action')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  edited_at TIMESTAMPTZ,                                         -- NULL until first edit
+  deleted_at TIMESTAMPTZ,                                        -- soft delete (tombstone)
+  deleted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reply_to_id UUID REFERENCES messages(id) ON DELETE CASCADE,    -- thread parent, NULL for top-level
+  reply_count INTEGER NOT NULL DEFAULT 0,                        -- replies in this message's thread
+  pinned_at TIMESTAMPTZ,                                         -- NULL unless pinned to the room
+  pinned_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Message mentions table (members a message mentions by name, @here or @room)
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT message_mentions_pkey PRIMARY KEY (message_id, user_id)
+);
+
+-- Attachments table (uploaded files; linked to their message once sent)
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY,                        -- chosen before upload; part of the storage key
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  message_id UUID UNIQUE REFERENCES messages(id) ON DELETE CASCADE,  -- NULL until sent
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,                    -- sniffed from the content
+  size_bytes INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  thumbnail_key TEXT,                         -- images only
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Polls table (one per "poll" message; its content is the question)
+CREATE TABLE IF NOT EXISTS polls (
+  message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  options JSONB NOT NULL,                     -- option texts in order; votes refer to the index
+  multiple_choice BOOLEAN NOT NULL DEFAULT FALSE,
+  anonymous BOOLEAN NOT NULL DEFAULT FALSE,   -- voters are never sent to clients
+  closes_at TIMESTAMPTZ                       -- NULL stays open
+);
+
+-- Poll votes table (one row per chosen option)
+CREATE TABLE IF NOT EXISTS poll_votes (
+  message_id UUID REFERENCES polls(message_id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  option_index INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT poll_votes_pkey PRIMARY KEY (message_id, user_id, option_index)
+);
+
+-- Scheduled messages table (posted by the scheduler once send_at passes)
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  send_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending','sending','sent','failed')),
+  error TEXT,                                 -- why a failed one wasn't posted
+  claimed_at TIMESTAMPTZ,                     -- when an instance took it for sending
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,  -- once sent
   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- Message revisions table (previous versions of edited messages)
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,                      -- content before the edit
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()  -- when it was replaced
+);
+
+-- Message reactions table (one row per user per emoji)
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT message_reactions_pkey PRIMARY KEY (message_id, user_id, emoji)
+);
+
 -- Indexes for better performance
 -- 1) USERS
 -- Authenticate & lookups by email/username
@@ -81,8 +208,47 @@ CREATE INDEX IF NOT EXISTS idx_rm_user_active_joined_desc
 CREATE INDEX IF NOT EXISTS idx_room_memberships_user_id ON room_memberships(user_id);
 CREATE INDEX IF NOT EXISTS idx_room_memberships_room_id ON room_memberships(room_id);
 
+-- Invite list per room, newest first (tokens are looked up via their UNIQUE index)
+CREATE INDEX IF NOT EXISTS idx_room_invites_room_created_desc
+  ON room_invites (room_id, created_at DESC);
+
 -- 4) MESSAGES
 -- Message pagination & latest-first queries within a room, including cursor by created_at
 CREATE INDEX IF NOT EXISTS idx_messages_room_created_desc
   ON messages (room_id, created_at DESC);
 
+-- Thread replies per parent message, newest first
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to_created_desc
+  ON messages (reply_to_id, created_at DESC)
+  WHERE reply_to_id IS NOT NULL;
+
+-- Pinned messages per room, most recently pinned first
+CREATE INDEX IF NOT EXISTS idx_messages_room_pinned_desc
+  ON messages (room_id, pinned_at DESC)
+  WHERE pinned_at IS NOT NULL;
+
+-- Full-text search over message content (searchMessages uses the same expression)
+CREATE INDEX IF NOT EXISTS idx_messages_content_fts
+  ON messages USING GIN (to_tsvector('english', content));
+
+-- Mentions of a user (lookups per message use the primary key)
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user
+  ON message_mentions (user_id);
+
+-- Storage cleanup when a room is deleted
+CREATE INDEX IF NOT EXISTS idx_attachments_room
+  ON attachments (room_id);
+
+-- Due scheduled messages, soonest first (the scheduler's claim query)
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+  ON scheduled_messages (send_at)
+  WHERE status = 'pending';
+
+-- A member's scheduled messages in a room
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_room_user
+  ON scheduled_messages (room_id, user_id);
+
+-- 5) MESSAGE_REVISIONS
+-- Edit history for a message, oldest first
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_created
+  ON message_revisions (message_id, created_at);
@@ -6,7 +6,10 @@ import Redis from "ioredis";
 import { DatabaseService } from "./services/database";
 import { RedisService } from "./services/redis";
 import { AuthService } from "./services/auth";
+import { createStorageDriver } from "./services/storage";
 import { ChatService } from "./services/chat";
+import { CommandService } from "./services/commands";
+import { ScheduledMessageWorker } from "./services/scheduler";
 import { socketHandler } from "./handlers/socket";
 import {
   createAuthMiddleware,
@@ -14,6 +17,7 @@ import {
 } from "./middleware/auth";
 import { createAuthRoutes } from "./routes/auth";
 import { createRoomRoutes } from "./routes/rooms";
+import { createCommandRoutes } from "./routes/commands";
 import { buildApp } from "./app";
 import { logger } from "./utils/logger";
 
@@ -22,6 +26,7 @@ async function startServer() {
   const dbService = new DatabaseService();
   const redisService = new RedisService();
   const authService = new AuthService();
+  const storage = createStorageDriver();
 
   const app = buildApp();
   const server = createServer(app);
@@ -53,7 +58,15 @@ async function startServer() {
   io.adapter(createAdapter(pubClient, subClient));
 
   // Initialize services
-  const chatService = new ChatService(dbService, redisService, authService, io);
+  const chatService = new ChatService(
+    dbService,
+    redisService,
+    authService,
+    io,
+    storage
+  );
+  const commandService = new CommandService(chatService);
+  const scheduledMessageWorker = new ScheduledMessageWorker(chatService);
 
   // Authentication middleware
   const authMiddleware = createAuthMiddleware(authService, dbService);
@@ -61,24 +74,27 @@ async function startServer() {
   // API Routes
   app.use("/api/auth", createAuthRoutes(chatService));
   app.use("/api/rooms", authMiddleware, createRoomRoutes(chatService));
+  app.use("/api/commands", authMiddleware, createCommandRoutes(commandService));
 
   // Socket.IO authentication middleware
   io.use(createSocketAuthMiddleware(authService, dbService));
 
   // Socket.IO connection handling
-  socketHandler(io, chatService);
+  socketHandler(io, chatService, commandService);
 
   const PORT = Number(process.env.PORT) || 8001;
 
   server.listen(PORT, () => {
     logger.info({ port: PORT }, "Server started");
     logger.info("Socket.IO ready");
+    scheduledMessageWorker.start();
   });
 
   // Graceful shutdown
   process.on("SIGTERM", async () => {
     logger.warn("SIGTERM received, shutting down gracefully");
 
+    scheduledMessageWorker.stop();
     await chatService.disconnect();
     await dbService.disconnect();
     await redisService.disconnect();
@@ -1,38 +1,183 @@
 import type { Server } from "socket.io";
+import crypto from "crypto";
 import { DatabaseService } from "./database";
 import { RedisService } from "./redis";
 import { AuthService } from "./auth";
+import { StorageDriver } from "./storage";
 import {
   User,
   Message,
   Room,
   UserPresence,
   CreateRoomRequest,
+  DirectRoomRequest,
   JoinRoomRequest,
   MessagePaginationRequest,
   MessageResponse,
+  MessageRevision,
+  MessageSearchRequest,
+  MessageSearchResponse,
+  MessageContextRequest,
+  MessageContextResponse,
+  EditMessageRequest,
+  ThreadRequest,
+  ReactionRequest,
+  RoomRole,
+  MemberRoleRequest,
+  RemoveMemberRequest,
+  RemovedFromRoomPayload,
+  MuteMemberRequest,
+  MuteUpdatedPayload,
+  UpdateRoomRequest,
+  RoomInvite,
+  JoinRequest,
+  JoinRequestResolvedPayload,
+  RoomDeletedPayload,
+  AddedToRoomPayload,
+  ReadMarkerPayload,
+  MentionPayload,
+  ReadReceipt,
+  ReadReceiptsPayload,
+  CreateInviteRequest,
+  InvitePreview,
+  Attachment,
+  CreatePollRequest,
+  PollVoteRequest,
+  ScheduledMessage,
+  ScheduledMessageRecord,
+  ScheduleMessageRequest,
+  ScheduledMessagesPayload,
   ApiError,
 } from "../utils/types";
 import { logger } from "../utils/logger";
+import { IMAGE_MIME_TYPES, sniffMimeType } from "../utils/mime";
+import { validateContent } from "../utils/content";
 const log = logger.child({ mod: "chat" });
 
+// Direct room names are reserved; group rooms can't use the prefix
+export const DIRECT_ROOM_PREFIX = "dm:";
+
+// Upload limits, also applied to the request body by the routes
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 256 * 1024;
+
+// Socket.IO room holding every socket of one user
+export function userChannel(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Same name whichever participant starts the conversation
+function directRoomName(userId: string, peerId: string): string {
+  return DIRECT_ROOM_PREFIX + [userId, peerId].sort().join(":");
+}
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+// Roles that can be granted through promote/demote; ownership isn't
+const ASSIGNABLE_ROLES: RoomRole[] = ["admin", "moderator", "member"];
+
+export function hasRoleAtLeast(
+  role: RoomRole | null | undefined,
+  min: RoomRole
+): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[min];
+}
+
+function withArticle(role: RoomRole): string {
+  return `${role === "admin" || role === "owner" ? "an" : "a"} ${role}`;
+}
+
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+
+// "10 minutes", "2 hours", "1 day"
+function formatMinutes(minutes: number): string {
+  const [amount, unit] =
+    minutes % 1440 === 0
+      ? [minutes / 1440, "day"]
+      : minutes % 60 === 0
+      ? [minutes / 60, "hour"]
+      : [minutes, "minute"];
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+const INVITE_TOKEN_BYTES = 16; // 22 URL-safe characters
+const INVALID_INVITE_MESSAGE = "This invite link is invalid or has expired";
+
+const ARCHIVED_ERROR: ApiError = {
+  message: "This room is archived and read-only",
+  code: "ROOM_ARCHIVED",
+};
+
+// @name, or @here (members online now) and @room (every member). Names end
+// on a word character so "@bob." mentions bob.
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+// Lowercased names mentioned in content, each once
+function extractMentions(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    names.add(match[1].toLowerCase());
+  }
+  return [...names];
+}
+
+const MAX_EMOJI_LENGTH = 16;
+const MAX_CONTEXT_LIMIT = 100; // messages on each side of a context window
+const MAX_PINNED_MESSAGES = 50;
+const MAX_FILENAME_LENGTH = 255;
+const MAX_POLL_QUESTION_LENGTH = 300;
+const MAX_POLL_OPTION_LENGTH = 100;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 10;
+const MAX_POLL_DAYS = 30;
+const MAX_SCHEDULE_DAYS = 30;
+const MAX_SCHEDULED_PER_ROOM = 25; // unsent, per member
+
+// Last path segment of an uploaded file's name, without control characters
+function cleanFilename(name: string): string {
+  const base = (name.split(/[\\/]/).pop() ?? "").replace(/\p{Cc}/gu, "");
+  return base.trim().slice(0, MAX_FILENAME_LENGTH) || "file";
+}
+
+// Mark which reactions belong to the viewer. Returns copies so cached
+// messages (shared by every viewer) are never modified.
+function withViewerReactions(messages: Message[], viewerId?: string) {
+  if (!viewerId) return messages;
+
+  return messages.map((message) => ({
+    ...message,
+    reactions: (message.reactions ?? []).map((reaction) => ({
+      ...reaction,
+      reactedByMe: reaction.userIds.includes(viewerId),
+    })),
+  }));
+}
+
 export class ChatService {
   dbService: DatabaseService;
   private redisService: RedisService;
   authService: AuthService;
   private io: Server;
+  private storage: StorageDriver;
   private heartbeatInterval: NodeJS.Timeout;
 
   constructor(
     dbService: DatabaseService,
     redisService: RedisService,
     authService: AuthService,
-    io: Server
+    io: Server,
+    storage: StorageDriver
   ) {
     this.dbService = dbService;
     this.redisService = redisService;
     this.authService = authService;
     this.io = io;
+    this.storage = storage;
 
     // Start heartbeat cleanup process
     this.heartbeatInterval = setInterval(async () => {
@@ -87,7 +232,79 @@ export class ChatService {
 
   async getUserRooms(userId: string): Promise<Room[]> {
     log.debug("getUserRooms");
-    return await this.dbService.getUserRooms(userId);
+    const rooms = await this.dbService.getUserRooms(userId);
+    return await Promise.all(rooms.map((room) => this.withPeerPresence(room)));
+  }
+
+  // Fill in the other participant's presence for a direct room
+  private async withPeerPresence(room: Room): Promise<Room> {
+    if (!room.peer) return room;
+
+    const presence = await this.redisService.getUserPresence(room.peer.userId);
+    return {
+      ...room,
+      peer: {
+        ...room.peer,
+        status: presence?.status ?? "offline",
+        lastSeen: presence?.lastSeen,
+      },
+    };
+  }
+
+  // Open (or reopen) the direct room between two users
+  async startDirectMessage(
+    userId: string,
+    request: DirectRoomRequest
+  ): Promise<{ success: boolean; room?: Room; error?: ApiError }> {
+    log.debug("startDirectMessage");
+    const peerId = request.userId;
+
+    if (peerId === userId) {
+      return {
+        success: false,
+        error: {
+          message: "You cannot message yourself",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const [user, peer] = await Promise.all([
+      this.dbService.getUserById(userId),
+      this.dbService.getUserById(peerId),
+    ]);
+    if (!user || !peer) {
+      return {
+        success: false,
+        error: { message: "User not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const { room } = await this.dbService.getOrCreateDirectRoom(
+      directRoomName(userId, peerId),
+      userId,
+      peerId
+    );
+
+    await this.redisService.addUserToRoom(userId, room.id);
+    await this.redisService.addUserToRoom(peerId, room.id);
+
+    // Bring the peer's open sockets into the room and list it for them
+    this.io.in(userChannel(peerId)).socketsJoin(room.id);
+    this.io.to(userChannel(peerId)).emit("direct_room", {
+      room: await this.withPeerPresence({
+        ...room,
+        peer: { userId, username: user.username, status: "offline" },
+      }),
+    });
+
+    return {
+      success: true,
+      room: await this.withPeerPresence({
+        ...room,
+        peer: { userId: peerId, username: peer.username, status: "offline" },
+      }),
+    };
   }
 
   async getUserRoomIds(userId: string): Promise<string[]> {
@@ -110,15 +327,129 @@ export class ChatService {
       request.description,
       request.isPrivate,
       request.passcode,
+      // Private rooms are gated by their passcode instead
+      !request.isPrivate && !!request.requiresApproval,
       createdBy
     );
 
-    // Auto-join creator to the room
-    await this.dbService.addUserToRoom(createdBy, room.id);
+    // Auto-join creator to the room as its owner
+    await this.dbService.addUserToRoom(createdBy, room.id, "owner");
 
     // Add user to room in Redis
     await this.redisService.addUserToRoom(createdBy, room.id);
-    return { ...room, memberCount: 1 };
+    return { ...room, memberCount: 1, myRole: "owner" };
+  }
+
+  // Change a room's settings (owners and admins). Private rooms always keep
+  // a passcode, so going public drops it and going private needs a new one.
+  async updateRoom(
+    actorId: string,
+    roomId: string,
+    request: UpdateRoomRequest
+  ): Promise<{ success: boolean; room?: Room; error?: ApiError }> {
+    log.debug("updateRoom");
+    const room = await this.dbService.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+
+    if (room.kind === "direct") {
+      return {
+        success: false,
+        error: {
+          message: "Direct messages have no settings",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (room.archivedAt) {
+      return { success: false, error: ARCHIVED_ERROR };
+    }
+
+    const actorRole = await this.dbService.getMemberRole(actorId, roomId);
+    if (!hasRoleAtLeast(actorRole, "admin")) {
+      return {
+        success: false,
+        error: {
+          message: "Only owners and admins can change room settings",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    const changes: UpdateRoomRequest = {
+      name: request.name,
+      description: request.description,
+      isPrivate: request.isPrivate,
+      passcode: request.passcode,
+      requiresApproval: request.requiresApproval,
+      readReceipts: request.readReceipts,
+    };
+    const isPrivate = request.isPrivate ?? room.isPrivate;
+
+    if (isPrivate && request.requiresApproval) {
+      return {
+        success: false,
+        error: {
+          message: "Private rooms use a passcode instead of approval",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+    if (isPrivate && room.requiresApproval) {
+      changes.requiresApproval = false;
+    }
+
+    if (!isPrivate) {
+      // Public rooms don't check passcodes; don't keep a stale one around
+      changes.passcode = room.isPrivate ? null : undefined;
+    } else if (
+      request.passcode === null ||
+      (!room.isPrivate && !request.passcode)
+    ) {
+      return {
+        success: false,
+        error: {
+          message: "Passcode is required for private rooms",
+          code: "PASSCODE_REQUIRED",
+        },
+      };
+    }
+
+    const updated = await this.dbService.updateRoom(roomId, changes);
+    if (!updated) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+
+    // Waiting requesters can now join directly (or with the passcode)
+    if (room.requiresApproval && !updated.requiresApproval) {
+      await this.dbService.deleteRoomJoinRequests(roomId);
+    }
+
+    // Members who haven't opened the room this session still list it, so
+    // reach them through their personal channels
+    const members = await this.dbService.getRoomMembers(roomId);
+    this.io
+      .to(members.map((member) => userChannel(member.id)))
+      .emit("room_updated", { room: updated });
+
+    // Receipts weren't sent while off; catch open rooms up in one go
+    if (!room.readReceipts && updated.readReceipts) {
+      const payload: ReadReceiptsPayload = {
+        roomId,
+        receipts: await this.dbService.getReadReceipts(roomId),
+      };
+      this.io.to(roomId).emit("read_receipts", payload);
+    }
+
+    return { success: true, room: updated };
   }
 
   async joinRoom(
@@ -131,7 +462,19 @@ export class ChatService {
     error?: ApiError;
   }> {
     log.debug("joinRoom");
-    const room = await this.dbService.getRoomByName(request.roomId);
+    let room: Room | null = null;
+    if (request.inviteToken) {
+      const invite = await this.dbService.getUsableInvite(request.inviteToken);
+      if (!invite) {
+        return {
+          success: false,
+          error: { message: INVALID_INVITE_MESSAGE, code: "INVALID_INVITE" },
+        };
+      }
+      room = await this.dbService.getRoomById(invite.roomId);
+    } else if (request.roomId) {
+      room = await this.dbService.getRoomByName(request.roomId);
+    }
     if (!room) {
       return {
         success: false,
@@ -139,14 +482,87 @@ export class ChatService {
       };
     }
 
+    // Direct rooms are only reachable by their two participants
+    if (room.kind === "direct" && !room.name.split(":").includes(userId)) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const ban = await this.dbService.getActiveBan(room.id, userId);
+    if (ban) {
+      const until = ban.expiresAt
+        ? ` until ${new Date(ban.expiresAt).toUTCString()}`
+        : "";
+      return {
+        success: false,
+        error: {
+          message: `You are banned from this room${until}${
+            ban.reason ? `: ${ban.reason}` : ""
+          }`,
+          code: "BANNED",
+        },
+      };
+    }
+
     const alreadyJoined = await this.dbService.isUserInRoom(userId, room.id);
 
     if (alreadyJoined) {
-      return { success: true, alreadyJoined, room };
+      const myRole = await this.dbService.getMemberRole(userId, room.id);
+      return {
+        success: true,
+        alreadyJoined,
+        room: { ...room, myRole: myRole ?? undefined },
+      };
+    }
+
+    // Members can still read an archived room, but nobody new gets in
+    if (room.archivedAt) {
+      return { success: false, alreadyJoined, error: ARCHIVED_ERROR };
     }
 
-    // Check if room is private and validate passcode
-    if (room.isPrivate) {
+    if (request.inviteToken) {
+      // Only count a use once the user actually joins
+      const redeemed = await this.dbService.redeemInvite(request.inviteToken);
+      if (!redeemed) {
+        return {
+          success: false,
+          alreadyJoined,
+          error: { message: INVALID_INVITE_MESSAGE, code: "INVALID_INVITE" },
+        };
+      }
+      // The invite stands in for an admin's approval
+      if (room.requiresApproval) {
+        await this.dbService.deleteJoinRequest(room.id, userId);
+      }
+    } else if (room.requiresApproval) {
+      const joinRequest = await this.dbService.createJoinRequest(
+        room.id,
+        userId
+      );
+      if (!joinRequest) {
+        return {
+          success: false,
+          alreadyJoined,
+          error: {
+            message: "Your request to join is waiting for approval",
+            code: "JOIN_REQUEST_PENDING",
+          },
+        };
+      }
+
+      await this.notifyRoomAdmins(room.id, "join_request", joinRequest);
+      return {
+        success: false,
+        alreadyJoined,
+        error: {
+          message: "Request sent. You'll be let in once an admin approves it",
+          code: "JOIN_REQUEST_SENT",
+        },
+      };
+    } else if (room.isPrivate) {
+      // Check if room is private and validate passcode
       if (!request.passcode) {
         return {
           success: false,
@@ -172,115 +588,2214 @@ export class ChatService {
     }
 
     // Add user to room in database
-    await this.dbService.addUserToRoom(userId, room.id);
+    const membership = await this.dbService.addUserToRoom(userId, room.id);
 
     // Add user to room in Redis
     await this.redisService.addUserToRoom(userId, room.id);
 
-    return { success: true, alreadyJoined, room };
+    return {
+      success: true,
+      alreadyJoined,
+      room: { ...room, myRole: membership.role },
+    };
   }
 
-  async leaveRoom(userId: string, roomId: string): Promise<void> {
-    log.debug("leaveRoom");
+  // Invites and join requests are managed by owners and admins of group rooms
+  private async checkRoomAdmin(
+    actorId: string,
+    roomId: string,
+    action: string
+  ): Promise<{ room?: Room; error?: ApiError }> {
     const room = await this.dbService.getRoomById(roomId);
+    if (!room) {
+      return { error: { message: "Room not found", code: "NOT_FOUND" } };
+    }
 
-    // Remove from database & Redis
-    if (room) {
-      await this.dbService.removeUserFromRoom(userId, room.id);
-      await this.redisService.removeUserFromRoom(userId, roomId);
+    if (room.kind === "direct") {
+      return {
+        error: {
+          message: `Direct messages can't ${action}`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (room.archivedAt) {
+      return { error: ARCHIVED_ERROR };
+    }
+
+    const actorRole = await this.dbService.getMemberRole(actorId, roomId);
+    if (!hasRoleAtLeast(actorRole, "admin")) {
+      return {
+        error: {
+          message: `Only owners and admins can ${action}`,
+          code: "FORBIDDEN",
+        },
+      };
     }
+
+    return { room };
   }
 
-  // Hybrid message storage methods
-  async createMessage(
+  // Archiving, deleting and handing the room on are reserved for its owner
+  private async checkRoomOwner(
+    actorId: string,
     roomId: string,
-    userId: string,
-    content: string,
-    messageType: "text" | "system" = "text"
-  ): Promise<Message> {
-    log.debug("createMessage");
-    // Store in PostgreSQL first (persistent storage)
-    const message = await this.dbService.storeMessage(
+    verb: "archive" | "delete" | "transfer"
+  ): Promise<{ room?: Room; error?: ApiError }> {
+    const room = await this.dbService.getRoomById(roomId);
+    if (!room) {
+      return { error: { message: "Room not found", code: "NOT_FOUND" } };
+    }
+
+    if (room.kind === "direct") {
+      return {
+        error: {
+          message: "Direct messages have no owner",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const actorRole = await this.dbService.getMemberRole(actorId, roomId);
+    if (actorRole !== "owner") {
+      return {
+        error: {
+          message: `Only the owner can ${verb} this room`,
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    return { room };
+  }
+
+  // History stays readable; members are moved out of the live Socket.IO
+  // room since nothing new can happen in it
+  async archiveRoom(
+    actorId: string,
+    roomId: string
+  ): Promise<{ success: boolean; room?: Room; error?: ApiError }> {
+    log.debug("archiveRoom");
+    const { room, error } = await this.checkRoomOwner(
+      actorId,
       roomId,
-      userId,
-      content,
-      messageType
+      "archive"
     );
+    if (error) return { success: false, error };
+    if (room!.archivedAt) return { success: false, error: ARCHIVED_ERROR };
 
-    // Store in Redis cache for fast access
-    await this.redisService.storeMessageInCache(roomId, message);
+    const actor = await this.dbService.getUserById(actorId);
+    await this.createMessage(
+      roomId,
+      actorId,
+      `${actor?.username ?? "The owner"} archived the room`,
+      "system"
+    );
 
-    // Emit to room
-    this.io.to(roomId).emit("room_update", { type: "new_message", message });
+    const archived = await this.dbService.archiveRoom(roomId);
+    if (!archived) return { success: false, error: ARCHIVED_ERROR };
 
-    return message;
+    const members = await this.dbService.getRoomMembers(roomId);
+    this.io
+      .to(members.map((member) => userChannel(member.id)))
+      .emit("room_updated", { room: archived });
+    this.io.in(roomId).socketsLeave(roomId);
+
+    return { success: true, room: archived };
   }
 
-  // Hybrid message retrieval - Redis first, fallback to PostgreSQL
-  async getRecentMessages(
-    roomId: string,
-    limit: number = 50
-  ): Promise<Message[]> {
-    log.debug("getRecentMessages");
-    try {
-      // Try to get from Redis cache first
-      const cachedMessages = await this.redisService.getRecentMessagesFromCache(
-        roomId,
-        limit
-      );
+  async deleteRoom(
+    actorId: string,
+    roomId: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("deleteRoom");
+    const { room, error } = await this.checkRoomOwner(
+      actorId,
+      roomId,
+      "delete"
+    );
+    if (error) return { success: false, error };
 
-      if (cachedMessages.length > 0) {
-        // If we have enough messages in cache, return them
-        if (cachedMessages.length >= limit) {
-          return cachedMessages.slice(0, limit);
-        }
+    // Members and attachments are gone from the database once the room is
+    const members = await this.dbService.getRoomMembers(roomId);
+    const storageKeys = await this.dbService.getRoomStorageKeys(roomId);
 
-        // If we have some but not enough, get the rest from DB
-        const remainingLimit = limit - cachedMessages.length;
-        const oldestCachedMessage = cachedMessages[0];
+    const deleted = await this.dbService.deleteRoom(roomId);
+    if (!deleted) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+    await this.redisService.deleteRoom(roomId);
 
-        const dbResult = await this.dbService.getMessagesFromDB(
-          roomId,
-          remainingLimit,
-          oldestCachedMessage.id
-        );
+    const payload: RoomDeletedPayload = { roomId, roomName: room!.name };
+    this.io
+      .to(members.map((member) => userChannel(member.id)))
+      .emit("room_deleted", payload);
+    this.io.in(roomId).socketsLeave(roomId);
 
-        // Combine messages: DB messages (older) + cached messages (newer)
-        return [...dbResult.messages, ...cachedMessages];
-      }
+    await this.deleteStoredObjects(storageKeys);
 
-      // No cached messages, get from database and populate cache
-      const dbMessages = await this.dbService.getRecentMessagesFromDB(
-        roomId,
-        limit
-      );
+    return { success: true };
+  }
 
-      // dbMessages is chronological (oldest -> newest)
-      for (let i = 0; i < dbMessages.length; i++) {
-        await this.redisService.storeMessageInCache(roomId, dbMessages[i]); // LPUSH
-      }
+  // Archived rooms keep their history but take no new activity
+  async checkWritable(roomId: string): Promise<ApiError | null> {
+    return (await this.dbService.isRoomArchived(roomId))
+      ? ARCHIVED_ERROR
+      : null;
+  }
 
-      return dbMessages;
-    } catch (error) {
-      log.error(error, "Error getting recent messages");
+  // Removed and banned users keep their socket, so anything they post to or
+  // read from a room is checked against the membership itself
+  private async checkMember(
+    userId: string,
+    roomId: string
+  ): Promise<ApiError | null> {
+    return (await this.dbService.isUserInRoom(userId, roomId))
+      ? null
+      : { message: "Not a member of this room", code: "FORBIDDEN" };
+  }
 
-      // Fallback to database only
-      return await this.dbService.getRecentMessagesFromDB(roomId, limit);
+  // What posting asks of a member, also asked of edits and deletes: still in
+  // the room, the room not archived, and not muted in it
+  private async checkCanPost(
+    userId: string,
+    roomId: string
+  ): Promise<ApiError | null> {
+    const notMember = await this.checkMember(userId, roomId);
+    if (notMember) return notMember;
+
+    const readOnly = await this.checkWritable(roomId);
+    if (readOnly) return readOnly;
+
+    return (await this.getMuteExpiry(roomId, userId))
+      ? { message: "You are muted in this room", code: "MUTED" }
+      : null;
+  }
+
+  // Admins may not have the room open, so reach them on their own channels
+  private async notifyRoomAdmins(
+    roomId: string,
+    event: string,
+    payload: unknown
+  ): Promise<void> {
+    const roles = await this.dbService.getRoomRoles(roomId);
+    const adminIds = Object.keys(roles).filter((id) =>
+      hasRoleAtLeast(roles[id], "admin")
+    );
+    if (adminIds.length > 0) {
+      this.io.to(adminIds.map(userChannel)).emit(event, payload);
     }
   }
 
-  // Paginated message retrieval for loading older messages (need to check logic)
-  async getMessages(
-    request: MessagePaginationRequest
-  ): Promise<MessageResponse> {
-    log.debug("getMessages");
-    const { roomId, limit = 50, before } = request;
+  async getJoinRequests(
+    actorId: string,
+    roomId: string
+  ): Promise<{ success: boolean; requests?: JoinRequest[]; error?: ApiError }> {
+    log.debug("getJoinRequests");
+    const { error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "review join requests"
+    );
+    if (error) return { success: false, error };
 
-    if (!before) {
-      // First page - get recent messages (hybrid approach)
-      const messages = await this.getRecentMessages(roomId, limit);
+    const requests = await this.dbService.getJoinRequests(roomId);
+    return { success: true, requests };
+  }
 
-      // Check if there are more messages in DB
+  // Approving adds the membership; the requester's client then joins the
+  // socket room, which announces them like any other join
+  async resolveJoinRequest(
+    actorId: string,
+    roomId: string,
+    userId: string,
+    approve: boolean
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("resolveJoinRequest");
+    const { room, error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "review join requests"
+    );
+    if (error) return { success: false, error };
+
+    const deleted = await this.dbService.deleteJoinRequest(roomId, userId);
+    if (!deleted) {
+      return {
+        success: false,
+        error: { message: "Join request not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const payload: JoinRequestResolvedPayload = {
+      roomId,
+      roomName: room!.name,
+      userId,
+      approved: false,
+    };
+
+    // A ban issued while the request waited still applies
+    const banned =
+      approve && !!(await this.dbService.getActiveBan(roomId, userId));
+    if (approve && !banned) {
+      const membership = await this.dbService.addUserToRoom(userId, roomId);
+      await this.redisService.addUserToRoom(userId, roomId);
+      payload.approved = true;
+      this.io.to(userChannel(userId)).emit("join_request_resolved", {
+        ...payload,
+        room: {
+          ...room!,
+          memberCount: (room!.memberCount ?? 0) + 1,
+          myRole: membership.role,
+        },
+      });
+    } else {
+      this.io.to(userChannel(userId)).emit("join_request_resolved", payload);
+    }
+
+    // Keep every admin's pending list in step
+    await this.notifyRoomAdmins(roomId, "join_request_resolved", payload);
+
+    if (banned) {
+      return {
+        success: false,
+        error: { message: "This user is banned from the room", code: "BANNED" },
+      };
+    }
+    return { success: true };
+  }
+
+  // Admins can bring someone in directly, skipping passcode and approval
+  async addMember(
+    actorId: string,
+    roomId: string,
+    username: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("addMember");
+    const { room, error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "add members"
+    );
+    if (error) return { success: false, error };
+
+    const [actor, target] = await Promise.all([
+      this.dbService.getUserById(actorId),
+      this.dbService.getUserByUsername(username),
+    ]);
+    if (!actor || !target) {
+      return {
+        success: false,
+        error: { message: `No user named ${username}`, code: "NOT_FOUND" },
+      };
+    }
+
+    if (await this.dbService.isUserInRoom(target.id, roomId)) {
+      return {
+        success: false,
+        error: {
+          message: `${target.username} is already a member`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (await this.dbService.getActiveBan(roomId, target.id)) {
+      return {
+        success: false,
+        error: { message: "This user is banned from the room", code: "BANNED" },
+      };
+    }
+
+    const membership = await this.dbService.addUserToRoom(target.id, roomId);
+    await this.redisService.addUserToRoom(target.id, roomId);
+    if (room!.requiresApproval) {
+      await this.dbService.deleteJoinRequest(roomId, target.id);
+    }
+
+    // Bring their open sockets in and list the room for them
+    this.io.in(userChannel(target.id)).socketsJoin(roomId);
+    const payload: AddedToRoomPayload = {
+      room: {
+        ...room!,
+        memberCount: (room!.memberCount ?? 0) + 1,
+        myRole: membership.role,
+      },
+      addedBy: actor.username,
+    };
+    this.io.to(userChannel(target.id)).emit("added_to_room", payload);
+
+    await this.createMessage(
+      roomId,
+      actorId,
+      `${target.username} was added by ${actor.username}`,
+      "system"
+    );
+
+    return { success: true };
+  }
+
+  async createInvite(
+    actorId: string,
+    roomId: string,
+    request: CreateInviteRequest
+  ): Promise<{ success: boolean; invite?: RoomInvite; error?: ApiError }> {
+    log.debug("createInvite");
+    const { error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "manage invites"
+    );
+    if (error) return { success: false, error };
+
+    const expiresAt = request.expiresInMinutes
+      ? new Date(Date.now() + request.expiresInMinutes * 60_000).toISOString()
+      : undefined;
+    const token = crypto.randomBytes(INVITE_TOKEN_BYTES).toString("base64url");
+
+    const invite = await this.dbService.createInvite(
+      roomId,
+      token,
+      actorId,
+      expiresAt,
+      request.maxUses
+    );
+    return { success: true, invite };
+  }
+
+  async getRoomInvites(
+    actorId: string,
+    roomId: string
+  ): Promise<{ success: boolean; invites?: RoomInvite[]; error?: ApiError }> {
+    log.debug("getRoomInvites");
+    const { error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "manage invites"
+    );
+    if (error) return { success: false, error };
+
+    const invites = await this.dbService.getRoomInvites(roomId);
+    return { success: true, invites };
+  }
+
+  async revokeInvite(
+    actorId: string,
+    roomId: string,
+    inviteId: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("revokeInvite");
+    const { error } = await this.checkRoomAdmin(
+      actorId,
+      roomId,
+      "manage invites"
+    );
+    if (error) return { success: false, error };
+
+    const revoked = await this.dbService.revokeInvite(roomId, inviteId);
+    if (!revoked) {
+      return {
+        success: false,
+        error: { message: "Invite not found", code: "NOT_FOUND" },
+      };
+    }
+    return { success: true };
+  }
+
+  // What an invite link leads to, shown before the user decides to join
+  async getInvitePreview(
+    token: string
+  ): Promise<{ success: boolean; preview?: InvitePreview; error?: ApiError }> {
+    log.debug("getInvitePreview");
+    const invite = await this.dbService.getUsableInvite(token);
+    const room = invite && (await this.dbService.getRoomById(invite.roomId));
+    if (!room) {
+      return {
+        success: false,
+        error: { message: INVALID_INVITE_MESSAGE, code: "INVALID_INVITE" },
+      };
+    }
+
+    return {
+      success: true,
+      preview: {
+        roomName: room.name,
+        description: room.description,
+        memberCount: room.memberCount ?? 0,
+        isPrivate: room.isPrivate,
+      },
+    };
+  }
+
+  async getRoomRoles(roomId: string): Promise<Record<string, RoomRole>> {
+    log.debug("getRoomRoles");
+    return await this.dbService.getRoomRoles(roomId);
+  }
+
+  // Promote or demote a member. The actor must be an admin or the owner and
+  // outrank both the member's current role and the role being granted.
+  async setMemberRole(
+    actorId: string,
+    roomId: string,
+    targetId: string,
+    request: MemberRoleRequest
+  ): Promise<{ success: boolean; role?: RoomRole; error?: ApiError }> {
+    log.debug("setMemberRole");
+    if (!ASSIGNABLE_ROLES.includes(request.role)) {
+      return {
+        success: false,
+        error: {
+          message: `Role must be one of: ${ASSIGNABLE_ROLES.join(", ")}`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const room = await this.dbService.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+
+    if (room.kind === "direct") {
+      return {
+        success: false,
+        error: {
+          message: "Direct messages have no roles",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (room.archivedAt) {
+      return { success: false, error: ARCHIVED_ERROR };
+    }
+
+    const actorRole = await this.dbService.getMemberRole(actorId, roomId);
+    if (!hasRoleAtLeast(actorRole, "admin")) {
+      return {
+        success: false,
+        error: {
+          message: "Only owners and admins can change roles",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    if (targetId === actorId) {
+      return {
+        success: false,
+        error: {
+          message: "You cannot change your own role",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    const targetRole = await this.dbService.getMemberRole(targetId, roomId);
+    if (!targetRole) {
+      return {
+        success: false,
+        error: { message: "Member not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const actorRank = ROLE_RANK[actorRole!];
+    if (
+      actorRank <= ROLE_RANK[targetRole] ||
+      actorRank <= ROLE_RANK[request.role]
+    ) {
+      return {
+        success: false,
+        error: {
+          message: "You can only manage members below your own role",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    if (targetRole === request.role) {
+      return { success: true, role: targetRole };
+    }
+
+    await this.dbService.setMemberRole(targetId, roomId, request.role);
+    this.emitRoleUpdated(roomId, targetId, request.role);
+
+    const target = await this.dbService.getUserById(targetId);
+    if (target) {
+      await this.createMessage(
+        roomId,
+        targetId,
+        request.role === "member"
+          ? `${target.username} is no longer ${withArticle(targetRole)}`
+          : `${target.username} is now ${withArticle(request.role)}`,
+        "system"
+      );
+    }
+
+    return { success: true, role: request.role };
+  }
+
+  // The member's own channel also hears it, so their room list stays right
+  // while the room isn't open (or after archiving emptied the live room)
+  private emitRoleUpdated(roomId: string, userId: string, role: RoomRole) {
+    this.io.to([roomId, userChannel(userId)]).emit("room_update", {
+      type: "role_updated",
+      roomId,
+      userId,
+      role,
+    });
+  }
+
+  // Hand the room to another active member; the old owner stays on as admin
+  async transferOwnership(
+    actorId: string,
+    roomId: string,
+    targetId: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("transferOwnership");
+    const { room, error } = await this.checkRoomOwner(
+      actorId,
+      roomId,
+      "transfer"
+    );
+    if (error) return { success: false, error };
+
+    if (targetId === actorId) {
+      return {
+        success: false,
+        error: {
+          message: "You already own this room",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const transferred = await this.dbService.transferOwnership(
+      roomId,
+      actorId,
+      targetId
+    );
+    if (!transferred) {
+      return {
+        success: false,
+        error: { message: "Member not found", code: "NOT_FOUND" },
+      };
+    }
+
+    this.emitRoleUpdated(roomId, targetId, "owner");
+    this.emitRoleUpdated(roomId, actorId, "admin");
+
+    if (!room!.archivedAt) {
+      const [actor, target] = await Promise.all([
+        this.dbService.getUserById(actorId),
+        this.dbService.getUserById(targetId),
+      ]);
+      await this.createMessage(
+        roomId,
+        actorId,
+        `${actor?.username ?? "The owner"} transferred ownership to ${
+          target?.username ?? "another member"
+        }`,
+        "system"
+      );
+    }
+
+    return { success: true };
+  }
+
+  // Promote the longest-standing admin, else the longest-standing member,
+  // once the owner is on their way out. Nothing happens in an empty room.
+  private async passOwnership(room: Room, formerOwnerId: string) {
+    const successor = await this.dbService.getOwnershipSuccessor(
+      room.id,
+      formerOwnerId
+    );
+    if (!successor) return;
+
+    await this.dbService.setMemberRole(successor.id, room.id, "owner");
+    this.emitRoleUpdated(room.id, successor.id, "owner");
+
+    if (!room.archivedAt) {
+      await this.createMessage(
+        room.id,
+        successor.id,
+        `${successor.username} is now the owner`,
+        "system"
+      );
+    }
+  }
+
+  // Shared checks for kick/ban/mute: moderators and up may act on members
+  // strictly below their own role, never on themselves or in direct rooms.
+  // `verb` completes "You cannot ... yourself" style messages.
+  private async checkModeration(
+    actorId: string,
+    roomId: string,
+    targetId: string,
+    verb: string,
+    allowFormerMember = false
+  ): Promise<
+    | { error: ApiError }
+    | {
+        error?: undefined;
+        room: Room;
+        actor: User;
+        target: User;
+        targetRole: RoomRole | null;
+      }
+  > {
+    const room = await this.dbService.getRoomById(roomId);
+    if (!room) {
+      return { error: { message: "Room not found", code: "NOT_FOUND" } };
+    }
+
+    if (room.kind === "direct") {
+      return {
+        error: {
+          message: `Members can't be ${verb}d in direct messages`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (room.archivedAt) {
+      return { error: ARCHIVED_ERROR };
+    }
+
+    if (targetId === actorId) {
+      return {
+        error: {
+          message: `You cannot ${verb} yourself`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const actorRole = await this.dbService.getMemberRole(actorId, roomId);
+    if (!hasRoleAtLeast(actorRole, "moderator")) {
+      return {
+        error: {
+          message: `Only moderators and up can ${verb} members`,
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    const [actor, target, targetRole] = await Promise.all([
+      this.dbService.getUserById(actorId),
+      this.dbService.getUserById(targetId),
+      this.dbService.getMemberRole(targetId, roomId),
+    ]);
+    if (!actor || !target || (!targetRole && !allowFormerMember)) {
+      return { error: { message: "Member not found", code: "NOT_FOUND" } };
+    }
+
+    if (hasRoleAtLeast(targetRole ?? "member", actorRole!)) {
+      return {
+        error: {
+          message: `You can only ${verb} members below your own role`,
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    return { room, actor, target, targetRole };
+  }
+
+  // Kick or ban a member. A ban also keeps the user from rejoining until it
+  // expires, and can be placed on someone who already left.
+  async removeMember(
+    actorId: string,
+    roomId: string,
+    targetId: string,
+    request: RemoveMemberRequest
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("removeMember");
+    const check = await this.checkModeration(
+      actorId,
+      roomId,
+      targetId,
+      request.ban ? "ban" : "remove",
+      request.ban
+    );
+    if (check.error) {
+      return { success: false, error: check.error };
+    }
+    const { room, actor, target, targetRole } = check;
+
+    if (request.ban) {
+      await this.dbService.banUser(
+        roomId,
+        targetId,
+        actorId,
+        request.reason,
+        request.expiresAt
+      );
+    }
+
+    if (targetRole) {
+      await this.dbService.removeUserFromRoom(targetId, roomId);
+      await this.redisService.removeUserFromRoom(targetId, roomId);
+
+      // The adapter forwards this to every instance holding one of their sockets
+      this.io.in(userChannel(targetId)).socketsLeave(roomId);
+
+      const payload: RemovedFromRoomPayload = {
+        roomId,
+        roomName: room.name,
+        banned: request.ban,
+        reason: request.reason,
+        expiresAt: request.expiresAt,
+      };
+      this.io.to(userChannel(targetId)).emit("removed_from_room", payload);
+
+      this.io.to(roomId).emit("room_update", {
+        type: "user_left",
+        roomId,
+        presences: await this.getRoomPresences(roomId),
+      });
+    }
+
+    await this.createMessage(
+      roomId,
+      actorId,
+      `${target.username} was ${request.ban ? "banned" : "removed"} by ${
+        actor.username
+      }${request.reason ? `: ${request.reason}` : ""}`,
+      "system"
+    );
+
+    return { success: true };
+  }
+
+  // Expiry of the user's mute in a room, null if they may speak. Redis is
+  // checked first; on a miss the Postgres copy refills it (e.g. after a
+  // flush), including a short-lived "not muted" so sends and keystrokes
+  // from members who may speak stay off Postgres.
+  async getMuteExpiry(roomId: string, userId: string): Promise<string | null> {
+    log.debug("getMuteExpiry");
+    const cached = await this.redisService.getMute(roomId, userId);
+    if (cached !== undefined) return cached;
+
+    const expiresAt = await this.dbService.getActiveMute(roomId, userId);
+    if (expiresAt) {
+      await this.redisService.setMute(roomId, userId, expiresAt);
+    } else {
+      await this.redisService.setNotMuted(roomId, userId);
+    }
+    return expiresAt;
+  }
+
+  // Silence a member for a while without removing them
+  async muteMember(
+    actorId: string,
+    roomId: string,
+    targetId: string,
+    request: MuteMemberRequest
+  ): Promise<{ success: boolean; expiresAt?: string; error?: ApiError }> {
+    log.debug("muteMember");
+    const minutes = request.durationMinutes;
+    if (
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > MAX_MUTE_MINUTES
+    ) {
+      return {
+        success: false,
+        error: {
+          message: `Mute duration must be between 1 and ${MAX_MUTE_MINUTES} minutes`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const check = await this.checkModeration(actorId, roomId, targetId, "mute");
+    if (check.error) {
+      return { success: false, error: check.error };
+    }
+    const { actor, target } = check;
+
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    await this.dbService.muteUser(roomId, targetId, actorId, expiresAt);
+    await this.redisService.setMute(roomId, targetId, expiresAt);
+
+    const payload: MuteUpdatedPayload = { roomId, expiresAt };
+    this.io.to(userChannel(targetId)).emit("mute_updated", payload);
+    this.sendEphemeral(
+      targetId,
+      roomId,
+      `${actor.username} muted you until ${new Date(
+        expiresAt
+      ).toUTCString()}. You can still read the room.`
+    );
+
+    await this.createMessage(
+      roomId,
+      actorId,
+      `${target.username} was muted for ${formatMinutes(minutes)} by ${
+        actor.username
+      }`,
+      "system"
+    );
+
+    return { success: true, expiresAt };
+  }
+
+  async unmuteMember(
+    actorId: string,
+    roomId: string,
+    targetId: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("unmuteMember");
+    const check = await this.checkModeration(
+      actorId,
+      roomId,
+      targetId,
+      "unmute"
+    );
+    if (check.error) {
+      return { success: false, error: check.error };
+    }
+
+    if (!(await this.getMuteExpiry(roomId, targetId))) {
+      return { success: true };
+    }
+
+    await this.dbService.unmuteUser(roomId, targetId);
+    await this.redisService.clearMute(roomId, targetId);
+
+    const payload: MuteUpdatedPayload = { roomId };
+    this.io.to(userChannel(targetId)).emit("mute_updated", payload);
+    this.sendEphemeral(
+      targetId,
+      roomId,
+      `${check.actor.username} unmuted you. You can send messages again.`
+    );
+
+    await this.createMessage(
+      roomId,
+      actorId,
+      `${check.target.username} was unmuted by ${check.actor.username}`,
+      "system"
+    );
+
+    return { success: true };
+  }
+
+  // Members leave here rather than over the socket, so only someone who was
+  // in the room can have it told they left
+  async leaveRoom(userId: string, roomId: string): Promise<void> {
+    log.debug("leaveRoom");
+    const room = await this.dbService.getRoomById(roomId);
+    const role = room
+      ? await this.dbService.getMemberRole(userId, room.id)
+      : null;
+    if (!room || !role) return;
+
+    const user = await this.dbService.getUserById(userId);
+
+    // Remove from database & Redis
+    await this.dbService.removeUserFromRoom(userId, room.id);
+    await this.redisService.removeUserFromRoom(userId, roomId);
+    this.io.in(userChannel(userId)).socketsLeave(roomId);
+
+    if (role === "owner") {
+      await this.passOwnership(room, userId);
+    }
+
+    // Archived rooms stay as they were left
+    if (user && !room.archivedAt) {
+      await this.createMessage(
+        roomId,
+        userId,
+        `${user.username} left the room`,
+        "system"
+      );
+    }
+
+    this.io.to(roomId).emit("room_update", {
+      type: "user_left",
+      roomId,
+      presences: await this.getRoomPresences(roomId),
+    });
+  }
+
+  // Owned rooms are handed on before the account goes, since the
+  // memberships that record ownership are deleted with it
+  async deleteAccount(userId: string): Promise<void> {
+    log.debug("deleteAccount");
+    const ownedRooms = await this.dbService.getOwnedRooms(userId);
+    for (const room of ownedRooms) {
+      await this.passOwnership(room, userId);
+    }
+
+    const roomIds = await this.dbService.getUserRoomIds(userId);
+    for (const roomId of roomIds) {
+      await this.redisService.removeUserFromRoom(userId, roomId);
+    }
+    await this.redisService.setUserOffline(userId);
+
+    await this.dbService.deleteUser(userId);
+    this.io.in(userChannel(userId)).disconnectSockets(true);
+
+    for (const roomId of roomIds) {
+      const presences = await this.redisService.getRoomPresences(roomId);
+      this.io
+        .to(roomId)
+        .emit("room_update", { type: "user_left", roomId, presences });
+    }
+  }
+
+  // Hybrid message storage methods
+  async createMessage(
+    roomId: string,
+    userId: string,
+    content: string,
+    messageType: Message["type"] = "text",
+    attachmentId?: string,
+    poll?: Omit<CreatePollRequest, "roomId">
+  ): Promise<Message> {
+    log.debug("createMessage");
+    // Store in PostgreSQL first (persistent storage)
+    const message = await this.dbService.storeMessage(
+      roomId,
+      userId,
+      content,
+      messageType,
+      undefined,
+      attachmentId,
+      poll
+    );
+
+    const mentioned = await this.recordMentions(message);
+
+    // Store in Redis cache for fast access
+    await this.redisService.storeMessageInCache(roomId, mentioned);
+
+    // Emit to room
+    this.io
+      .to(roomId)
+      .emit("room_update", { type: "new_message", message: mentioned });
+    this.notifyMentions(mentioned);
+
+    return mentioned;
+  }
+
+  // A member's own text message; system messages skip the membership check
+  // since they are also posted about people who just left
+  async sendMessage(
+    roomId: string,
+    userId: string,
+    content: string
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("sendMessage");
+    const notMember = await this.checkMember(userId, roomId);
+    if (notMember) return { success: false, error: notMember };
+
+    const message = await this.createMessage(roomId, userId, content);
+    return { success: true, message };
+  }
+
+  // Copies of messages as one viewer sees them: their own reactions and
+  // poll votes marked
+  private async forViewer(
+    messages: Message[],
+    viewerId?: string
+  ): Promise<Message[]> {
+    const marked = withViewerReactions(messages, viewerId);
+    const pollIds = marked.filter((m) => m.poll).map((m) => m.id);
+    if (!viewerId || pollIds.length === 0) return marked;
+
+    const votes = await this.dbService.getUserPollVotes(pollIds, viewerId);
+    return marked.map((m) =>
+      m.poll ? { ...m, poll: { ...m.poll, myVotes: votes[m.id] ?? [] } } : m
+    );
+  }
+
+  // A system notice for one user in a room: it goes to their sockets only
+  // and is never stored or cached, so it's gone once they reload
+  sendEphemeral(userId: string, roomId: string, content: string): Message {
+    log.debug("sendEphemeral");
+    const message: Message = {
+      id: crypto.randomUUID(),
+      roomId,
+      userId,
+      username: "",
+      content,
+      type: "system",
+      timestamp: new Date().toISOString(),
+      ephemeral: true,
+    };
+    this.io.to(userChannel(userId)).emit("ephemeral_message", message);
+    return message;
+  }
+
+  // Resolve a text message's mentions to room members (never the author)
+  // and store them; returns the message with its mentions filled in
+  private async recordMentions(message: Message): Promise<Message> {
+    if (message.type === "system") return message;
+    const names = extractMentions(message.content);
+    if (names.length === 0) return message;
+
+    const members = await this.dbService.getRoomMembers(message.roomId);
+    let online = new Set<string>();
+    if (names.includes("here")) {
+      const presences = await this.redisService.getRoomPresences(
+        message.roomId
+      );
+      online = new Set(
+        presences.filter((p) => p.status === "online").map((p) => p.userId)
+      );
+    }
+
+    const userIds = members
+      .filter(
+        (member) =>
+          names.includes("room") ||
+          online.has(member.id) ||
+          names.includes(member.username.toLowerCase())
+      )
+      .map((member) => member.id)
+      .filter((id) => id !== message.userId);
+    if (userIds.length === 0) return message;
+
+    await this.dbService.addMentions(message.id, userIds);
+    return { ...message, mentions: userIds };
+  }
+
+  // Reach mentioned members on every tab, whichever room they have open
+  private notifyMentions(message: Message) {
+    if (!message.mentions?.length) return;
+    const payload: MentionPayload = { roomId: message.roomId, message };
+    this.io.to(message.mentions.map(userChannel)).emit("mention", payload);
+  }
+
+  // Thread replies are stored like messages but stay out of the room timeline
+  // and its Redis cache; only the parent's reply counter changes there
+  async createReply(
+    roomId: string,
+    userId: string,
+    content: string,
+    replyToId: string
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("createReply");
+    const notMember = await this.checkMember(userId, roomId);
+    if (notMember) return { success: false, error: notMember };
+
+    const parent = await this.dbService.getMessageById(replyToId);
+    if (!parent || parent.roomId !== roomId || parent.isDeleted) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    // One level of threading: replies go on the top-level message
+    if (parent.replyToId || parent.type === "system") {
+      return {
+        success: false,
+        error: {
+          message: "Cannot reply to this message",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const message = await this.recordMentions(
+      await this.dbService.storeMessage(
+        roomId,
+        userId,
+        content,
+        "text",
+        parent.id
+      )
+    );
+
+    const updatedParent = await this.dbService.getMessageById(parent.id);
+    if (updatedParent) {
+      await this.redisService.updateMessageInCache(roomId, updatedParent);
+    }
+
+    this.io.to(roomId).emit("room_update", {
+      type: "thread_reply",
+      message,
+      parent: updatedParent,
+    });
+    this.notifyMentions(message);
+
+    return { success: true, message };
+  }
+
+  // Stores an uploaded file for a later "attachment" message; until that is
+  // sent, only the uploader can see or send it
+  async uploadAttachment(
+    userId: string,
+    roomId: string,
+    filename: string,
+    data: Buffer
+  ): Promise<{ success: boolean; attachment?: Attachment; error?: ApiError }> {
+    log.debug("uploadAttachment");
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const readOnly = await this.checkWritable(roomId);
+    if (readOnly) return { success: false, error: readOnly };
+
+    if (await this.getMuteExpiry(roomId, userId)) {
+      return {
+        success: false,
+        error: { message: "You are muted in this room", code: "MUTED" },
+      };
+    }
+
+    if (data.length === 0 || data.length > MAX_ATTACHMENT_BYTES) {
+      return {
+        success: false,
+        error: {
+          message: `Files must be between 1 byte and ${
+            MAX_ATTACHMENT_BYTES / (1024 * 1024)
+          } MB`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const mimeType = sniffMimeType(data);
+    if (!mimeType) {
+      return {
+        success: false,
+        error: {
+          message: "This file type is not supported",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const id = crypto.randomUUID();
+    const storageKey = `rooms/${roomId}/${id}`;
+    await this.storage.put(storageKey, data, mimeType);
+
+    const attachment = await this.dbService.createAttachment({
+      id,
+      roomId,
+      uploadedBy: userId,
+      filename: cleanFilename(filename),
+      mimeType,
+      size: data.length,
+      storageKey,
+    });
+
+    return { success: true, attachment };
+  }
+
+  // The server has no image library, so the uploader's client renders the
+  // thumbnail; it's checked to be a small image and must come before sending
+  async uploadThumbnail(
+    userId: string,
+    roomId: string,
+    attachmentId: string,
+    data: Buffer
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("uploadThumbnail");
+    const record = await this.dbService.getAttachment(attachmentId);
+    if (!record || record.roomId !== roomId || record.uploadedBy !== userId) {
+      return {
+        success: false,
+        error: { message: "Attachment not found", code: "NOT_FOUND" },
+      };
+    }
+
+    if (
+      !IMAGE_MIME_TYPES.includes(record.mimeType) ||
+      record.messageId ||
+      record.thumbnailKey
+    ) {
+      return {
+        success: false,
+        error: {
+          message: "Thumbnails can only be added once, to unsent images",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const mimeType = sniffMimeType(data);
+    if (
+      data.length > MAX_THUMBNAIL_BYTES ||
+      !mimeType ||
+      !IMAGE_MIME_TYPES.includes(mimeType)
+    ) {
+      return {
+        success: false,
+        error: {
+          message: `Thumbnails must be images of at most ${
+            MAX_THUMBNAIL_BYTES / 1024
+          } KB`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const thumbnailKey = `${record.storageKey}-thumb`;
+    await this.storage.put(thumbnailKey, data, mimeType);
+    await this.dbService.setAttachmentThumbnail(record.id, thumbnailKey);
+
+    return { success: true };
+  }
+
+  // Sends an uploaded file as an "attachment" message; content is its caption
+  async sendAttachment(
+    roomId: string,
+    userId: string,
+    content: string,
+    attachmentId: string
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("sendAttachment");
+    const notMember = await this.checkMember(userId, roomId);
+    if (notMember) return { success: false, error: notMember };
+
+    const record = await this.dbService.getAttachment(attachmentId);
+    if (
+      !record ||
+      record.roomId !== roomId ||
+      record.uploadedBy !== userId ||
+      record.messageId
+    ) {
+      return {
+        success: false,
+        error: { message: "Attachment not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const message = await this.createMessage(
+      roomId,
+      userId,
+      content,
+      "attachment",
+      record.id
+    );
+    return { success: true, message };
+  }
+
+  async createPoll(
+    userId: string,
+    request: CreatePollRequest
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("createPoll");
+    const invalid = (message: string) => ({
+      success: false,
+      error: { message, code: "VALIDATION_ERROR" } as ApiError,
+    });
+
+    const question = validateContent(request.question);
+    if (question.error) return { success: false, error: question.error };
+    if (
+      !question.content ||
+      question.content.length > MAX_POLL_QUESTION_LENGTH
+    ) {
+      return invalid(
+        `Questions must be 1 to ${MAX_POLL_QUESTION_LENGTH} characters`
+      );
+    }
+
+    const options: string[] = [];
+    for (const option of Array.isArray(request.options)
+      ? request.options
+      : []) {
+      const checked = validateContent(option);
+      if (checked.error) return { success: false, error: checked.error };
+      if (!checked.content || checked.content.length > MAX_POLL_OPTION_LENGTH) {
+        return invalid(
+          `Options must be 1 to ${MAX_POLL_OPTION_LENGTH} characters`
+        );
+      }
+      options.push(checked.content);
+    }
+    if (
+      options.length < MIN_POLL_OPTIONS ||
+      options.length > MAX_POLL_OPTIONS
+    ) {
+      return invalid(
+        `Polls need ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`
+      );
+    }
+    if (new Set(options.map((o) => o.toLowerCase())).size < options.length) {
+      return invalid("Poll options must all be different");
+    }
+
+    let closesAt: string | undefined;
+    if (request.closesAt) {
+      const time = Date.parse(request.closesAt);
+      const latest = Date.now() + MAX_POLL_DAYS * 24 * 60 * 60 * 1000;
+      if (Number.isNaN(time) || time <= Date.now() || time > latest) {
+        return invalid(
+          `Polls must close in the future, within ${MAX_POLL_DAYS} days`
+        );
+      }
+      closesAt = new Date(time).toISOString();
+    }
+
+    const isMember = await this.dbService.isUserInRoom(userId, request.roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const message = await this.createMessage(
+      request.roomId,
+      userId,
+      question.content,
+      "poll",
+      undefined,
+      {
+        question: question.content,
+        options,
+        multipleChoice: !!request.multipleChoice,
+        anonymous: !!request.anonymous,
+        closesAt,
+      }
+    );
+    return { success: true, message };
+  }
+
+  // Votes replace the voter's earlier choices. The room gets the new
+  // tallies; the voter's own sockets also get their choices.
+  async votePoll(
+    userId: string,
+    request: PollVoteRequest
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("votePoll");
+    const message = await this.dbService.getMessageById(request.messageId);
+    const poll = message?.poll;
+    if (!message || !poll || message.isDeleted) {
+      return {
+        success: false,
+        error: { message: "Poll not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const isMember = await this.dbService.isUserInRoom(userId, message.roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const readOnly = await this.checkWritable(message.roomId);
+    if (readOnly) return { success: false, error: readOnly };
+
+    if (poll.closesAt && Date.parse(poll.closesAt) <= Date.now()) {
+      return {
+        success: false,
+        error: { message: "This poll has closed", code: "VALIDATION_ERROR" },
+      };
+    }
+
+    const indexes = Array.isArray(request.optionIndexes)
+      ? [...new Set(request.optionIndexes)].sort((a, b) => a - b)
+      : [];
+    if (
+      indexes.some(
+        (i) => !Number.isInteger(i) || i < 0 || i >= poll.options.length
+      ) ||
+      (!poll.multipleChoice && indexes.length > 1)
+    ) {
+      return {
+        success: false,
+        error: { message: "Invalid poll vote", code: "VALIDATION_ERROR" },
+      };
+    }
+
+    await this.dbService.setPollVotes(message.id, userId, indexes);
+    const updated = await this.dbService.getMessageById(message.id);
+    if (!updated?.poll) return { success: true };
+
+    // Keep cached history in sync with PostgreSQL
+    await this.redisService.updateMessageInCache(message.roomId, updated);
+
+    const update = {
+      type: "poll_updated",
+      roomId: message.roomId,
+      messageId: message.id,
+      poll: updated.poll,
+    };
+    this.io
+      .to(message.roomId)
+      .except(userChannel(userId))
+      .emit("room_update", update);
+    this.io.to(userChannel(userId)).emit("room_update", {
+      ...update,
+      poll: { ...updated.poll, myVotes: indexes },
+    });
+
+    return { success: true };
+  }
+
+  // Checks whichever of content and send time a request carries. Content is
+  // stored as typed; "//text" only becomes "/text" when it's posted.
+  private checkScheduled(
+    request: Partial<ScheduleMessageRequest>
+  ):
+    | { content?: string; sendAt?: string; error?: undefined }
+    | { error: ApiError } {
+    const invalid = (message: string) => ({
+      error: { message, code: "VALIDATION_ERROR" } as ApiError,
+    });
+
+    let content: string | undefined;
+    if (request.content !== undefined) {
+      const checked = validateContent(request.content);
+      if (checked.error) return { error: checked.error };
+      if (!checked.content) return invalid("Message cannot be empty");
+      if (/^\/(?!\/)/.test(checked.content)) {
+        return invalid(
+          "Slash commands can't be scheduled. Start with // to send a message beginning with /"
+        );
+      }
+      content = checked.content;
+    }
+
+    let sendAt: string | undefined;
+    if (request.sendAt !== undefined) {
+      const time =
+        typeof request.sendAt === "string" ? Date.parse(request.sendAt) : NaN;
+      const latest = Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+      if (Number.isNaN(time) || time <= Date.now() || time > latest) {
+        return invalid(
+          `Messages can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`
+        );
+      }
+      sendAt = new Date(time).toISOString();
+    }
+
+    return { content, sendAt };
+  }
+
+  // A member's list changed; their other tabs show it too
+  async notifyScheduled(userId: string, roomId: string): Promise<void> {
+    const scheduled = await this.dbService.getScheduledMessages(roomId, userId);
+    const payload: ScheduledMessagesPayload = { roomId, scheduled };
+    this.io.to(userChannel(userId)).emit("scheduled_messages", payload);
+  }
+
+  async scheduleMessage(
+    userId: string,
+    roomId: string,
+    request: ScheduleMessageRequest
+  ): Promise<{
+    success: boolean;
+    scheduled?: ScheduledMessage;
+    error?: ApiError;
+  }> {
+    log.debug("scheduleMessage");
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const readOnly = await this.checkWritable(roomId);
+    if (readOnly) return { success: false, error: readOnly };
+
+    const checked = this.checkScheduled({
+      content: request.content ?? "",
+      sendAt: request.sendAt ?? "",
+    });
+    if (checked.error) return { success: false, error: checked.error };
+
+    const count = await this.dbService.countPendingScheduledMessages(
+      roomId,
+      userId
+    );
+    if (count >= MAX_SCHEDULED_PER_ROOM) {
+      return {
+        success: false,
+        error: {
+          message: `You can have at most ${MAX_SCHEDULED_PER_ROOM} scheduled messages in a room`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const scheduled = await this.dbService.createScheduledMessage(
+      roomId,
+      userId,
+      checked.content!,
+      checked.sendAt!
+    );
+    await this.notifyScheduled(userId, roomId);
+    return { success: true, scheduled };
+  }
+
+  async getScheduledMessages(
+    userId: string,
+    roomId: string
+  ): Promise<{
+    success: boolean;
+    scheduled?: ScheduledMessage[];
+    error?: ApiError;
+  }> {
+    log.debug("getScheduledMessages");
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const scheduled = await this.dbService.getScheduledMessages(roomId, userId);
+    return { success: true, scheduled };
+  }
+
+  async updateScheduledMessage(
+    userId: string,
+    roomId: string,
+    scheduledId: string,
+    request: Partial<ScheduleMessageRequest>
+  ): Promise<{
+    success: boolean;
+    scheduled?: ScheduledMessage;
+    error?: ApiError;
+  }> {
+    log.debug("updateScheduledMessage");
+    if (request.content === undefined && request.sendAt === undefined) {
+      return {
+        success: false,
+        error: { message: "Nothing to update", code: "VALIDATION_ERROR" },
+      };
+    }
+    const checked = this.checkScheduled(request);
+    if (checked.error) return { success: false, error: checked.error };
+
+    const scheduled = await this.dbService.updateScheduledMessage(
+      scheduledId,
+      roomId,
+      userId,
+      checked
+    );
+    if (!scheduled) {
+      return {
+        success: false,
+        error: {
+          message: "Scheduled message not found or already being sent",
+          code: "NOT_FOUND",
+        },
+      };
+    }
+
+    await this.notifyScheduled(userId, roomId);
+    return { success: true, scheduled };
+  }
+
+  async cancelScheduledMessage(
+    userId: string,
+    roomId: string,
+    scheduledId: string
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("cancelScheduledMessage");
+    const deleted = await this.dbService.deleteScheduledMessage(
+      scheduledId,
+      roomId,
+      userId
+    );
+    if (!deleted) {
+      return {
+        success: false,
+        error: {
+          message: "Scheduled message not found or already being sent",
+          code: "NOT_FOUND",
+        },
+      };
+    }
+
+    await this.notifyScheduled(userId, roomId);
+    return { success: true };
+  }
+
+  // Post a message the scheduler claimed if its author still may, through
+  // the same path as a live one; the outcome is recorded either way
+  async sendScheduledMessage(scheduled: ScheduledMessageRecord): Promise<void> {
+    log.debug("sendScheduledMessage");
+    const { roomId, userId } = scheduled;
+
+    let error: string | undefined;
+    if (!(await this.dbService.isUserInRoom(userId, roomId))) {
+      error = "You were no longer a member of this room";
+    } else if (await this.checkWritable(roomId)) {
+      error = "The room was archived";
+    } else if (await this.getMuteExpiry(roomId, userId)) {
+      error = "You were muted in this room when it was due";
+    }
+
+    if (error) {
+      await this.dbService.finishScheduledMessage(scheduled.id, { error });
+    } else {
+      const content = scheduled.content.startsWith("//")
+        ? scheduled.content.slice(1)
+        : scheduled.content;
+      const message = await this.createMessage(roomId, userId, content);
+      await this.dbService.finishScheduledMessage(scheduled.id, {
+        messageId: message.id,
+      });
+    }
+
+    await this.notifyScheduled(userId, roomId);
+  }
+
+  // Files are served to room members only; unsent ones to their uploader
+  async getAttachmentFile(
+    userId: string,
+    roomId: string,
+    attachmentId: string,
+    thumbnail: boolean
+  ): Promise<{
+    success: boolean;
+    file?: { filename: string; mimeType: string; data: Buffer };
+    error?: ApiError;
+  }> {
+    log.debug("getAttachmentFile");
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const notFound: ApiError = {
+      message: "Attachment not found",
+      code: "NOT_FOUND",
+    };
+    const record = await this.dbService.getAttachment(attachmentId);
+    if (
+      !record ||
+      record.roomId !== roomId ||
+      (!record.messageId && record.uploadedBy !== userId)
+    ) {
+      return { success: false, error: notFound };
+    }
+
+    const key = thumbnail ? record.thumbnailKey : record.storageKey;
+    const data = key ? await this.storage.get(key) : null;
+    if (!data) return { success: false, error: notFound };
+
+    return {
+      success: true,
+      file: {
+        filename: record.filename,
+        // Thumbnails were checked to be images when uploaded
+        mimeType: thumbnail
+          ? sniffMimeType(data) ?? "application/octet-stream"
+          : record.mimeType,
+        data,
+      },
+    };
+  }
+
+  // Storage cleanup never fails the request; leftovers are only logged
+  private async deleteStoredObjects(keys: (string | undefined)[]) {
+    for (const key of keys) {
+      if (!key) continue;
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        log.error(error, `Error deleting stored object ${key}`);
+      }
+    }
+  }
+
+  async getThread(
+    userId: string,
+    request: ThreadRequest
+  ): Promise<{
+    success: boolean;
+    parent?: Message;
+    replies?: MessageResponse;
+    error?: ApiError;
+  }> {
+    log.debug("getThread");
+    const { messageId, limit = 50, before } = request;
+
+    const parent = await this.dbService.getMessageById(messageId);
+    if (!parent) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const isMember = await this.dbService.isUserInRoom(userId, parent.roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const replies = await this.dbService.getThreadReplies(
+      parent.id,
+      limit,
+      before
+    );
+
+    return {
+      success: true,
+      parent: (await this.forViewer([parent], userId))[0],
+      replies: {
+        ...replies,
+        messages: await this.forViewer(replies.messages, userId),
+      },
+    };
+  }
+
+  async editMessage(
+    userId: string,
+    request: EditMessageRequest
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("editMessage");
+    const checked = validateContent(request.content ?? "");
+    if (checked.error) return { success: false, error: checked.error };
+    const { content } = checked;
+    if (!content) {
+      return {
+        success: false,
+        error: { message: "Message cannot be empty", code: "VALIDATION_ERROR" },
+      };
+    }
+
+    const existing = await this.dbService.getMessageById(request.messageId);
+    if (!existing || existing.isDeleted) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const denied = await this.checkCanPost(userId, existing.roomId);
+    if (denied) return { success: false, error: denied };
+
+    // Only authors may edit, and only their own text and /me messages
+    if (
+      existing.userId !== userId ||
+      (existing.type !== "text" && existing.type !== "action")
+    ) {
+      return {
+        success: false,
+        error: {
+          message: "You can only edit your own messages",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    if (existing.content === content) {
+      return { success: true, message: existing };
+    }
+
+    const message = await this.dbService.updateMessageContent(
+      existing.id,
+      content
+    );
+    if (!message) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    // Keep cached history in sync with PostgreSQL
+    await this.redisService.updateMessageInCache(message.roomId, message);
+
+    this.io
+      .to(message.roomId)
+      .emit("room_update", { type: "message_edited", message });
+
+    return { success: true, message };
+  }
+
+  async deleteMessage(
+    userId: string,
+    messageId: string
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("deleteMessage");
+    const existing = await this.dbService.getMessageById(messageId);
+    if (!existing || existing.isDeleted) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const denied = await this.checkCanPost(userId, existing.roomId);
+    if (denied) return { success: false, error: denied };
+
+    if (existing.type === "system") {
+      return {
+        success: false,
+        error: {
+          message: "System messages cannot be deleted",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    // Authors can delete their own messages; moderators and up can delete any
+    if (existing.userId !== userId) {
+      const role = await this.dbService.getMemberRole(userId, existing.roomId);
+      if (!hasRoleAtLeast(role, "moderator")) {
+        return {
+          success: false,
+          error: {
+            message: "You can only delete your own messages",
+            code: "FORBIDDEN",
+          },
+        };
+      }
+    }
+
+    // The attachment row goes with the message; its stored file after it
+    const attachment = existing.attachment
+      ? await this.dbService.getAttachment(existing.attachment.id)
+      : null;
+
+    const message = await this.dbService.softDeleteMessage(existing.id, userId);
+    if (!message) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    if (attachment) {
+      await this.deleteStoredObjects([
+        attachment.storageKey,
+        attachment.thumbnailKey,
+      ]);
+    }
+
+    // Replace the cached copy with the tombstone too
+    await this.redisService.updateMessageInCache(message.roomId, message);
+
+    // A deleted reply also lowers its parent's reply count
+    const parent = message.replyToId
+      ? await this.dbService.getMessageById(message.replyToId)
+      : null;
+    if (parent) {
+      await this.redisService.updateMessageInCache(parent.roomId, parent);
+    }
+
+    this.io
+      .to(message.roomId)
+      .emit("room_update", { type: "message_deleted", message, parent });
+
+    return { success: true, message };
+  }
+
+  // Moderators and up pin in group rooms; either participant in a DM
+  async setPinned(
+    userId: string,
+    messageId: string,
+    pinned: boolean
+  ): Promise<{ success: boolean; message?: Message; error?: ApiError }> {
+    log.debug("setPinned");
+    const existing = await this.dbService.getMessageById(messageId);
+    if (!existing || existing.isDeleted) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const room = await this.dbService.getRoomById(existing.roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: { message: "Room not found", code: "NOT_FOUND" },
+      };
+    }
+    if (room.archivedAt) return { success: false, error: ARCHIVED_ERROR };
+
+    const role = await this.dbService.getMemberRole(userId, room.id);
+    const allowed =
+      room.kind === "direct" ? !!role : hasRoleAtLeast(role, "moderator");
+    if (!allowed) {
+      return {
+        success: false,
+        error: {
+          message: "Only moderators and up can pin messages",
+          code: "FORBIDDEN",
+        },
+      };
+    }
+
+    // Pins are jumped to in the timeline, so threads keep theirs on the parent
+    if (existing.type === "system" || existing.replyToId) {
+      return {
+        success: false,
+        error: {
+          message: "Only top-level messages can be pinned",
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (pinned === !!existing.pinnedAt) {
+      return { success: true, message: existing };
+    }
+
+    if (pinned) {
+      const pins = await this.dbService.getPinnedMessages(room.id);
+      if (pins.length >= MAX_PINNED_MESSAGES) {
+        return {
+          success: false,
+          error: {
+            message: `A room can have at most ${MAX_PINNED_MESSAGES} pinned messages`,
+            code: "VALIDATION_ERROR",
+          },
+        };
+      }
+    }
+
+    const message = await this.dbService.setMessagePinned(
+      existing.id,
+      pinned ? userId : null
+    );
+    if (!message) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    await this.redisService.updateMessageInCache(message.roomId, message);
+
+    this.io.to(message.roomId).emit("room_update", {
+      type: pinned ? "message_pinned" : "message_unpinned",
+      message,
+    });
+
+    return { success: true, message };
+  }
+
+  async getPinnedMessages(
+    userId: string,
+    roomId: string
+  ): Promise<{ success: boolean; pins?: Message[]; error?: ApiError }> {
+    log.debug("getPinnedMessages");
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const pins = await this.dbService.getPinnedMessages(roomId);
+    return { success: true, pins };
+  }
+
+  async setReaction(
+    userId: string,
+    request: ReactionRequest,
+    reacted: boolean
+  ): Promise<{ success: boolean; error?: ApiError }> {
+    log.debug("setReaction");
+    const emoji = request.emoji?.trim();
+    if (!emoji || emoji.length > MAX_EMOJI_LENGTH || /\s/.test(emoji)) {
+      return {
+        success: false,
+        error: { message: "Invalid reaction", code: "VALIDATION_ERROR" },
+      };
+    }
+
+    const message = await this.dbService.getMessageById(request.messageId);
+    if (!message || message.isDeleted || message.type === "system") {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const isMember = await this.dbService.isUserInRoom(userId, message.roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const readOnly = await this.checkWritable(message.roomId);
+    if (readOnly) return { success: false, error: readOnly };
+
+    if (reacted) {
+      await this.dbService.addReaction(message.id, userId, emoji);
+    } else {
+      await this.dbService.removeReaction(message.id, userId, emoji);
+    }
+
+    const reactions = await this.dbService.getMessageReactions(message.id);
+
+    // Keep cached history in sync with PostgreSQL
+    await this.redisService.updateMessageInCache(message.roomId, {
+      ...message,
+      reactions,
+    });
+
+    this.io.to(message.roomId).emit("room_update", {
+      type: "reaction_updated",
+      roomId: message.roomId,
+      messageId: message.id,
+      reactions,
+    });
+
+    return { success: true };
+  }
+
+  async getMessageRevisions(
+    userId: string,
+    messageId: string
+  ): Promise<{
+    success: boolean;
+    revisions?: MessageRevision[];
+    error?: ApiError;
+  }> {
+    log.debug("getMessageRevisions");
+    const message = await this.dbService.getMessageById(messageId);
+    if (!message) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    // Anyone who can see the message (i.e. room members) can see its history
+    const isMember = await this.dbService.isUserInRoom(userId, message.roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    if (message.isDeleted) {
+      return { success: true, revisions: [] };
+    }
+
+    const revisions = await this.dbService.getMessageRevisions(messageId);
+    return { success: true, revisions };
+  }
+
+  // Hybrid message retrieval - Redis first, fallback to PostgreSQL
+  async getRecentMessages(
+    roomId: string,
+    limit: number = 50
+  ): Promise<Message[]> {
+    log.debug("getRecentMessages");
+    try {
+      // Try to get from Redis cache first
+      const cachedMessages = await this.redisService.getRecentMessagesFromCache(
+        roomId,
+        limit
+      );
+
+      if (cachedMessages.length > 0) {
+        // If we have enough messages in cache, return them
+        if (cachedMessages.length >= limit) {
+          return cachedMessages.slice(0, limit);
+        }
+
+        // If we have some but not enough, get the rest from DB
+        const remainingLimit = limit - cachedMessages.length;
+        const oldestCachedMessage = cachedMessages[0];
+
+        const dbResult = await this.dbService.getMessagesFromDB(
+          roomId,
+          remainingLimit,
+          oldestCachedMessage.id
+        );
+
+        // Combine messages: DB messages (older) + cached messages (newer)
+        return [...dbResult.messages, ...cachedMessages];
+      }
+
+      // No cached messages, get from database and populate cache
+      const dbMessages = await this.dbService.getRecentMessagesFromDB(
+        roomId,
+        limit
+      );
+
+      // dbMessages is chronological (oldest -> newest)
+      for (let i = 0; i < dbMessages.length; i++) {
+        await this.redisService.storeMessageInCache(roomId, dbMessages[i]); // LPUSH
+      }
+
+      return dbMessages;
+    } catch (error) {
+      log.error(error, "Error getting recent messages");
+
+      // Fallback to database only
+      return await this.dbService.getRecentMessagesFromDB(roomId, limit);
+    }
+  }
+
+  // A page of a room's messages for one of its members, with their own
+  // reactions and votes marked
+  async getMessages(
+    userId: string,
+    request: MessagePaginationRequest
+  ): Promise<{ success: boolean; page?: MessageResponse; error?: ApiError }> {
+    log.debug("getMessages");
+    const notMember = await this.checkMember(userId, request.roomId);
+    if (notMember) return { success: false, error: notMember };
+
+    const page = await this.getMessagePage(request, userId);
+    return { success: true, page };
+  }
+
+  // Paginated message retrieval for loading older messages (need to check logic)
+  // viewerId marks the viewer's own reactions in the returned page
+  private async getMessagePage(
+    request: MessagePaginationRequest,
+    viewerId?: string
+  ): Promise<MessageResponse> {
+    const { roomId, limit = 50, before, after } = request;
+
+    if (after) {
+      // Forward pages come straight from the database
+      const page = await this.dbService.getMessagesAfterFromDB(
+        roomId,
+        limit,
+        after
+      );
+      return {
+        ...page,
+        messages: await this.forViewer(page.messages, viewerId),
+      };
+    }
+
+    if (!before) {
+      // First page - get recent messages (hybrid approach)
+      const messages = await this.getRecentMessages(roomId, limit);
+
+      // Check if there are more messages in DB
       const totalInCache = await this.redisService.getRecentMessageCount(
         roomId
       );
@@ -291,14 +2806,120 @@ export class ChatService {
       );
 
       return {
-        messages,
+        messages: await this.forViewer(messages, viewerId),
         hasMore: dbResult.hasMore,
         nextCursor: messages.length > 0 ? messages[0].id : undefined,
       };
     }
 
     // Subsequent pages - get from database
-    return await this.dbService.getMessagesFromDB(roomId, limit, before);
+    const page = await this.dbService.getMessagesFromDB(roomId, limit, before);
+    return { ...page, messages: await this.forViewer(page.messages, viewerId) };
+  }
+
+  // Search only covers rooms the user is currently a member of
+  async searchMessages(
+    userId: string,
+    request: MessageSearchRequest
+  ): Promise<MessageSearchResponse> {
+    log.debug("searchMessages");
+    const result = await this.dbService.searchMessages(userId, request);
+    const messages = await this.forViewer(
+      result.results.map((hit) => hit.message),
+      userId
+    );
+
+    return {
+      ...result,
+      results: result.results.map((hit, i) => ({
+        ...hit,
+        message: messages[i],
+      })),
+    };
+  }
+
+  // Window of messages around a given message; a thread reply is shown in
+  // context of its parent
+  async getMessageContext(
+    userId: string,
+    request: MessageContextRequest
+  ): Promise<{
+    success: boolean;
+    context?: MessageContextResponse;
+    error?: ApiError;
+  }> {
+    log.debug("getMessageContext");
+    const { roomId } = request;
+    const limit = Math.min(Math.max(request.limit || 25, 1), MAX_CONTEXT_LIMIT);
+
+    const isMember = await this.dbService.isUserInRoom(userId, roomId);
+    if (!isMember) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    const target = await this.dbService.getMessageById(request.messageId);
+    if (!target || target.roomId !== roomId) {
+      return {
+        success: false,
+        error: { message: "Message not found", code: "NOT_FOUND" },
+      };
+    }
+
+    const anchorId = target.replyToId ?? target.id;
+    const around = await this.dbService.getMessageContext(
+      roomId,
+      anchorId,
+      limit
+    );
+
+    return {
+      success: true,
+      context: {
+        messageId: anchorId,
+        messages: await this.forViewer(around.messages, userId),
+        hasMore: around.hasMore,
+        nextCursor: around.hasMore ? around.messages[0].id : undefined,
+        hasNewer: around.hasNewer,
+      },
+    };
+  }
+
+  // Move the user's read marker up to messageId; every tab of theirs hears
+  // about it so unread badges clear everywhere, and the room sees the new
+  // receipt unless receipts are off
+  async markRead(
+    userId: string,
+    username: string,
+    roomId: string,
+    messageId: string
+  ): Promise<boolean> {
+    log.debug("markRead");
+    const moved = await this.dbService.markRead(userId, roomId, messageId);
+    if (!moved) return false;
+
+    const payload: ReadMarkerPayload = { roomId, messageId };
+    this.io.to(userChannel(userId)).emit("read_marker", payload);
+
+    const room = await this.dbService.getRoomById(roomId);
+    if (room?.readReceipts) {
+      const receipts: ReadReceiptsPayload = {
+        roomId,
+        receipts: [{ userId, username, messageId }],
+      };
+      this.io.to(roomId).emit("read_receipts", receipts);
+    }
+    return true;
+  }
+
+  // Everyone's read positions, or none when the room has receipts off
+  async getReadReceipts(roomId: string): Promise<ReadReceipt[]> {
+    log.debug("getReadReceipts");
+    const room = await this.dbService.getRoomById(roomId);
+    if (!room?.readReceipts) return [];
+    return await this.dbService.getReadReceipts(roomId);
   }
 
   // Multi-room presence methods
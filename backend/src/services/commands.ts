@@ -0,0 +1,423 @@
+import { ChatService, hasRoleAtLeast } from "./chat";
+import { validateContent } from "../utils/content";
+import {
+  User,
+  Room,
+  ApiError,
+  CommandAction,
+  CommandArgument,
+  CommandInfo,
+  CommandResultPayload,
+} from "../utils/types";
+import { logger } from "../utils/logger";
+const log = logger.child({ mod: "commands" });
+
+// "/name args..."; "//text" is a message that starts with a slash
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i;
+
+const DEFAULT_MUTE_MINUTES = 10;
+const MAX_TOPIC_LENGTH = 500; // same as room descriptions
+const MAX_KICK_REASON_LENGTH = 200;
+const SHRUG = String.raw`¯\\\_(ツ)\_/¯`; // escaped for Markdown
+
+interface CommandContext {
+  user: User;
+  room: Room;
+  args: Record<string, string | undefined>;
+}
+
+// What a command leaves behind once its checks pass
+type CommandResult =
+  | { type: "reply"; text: string } // shown only to the sender
+  | { type: "system"; text: string } // a system message in the room
+  | { type: "message"; content: string; messageType?: "action" } // posted as the sender's message
+  | { type: "action"; action: CommandAction } // done by the sender's client
+  | { type: "done" } // its effects announce themselves
+  | { type: "error"; error: ApiError };
+
+interface SlashCommand extends CommandInfo {
+  postsToRoom?: boolean; // unavailable while muted or archived
+  run(context: CommandContext): Promise<CommandResult>;
+}
+
+// A member named in an argument, with or without the @
+const stripAt = (name: string) => name.replace(/^@/, "");
+
+const usage = (command: CommandInfo): string =>
+  [
+    `/${command.name}`,
+    ...command.args.map((arg) =>
+      arg.required ? `<${arg.name}>` : `[${arg.name}]`
+    ),
+  ].join(" ");
+
+// Fill the declared arguments in order; null when they don't fit
+function parseArgs(
+  spec: CommandArgument[],
+  text: string
+): Record<string, string> | null {
+  const values: Record<string, string> = {};
+  let rest = text.trim();
+  for (const arg of spec) {
+    if (!rest) break;
+    if (arg.rest) {
+      values[arg.name] = rest;
+      rest = "";
+      break;
+    }
+    const word = rest.split(/\s/, 1)[0];
+    values[arg.name] = word;
+    rest = rest.slice(word.length).trimStart();
+  }
+
+  if (rest || spec.some((arg) => arg.required && !values[arg.name])) {
+    return null;
+  }
+  return values;
+}
+
+// The command a message invokes, or null for an ordinary message
+export function parseCommand(
+  content: string
+): { name: string; argText: string } | null {
+  const match = COMMAND_PATTERN.exec(content);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), argText: match[2] ?? "" };
+}
+
+// Slash commands typed into a room. Each declares its arguments and the
+// role it needs; the service methods they call check permissions again.
+export class CommandService {
+  private readonly commands: Map<string, SlashCommand>;
+
+  constructor(private readonly chatService: ChatService) {
+    this.commands = new Map(
+      this.defineCommands().map((command) => [command.name, command])
+    );
+  }
+
+  private defineCommands(): SlashCommand[] {
+    const chat = this.chatService;
+    const fromResult = (result: { success: boolean; error?: ApiError }) =>
+      result.success
+        ? ({ type: "done" } as const)
+        : ({ type: "error", error: result.error! } as const);
+
+    return [
+      {
+        name: "me",
+        description: "Describe what you're doing, e.g. /me waves",
+        args: [
+          {
+            name: "action",
+            description: "What you do",
+            required: true,
+            rest: true,
+          },
+        ],
+        postsToRoom: true,
+        // The sender's own message, so they and moderators can edit or
+        // delete it; clients show it after the author's name
+        run: async ({ args }) => ({
+          type: "message",
+          content: args.action!,
+          messageType: "action",
+        }),
+      },
+      {
+        name: "shrug",
+        description: "Send a message with ¯\\_(ツ)_/¯ appended",
+        args: [
+          {
+            name: "message",
+            description: "Text before the shrug",
+            required: false,
+            rest: true,
+          },
+        ],
+        postsToRoom: true,
+        run: async ({ args }) => ({
+          type: "message",
+          content: args.message ? `${args.message} ${SHRUG}` : SHRUG,
+        }),
+      },
+      {
+        name: "topic",
+        description: "Show the room's topic, or set it (owners and admins)",
+        args: [
+          {
+            name: "topic",
+            description: "The new topic",
+            required: false,
+            rest: true,
+          },
+        ],
+        groupOnly: true,
+        run: async ({ user, room, args }) => {
+          if (!args.topic) {
+            return {
+              type: "reply",
+              text: room.description
+                ? `Topic: ${room.description}`
+                : "This room has no topic",
+            };
+          }
+          // Shown in the header and posted in a system message, so it's
+          // held to what messages may contain
+          const checked = validateContent(args.topic);
+          if (checked.error) return { type: "error", error: checked.error };
+          const topic = checked.content;
+          if (topic.length > MAX_TOPIC_LENGTH) {
+            return {
+              type: "error",
+              error: {
+                message: `Topics can be at most ${MAX_TOPIC_LENGTH} characters`,
+                code: "VALIDATION_ERROR",
+              },
+            };
+          }
+
+          const result = await chat.updateRoom(user.id, room.id, {
+            description: topic,
+          });
+          if (!result.success) return fromResult(result);
+          return {
+            type: "system",
+            text: `${user.username} changed the topic to: ${topic}`,
+          };
+        },
+      },
+      {
+        name: "invite",
+        description: "Add someone to this room",
+        args: [
+          { name: "user", description: "Username to add", required: true },
+        ],
+        minRole: "admin",
+        groupOnly: true,
+        run: async ({ user, room, args }) =>
+          fromResult(
+            await chat.addMember(user.id, room.id, stripAt(args.user!))
+          ),
+      },
+      {
+        name: "mute",
+        description: `Mute a member (${DEFAULT_MUTE_MINUTES} minutes unless given)`,
+        args: [
+          { name: "user", description: "Member to mute", required: true },
+          { name: "minutes", description: "How long", required: false },
+        ],
+        minRole: "moderator",
+        groupOnly: true,
+        run: async ({ user, room, args }) => {
+          if (args.minutes && !/^\d+$/.test(args.minutes)) {
+            return {
+              type: "error",
+              error: {
+                message: "Minutes must be a whole number",
+                code: "VALIDATION_ERROR",
+              },
+            };
+          }
+
+          const target = await this.findMember(room.id, args.user!);
+          if ("error" in target) return target;
+          return fromResult(
+            await chat.muteMember(user.id, room.id, target.id, {
+              durationMinutes: args.minutes
+                ? Number(args.minutes)
+                : DEFAULT_MUTE_MINUTES,
+            })
+          );
+        },
+      },
+      {
+        name: "kick",
+        description: "Remove a member from the room (they can rejoin)",
+        args: [
+          { name: "user", description: "Member to remove", required: true },
+          {
+            name: "reason",
+            description: "Shown to them and the room",
+            required: false,
+            rest: true,
+          },
+        ],
+        minRole: "moderator",
+        groupOnly: true,
+        run: async ({ user, room, args }) => {
+          if (args.reason && args.reason.length > MAX_KICK_REASON_LENGTH) {
+            return {
+              type: "error",
+              error: {
+                message: `Reasons can be at most ${MAX_KICK_REASON_LENGTH} characters`,
+                code: "VALIDATION_ERROR",
+              },
+            };
+          }
+
+          const target = await this.findMember(room.id, args.user!);
+          if ("error" in target) return target;
+          return fromResult(
+            await chat.removeMember(user.id, room.id, target.id, {
+              ban: false,
+              reason: args.reason,
+            })
+          );
+        },
+      },
+      {
+        name: "leave",
+        description: "Leave this room",
+        args: [],
+        groupOnly: true,
+        run: async () => ({ type: "action", action: "leave_room" }),
+      },
+    ];
+  }
+
+  private async findMember(
+    roomId: string,
+    name: string
+  ): Promise<User | { type: "error"; error: ApiError }> {
+    const username = stripAt(name).toLowerCase();
+    const members = await this.chatService.dbService.getRoomMembers(roomId);
+    const member = members.find((m) => m.username.toLowerCase() === username);
+    if (!member) {
+      return {
+        type: "error",
+        error: {
+          message: `No member named ${stripAt(name)} in this room`,
+          code: "NOT_FOUND",
+        },
+      };
+    }
+    return member;
+  }
+
+  getManifest(): CommandInfo[] {
+    return [...this.commands.values()].map(
+      ({ name, description, args, minRole, groupOnly }) => ({
+        name,
+        description,
+        args,
+        minRole,
+        groupOnly,
+      })
+    );
+  }
+
+  // Runs before anything is stored; returns what the sender's client should
+  // do, if anything beyond the command's own effects
+  async run(
+    user: User,
+    roomId: string,
+    name: string,
+    argText: string
+  ): Promise<{
+    success: boolean;
+    result?: CommandResultPayload;
+    error?: ApiError;
+  }> {
+    log.debug({ command: name }, "run");
+    const command = this.commands.get(name);
+    if (!command) {
+      return {
+        success: false,
+        error: {
+          message: `Unknown command /${name}. Start with // to send a message beginning with /`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const { dbService } = this.chatService;
+    const room = await dbService.getRoomById(roomId);
+    if (!room || !(await dbService.isUserInRoom(user.id, roomId))) {
+      return {
+        success: false,
+        error: { message: "Not a member of this room", code: "FORBIDDEN" },
+      };
+    }
+
+    if (command.groupOnly && room.kind === "direct") {
+      return {
+        success: false,
+        error: {
+          message: `/${name} isn't available in direct messages`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    if (command.minRole) {
+      const role = await dbService.getMemberRole(user.id, roomId);
+      if (!hasRoleAtLeast(role, command.minRole)) {
+        return {
+          success: false,
+          error: {
+            message: `/${name} needs the ${command.minRole} role or higher`,
+            code: "FORBIDDEN",
+          },
+        };
+      }
+    }
+
+    if (command.postsToRoom) {
+      const readOnly = await this.chatService.checkWritable(roomId);
+      if (readOnly) return { success: false, error: readOnly };
+      if (await this.chatService.getMuteExpiry(roomId, user.id)) {
+        return {
+          success: false,
+          error: { message: "You are muted in this room", code: "MUTED" },
+        };
+      }
+    }
+
+    const args = parseArgs(command.args, argText);
+    if (!args) {
+      return {
+        success: false,
+        error: {
+          message: `Usage: ${usage(command)}`,
+          code: "VALIDATION_ERROR",
+        },
+      };
+    }
+
+    const outcome = await command.run({ user, room, args });
+    const result: CommandResultPayload = { roomId, command: name };
+
+    switch (outcome.type) {
+      case "error":
+        return { success: false, error: outcome.error };
+      case "reply":
+        this.chatService.sendEphemeral(user.id, roomId, outcome.text);
+        return { success: true };
+      case "action":
+        return { success: true, result: { ...result, action: outcome.action } };
+      case "system":
+        await this.chatService.createMessage(
+          roomId,
+          user.id,
+          outcome.text,
+          "system"
+        );
+        return { success: true };
+      case "message": {
+        // Commands can grow the text past the limit
+        const checked = validateContent(outcome.content);
+        if (checked.error) return { success: false, error: checked.error };
+        await this.chatService.createMessage(
+          roomId,
+          user.id,
+          checked.content,
+          outcome.messageType
+        );
+        return { success: true };
+      }
+      case "done":
+        return { success: true };
+    }
+  }
+}
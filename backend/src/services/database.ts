@@ -7,6 +7,21 @@ import {
   Message,
   RoomMembership,
   MessageResponse,
+  MessageRevision,
+  MessageSearchRequest,
+  MessageSearchResponse,
+  ReactionSummary,
+  RoomRole,
+  RoomBan,
+  UpdateRoomRequest,
+  RoomInvite,
+  JoinRequest,
+  ReadReceipt,
+  Attachment,
+  AttachmentRecord,
+  Poll,
+  CreatePollRequest,
+  ScheduledMessageRecord,
 } from "../utils/types";
 import { logger } from "../utils/logger";
 
@@ -20,6 +35,191 @@ const connectionString =
     process.env.DB_NAME || "chat_db"
   }`;
 
+// Content stored in place of a soft-deleted message
+export const MESSAGE_TOMBSTONE = "message deleted";
+
+// Reactions on message m, grouped by emoji in order of first use
+const REACTIONS_SUBQUERY = `
+  SELECT COALESCE(
+           json_agg(
+             json_build_object('emoji', g.emoji, 'count', g.count, 'userIds', g.user_ids)
+             ORDER BY g.first_at
+           ),
+           '[]'::json
+         )
+  FROM (
+    SELECT r.emoji, COUNT(*)::int AS count,
+           array_agg(r.user_id ORDER BY r.created_at) AS user_ids,
+           MIN(r.created_at) AS first_at
+    FROM message_reactions r
+    WHERE r.message_id = m.id
+    GROUP BY r.emoji
+  ) g`;
+
+// Poll on message m with its votes in the order they were cast
+const POLL_SUBQUERY = `
+  SELECT json_build_object(
+           'question', p.question,
+           'options', p.options,
+           'multiple_choice', p.multiple_choice,
+           'anonymous', p.anonymous,
+           'closes_at', p.closes_at,
+           'votes', (
+             SELECT COALESCE(
+                      json_agg(
+                        json_build_object('option_index', v.option_index, 'user_id', v.user_id)
+                        ORDER BY v.created_at
+                      ),
+                      '[]'::json
+                    )
+             FROM poll_votes v
+             WHERE v.message_id = p.message_id
+           )
+         )
+  FROM polls p
+  WHERE p.message_id = m.id`;
+
+// Columns selected by every message query (messages m LEFT JOIN users u)
+const MESSAGE_COLUMNS = `m.id, m.room_id, m.user_id, u.username, m.content, m.message_type,
+       m.created_at, m.edited_at, m.deleted_at, m.reply_to_id, m.reply_count,
+       m.pinned_at,
+       (SELECT username FROM users pu WHERE pu.id = m.pinned_by) AS pinned_by,
+       (${REACTIONS_SUBQUERY}) AS reactions,
+       (SELECT COALESCE(json_agg(mm.user_id), '[]'::json)
+        FROM message_mentions mm WHERE mm.message_id = m.id) AS mentions,
+       (SELECT row_to_json(a) FROM attachments a WHERE a.message_id = m.id) AS attachment,
+       (${POLL_SUBQUERY}) AS poll`;
+
+// Shared row -> Message mapping for every message query
+function toMessage(row: any): Message {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    userId: row.user_id,
+    username: row.username,
+    content: row.content,
+    type: row.message_type,
+    timestamp: row.created_at.toISOString(),
+    editedAt: row.edited_at ? row.edited_at.toISOString() : undefined,
+    isDeleted: !!row.deleted_at,
+    replyToId: row.reply_to_id ?? undefined,
+    replyCount: row.reply_count ?? 0,
+    reactions: row.reactions ?? [],
+    mentions: row.mentions ?? [],
+    pinnedAt: row.pinned_at ? row.pinned_at.toISOString() : undefined,
+    pinnedBy: row.pinned_by ?? undefined,
+    attachment: row.attachment ? toAttachment(row.attachment) : undefined,
+    poll: row.poll ? toPoll(row.poll) : undefined,
+  };
+}
+
+// Votes are tallied here, so an anonymous poll's voters never leave the
+// database layer
+function toPoll(row: any): Poll {
+  const votes: { option_index: number; user_id: string }[] = row.votes ?? [];
+  return {
+    question: row.question,
+    options: (row.options as string[]).map((text, index) => {
+      const userIds = votes
+        .filter((vote) => vote.option_index === index)
+        .map((vote) => vote.user_id);
+      return {
+        text,
+        votes: userIds.length,
+        userIds: row.anonymous ? undefined : userIds,
+      };
+    }),
+    multipleChoice: row.multiple_choice,
+    anonymous: row.anonymous,
+    closesAt: row.closes_at ? new Date(row.closes_at).toISOString() : undefined,
+    voterCount: new Set(votes.map((vote) => vote.user_id)).size,
+  };
+}
+
+// Attachment rows come straight from pg or through row_to_json (where
+// timestamps are strings), so dates are parsed either way
+function toAttachment(row: any): Attachment {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    filename: row.filename,
+    mimeType: row.mime_type,
+    size: row.size_bytes,
+    hasThumbnail: !!row.thumbnail_key,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+function toAttachmentRecord(row: any): AttachmentRecord {
+  return {
+    ...toAttachment(row),
+    messageId: row.message_id ?? undefined,
+    uploadedBy: row.uploaded_by ?? undefined,
+    storageKey: row.storage_key,
+    thumbnailKey: row.thumbnail_key ?? undefined,
+  };
+}
+
+function toBan(row: any): RoomBan {
+  return {
+    roomId: row.room_id,
+    userId: row.user_id,
+    bannedBy: row.banned_by ?? undefined,
+    reason: row.reason ?? undefined,
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : undefined,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function toJoinRequest(row: any): JoinRequest {
+  return {
+    roomId: row.room_id,
+    userId: row.user_id,
+    username: row.username,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+function toScheduledMessage(row: any): ScheduledMessageRecord {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    userId: row.user_id,
+    content: row.content,
+    sendAt: row.send_at.toISOString(),
+    status: row.status,
+    error: row.error ?? undefined,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+// Unread top-level messages from others in room r for membership rm: newer
+// than the last one read and than (re)joining
+const UNREAD_CONDITION = `
+  um.room_id = r.id AND um.reply_to_id IS NULL AND um.deleted_at IS NULL
+  AND um.message_type IN ('text','attachment','poll','action') AND um.user_id IS DISTINCT FROM rm.user_id
+  AND um.created_at > GREATEST(
+    (SELECT lm.created_at FROM messages lm WHERE lm.id = rm.last_read_message_id),
+    rm.joined_at
+  )`;
+
+const INVITE_COLUMNS = `id, room_id, token, created_by, expires_at, max_uses, uses,
+       revoked_at, created_at`;
+
+function toInvite(row: any): RoomInvite {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    token: row.token,
+    createdBy: row.created_by ?? undefined,
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : undefined,
+    maxUses: row.max_uses ?? undefined,
+    uses: row.uses,
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : undefined,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
 export class DatabaseService {
   private pool: Pool;
 
@@ -125,21 +325,58 @@ export class DatabaseService {
     };
   }
 
+  // Case-insensitive, preferring an exact match (names are unique as typed)
+  async getUserByUsername(username: string): Promise<User | null> {
+    log.debug("getUserByUsername");
+    const query = `
+      SELECT id, username, email, created_at
+      FROM users
+      WHERE lower(username) = lower($1)
+      ORDER BY username = $1 DESC
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [username]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      username: row.username,
+      email: row.email,
+      createdAt: row.created_at.toISOString(),
+    };
+  }
+
+  // Memberships, bans and reactions go with the user (ON DELETE CASCADE);
+  // rooms, messages and invites they created are kept (ON DELETE SET NULL)
+  async deleteUser(userId: string): Promise<boolean> {
+    log.debug("deleteUser");
+    const result = await this.pool.query(`DELETE FROM users WHERE id = $1`, [
+      userId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Room operations
   async createRoom(
     name: string,
     description: string | undefined,
     isPrivate: boolean,
     passcode: string | undefined,
+    requiresApproval: boolean,
     createdBy: string
   ): Promise<Room> {
     log.debug("createRoom");
     const passcodeHash = passcode ? await bcrypt.hash(passcode, 12) : null;
 
     const query = `
-      INSERT INTO rooms (name, description, is_private, passcode_hash, created_by)
-      VALUES ($1, $2, $3, $4, $5)
-      RETURNING id, name, description, is_private, created_by, created_at
+      INSERT INTO rooms (name, description, is_private, passcode_hash, requires_approval, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, name, description, is_private, requires_approval, read_receipts, archived_at, kind, created_by, created_at
     `;
 
     const result = await this.pool.query(query, [
@@ -147,6 +384,7 @@ export class DatabaseService {
       description,
       isPrivate,
       passcodeHash,
+      requiresApproval,
       createdBy,
     ]);
     const row = result.rows[0];
@@ -156,11 +394,147 @@ export class DatabaseService {
       name: row.name,
       description: row.description,
       isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
       createdBy: row.created_by,
       createdAt: row.created_at.toISOString(),
     };
   }
 
+  // Only the given fields change; passcodes are re-hashed, null clears them
+  async updateRoom(
+    roomId: string,
+    changes: UpdateRoomRequest
+  ): Promise<Room | null> {
+    log.debug("updateRoom");
+    const sets: string[] = [];
+    const params: any[] = [roomId];
+
+    if (changes.name !== undefined) {
+      params.push(changes.name);
+      sets.push(`name = $${params.length}`);
+    }
+    if (changes.description !== undefined) {
+      params.push(changes.description);
+      sets.push(`description = $${params.length}`);
+    }
+    if (changes.isPrivate !== undefined) {
+      params.push(changes.isPrivate);
+      sets.push(`is_private = $${params.length}`);
+    }
+    if (changes.requiresApproval !== undefined) {
+      params.push(changes.requiresApproval);
+      sets.push(`requires_approval = $${params.length}`);
+    }
+    if (changes.readReceipts !== undefined) {
+      params.push(changes.readReceipts);
+      sets.push(`read_receipts = $${params.length}`);
+    }
+    if (changes.passcode !== undefined) {
+      params.push(
+        changes.passcode ? await bcrypt.hash(changes.passcode, 12) : null
+      );
+      sets.push(`passcode_hash = $${params.length}`);
+    }
+
+    if (sets.length > 0) {
+      await this.pool.query(
+        `UPDATE rooms SET ${sets.join(", ")} WHERE id = $1`,
+        params
+      );
+    }
+
+    return await this.getRoomById(roomId);
+  }
+
+  // Null when the room doesn't exist or is already archived
+  async archiveRoom(roomId: string): Promise<Room | null> {
+    log.debug("archiveRoom");
+    const result = await this.pool.query(
+      `UPDATE rooms SET archived_at = NOW()
+       WHERE id = $1 AND archived_at IS NULL`,
+      [roomId]
+    );
+    if ((result.rowCount ?? 0) === 0) return null;
+
+    return await this.getRoomById(roomId);
+  }
+
+  async isRoomArchived(roomId: string): Promise<boolean> {
+    log.debug("isRoomArchived");
+    const result = await this.pool.query(
+      `SELECT 1 FROM rooms WHERE id = $1 AND archived_at IS NOT NULL`,
+      [roomId]
+    );
+    return result.rows.length > 0;
+  }
+
+  // Memberships, messages, bans, mutes, invites and join requests go with
+  // the room (ON DELETE CASCADE)
+  async deleteRoom(roomId: string): Promise<boolean> {
+    log.debug("deleteRoom");
+    const result = await this.pool.query(`DELETE FROM rooms WHERE id = $1`, [
+      roomId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Get or create the direct room between two users; both become active members
+  async getOrCreateDirectRoom(
+    name: string,
+    userId: string,
+    peerId: string
+  ): Promise<{ room: Room; created: boolean }> {
+    log.debug("getOrCreateDirectRoom");
+    const client = await this.pool.connect();
+    let created = false;
+    let roomId: string;
+
+    try {
+      await client.query("BEGIN");
+
+      const inserted = await client.query(
+        `INSERT INTO rooms (name, is_private, kind, created_by)
+         VALUES ($1, false, 'direct', $2)
+         ON CONFLICT (name) DO NOTHING
+         RETURNING id`,
+        [name, userId]
+      );
+
+      if (inserted.rows.length > 0) {
+        created = true;
+        roomId = inserted.rows[0].id;
+      } else {
+        const existing = await client.query(
+          `SELECT id FROM rooms WHERE name = $1 AND kind = 'direct'`,
+          [name]
+        );
+        roomId = existing.rows[0].id;
+      }
+
+      await client.query(
+        `INSERT INTO room_memberships (user_id, room_id)
+         VALUES ($1, $3), ($2, $3)
+         ON CONFLICT (user_id, room_id)
+         DO UPDATE SET is_active = true, joined_at = NOW()
+         WHERE NOT room_memberships.is_active`,
+        [userId, peerId, roomId]
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const room = await this.getRoomById(roomId);
+    return { room: room!, created };
+  }
+
   async validateRoomPasscode(
     roomId: string,
     passcode: string
@@ -184,12 +558,12 @@ export class DatabaseService {
     log.debug("getRoomById");
 
     const query = `
-      SELECT r.id, r.name, r.description, r.is_private, r.created_by, r.created_at,
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
              COUNT(rm.user_id) as member_count
       FROM rooms r
       LEFT JOIN room_memberships rm ON r.id = rm.room_id AND rm.is_active = true
       WHERE r.id = $1
-      GROUP BY r.id, r.name, r.description, r.is_private, r.created_by, r.created_at
+      GROUP BY r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at
     `;
 
     const result = await this.pool.query(query, [roomId]);
@@ -204,6 +578,10 @@ export class DatabaseService {
       name: row.name,
       description: row.description,
       isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
       createdBy: row.created_by,
       createdAt: row.created_at.toISOString(),
       memberCount: parseInt(row.member_count),
@@ -214,12 +592,12 @@ export class DatabaseService {
     log.debug("getRoomByName");
 
     const query = `
-      SELECT r.id, r.name, r.description, r.is_private, r.created_by, r.created_at,
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
              COUNT(rm.user_id) as member_count
       FROM rooms r
       LEFT JOIN room_memberships rm ON r.id = rm.room_id AND rm.is_active = true
       WHERE r.name = $1
-      GROUP BY r.id, r.name, r.description, r.is_private, r.created_by, r.created_at
+      GROUP BY r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at
     `;
 
     const result = await this.pool.query(query, [roomName]);
@@ -234,6 +612,10 @@ export class DatabaseService {
       name: row.name,
       description: row.description,
       isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
       createdBy: row.created_by,
       createdAt: row.created_at.toISOString(),
       memberCount: parseInt(row.member_count),
@@ -241,18 +623,23 @@ export class DatabaseService {
   }
 
   // Room membership operations
-  async addUserToRoom(userId: string, roomId: string): Promise<RoomMembership> {
+  // Rejoining after leaving starts over with the given role
+  async addUserToRoom(
+    userId: string,
+    roomId: string,
+    role: RoomRole = "member"
+  ): Promise<RoomMembership> {
     log.debug("addUserToRoom");
     const insertSql = `
-      INSERT INTO room_memberships (user_id, room_id)
-      VALUES ($1, $2)
+      INSERT INTO room_memberships (user_id, room_id, role)
+      VALUES ($1, $2, $3)
       ON CONFLICT (user_id, room_id) 
-      DO UPDATE SET is_active = true, joined_at = NOW()
+      DO UPDATE SET is_active = true, joined_at = NOW(), role = EXCLUDED.role
       WHERE NOT room_memberships.is_active
-      RETURNING user_id, room_id, joined_at, is_active
+      RETURNING user_id, room_id, joined_at, is_active, role
     `;
 
-    const result = await this.pool.query(insertSql, [userId, roomId]);
+    const result = await this.pool.query(insertSql, [userId, roomId, role]);
 
     if (result.rows.length > 0) {
       const row = result.rows[0];
@@ -261,11 +648,12 @@ export class DatabaseService {
         roomId: row.room_id,
         joinedAt: row.joined_at.toISOString(),
         isActive: row.is_active,
+        role: row.role,
       };
     }
 
     const selectSql = `
-    SELECT user_id, room_id, joined_at, is_active
+    SELECT user_id, room_id, joined_at, is_active, role
     FROM room_memberships
     WHERE user_id = $1 AND room_id = $2
     LIMIT 1
@@ -278,9 +666,349 @@ export class DatabaseService {
       roomId: row.room_id,
       joinedAt: row.joined_at.toISOString(),
       isActive: row.is_active,
+      role: row.role,
     };
   }
 
+  // Role of an active member, null if not in the room
+  async getMemberRole(
+    userId: string,
+    roomId: string
+  ): Promise<RoomRole | null> {
+    log.debug("getMemberRole");
+    const query = `
+      SELECT role FROM room_memberships
+      WHERE user_id = $1 AND room_id = $2 AND is_active = true
+    `;
+
+    const result = await this.pool.query(query, [userId, roomId]);
+    return result.rows.length > 0 ? result.rows[0].role : null;
+  }
+
+  async setMemberRole(
+    userId: string,
+    roomId: string,
+    role: RoomRole
+  ): Promise<void> {
+    log.debug("setMemberRole");
+    const query = `
+      UPDATE room_memberships SET role = $3
+      WHERE user_id = $1 AND room_id = $2 AND is_active = true
+    `;
+
+    await this.pool.query(query, [userId, roomId, role]);
+  }
+
+  // Swap roles in one step so the room never has zero or two owners;
+  // false when the target isn't an active member
+  async transferOwnership(
+    roomId: string,
+    fromUserId: string,
+    toUserId: string
+  ): Promise<boolean> {
+    log.debug("transferOwnership");
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const promoted = await client.query(
+        `UPDATE room_memberships SET role = 'owner'
+         WHERE user_id = $1 AND room_id = $2 AND is_active = true`,
+        [toUserId, roomId]
+      );
+      if ((promoted.rowCount ?? 0) === 0) {
+        await client.query("ROLLBACK");
+        return false;
+      }
+
+      await client.query(
+        `UPDATE room_memberships SET role = 'admin'
+         WHERE user_id = $1 AND room_id = $2`,
+        [fromUserId, roomId]
+      );
+
+      await client.query("COMMIT");
+      return true;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Longest-standing admin, else the longest-standing member; null when
+  // nobody else is left in the room
+  async getOwnershipSuccessor(
+    roomId: string,
+    excludeUserId: string
+  ): Promise<{ id: string; username: string } | null> {
+    log.debug("getOwnershipSuccessor");
+    const query = `
+      SELECT u.id, u.username
+      FROM room_memberships rm
+      INNER JOIN users u ON u.id = rm.user_id
+      WHERE rm.room_id = $1 AND rm.user_id <> $2 AND rm.is_active = true
+      ORDER BY (rm.role = 'admin') DESC, rm.joined_at ASC
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [roomId, excludeUserId]);
+    return result.rows[0] ?? null;
+  }
+
+  async getOwnedRooms(userId: string): Promise<Room[]> {
+    log.debug("getOwnedRooms");
+    const query = `
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at
+      FROM rooms r
+      INNER JOIN room_memberships rm ON r.id = rm.room_id
+      WHERE rm.user_id = $1 AND rm.role = 'owner' AND rm.is_active = true
+    `;
+
+    const result = await this.pool.query(query, [userId]);
+    return result.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
+      createdBy: row.created_by,
+      createdAt: row.created_at.toISOString(),
+    }));
+  }
+
+  // Replaces any earlier ban of the same user
+  async banUser(
+    roomId: string,
+    userId: string,
+    bannedBy: string,
+    reason?: string,
+    expiresAt?: string
+  ): Promise<RoomBan> {
+    log.debug("banUser");
+    const query = `
+      INSERT INTO room_bans (room_id, user_id, banned_by, reason, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (room_id, user_id)
+      DO UPDATE SET banned_by = EXCLUDED.banned_by, reason = EXCLUDED.reason,
+                    expires_at = EXCLUDED.expires_at, created_at = NOW()
+      RETURNING room_id, user_id, banned_by, reason, expires_at, created_at
+    `;
+
+    const result = await this.pool.query(query, [
+      roomId,
+      userId,
+      bannedBy,
+      reason ?? null,
+      expiresAt ?? null,
+    ]);
+    return toBan(result.rows[0]);
+  }
+
+  // Null when the user already has a pending request
+  async createJoinRequest(
+    roomId: string,
+    userId: string
+  ): Promise<JoinRequest | null> {
+    log.debug("createJoinRequest");
+    const query = `
+      WITH inserted AS (
+        INSERT INTO room_join_requests (room_id, user_id)
+        VALUES ($1, $2)
+        ON CONFLICT (room_id, user_id) DO NOTHING
+        RETURNING room_id, user_id, created_at
+      )
+      SELECT i.room_id, i.user_id, i.created_at, u.username
+      FROM inserted i
+      JOIN users u ON u.id = i.user_id
+    `;
+
+    const result = await this.pool.query(query, [roomId, userId]);
+    return result.rows.length > 0 ? toJoinRequest(result.rows[0]) : null;
+  }
+
+  // Pending requests of a room, oldest first
+  async getJoinRequests(roomId: string): Promise<JoinRequest[]> {
+    log.debug("getJoinRequests");
+    const query = `
+      SELECT jr.room_id, jr.user_id, jr.created_at, u.username
+      FROM room_join_requests jr
+      JOIN users u ON u.id = jr.user_id
+      WHERE jr.room_id = $1
+      ORDER BY jr.created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [roomId]);
+    return result.rows.map(toJoinRequest);
+  }
+
+  async deleteJoinRequest(roomId: string, userId: string): Promise<boolean> {
+    log.debug("deleteJoinRequest");
+    const result = await this.pool.query(
+      `DELETE FROM room_join_requests WHERE room_id = $1 AND user_id = $2`,
+      [roomId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteRoomJoinRequests(roomId: string): Promise<void> {
+    log.debug("deleteRoomJoinRequests");
+    await this.pool.query(`DELETE FROM room_join_requests WHERE room_id = $1`, [
+      roomId,
+    ]);
+  }
+
+  // Ban still in force, if any
+  async getActiveBan(roomId: string, userId: string): Promise<RoomBan | null> {
+    log.debug("getActiveBan");
+    const query = `
+      SELECT room_id, user_id, banned_by, reason, expires_at, created_at
+      FROM room_bans
+      WHERE room_id = $1 AND user_id = $2
+        AND (expires_at IS NULL OR expires_at > NOW())
+    `;
+
+    const result = await this.pool.query(query, [roomId, userId]);
+    return result.rows.length > 0 ? toBan(result.rows[0]) : null;
+  }
+
+  // Replaces any earlier mute of the same user
+  async muteUser(
+    roomId: string,
+    userId: string,
+    mutedBy: string,
+    expiresAt: string
+  ): Promise<void> {
+    log.debug("muteUser");
+    const query = `
+      INSERT INTO room_mutes (room_id, user_id, muted_by, expires_at)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (room_id, user_id)
+      DO UPDATE SET muted_by = EXCLUDED.muted_by,
+                    expires_at = EXCLUDED.expires_at, created_at = NOW()
+    `;
+
+    await this.pool.query(query, [roomId, userId, mutedBy, expiresAt]);
+  }
+
+  async unmuteUser(roomId: string, userId: string): Promise<void> {
+    log.debug("unmuteUser");
+    const query = `DELETE FROM room_mutes WHERE room_id = $1 AND user_id = $2`;
+    await this.pool.query(query, [roomId, userId]);
+  }
+
+  // Expiry of a mute still in force, null if not muted
+  async getActiveMute(roomId: string, userId: string): Promise<string | null> {
+    log.debug("getActiveMute");
+    const query = `
+      SELECT expires_at FROM room_mutes
+      WHERE room_id = $1 AND user_id = $2 AND expires_at > NOW()
+    `;
+
+    const result = await this.pool.query(query, [roomId, userId]);
+    return result.rows.length > 0
+      ? result.rows[0].expires_at.toISOString()
+      : null;
+  }
+
+  async createInvite(
+    roomId: string,
+    token: string,
+    createdBy: string,
+    expiresAt?: string,
+    maxUses?: number
+  ): Promise<RoomInvite> {
+    log.debug("createInvite");
+    const query = `
+      INSERT INTO room_invites (room_id, token, created_by, expires_at, max_uses)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${INVITE_COLUMNS}
+    `;
+
+    const result = await this.pool.query(query, [
+      roomId,
+      token,
+      createdBy,
+      expiresAt ?? null,
+      maxUses ?? null,
+    ]);
+    return toInvite(result.rows[0]);
+  }
+
+  // Unrevoked invites of a room, newest first (expired and used-up included)
+  async getRoomInvites(roomId: string): Promise<RoomInvite[]> {
+    log.debug("getRoomInvites");
+    const query = `
+      SELECT ${INVITE_COLUMNS} FROM room_invites
+      WHERE room_id = $1 AND revoked_at IS NULL
+      ORDER BY created_at DESC
+    `;
+
+    const result = await this.pool.query(query, [roomId]);
+    return result.rows.map(toInvite);
+  }
+
+  // Invite that can still be used, if any
+  async getUsableInvite(token: string): Promise<RoomInvite | null> {
+    log.debug("getUsableInvite");
+    const query = `
+      SELECT ${INVITE_COLUMNS} FROM room_invites
+      WHERE token = $1 AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (max_uses IS NULL OR uses < max_uses)
+    `;
+
+    const result = await this.pool.query(query, [token]);
+    return result.rows.length > 0 ? toInvite(result.rows[0]) : null;
+  }
+
+  // Count one use in the same statement that re-checks the limits, so
+  // concurrent joins can't exceed max_uses
+  async redeemInvite(token: string): Promise<boolean> {
+    log.debug("redeemInvite");
+    const query = `
+      UPDATE room_invites SET uses = uses + 1
+      WHERE token = $1 AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+        AND (max_uses IS NULL OR uses < max_uses)
+    `;
+
+    const result = await this.pool.query(query, [token]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async revokeInvite(roomId: string, inviteId: string): Promise<boolean> {
+    log.debug("revokeInvite");
+    const query = `
+      UPDATE room_invites SET revoked_at = NOW()
+      WHERE id = $1 AND room_id = $2 AND revoked_at IS NULL
+    `;
+
+    const result = await this.pool.query(query, [inviteId, roomId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Roles of all active members, keyed by user ID
+  async getRoomRoles(roomId: string): Promise<Record<string, RoomRole>> {
+    log.debug("getRoomRoles");
+    const query = `
+      SELECT user_id, role FROM room_memberships
+      WHERE room_id = $1 AND is_active = true
+    `;
+
+    const result = await this.pool.query(query, [roomId]);
+    const roles: Record<string, RoomRole> = {};
+    for (const row of result.rows) {
+      roles[row.user_id] = row.role;
+    }
+    return roles;
+  }
+
   async removeUserFromRoom(userId: string, roomId: string): Promise<void> {
     log.debug("removeUserFromRoom");
     const query = `
@@ -333,16 +1061,16 @@ export class DatabaseService {
     if (userId) {
       // Exclude rooms the user is already a member of
       query = `
-      SELECT r.id, r.name, r.description, r.is_private, r.created_by, r.created_at,
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
              COUNT(rm.user_id) as member_count
       FROM rooms r
       LEFT JOIN room_memberships rm ON r.id = rm.room_id AND rm.is_active = true
       LEFT JOIN room_memberships user_rm ON r.id = user_rm.room_id 
                                           AND user_rm.user_id = $1 
                                           AND user_rm.is_active = true
-      WHERE r.is_private = false
+      WHERE r.is_private = false AND r.kind = 'group' AND r.archived_at IS NULL
         AND user_rm.user_id IS NULL
-      GROUP BY r.id, r.name, r.description, r.is_private, r.created_by, r.created_at
+      GROUP BY r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at
       ORDER BY r.created_at DESC
       LIMIT $2
     `;
@@ -350,12 +1078,12 @@ export class DatabaseService {
     } else {
       // get all public rooms
       query = `
-      SELECT r.id, r.name, r.description, r.is_private, r.created_by, r.created_at,
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
              COUNT(rm.user_id) as member_count
       FROM rooms r
       LEFT JOIN room_memberships rm ON r.id = rm.room_id AND rm.is_active = true
-      WHERE r.is_private = false
-      GROUP BY r.id, r.name, r.description, r.is_private, r.created_by, r.created_at
+      WHERE r.is_private = false AND r.kind = 'group' AND r.archived_at IS NULL
+      GROUP BY r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at
       ORDER BY r.created_at DESC
       LIMIT $1
     `;
@@ -369,6 +1097,10 @@ export class DatabaseService {
       name: row.name,
       description: row.description,
       isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
       createdBy: row.created_by,
       createdAt: row.created_at.toISOString(),
       memberCount: parseInt(row.member_count),
@@ -378,13 +1110,24 @@ export class DatabaseService {
   async getUserRooms(userId: string): Promise<Room[]> {
     log.debug("getUserRooms");
     const query = `
-      SELECT r.id, r.name, r.description, r.is_private, r.created_by, r.created_at,
-             COUNT(rm2.user_id) as member_count, MAX(rm.joined_at) AS joined_at
+      SELECT r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
+             COUNT(rm2.user_id) as member_count, MAX(rm.joined_at) AS joined_at, rm.role AS my_role,
+             rm.last_read_message_id,
+             (SELECT COUNT(*)::int FROM messages um WHERE ${UNREAD_CONDITION}) AS unread_count,
+             (SELECT COUNT(*)::int FROM messages um WHERE ${UNREAD_CONDITION}
+                AND EXISTS (SELECT 1 FROM message_mentions mm
+                            WHERE mm.message_id = um.id AND mm.user_id = rm.user_id)) AS unread_mention_count,
+             (SELECT json_build_object('userId', pu.id, 'username', pu.username)
+              FROM room_memberships pm
+              JOIN users pu ON pu.id = pm.user_id
+              WHERE r.kind = 'direct' AND pm.room_id = r.id AND pm.user_id <> $1
+              LIMIT 1) AS peer
       FROM rooms r
       INNER JOIN room_memberships rm ON r.id = rm.room_id
       LEFT JOIN room_memberships rm2 ON r.id = rm2.room_id AND rm2.is_active = true
       WHERE rm.user_id = $1 AND rm.is_active = true
-      GROUP BY r.id, r.name, r.description, r.is_private, r.created_by, r.created_at
+      GROUP BY r.id, r.name, r.description, r.is_private, r.requires_approval, r.read_receipts, r.archived_at, r.kind, r.created_by, r.created_at,
+               rm.role, rm.user_id, rm.joined_at, rm.last_read_message_id
       ORDER BY joined_at DESC
     `;
 
@@ -395,9 +1138,60 @@ export class DatabaseService {
       name: row.name,
       description: row.description,
       isPrivate: row.is_private,
+      requiresApproval: row.requires_approval,
+      readReceipts: row.read_receipts,
+      archivedAt: row.archived_at ? row.archived_at.toISOString() : undefined,
+      kind: row.kind,
       createdBy: row.created_by,
       createdAt: row.created_at.toISOString(),
       memberCount: parseInt(row.member_count),
+      // Presence is filled in by the chat service
+      peer: row.peer ? { ...row.peer, status: "offline" } : undefined,
+      myRole: row.my_role,
+      lastReadMessageId: row.last_read_message_id ?? undefined,
+      unreadCount: row.unread_count,
+      unreadMentionCount: row.unread_mention_count,
+    }));
+  }
+
+  // Read markers only move forward, and only onto top-level messages of the
+  // room; false when nothing changed
+  async markRead(
+    userId: string,
+    roomId: string,
+    messageId: string
+  ): Promise<boolean> {
+    log.debug("markRead");
+    const query = `
+      UPDATE room_memberships rm SET last_read_message_id = m.id
+      FROM messages m
+      WHERE rm.user_id = $1 AND rm.room_id = $2 AND rm.is_active = true
+        AND m.id = $3 AND m.room_id = rm.room_id AND m.reply_to_id IS NULL
+        AND m.created_at > COALESCE(
+          (SELECT lm.created_at FROM messages lm WHERE lm.id = rm.last_read_message_id),
+          '-infinity'
+        )
+    `;
+
+    const result = await this.pool.query(query, [userId, roomId, messageId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getReadReceipts(roomId: string): Promise<ReadReceipt[]> {
+    log.debug("getReadReceipts");
+    const query = `
+      SELECT rm.user_id, u.username, rm.last_read_message_id
+      FROM room_memberships rm
+      INNER JOIN users u ON u.id = rm.user_id
+      WHERE rm.room_id = $1 AND rm.is_active = true
+        AND rm.last_read_message_id IS NOT NULL
+    `;
+
+    const result = await this.pool.query(query, [roomId]);
+    return result.rows.map((row) => ({
+      userId: row.user_id,
+      username: row.username,
+      messageId: row.last_read_message_id,
     }));
   }
 
@@ -419,35 +1213,368 @@ export class DatabaseService {
     roomId: string,
     userId: string,
     content: string,
-    messageType: "text" | "system" = "text"
+    messageType: Message["type"] = "text",
+    replyToId?: string,
+    attachmentId?: string,
+    poll?: Omit<CreatePollRequest, "roomId">
   ): Promise<Message> {
     log.debug("storeMessage");
     const query = `
-      INSERT INTO messages (room_id, user_id, content, message_type)
-      VALUES ($1, $2, $3, $4)
-      RETURNING id, room_id, user_id, content, message_type, created_at
+      INSERT INTO messages (room_id, user_id, content, message_type, reply_to_id)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id, room_id, user_id, content, message_type, created_at,
+                edited_at, deleted_at, reply_to_id, reply_count
     `;
 
-    const result = await this.pool.query(query, [
-      roomId,
-      userId,
-      content,
-      messageType,
-    ]);
-    const row = result.rows[0];
+    const client = await this.pool.connect();
+    let row: any;
+
+    try {
+      await client.query("BEGIN");
+
+      const result = await client.query(query, [
+        roomId,
+        userId,
+        content,
+        messageType,
+        replyToId ?? null,
+      ]);
+      row = result.rows[0];
+
+      // Keep the parent's reply counter in step with its thread
+      if (replyToId) {
+        await client.query(
+          `UPDATE messages SET reply_count = reply_count + 1 WHERE id = $1`,
+          [replyToId]
+        );
+      }
+
+      // An attachment goes out with one message only
+      if (attachmentId) {
+        const attached = await client.query(
+          `UPDATE attachments SET message_id = $1
+           WHERE id = $2 AND message_id IS NULL
+           RETURNING *`,
+          [row.id, attachmentId]
+        );
+        if (attached.rows.length === 0) {
+          throw new Error(`Attachment ${attachmentId} was already sent`);
+        }
+        row.attachment = attached.rows[0];
+      }
+
+      if (poll) {
+        const created = await client.query(
+          `INSERT INTO polls
+             (message_id, question, options, multiple_choice, anonymous, closes_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [
+            row.id,
+            poll.question,
+            JSON.stringify(poll.options),
+            poll.multipleChoice ?? false,
+            poll.anonymous ?? false,
+            poll.closesAt ?? null,
+          ]
+        );
+        row.poll = { ...created.rows[0], votes: [] };
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
 
     // Get username
     const user = await this.getUserById(userId);
 
-    return {
-      id: row.id,
-      roomId: row.room_id,
-      userId: row.user_id,
-      username: user?.username || "Unknown",
-      content: row.content,
-      type: row.message_type,
-      timestamp: row.created_at.toISOString(),
-    };
+    return toMessage({ ...row, username: user?.username || "Unknown" });
+  }
+
+  async createAttachment(
+    record: Omit<AttachmentRecord, "hasThumbnail" | "createdAt" | "messageId">
+  ): Promise<Attachment> {
+    log.debug("createAttachment");
+    const result = await this.pool.query(
+      `INSERT INTO attachments
+         (id, room_id, uploaded_by, filename, mime_type, size_bytes, storage_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        record.id,
+        record.roomId,
+        record.uploadedBy ?? null,
+        record.filename,
+        record.mimeType,
+        record.size,
+        record.storageKey,
+      ]
+    );
+
+    return toAttachment(result.rows[0]);
+  }
+
+  async getAttachment(attachmentId: string): Promise<AttachmentRecord | null> {
+    log.debug("getAttachment");
+    const result = await this.pool.query(
+      `SELECT * FROM attachments WHERE id = $1`,
+      [attachmentId]
+    );
+
+    return result.rows.length > 0 ? toAttachmentRecord(result.rows[0]) : null;
+  }
+
+  async setAttachmentThumbnail(
+    attachmentId: string,
+    thumbnailKey: string
+  ): Promise<void> {
+    log.debug("setAttachmentThumbnail");
+    await this.pool.query(
+      `UPDATE attachments SET thumbnail_key = $2 WHERE id = $1`,
+      [attachmentId, thumbnailKey]
+    );
+  }
+
+  // Every stored object of a room's attachments, to clean up storage
+  async getRoomStorageKeys(roomId: string): Promise<string[]> {
+    log.debug("getRoomStorageKeys");
+    const result = await this.pool.query(
+      `SELECT storage_key, thumbnail_key FROM attachments WHERE room_id = $1`,
+      [roomId]
+    );
+
+    return result.rows.flatMap((row) =>
+      row.thumbnail_key
+        ? [row.storage_key, row.thumbnail_key]
+        : [row.storage_key]
+    );
+  }
+
+  // Replace a member's choices on a poll; no indexes withdraws their vote
+  async setPollVotes(
+    messageId: string,
+    userId: string,
+    optionIndexes: number[]
+  ): Promise<void> {
+    log.debug("setPollVotes");
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `DELETE FROM poll_votes WHERE message_id = $1 AND user_id = $2`,
+        [messageId, userId]
+      );
+      if (optionIndexes.length > 0) {
+        await client.query(
+          `INSERT INTO poll_votes (message_id, user_id, option_index)
+           SELECT $1, $2, unnest($3::int[])`,
+          [messageId, userId, optionIndexes]
+        );
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The options a user chose on each of the given polls
+  async getUserPollVotes(
+    messageIds: string[],
+    userId: string
+  ): Promise<Record<string, number[]>> {
+    log.debug("getUserPollVotes");
+    const result = await this.pool.query(
+      `SELECT message_id, array_agg(option_index ORDER BY option_index) AS options
+       FROM poll_votes
+       WHERE message_id = ANY($1::uuid[]) AND user_id = $2
+       GROUP BY message_id`,
+      [messageIds, userId]
+    );
+
+    return Object.fromEntries(
+      result.rows.map((row) => [row.message_id, row.options])
+    );
+  }
+
+  async createScheduledMessage(
+    roomId: string,
+    userId: string,
+    content: string,
+    sendAt: string
+  ): Promise<ScheduledMessageRecord> {
+    log.debug("createScheduledMessage");
+    const result = await this.pool.query(
+      `INSERT INTO scheduled_messages (room_id, user_id, content, send_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [roomId, userId, content, sendAt]
+    );
+
+    return toScheduledMessage(result.rows[0]);
+  }
+
+  // A member's unsent scheduled messages in a room, soonest first
+  async getScheduledMessages(
+    roomId: string,
+    userId: string
+  ): Promise<ScheduledMessageRecord[]> {
+    log.debug("getScheduledMessages");
+    const result = await this.pool.query(
+      `SELECT * FROM scheduled_messages
+       WHERE room_id = $1 AND user_id = $2 AND status <> 'sent'
+       ORDER BY send_at, created_at`,
+      [roomId, userId]
+    );
+
+    return result.rows.map(toScheduledMessage);
+  }
+
+  // Editing puts a failed message back in the queue; one the scheduler has
+  // already claimed can't change (null)
+  async updateScheduledMessage(
+    scheduledId: string,
+    roomId: string,
+    userId: string,
+    changes: { content?: string; sendAt?: string }
+  ): Promise<ScheduledMessageRecord | null> {
+    log.debug("updateScheduledMessage");
+    const result = await this.pool.query(
+      `UPDATE scheduled_messages
+       SET content = COALESCE($4, content), send_at = COALESCE($5, send_at),
+           status = 'pending', error = NULL
+       WHERE id = $1 AND room_id = $2 AND user_id = $3
+         AND status IN ('pending','failed')
+       RETURNING *`,
+      [
+        scheduledId,
+        roomId,
+        userId,
+        changes.content ?? null,
+        changes.sendAt ?? null,
+      ]
+    );
+
+    return result.rows.length > 0 ? toScheduledMessage(result.rows[0]) : null;
+  }
+
+  async deleteScheduledMessage(
+    scheduledId: string,
+    roomId: string,
+    userId: string
+  ): Promise<boolean> {
+    log.debug("deleteScheduledMessage");
+    const result = await this.pool.query(
+      `DELETE FROM scheduled_messages
+       WHERE id = $1 AND room_id = $2 AND user_id = $3
+         AND status IN ('pending','failed')`,
+      [scheduledId, roomId, userId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countPendingScheduledMessages(
+    roomId: string,
+    userId: string
+  ): Promise<number> {
+    log.debug("countPendingScheduledMessages");
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM scheduled_messages
+       WHERE room_id = $1 AND user_id = $2 AND status IN ('pending','failed')`,
+      [roomId, userId]
+    );
+
+    return result.rows[0].count;
+  }
+
+  // Take due messages for sending. The row locks are skipped by other
+  // instances running the same query, and the status change commits with
+  // the claim, so each message is handed to exactly one caller.
+  async claimDueScheduledMessages(
+    limit: number
+  ): Promise<ScheduledMessageRecord[]> {
+    log.debug("claimDueScheduledMessages");
+    const result = await this.pool.query(
+      `UPDATE scheduled_messages
+       SET status = 'sending', claimed_at = NOW()
+       WHERE id IN (
+         SELECT id FROM scheduled_messages
+         WHERE status = 'pending' AND send_at <= NOW()
+         ORDER BY send_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+
+    return result.rows.map(toScheduledMessage);
+  }
+
+  // Only the claim being finished is updated: once a slow send has been
+  // failed as stale, its late outcome is logged but no longer recorded
+  async finishScheduledMessage(
+    scheduledId: string,
+    outcome: { messageId: string } | { error: string }
+  ): Promise<boolean> {
+    log.debug("finishScheduledMessage");
+    const result =
+      "messageId" in outcome
+        ? await this.pool.query(
+            `UPDATE scheduled_messages SET status = 'sent', message_id = $2
+             WHERE id = $1 AND status = 'sending'`,
+            [scheduledId, outcome.messageId]
+          )
+        : await this.pool.query(
+            `UPDATE scheduled_messages SET status = 'failed', error = $2
+             WHERE id = $1 AND status = 'sending'`,
+            [scheduledId, outcome.error]
+          );
+
+    const finished = (result.rowCount ?? 0) > 0;
+    if (!finished) {
+      log.warn(
+        { scheduledId, outcome },
+        "scheduled message was no longer being sent"
+      );
+    }
+    return finished;
+  }
+
+  // Claims whose instance stopped before finishing. They may or may not
+  // have been posted, so they fail rather than risk a second copy.
+  async failStaleScheduledMessages(
+    olderThanMinutes: number,
+    error: string
+  ): Promise<ScheduledMessageRecord[]> {
+    log.debug("failStaleScheduledMessages");
+    const result = await this.pool.query(
+      `UPDATE scheduled_messages SET status = 'failed', error = $2
+       WHERE status = 'sending'
+         AND claimed_at < NOW() - make_interval(mins => $1)
+       RETURNING *`,
+      [olderThanMinutes, error]
+    );
+
+    return result.rows.map(toScheduledMessage);
+  }
+
+  async addMentions(messageId: string, userIds: string[]): Promise<void> {
+    log.debug("addMentions");
+    await this.pool.query(
+      `INSERT INTO message_mentions (message_id, user_id)
+       SELECT $1, unnest($2::uuid[])
+       ON CONFLICT DO NOTHING`,
+      [messageId, userIds]
+    );
   }
 
   // Get messages from PostgreSQL with pagination
@@ -476,20 +1603,20 @@ export class DatabaseService {
       const beforeTimestamp = beforeResult.rows[0].created_at;
 
       query = `
-        SELECT m.id, m.room_id, m.user_id, u.username, m.content, m.message_type, m.created_at
+        SELECT ${MESSAGE_COLUMNS}
         FROM messages m
         LEFT JOIN users u ON m.user_id = u.id
-        WHERE m.room_id = $1 AND m.created_at < $2
+        WHERE m.room_id = $1 AND m.reply_to_id IS NULL AND m.created_at < $2
         ORDER BY m.created_at DESC
         LIMIT $3
       `;
       params = [roomId, beforeTimestamp, limit + 1];
     } else {
       query = `
-        SELECT m.id, m.room_id, m.user_id, u.username, m.content, m.message_type, m.created_at
+        SELECT ${MESSAGE_COLUMNS}
         FROM messages m
         LEFT JOIN users u ON m.user_id = u.id
-        WHERE m.room_id = $1
+        WHERE m.room_id = $1 AND m.reply_to_id IS NULL
         ORDER BY m.created_at DESC
         LIMIT $2
       `;
@@ -502,15 +1629,7 @@ export class DatabaseService {
     const hasMore = rows.length > limit;
     const messages = rows.slice(0, limit);
 
-    const formattedMessages = messages.map((row) => ({
-      id: row.id,
-      roomId: row.room_id,
-      userId: row.user_id,
-      username: row.username,
-      content: row.content,
-      type: row.message_type,
-      timestamp: row.created_at.toISOString(),
-    }));
+    const formattedMessages = messages.map(toMessage);
 
     // Return in chronological order (oldest first)
     formattedMessages.reverse();
@@ -522,6 +1641,41 @@ export class DatabaseService {
     };
   }
 
+  // Messages newer than afterMessageId, oldest first (paging forward from a
+  // window back towards the latest message)
+  async getMessagesAfterFromDB(
+    roomId: string,
+    limit: number = 50,
+    afterMessageId: string
+  ): Promise<MessageResponse> {
+    log.debug("getMessagesAfterFromDB");
+    const query = `
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages m
+      LEFT JOIN users u ON m.user_id = u.id
+      WHERE m.room_id = $1 AND m.reply_to_id IS NULL
+        AND m.created_at > (SELECT created_at FROM messages WHERE id = $2)
+      ORDER BY m.created_at ASC
+      LIMIT $3
+    `;
+
+    const result = await this.pool.query(query, [
+      roomId,
+      afterMessageId,
+      limit + 1,
+    ]);
+    const rows = result.rows;
+
+    const hasMore = rows.length > limit;
+    const messages = rows.slice(0, limit);
+
+    return {
+      messages: messages.map(toMessage),
+      hasMore,
+      nextCursor: hasMore ? messages[messages.length - 1].id : undefined,
+    };
+  }
+
   // Get most recent messages (used when Redis is empty)
   async getRecentMessagesFromDB(
     roomId: string,
@@ -529,27 +1683,399 @@ export class DatabaseService {
   ): Promise<Message[]> {
     log.debug("getRecentMessagesFromDB");
     const query = `
-      SELECT m.id, m.room_id, m.user_id, u.username, m.content, m.message_type, m.created_at
+      SELECT ${MESSAGE_COLUMNS}
       FROM messages m
       LEFT JOIN users u ON m.user_id = u.id
-      WHERE m.room_id = $1
+      WHERE m.room_id = $1 AND m.reply_to_id IS NULL
       ORDER BY m.created_at DESC
       LIMIT $2
     `;
 
     const result = await this.pool.query(query, [roomId, limit]);
 
-    return result.rows
-      .map((row) => ({
-        id: row.id,
-        roomId: row.room_id,
-        userId: row.user_id,
-        username: row.username,
-        content: row.content,
-        type: row.message_type,
-        timestamp: row.created_at.toISOString(),
-      }))
-      .reverse(); // Return in chronological order
+    return result.rows.map(toMessage).reverse(); // Return in chronological order
+  }
+
+  async getMessageById(messageId: string): Promise<Message | null> {
+    log.debug("getMessageById");
+    const query = `
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages m
+      LEFT JOIN users u ON m.user_id = u.id
+      WHERE m.id = $1
+    `;
+
+    const result = await this.pool.query(query, [messageId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return toMessage(result.rows[0]);
+  }
+
+  // Edit message: keep the previous content as a revision, then overwrite
+  async updateMessageContent(
+    messageId: string,
+    content: string
+  ): Promise<Message | null> {
+    log.debug("updateMessageContent");
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const current = await client.query(
+        `SELECT content FROM messages WHERE id = $1 FOR UPDATE`,
+        [messageId]
+      );
+
+      if (current.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      await client.query(
+        `INSERT INTO message_revisions (message_id, content) VALUES ($1, $2)`,
+        [messageId, current.rows[0].content]
+      );
+
+      await client.query(
+        `UPDATE messages SET content = $2, edited_at = NOW() WHERE id = $1`,
+        [messageId, content]
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return await this.getMessageById(messageId);
+  }
+
+  // Thread replies, newest page first, returned in chronological order
+  async getThreadReplies(
+    parentId: string,
+    limit: number = 50,
+    beforeMessageId?: string
+  ): Promise<MessageResponse> {
+    log.debug("getThreadReplies");
+    let query: string;
+    let params: any[];
+
+    if (beforeMessageId) {
+      query = `
+        SELECT ${MESSAGE_COLUMNS}
+        FROM messages m
+        LEFT JOIN users u ON m.user_id = u.id
+        WHERE m.reply_to_id = $1
+          AND m.created_at < (SELECT created_at FROM messages WHERE id = $2)
+        ORDER BY m.created_at DESC
+        LIMIT $3
+      `;
+      params = [parentId, beforeMessageId, limit + 1];
+    } else {
+      query = `
+        SELECT ${MESSAGE_COLUMNS}
+        FROM messages m
+        LEFT JOIN users u ON m.user_id = u.id
+        WHERE m.reply_to_id = $1
+        ORDER BY m.created_at DESC
+        LIMIT $2
+      `;
+      params = [parentId, limit + 1];
+    }
+
+    const result = await this.pool.query(query, params);
+    const rows = result.rows;
+
+    const hasMore = rows.length > limit;
+    const replies = rows.slice(0, limit);
+
+    return {
+      messages: replies.map(toMessage).reverse(),
+      hasMore,
+      nextCursor: hasMore ? replies[replies.length - 1].id : undefined,
+    };
+  }
+
+  // Messages on both sides of an anchor message, returned in chronological order
+  async getMessageContext(
+    roomId: string,
+    messageId: string,
+    limit: number = 25
+  ): Promise<{ messages: Message[]; hasMore: boolean; hasNewer: boolean }> {
+    log.debug("getMessageContext");
+    const anchor = await this.getMessageById(messageId);
+    if (!anchor || anchor.roomId !== roomId) {
+      return { messages: [], hasMore: false, hasNewer: false };
+    }
+
+    const olderQuery = `
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages m
+      LEFT JOIN users u ON m.user_id = u.id
+      WHERE m.room_id = $1 AND m.reply_to_id IS NULL
+        AND m.created_at < (SELECT created_at FROM messages WHERE id = $2)
+      ORDER BY m.created_at DESC
+      LIMIT $3
+    `;
+    const newerQuery = `
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages m
+      LEFT JOIN users u ON m.user_id = u.id
+      WHERE m.room_id = $1 AND m.reply_to_id IS NULL
+        AND m.created_at > (SELECT created_at FROM messages WHERE id = $2)
+      ORDER BY m.created_at ASC
+      LIMIT $3
+    `;
+
+    const [older, newer] = await Promise.all([
+      this.pool.query(olderQuery, [roomId, messageId, limit + 1]),
+      this.pool.query(newerQuery, [roomId, messageId, limit + 1]),
+    ]);
+
+    const olderRows = older.rows.slice(0, limit).reverse();
+    const newerRows = newer.rows.slice(0, limit);
+
+    return {
+      messages: [
+        ...olderRows.map(toMessage),
+        anchor,
+        ...newerRows.map(toMessage),
+      ],
+      hasMore: older.rows.length > limit,
+      hasNewer: newer.rows.length > limit,
+    };
+  }
+
+  // Full-text search over text messages in rooms the user is an active member of
+  async searchMessages(
+    userId: string,
+    request: MessageSearchRequest
+  ): Promise<MessageSearchResponse> {
+    log.debug("searchMessages");
+    const { query, roomId, author, from, to, limit = 20, cursor } = request;
+
+    const params: any[] = [userId, query];
+    const conditions = [
+      "to_tsvector('english', m.content) @@ q",
+      "m.message_type IN ('text','attachment','poll','action')",
+      "m.deleted_at IS NULL",
+    ];
+
+    if (roomId) {
+      params.push(roomId);
+      conditions.push(`m.room_id = $${params.length}`);
+    }
+    if (author) {
+      params.push(author);
+      conditions.push(`lower(u.username) = lower($${params.length})`);
+    }
+    if (from) {
+      params.push(from);
+      conditions.push(`m.created_at >= $${params.length}`);
+    }
+    if (to) {
+      params.push(to);
+      conditions.push(`m.created_at <= $${params.length}`);
+    }
+    if (cursor) {
+      params.push(cursor);
+      conditions.push(
+        `(m.created_at, m.id) < (SELECT created_at, id FROM messages WHERE id = $${params.length})`
+      );
+    }
+    params.push(limit + 1);
+
+    const sql = `
+      SELECT ${MESSAGE_COLUMNS}, r.name AS room_name,
+             ts_headline('english', m.content, q,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+             ) AS snippet
+      FROM messages m
+      JOIN room_memberships rm
+        ON rm.room_id = m.room_id AND rm.user_id = $1 AND rm.is_active = true
+      JOIN rooms r ON r.id = m.room_id
+      LEFT JOIN users u ON m.user_id = u.id
+      CROSS JOIN websearch_to_tsquery('english', $2) q
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT $${params.length}
+    `;
+
+    const result = await this.pool.query(sql, params);
+    const rows = result.rows;
+
+    const hasMore = rows.length > limit;
+    const hits = rows.slice(0, limit);
+
+    return {
+      results: hits.map((row) => ({
+        message: toMessage(row),
+        roomName: row.room_name,
+        snippet: row.snippet,
+      })),
+      hasMore,
+      nextCursor: hasMore ? hits[hits.length - 1].id : undefined,
+    };
+  }
+
+  // Reaction operations
+  async addReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<void> {
+    log.debug("addReaction");
+    const query = `
+      INSERT INTO message_reactions (message_id, user_id, emoji)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (message_id, user_id, emoji) DO NOTHING
+    `;
+
+    await this.pool.query(query, [messageId, userId, emoji]);
+  }
+
+  async removeReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<void> {
+    log.debug("removeReaction");
+    const query = `
+      DELETE FROM message_reactions
+      WHERE message_id = $1 AND user_id = $2 AND emoji = $3
+    `;
+
+    await this.pool.query(query, [messageId, userId, emoji]);
+  }
+
+  async getMessageReactions(messageId: string): Promise<ReactionSummary[]> {
+    log.debug("getMessageReactions");
+    const query = `
+      SELECT (${REACTIONS_SUBQUERY}) AS reactions
+      FROM messages m
+      WHERE m.id = $1
+    `;
+
+    const result = await this.pool.query(query, [messageId]);
+    return result.rows[0]?.reactions ?? [];
+  }
+
+  // Soft delete: replace content with a tombstone and drop edits and reactions
+  async softDeleteMessage(
+    messageId: string,
+    deletedBy: string
+  ): Promise<Message | null> {
+    log.debug("softDeleteMessage");
+    const client = await this.pool.connect();
+
+    try {
+      await client.query("BEGIN");
+
+      const result = await client.query(
+        `UPDATE messages
+         SET content = $3, deleted_at = NOW(), deleted_by = $2,
+             pinned_at = NULL, pinned_by = NULL
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING reply_to_id`,
+        [messageId, deletedBy, MESSAGE_TOMBSTONE]
+      );
+
+      if (result.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      // A deleted reply no longer counts towards its thread
+      const replyToId = result.rows[0].reply_to_id;
+      if (replyToId) {
+        await client.query(
+          `UPDATE messages SET reply_count = GREATEST(reply_count - 1, 0)
+           WHERE id = $1`,
+          [replyToId]
+        );
+      }
+
+      await client.query(
+        `DELETE FROM message_revisions WHERE message_id = $1`,
+        [messageId]
+      );
+      await client.query(
+        `DELETE FROM message_reactions WHERE message_id = $1`,
+        [messageId]
+      );
+      await client.query(`DELETE FROM attachments WHERE message_id = $1`, [
+        messageId,
+      ]);
+      await client.query(`DELETE FROM polls WHERE message_id = $1`, [
+        messageId,
+      ]);
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return await this.getMessageById(messageId);
+  }
+
+  // Pass null to unpin; returns null if the message is gone
+  async setMessagePinned(
+    messageId: string,
+    pinnedBy: string | null
+  ): Promise<Message | null> {
+    log.debug("setMessagePinned");
+    const result = await this.pool.query(
+      `UPDATE messages
+       SET pinned_at = CASE WHEN $2::uuid IS NULL THEN NULL ELSE NOW() END,
+           pinned_by = $2
+       WHERE id = $1 AND deleted_at IS NULL`,
+      [messageId, pinnedBy]
+    );
+    if (result.rowCount === 0) return null;
+
+    return await this.getMessageById(messageId);
+  }
+
+  async getPinnedMessages(roomId: string): Promise<Message[]> {
+    log.debug("getPinnedMessages");
+    const query = `
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages m
+      LEFT JOIN users u ON m.user_id = u.id
+      WHERE m.room_id = $1 AND m.pinned_at IS NOT NULL
+      ORDER BY m.pinned_at DESC
+    `;
+
+    const result = await this.pool.query(query, [roomId]);
+    return result.rows.map(toMessage);
+  }
+
+  async getMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+    log.debug("getMessageRevisions");
+    const query = `
+      SELECT id, message_id, content, created_at
+      FROM message_revisions
+      WHERE message_id = $1
+      ORDER BY created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [messageId]);
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      messageId: row.message_id,
+      content: row.content,
+      editedAt: row.created_at.toISOString(),
+    }));
   }
 
   async disconnect(): Promise<void> {
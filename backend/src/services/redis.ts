@@ -3,10 +3,20 @@ import { UserPresence, Message } from "../utils/types";
 import { logger } from "../utils/logger";
 const log = logger.child({ mod: "redis" });
 
+// Cached messages are shared by every viewer: a poll keeps its options and
+// tallies but not whichever viewer's own choices it was built for
+function serializeMessage(message: Message): string {
+  if (!message.poll?.myVotes) return JSON.stringify(message);
+  const { myVotes, ...poll } = message.poll;
+  return JSON.stringify({ ...message, poll });
+}
+
 export class RedisService {
   private redis: Redis;
   private readonly RECENT_MESSAGE_LIMIT = 100; // Keep 100 recent messages in Redis
   private readonly MESSAGE_EXPIRE_SECONDS = 86400; // Messages expire from Redis after 24 hours
+  private readonly NOT_MUTED = "none"; // cached answer for members who may speak
+  private readonly NOT_MUTED_EXPIRE_SECONDS = 600;
 
   constructor() {
     const redisUrl =
@@ -30,7 +40,7 @@ export class RedisService {
   async storeMessageInCache(roomId: string, message: Message): Promise<void> {
     log.debug("storeMessageInCache");
     const messageKey = `room:${roomId}:messages`;
-    const messageData = JSON.stringify(message);
+    const messageData = serializeMessage(message);
 
     // Use a pipeline for atomic operations
     const pipeline = this.redis.pipeline();
@@ -58,6 +68,23 @@ export class RedisService {
     return messages.map((msg) => JSON.parse(msg) as Message).reverse(); // Return in chronological order (oldest first)
   }
 
+  // Replace a cached message in place (e.g. after an edit); no-op if it has
+  // already aged out of the recent list
+  async updateMessageInCache(roomId: string, message: Message): Promise<void> {
+    log.debug("updateMessageInCache");
+    const messageKey = `room:${roomId}:messages`;
+    const messages = await this.redis.lrange(messageKey, 0, -1);
+
+    const index = messages.findIndex(
+      (msg) => (JSON.parse(msg) as Message).id === message.id
+    );
+    if (index === -1) {
+      return;
+    }
+
+    await this.redis.lset(messageKey, index, serializeMessage(message));
+  }
+
   async getRecentMessageCount(roomId: string): Promise<number> {
     log.debug("getRecentMessageCount");
     const messageKey = `room:${roomId}:messages`;
@@ -152,6 +179,18 @@ export class RedisService {
     }
   }
 
+  // Drop a deleted room's keys and take it off its users' presences.
+  // Mute keys are left to expire with their TTL.
+  async deleteRoom(roomId: string): Promise<void> {
+    log.debug("deleteRoom");
+    const userIds = await this.getRoomUsers(roomId);
+    for (const userId of userIds) {
+      await this.removeUserFromRoom(userId, roomId);
+    }
+
+    await this.redis.del(`room:${roomId}:messages`, `room:${roomId}:users`);
+  }
+
   async getRoomUsers(roomId: string): Promise<string[]> {
     log.debug("getRoomUsers");
     return await this.redis.smembers(`room:${roomId}:users`);
@@ -207,6 +246,46 @@ export class RedisService {
     return presences;
   }
 
+  // Mute operations; the key expires together with the mute
+  async setMute(
+    roomId: string,
+    userId: string,
+    expiresAt: string
+  ): Promise<void> {
+    log.debug("setMute");
+    const ttlMs = new Date(expiresAt).getTime() - Date.now();
+    if (ttlMs <= 0) return;
+    await this.redis.set(`mute:${roomId}:${userId}`, expiresAt, "PX", ttlMs);
+  }
+
+  // undefined when nothing is cached, null when known not to be muted
+  async getMute(
+    roomId: string,
+    userId: string
+  ): Promise<string | null | undefined> {
+    log.debug("getMute");
+    const value = await this.redis.get(`mute:${roomId}:${userId}`);
+    if (value === null) return undefined;
+    return value === this.NOT_MUTED ? null : value;
+  }
+
+  // NX so a mute set in the meantime is never covered up
+  async setNotMuted(roomId: string, userId: string): Promise<void> {
+    log.debug("setNotMuted");
+    await this.redis.set(
+      `mute:${roomId}:${userId}`,
+      this.NOT_MUTED,
+      "EX",
+      this.NOT_MUTED_EXPIRE_SECONDS,
+      "NX"
+    );
+  }
+
+  async clearMute(roomId: string, userId: string): Promise<void> {
+    log.debug("clearMute");
+    await this.redis.del(`mute:${roomId}:${userId}`);
+  }
+
   // Heartbeat operations
   async updateUserHeartbeat(userId: string): Promise<void> {
     log.debug("updateUserHeartbeat");
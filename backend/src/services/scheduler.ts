@@ -0,0 +1,77 @@
+import { ChatService } from "./chat";
+import { logger } from "../utils/logger";
+const log = logger.child({ mod: "scheduler" });
+
+const TICK_MS = 5000;
+const BATCH_SIZE = 20;
+const STALE_CLAIM_MINUTES = 5;
+const STALE_CLAIM_ERROR =
+  "Sending was interrupted, so it may not have been posted. Check the room before rescheduling it";
+
+// Posts scheduled messages once they're due. Every backend instance runs
+// one; claiming a message in PostgreSQL hands it to a single instance, so
+// each is posted exactly once however many are running.
+export class ScheduledMessageWorker {
+  private interval?: NodeJS.Timeout;
+  private isTicking = false;
+
+  constructor(private readonly chatService: ChatService) {}
+
+  start(): void {
+    this.interval = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // A slow batch is still going; its claims stay with it
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const { dbService } = this.chatService;
+      const stale = await dbService.failStaleScheduledMessages(
+        STALE_CLAIM_MINUTES,
+        STALE_CLAIM_ERROR
+      );
+      for (const scheduled of stale) {
+        log.warn({ scheduledId: scheduled.id }, "stale scheduled message");
+        await this.chatService.notifyScheduled(
+          scheduled.userId,
+          scheduled.roomId
+        );
+      }
+
+      let batch = await dbService.claimDueScheduledMessages(BATCH_SIZE);
+      while (batch.length > 0) {
+        for (const scheduled of batch) {
+          try {
+            await this.chatService.sendScheduledMessage(scheduled);
+          } catch (error) {
+            log.error(error, "Error sending scheduled message");
+            await dbService.finishScheduledMessage(scheduled.id, {
+              error: STALE_CLAIM_ERROR,
+            });
+            await this.chatService.notifyScheduled(
+              scheduled.userId,
+              scheduled.roomId
+            );
+          }
+        }
+        // A full batch may mean more are due
+        batch =
+          batch.length < BATCH_SIZE
+            ? []
+            : await dbService.claimDueScheduledMessages(BATCH_SIZE);
+      }
+    } catch (error) {
+      log.error(error, "Error during scheduled message tick");
+    } finally {
+      this.isTicking = false;
+    }
+  }
+}
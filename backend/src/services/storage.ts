@@ -0,0 +1,211 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "node:crypto";
+import { logger } from "../utils/logger";
+const log = logger.child({ mod: "storage" });
+
+// Where attachment bytes live. Keys are generated by the server
+// (rooms/<roomId>/<attachmentId>), never taken from clients.
+export interface StorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when the object is missing
+  delete(key: string): Promise<void>; // missing objects are not an error
+}
+
+// Files under a directory; with several backends it must be a shared volume
+export class LocalStorageDriver implements StorageDriver {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    log.debug({ key }, "local put");
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    log.debug({ key }, "local get");
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    log.debug({ key }, "local delete");
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://minio:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // bucket in the path (MinIO) instead of the host name
+}
+
+const sha256 = (data: string | Buffer) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// Any S3-compatible store (AWS, MinIO, R2...), signed with AWS Signature V4
+export class S3StorageDriver implements StorageDriver {
+  constructor(private readonly config: S3Config) {}
+
+  private objectUrl(key: string): URL {
+    const { endpoint, bucket, forcePathStyle } = this.config;
+    const objectPath = key.split("/").map(encodeURIComponent).join("/");
+    const base = new URL(endpoint);
+    if (forcePathStyle) {
+      return new URL(`${base.origin}/${bucket}/${objectPath}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${objectPath}`);
+  }
+
+  private async send(
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ): Promise<Response> {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const url = this.objectUrl(key);
+
+    // 20250101T120000Z and 20250101
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? "");
+
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    // fetch sets Host itself, from the same URL
+    const canonicalHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+    };
+    const signedHeaders = Object.keys(canonicalHeaders).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "", // no query string
+      ...signedHeaders.map((name) => `${name}:${canonicalHeaders[name]}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"),
+      "aws4_request"
+    );
+    const signature = crypto
+      .createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(
+          ";"
+        )}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    log.debug({ key }, "s3 put");
+    const res = await this.send("PUT", key, data, contentType);
+    if (!res.ok) {
+      throw new Error(
+        `S3 PUT ${key} failed: ${res.status} ${await res.text()}`
+      );
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    log.debug({ key }, "s3 get");
+    const res = await this.send("GET", key);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(
+        `S3 GET ${key} failed: ${res.status} ${await res.text()}`
+      );
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    log.debug({ key }, "s3 delete");
+    const res = await this.send("DELETE", key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(
+        `S3 DELETE ${key} failed: ${res.status} ${await res.text()}`
+      );
+    }
+  }
+}
+
+// STORAGE_DRIVER=local (default, UPLOAD_DIR) or s3 (S3_* settings)
+export function createStorageDriver(): StorageDriver {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+      process.env;
+    if (
+      !S3_ENDPOINT ||
+      !S3_BUCKET ||
+      !S3_ACCESS_KEY_ID ||
+      !S3_SECRET_ACCESS_KEY
+    ) {
+      throw new Error(
+        "STORAGE_DRIVER=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY"
+      );
+    }
+
+    log.info({ endpoint: S3_ENDPOINT, bucket: S3_BUCKET }, "Using S3 storage");
+    return new S3StorageDriver({
+      endpoint: S3_ENDPOINT,
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== "false",
+    });
+  }
+
+  const rootDir = process.env.UPLOAD_DIR || "uploads";
+  log.info({ rootDir }, "Using local disk storage");
+  return new LocalStorageDriver(rootDir);
+}
@@ -0,0 +1,60 @@
+import { ApiError } from "./types";
+
+// Room for pasted stack traces and code blocks; clients enforce it too
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Blockquotes and lists nested deeper than this aren't chat messages
+const MAX_NESTING_DEPTH = 8;
+
+// Control characters other than tab and newline (\r is normalized away)
+const CONTROL_CHARS = /[\u0000-\u0008\u000b-\u001f\u007f]/;
+
+// Leading "> " and list markers of a line, e.g. "> > - " is depth 3
+const NESTING_PREFIX = /^(?:\s*(?:>|[-*+]\s|\d{1,9}[.)]\s))*/;
+
+function nestingDepth(line: string): number {
+  const prefix = NESTING_PREFIX.exec(line)?.[0] ?? "";
+  return (prefix.match(/>|[-*+]\s|\d{1,9}[.)]\s/g) ?? []).length;
+}
+
+// Message content is Markdown rendered by clients. Returns the content to
+// store (line endings normalized), or the reason it's rejected; empty
+// content is the caller's call (attachments may have no caption).
+export function validateContent(
+  content: unknown
+): { content: string; error?: undefined } | { error: ApiError } {
+  if (typeof content !== "string") {
+    return {
+      error: {
+        message: "Message content must be text",
+        code: "VALIDATION_ERROR",
+      },
+    };
+  }
+
+  const normalized = content.replace(/\r\n?/g, "\n").trim();
+  if (normalized.length > MAX_MESSAGE_LENGTH) {
+    return {
+      error: {
+        message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`,
+        code: "VALIDATION_ERROR",
+      },
+    };
+  }
+
+  if (
+    CONTROL_CHARS.test(normalized) ||
+    normalized
+      .split("\n")
+      .some((line) => nestingDepth(line) > MAX_NESTING_DEPTH)
+  ) {
+    return {
+      error: {
+        message: "Message content is malformed",
+        code: "VALIDATION_ERROR",
+      },
+    };
+  }
+
+  return { content: normalized };
+}
@@ -0,0 +1,80 @@
+// Leading bytes of the file types attachments may have. The type a client
+// declares is never trusted; anything not recognized here (or as plain
+// text) is rejected.
+const SIGNATURES: {
+  mimeType: string;
+  parts: { offset: number; bytes: number[] | string }[];
+}[] = [
+  {
+    mimeType: "image/png",
+    parts: [
+      { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    ],
+  },
+  { mimeType: "image/jpeg", parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  { mimeType: "image/gif", parts: [{ offset: 0, bytes: "GIF8" }] },
+  {
+    mimeType: "image/webp",
+    parts: [
+      { offset: 0, bytes: "RIFF" },
+      { offset: 8, bytes: "WEBP" },
+    ],
+  },
+  { mimeType: "application/pdf", parts: [{ offset: 0, bytes: "%PDF-" }] },
+  // Also .docx/.xlsx/.pptx, which are zip containers
+  {
+    mimeType: "application/zip",
+    parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }],
+  },
+  { mimeType: "application/gzip", parts: [{ offset: 0, bytes: [0x1f, 0x8b] }] },
+  { mimeType: "audio/mpeg", parts: [{ offset: 0, bytes: "ID3" }] },
+  { mimeType: "video/mp4", parts: [{ offset: 4, bytes: "ftyp" }] },
+];
+
+// Image types browsers render safely; shown inline with a thumbnail
+export const IMAGE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+const TEXT_SAMPLE_BYTES = 8192;
+
+function matches(
+  data: Buffer,
+  offset: number,
+  bytes: number[] | string
+): boolean {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes) : bytes;
+  if (data.length < offset + expected.length) return false;
+  for (let i = 0; i < expected.length; i++) {
+    if (data[offset + i] !== expected[i]) return false;
+  }
+  return true;
+}
+
+// Valid UTF-8 without NUL bytes (checked on a sample; a multi-byte character
+// cut off at the sample's end is tolerated)
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, TEXT_SAMPLE_BYTES);
+  if (sample.includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, {
+      stream: data.length > TEXT_SAMPLE_BYTES,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The content's actual type, or null when it isn't one we accept
+export function sniffMimeType(data: Buffer): string | null {
+  const signature = SIGNATURES.find((s) =>
+    s.parts.every((part) => matches(data, part.offset, part.bytes))
+  );
+  if (signature) return signature.mimeType;
+
+  return data.length > 0 && looksLikeText(data) ? "text/plain" : null;
+}
@@ -6,14 +6,39 @@ export interface User {
   createdAt: string;
 }
 
+// Sockets carry the user the auth middleware looked up for them
+declare module "socket.io" {
+  interface Socket {
+    user: User;
+  }
+}
+
 export interface Room {
   id: string;
-  name: string;
+  name: string; // dm:<userId>:<userId> for direct rooms
   description?: string;
   isPrivate: boolean;
+  requiresApproval: boolean; // joins wait for an owner or admin
+  readReceipts: boolean; // members see who has read what
+  archivedAt?: string; // read-only once archived
+  kind: RoomKind;
   createdBy: string;
   createdAt: string;
   memberCount?: number;
+  peer?: DirectPeer; // other participant of a direct room, per viewer
+  myRole?: RoomRole; // viewer's role in the room
+  lastReadMessageId?: string; // viewer's read marker
+  unreadCount?: number; // per viewer, since their read marker
+  unreadMentionCount?: number;
+}
+
+export type RoomKind = "group" | "direct";
+
+export interface DirectPeer {
+  userId: string;
+  username: string;
+  status: "online" | "offline";
+  lastSeen?: string;
 }
 
 export interface RoomMembership {
@@ -21,6 +46,108 @@ export interface RoomMembership {
   roomId: string;
   joinedAt: string;
   isActive: boolean;
+  role: RoomRole;
+}
+
+// Highest first: owner > admin > moderator > member
+export type RoomRole = "owner" | "admin" | "moderator" | "member";
+
+export interface MemberRoleRequest {
+  role: RoomRole;
+}
+
+export interface TransferOwnershipRequest {
+  userId: string;
+}
+
+export interface RoomBan {
+  roomId: string;
+  userId: string;
+  bannedBy?: string;
+  reason?: string;
+  expiresAt?: string; // permanent when absent
+  createdAt: string;
+}
+
+// Kick when `ban` is false; a kicked member may rejoin
+export interface RemoveMemberRequest {
+  ban: boolean;
+  reason?: string;
+  expiresAt?: string;
+}
+
+export interface MuteMemberRequest {
+  durationMinutes: number;
+}
+
+// Sent to the muted member's sockets; no expiresAt means unmuted
+export interface MuteUpdatedPayload {
+  roomId: string;
+  expiresAt?: string;
+}
+
+// Sent to the removed member's sockets
+export interface RemovedFromRoomPayload {
+  roomId: string;
+  roomName: string;
+  banned: boolean;
+  reason?: string;
+  expiresAt?: string;
+}
+
+// Sent to a user an admin added to a room (/invite)
+export interface AddedToRoomPayload {
+  room: Room;
+  addedBy: string; // username
+}
+
+// Sent to every member of a room its owner deleted
+export interface RoomDeletedPayload {
+  roomId: string;
+  roomName: string;
+}
+
+// Where a member has read up to in a room
+export interface ReadReceipt {
+  userId: string;
+  username: string;
+  messageId: string;
+}
+
+// Sent to a room with receipts on: everyone's positions on join (and when
+// receipts are switched back on), a single moved one afterwards
+export interface ReadReceiptsPayload {
+  roomId: string;
+  receipts: ReadReceipt[];
+}
+
+// Sent to every socket of each mentioned member
+export interface MentionPayload {
+  roomId: string;
+  message: Message;
+}
+
+// Sent to all of a reader's sockets so their other tabs and devices follow
+export interface ReadMarkerPayload {
+  roomId: string;
+  messageId: string;
+}
+
+// A pending request to join a room that requires approval
+export interface JoinRequest {
+  roomId: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+// Sent to the requester and the room's admins once a request is decided
+export interface JoinRequestResolvedPayload {
+  roomId: string;
+  roomName: string;
+  userId: string;
+  approved: boolean;
+  room?: Room; // for the requester, when approved
 }
 
 export interface Message {
@@ -29,11 +156,118 @@ export interface Message {
   userId: string;
   username: string;
   content: string;
-  type: "text" | "system"; // messageType
+  type: "text" | "system" | "attachment" | "poll" | "action"; // messageType; attachments carry a caption, polls their question, /me actions what the author does
   timestamp: string;
   isDeleted?: boolean;
   editedAt?: string;
   replyToId?: string;
+  replyCount?: number; // replies in this message's thread
+  reactions?: ReactionSummary[];
+  mentions?: string[]; // user IDs mentioned by name, @here or @room
+  pinnedAt?: string;
+  pinnedBy?: string; // username of whoever pinned it
+  attachment?: Attachment; // for "attachment" messages
+  poll?: Poll; // for "poll" messages
+  ephemeral?: boolean; // sent to one user only; never stored
+}
+
+// A file uploaded to a room, then sent as an "attachment" message
+export interface Attachment {
+  id: string;
+  roomId: string;
+  filename: string;
+  mimeType: string; // sniffed from the content, not the upload's header
+  size: number; // bytes
+  hasThumbnail: boolean; // images only, generated by the uploading client
+  createdAt: string;
+}
+
+// Server-side view of an attachment, with where its bytes are stored
+export interface AttachmentRecord extends Attachment {
+  messageId?: string; // unset until sent
+  uploadedBy?: string;
+  storageKey: string;
+  thumbnailKey?: string;
+}
+
+// A poll's options with their tallies; myVotes is filled in per viewer
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string; // no votes are taken after this
+  voterCount: number; // people who voted, however many options each chose
+  myVotes?: number[]; // indexes of the viewer's chosen options
+}
+
+export interface PollOption {
+  text: string;
+  votes: number;
+  userIds?: string[]; // who chose it; never set for anonymous polls
+}
+
+export interface CreatePollRequest {
+  roomId: string;
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string;
+}
+
+// Replaces the voter's choices; an empty list takes their vote back
+export interface PollVoteRequest {
+  messageId: string;
+  optionIndexes: number[];
+}
+
+// Reactions grouped by emoji; reactedByMe is filled in per viewer
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe?: boolean;
+}
+
+// A message waiting to be posted by the scheduler. Members only see their
+// own; sent ones drop out of the list.
+export interface ScheduledMessage {
+  id: string;
+  roomId: string;
+  content: string;
+  sendAt: string;
+  status: "pending" | "sending" | "failed";
+  error?: string; // why a failed one wasn't posted
+  createdAt: string;
+}
+
+// Server-side view of a scheduled message, as the scheduler claims it
+export interface ScheduledMessageRecord extends ScheduledMessage {
+  userId: string;
+}
+
+export interface ScheduleMessageRequest {
+  content: string;
+  sendAt: string;
+}
+
+// Sent to a member's sockets whenever their scheduled messages in a room change
+export interface ScheduledMessagesPayload {
+  roomId: string;
+  scheduled: ScheduledMessage[];
+}
+
+export interface ReactionRequest {
+  messageId: string;
+  emoji: string;
+}
+
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  content: string; // content before the edit
+  editedAt: string; // when this version was replaced
 }
 
 export interface UserPresence {
@@ -55,15 +289,50 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface DeleteAccountRequest {
+  password: string;
+}
+
 export interface RegisterRequest {
   username: string;
   email: string;
   password: string;
 }
 
+// Join by name (plus passcode for private rooms), or by invite token alone
 export interface JoinRoomRequest {
-  roomId: string;
+  roomId?: string;
   passcode?: string;
+  inviteToken?: string;
+}
+
+export interface RoomInvite {
+  id: string;
+  roomId: string;
+  token: string;
+  createdBy?: string;
+  expiresAt?: string; // never expires when absent
+  maxUses?: number; // unlimited when absent
+  uses: number;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface CreateInviteRequest {
+  expiresInMinutes?: number;
+  maxUses?: number;
+}
+
+// What an invite link shows before joining
+export interface InvitePreview {
+  roomName: string;
+  description?: string;
+  memberCount: number;
+  isPrivate: boolean;
+}
+
+export interface DirectRoomRequest {
+  userId: string; // the other participant
 }
 
 export interface CreateRoomRequest {
@@ -71,12 +340,70 @@ export interface CreateRoomRequest {
   description?: string;
   isPrivate: boolean;
   passcode?: string;
+  requiresApproval?: boolean;
+}
+
+// Omitted fields are left as they are; a null passcode removes it
+export interface UpdateRoomRequest {
+  name?: string;
+  description?: string;
+  isPrivate?: boolean;
+  passcode?: string | null;
+  requiresApproval?: boolean;
+  readReceipts?: boolean;
+}
+
+export interface EditMessageRequest {
+  messageId: string;
+  content: string;
 }
 
 export interface MessagePaginationRequest {
   roomId: string;
   limit?: number;
   before?: string; // message ID for pagination
+  after?: string; // message ID for paging forward (towards the latest)
+}
+
+// Full-text search across the caller's rooms; results are newest first
+export interface MessageSearchRequest {
+  query: string;
+  roomId?: string;
+  author?: string; // username
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+  limit?: number;
+  cursor?: string; // message ID of the last hit on the previous page
+}
+
+export interface MessageSearchHit {
+  message: Message;
+  roomName: string;
+  snippet: string; // matched terms wrapped in <mark></mark>
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchHit[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+// Messages around a given message, e.g. when opening a search hit
+export interface MessageContextRequest {
+  roomId: string;
+  messageId: string;
+  limit?: number; // messages on each side
+}
+
+export interface MessageContextResponse extends MessageResponse {
+  messageId: string; // anchor (thread replies resolve to their parent)
+  hasNewer: boolean; // false when the window reaches the latest message
+}
+
+export interface ThreadRequest {
+  messageId: string; // thread parent
+  limit?: number;
+  before?: string; // reply ID for pagination
 }
 
 export interface MessageResponse {
@@ -85,14 +412,46 @@ export interface MessageResponse {
   nextCursor?: string; // check what this is doing
 }
 
+// Slash commands, as listed by GET /api/commands
+export interface CommandArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  rest?: boolean; // takes the rest of the line, spaces included
+}
+
+export interface CommandInfo {
+  name: string; // without the slash
+  description: string;
+  args: CommandArgument[];
+  minRole?: RoomRole; // needed in the room to run it
+  groupOnly?: boolean; // not available in direct messages
+}
+
+// Something the sender's client does for a command, e.g. /leave
+export type CommandAction = "leave_room";
+
+// Sent to the socket that ran a command, when its client has something to do
+export interface CommandResultPayload {
+  roomId: string;
+  command: string;
+  action?: CommandAction;
+}
+
 export type ApiErrorCode =
   | "PASSCODE_REQUIRED"
   | "INVALID_PASSCODE"
+  | "INVALID_INVITE"
+  | "JOIN_REQUEST_SENT"
+  | "JOIN_REQUEST_PENDING"
+  | "ROOM_ARCHIVED"
   | "NOT_FOUND"
   | "UNAUTHORIZED"
   | "FORBIDDEN"
   | "VALIDATION_ERROR"
   | "DUPLICATE_ROOM_NAME"
+  | "BANNED"
+  | "MUTED"
   | "GENERIC";
 
 export interface ApiError {
@@ -0,0 +1,114 @@
+import { makeChat, message, room, withMembers } from "./helpers";
+
+const ARCHIVED_AT = "2026-02-01T00:00:00.000Z";
+
+const setup = (archivedAt?: string) => {
+  const harness = makeChat();
+  harness.db.getRoomById.mockResolvedValue(room({ archivedAt }));
+  harness.db.getRoomMembers.mockResolvedValue([]);
+  withMembers(harness.db, { owner: "owner", admin: "admin", bob: "member" });
+  jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+  return harness;
+};
+
+describe("ChatService.archiveRoom", () => {
+  it("announces the archive, then empties the live room", async () => {
+    const { chat, db, left } = setup();
+    const archived = room({ archivedAt: ARCHIVED_AT });
+    db.getRoomMembers.mockResolvedValue([{ id: "bob" }]);
+    db.archiveRoom.mockResolvedValue(archived);
+
+    const result = await chat.archiveRoom("owner", "r1");
+
+    expect(result).toEqual({ success: true, room: archived });
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "owner",
+      "owner archived the room",
+      "system"
+    );
+    expect(left).toEqual([{ channel: "r1", room: "r1" }]);
+  });
+
+  it("is for the owner only", async () => {
+    const { chat, db } = setup();
+    const result = await chat.archiveRoom("admin", "r1");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.archiveRoom).not.toHaveBeenCalled();
+  });
+
+  it("can't archive a room twice", async () => {
+    const { chat, db } = setup(ARCHIVED_AT);
+    const result = await chat.archiveRoom("owner", "r1");
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.archiveRoom).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.deleteRoom", () => {
+  it("tells the members and removes stored files", async () => {
+    const { chat, db, redis, storage, payloads } = setup();
+    db.getRoomMembers.mockResolvedValue([{ id: "owner" }, { id: "bob" }]);
+    db.getRoomStorageKeys.mockResolvedValue(["a.png"]);
+    db.deleteRoom.mockResolvedValue(true);
+
+    const result = await chat.deleteRoom("owner", "r1");
+
+    expect(result).toEqual({ success: true });
+    expect(redis.deleteRoom).toHaveBeenCalledWith("r1");
+    expect(payloads("room_deleted")).toEqual([
+      { roomId: "r1", roomName: "general" },
+    ]);
+    expect(storage.delete).toHaveBeenCalledWith("a.png");
+  });
+
+  it("is for the owner only", async () => {
+    const { chat, db } = setup();
+    const result = await chat.deleteRoom("admin", "r1");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.deleteRoom).not.toHaveBeenCalled();
+  });
+});
+
+describe("archived rooms", () => {
+  it("take no new messages", async () => {
+    const { chat, db } = setup(ARCHIVED_AT);
+    db.isRoomArchived.mockResolvedValue(true);
+    await expect(chat.checkWritable("r1")).resolves.toMatchObject({
+      code: "ROOM_ARCHIVED",
+    });
+  });
+
+  it("keep their roles", async () => {
+    const { chat, db } = setup(ARCHIVED_AT);
+    const result = await chat.setMemberRole("owner", "r1", "bob", {
+      role: "moderator",
+    });
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.setMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("keep their members", async () => {
+    const { chat, db } = setup(ARCHIVED_AT);
+    const result = await chat.removeMember("owner", "r1", "bob", {
+      ban: true,
+    });
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.banUser).not.toHaveBeenCalled();
+    expect(db.removeUserFromRoom).not.toHaveBeenCalled();
+  });
+
+  it("keep their mutes", async () => {
+    const { chat, db } = setup(ARCHIVED_AT);
+
+    const muted = await chat.muteMember("owner", "r1", "bob", {
+      durationMinutes: 10,
+    });
+    const unmuted = await chat.unmuteMember("owner", "r1", "bob");
+
+    expect(muted.error?.code).toBe("ROOM_ARCHIVED");
+    expect(unmuted.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.muteUser).not.toHaveBeenCalled();
+    expect(db.unmuteUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { ChatService } from "../src/services/chat";
+import { CommandService, parseCommand } from "../src/services/commands";
+import { Room, RoomRole, User } from "../src/utils/types";
+
+describe("parseCommand", () => {
+  it("splits a command into its name and argument text", () => {
+    expect(parseCommand("/me waves")).toEqual({
+      name: "me",
+      argText: "waves",
+    });
+    expect(parseCommand("/mute @bob 15")).toEqual({
+      name: "mute",
+      argText: "@bob 15",
+    });
+  });
+
+  it("lowercases the name and keeps the arguments as typed", () => {
+    expect(parseCommand("/TOPIC Release Day")).toEqual({
+      name: "topic",
+      argText: "Release Day",
+    });
+  });
+
+  it("accepts a command without arguments", () => {
+    expect(parseCommand("/leave")).toEqual({ name: "leave", argText: "" });
+  });
+
+  it("keeps line breaks in the argument text", () => {
+    expect(parseCommand("/shrug first\nsecond")).toEqual({
+      name: "shrug",
+      argText: "first\nsecond",
+    });
+  });
+
+  it.each([
+    ["plain text", "hello"],
+    ["the // escape", "//me is not a command"],
+    ["a bare slash", "/"],
+    ["a path", "/usr/bin"],
+    ["a slash after text", "see /me"],
+    ["a leading space", " /me waves"],
+    ["a name with digits", "/me2 waves"],
+    ["a name glued to punctuation", "/me!"],
+  ])("is null for %s", (_name, content) => {
+    expect(parseCommand(content)).toBeNull();
+  });
+});
+
+describe("CommandService.run", () => {
+  const user: User = {
+    id: "u1",
+    username: "alice",
+    email: "alice@example.com",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+  const room: Room = {
+    id: "r1",
+    name: "general",
+    isPrivate: false,
+    requiresApproval: false,
+    readReceipts: true,
+    kind: "group",
+    createdBy: "u0",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  const makeService = (
+    options: { member?: boolean; role?: RoomRole; muted?: boolean } = {}
+  ) => {
+    const { member = true, role = "member", muted = false } = options;
+    const chat = {
+      dbService: {
+        getRoomById: jest.fn().mockResolvedValue(room),
+        isUserInRoom: jest.fn().mockResolvedValue(member),
+        getMemberRole: jest.fn().mockResolvedValue(role),
+        getRoomMembers: jest.fn().mockResolvedValue([user]),
+      },
+      checkWritable: jest.fn().mockResolvedValue(null),
+      getMuteExpiry: jest
+        .fn()
+        .mockResolvedValue(muted ? "2099-01-01T00:00:00.000Z" : null),
+      createMessage: jest.fn().mockResolvedValue({}),
+      sendEphemeral: jest.fn(),
+      muteMember: jest.fn().mockResolvedValue({ success: true }),
+      updateRoom: jest.fn().mockResolvedValue({ success: true }),
+    };
+    const service = new CommandService(chat as unknown as ChatService);
+    return { chat, service };
+  };
+
+  it("rejects unknown commands and points at the // escape", async () => {
+    const { service } = makeService();
+    const result = await service.run(user, room.id, "nope", "");
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Start with //");
+  });
+
+  it("rejects people who aren't in the room", async () => {
+    const { chat, service } = makeService({ member: false });
+    const result = await service.run(user, room.id, "me", "waves");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+
+  it("posts /me as the sender's action message", async () => {
+    const { chat, service } = makeService();
+    const result = await service.run(user, room.id, "me", "waves hello");
+    expect(result.success).toBe(true);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      room.id,
+      user.id,
+      "waves hello",
+      "action"
+    );
+  });
+
+  it("shows the usage when required arguments are missing", async () => {
+    const { chat, service } = makeService();
+    const result = await service.run(user, room.id, "me", "   ");
+    expect(result.error?.message).toBe("Usage: /me <action>");
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+
+  it("shows the usage when there are too many arguments", async () => {
+    const { service } = makeService({ role: "moderator" });
+    const result = await service.run(user, room.id, "mute", "alice 5 extra");
+    expect(result.error?.message).toBe("Usage: /mute <user> [minutes]");
+  });
+
+  it("needs the command's role", async () => {
+    const { chat, service } = makeService({ role: "member" });
+    const result = await service.run(user, room.id, "mute", "alice");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(chat.muteMember).not.toHaveBeenCalled();
+  });
+
+  it("keeps muted members from posting through a command", async () => {
+    const { chat, service } = makeService({ muted: true });
+    const result = await service.run(user, room.id, "shrug", "");
+    expect(result.error?.code).toBe("MUTED");
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+
+  it("lets muted members run commands that don't post", async () => {
+    const { service } = makeService({ muted: true });
+    const result = await service.run(user, room.id, "leave", "");
+    expect(result).toEqual({
+      success: true,
+      result: { roomId: room.id, command: "leave", action: "leave_room" },
+    });
+  });
+
+  it("sets the topic and tells the room", async () => {
+    const { chat, service } = makeService({ role: "admin" });
+    const result = await service.run(user, room.id, "topic", "Release day");
+    expect(result.success).toBe(true);
+    expect(chat.updateRoom).toHaveBeenCalledWith(user.id, room.id, {
+      description: "Release day",
+    });
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      room.id,
+      user.id,
+      "alice changed the topic to: Release day",
+      "system"
+    );
+  });
+
+  it.each([
+    ["control characters", "Release\u0007day"],
+    ["deep nesting", "> > > > > > > > > nested"],
+  ])("keeps topics with %s out", async (_name, topic) => {
+    const { chat, service } = makeService({ role: "admin" });
+    const result = await service.run(user, room.id, "topic", topic);
+    expect(result.error).toEqual({
+      message: "Message content is malformed",
+      code: "VALIDATION_ERROR",
+    });
+    expect(chat.updateRoom).not.toHaveBeenCalled();
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+
+  it("keeps topics to the room description's length", async () => {
+    const { chat, service } = makeService({ role: "admin" });
+    const result = await service.run(user, room.id, "topic", "x".repeat(501));
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(chat.updateRoom).not.toHaveBeenCalled();
+  });
+
+  it("checks the minutes given to /mute are a whole number", async () => {
+    const { chat, service } = makeService({ role: "moderator" });
+    const result = await service.run(user, room.id, "mute", "@alice 1.5");
+    expect(result.error?.message).toBe("Minutes must be a whole number");
+    expect(chat.muteMember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import { MAX_MESSAGE_LENGTH, validateContent } from "../src/utils/content";
+
+describe("validateContent", () => {
+  it("trims and normalizes line endings", () => {
+    expect(validateContent("  one\r\ntwo\rthree  ")).toEqual({
+      content: "one\ntwo\nthree",
+    });
+  });
+
+  it("leaves empty content to the caller", () => {
+    expect(validateContent("   ")).toEqual({ content: "" });
+  });
+
+  it("rejects content that isn't a string", () => {
+    for (const content of [undefined, null, 42, { text: "hi" }, ["hi"]]) {
+      const result = validateContent(content);
+      expect(result.error?.code).toBe("VALIDATION_ERROR");
+    }
+  });
+
+  it("allows exactly the maximum length, measured after trimming", () => {
+    const longest = "a".repeat(MAX_MESSAGE_LENGTH);
+    expect(validateContent(longest)).toEqual({ content: longest });
+    expect(validateContent(`  ${longest}\n`)).toEqual({ content: longest });
+  });
+
+  it("rejects content over the maximum length", () => {
+    const result = validateContent("a".repeat(MAX_MESSAGE_LENGTH + 1));
+    expect(result.error).toEqual({
+      message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`,
+      code: "VALIDATION_ERROR",
+    });
+  });
+
+  it("keeps tabs and newlines", () => {
+    expect(validateContent("a\tb\nc")).toEqual({ content: "a\tb\nc" });
+  });
+
+  it.each([
+    ["NUL", "a\u0000b"],
+    ["bell", "a\u0007b"],
+    ["vertical tab", "a\u000bb"],
+    ["escape", "a\u001b[31mred"],
+    ["delete", "a\u007fb"],
+  ])("rejects the %s control character", (_name, content) => {
+    expect(validateContent(content).error).toEqual({
+      message: "Message content is malformed",
+      code: "VALIDATION_ERROR",
+    });
+  });
+
+  it("allows quotes and lists nested up to the limit", () => {
+    expect(validateContent(`${"> ".repeat(8)}deep`).error).toBeUndefined();
+    expect(validateContent(`${"- ".repeat(8)}deep`).error).toBeUndefined();
+    expect(validateContent("> > 1. - item").error).toBeUndefined();
+  });
+
+  it("rejects quotes and lists nested past the limit", () => {
+    expect(validateContent(`${"> ".repeat(9)}deep`).error?.code).toBe(
+      "VALIDATION_ERROR"
+    );
+    expect(
+      validateContent(`fine\n${"> - ".repeat(5)}too deep`).error?.code
+    ).toBe("VALIDATION_ERROR");
+  });
+
+  it("doesn't count markers after the text starts", () => {
+    expect(validateContent(`text ${"> ".repeat(20)}`).error).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { makeChat, message } from "./helpers";
+
+describe("ChatService.getMessageContext", () => {
+  const around = [
+    message({ id: "m0" }),
+    message({ id: "m1" }),
+    message({ id: "m2" }),
+  ];
+
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getMessageById.mockResolvedValue(message());
+    harness.db.getMessageContext.mockResolvedValue({
+      messages: around,
+      hasMore: true,
+      hasNewer: false,
+    });
+    return harness;
+  };
+
+  it("returns the messages around the one asked for", async () => {
+    const { chat, db } = setup();
+
+    const result = await chat.getMessageContext("u1", {
+      roomId: "r1",
+      messageId: "m1",
+      limit: 10,
+    });
+
+    expect(db.getMessageContext).toHaveBeenCalledWith("r1", "m1", 10);
+    expect(result).toMatchObject({
+      success: true,
+      context: {
+        messageId: "m1",
+        messages: around,
+        hasMore: true,
+        nextCursor: "m0",
+        hasNewer: false,
+      },
+    });
+  });
+
+  it("shows a thread reply around its parent", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(message({ id: "m5", replyToId: "m1" }));
+
+    const result = await chat.getMessageContext("u1", {
+      roomId: "r1",
+      messageId: "m5",
+    });
+
+    expect(db.getMessageContext).toHaveBeenCalledWith("r1", "m1", 25);
+    expect(result.context?.messageId).toBe("m1");
+  });
+
+  it.each([
+    [0, 25],
+    [-5, 1],
+    [1000, 100],
+  ])("keeps a limit of %d within bounds", async (limit, used) => {
+    const { chat, db } = setup();
+    await chat.getMessageContext("u1", {
+      roomId: "r1",
+      messageId: "m1",
+      limit,
+    });
+    expect(db.getMessageContext).toHaveBeenCalledWith("r1", "m1", used);
+  });
+
+  it("is only for members of the room", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(false);
+
+    const result = await chat.getMessageContext("u1", {
+      roomId: "r1",
+      messageId: "m1",
+    });
+
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.getMessageContext).not.toHaveBeenCalled();
+  });
+
+  it("won't jump to a message from another room", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(message({ roomId: "r2" }));
+
+    const result = await chat.getMessageContext("u1", {
+      roomId: "r1",
+      messageId: "m1",
+    });
+
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(db.getMessageContext).not.toHaveBeenCalled();
+  });
+});
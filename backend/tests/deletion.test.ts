@@ -0,0 +1,200 @@
+import { DatabaseService } from "../src/services/database";
+import { makeChat, message, withMembers } from "./helpers";
+
+describe("deleting where the user can't post", () => {
+  it("rejects people who have left or been removed", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    db.isUserInRoom.mockResolvedValue(false);
+
+    const result = await chat.deleteMessage("u1", "m1");
+
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.softDeleteMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects muted members", async () => {
+    const { chat, db, redis } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    redis.getMute.mockResolvedValue("2099-01-01T00:00:00.000Z");
+
+    const result = await chat.deleteMessage("u1", "m1");
+
+    expect(result.error?.code).toBe("MUTED");
+    expect(db.softDeleteMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects deletes in archived rooms", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    db.isRoomArchived.mockResolvedValue(true);
+
+    const result = await chat.deleteMessage("u1", "m1");
+
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.softDeleteMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("deleting a thread reply", () => {
+  it("sends the parent's lowered reply count with the tombstone", async () => {
+    const { chat, db, redis, payloads } = makeChat();
+    const reply = message({ id: "m2", replyToId: "m1" });
+    const tombstone = { ...reply, content: "", isDeleted: true };
+    const parent = message({ replyCount: 0 });
+    db.getMessageById.mockImplementation(async (id: string) =>
+      id === "m2" ? reply : parent
+    );
+    db.softDeleteMessage.mockResolvedValue(tombstone);
+
+    await chat.deleteMessage("u1", "m2");
+
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", parent);
+    expect(payloads("room_update")).toEqual([
+      { type: "message_deleted", message: tombstone, parent },
+    ]);
+  });
+
+  it("lowers the parent's count in the delete's transaction", async () => {
+    const query = jest.fn(async (sql: string) =>
+      sql.includes("RETURNING reply_to_id")
+        ? { rowCount: 1, rows: [{ reply_to_id: "m1" }] }
+        : { rowCount: 1, rows: [] }
+    );
+    const db = Object.create(DatabaseService.prototype) as DatabaseService;
+    Object.assign(db, {
+      pool: { connect: async () => ({ query, release: jest.fn() }) },
+      getMessageById: jest.fn().mockResolvedValue(null),
+    });
+
+    await db.softDeleteMessage("m2", "u1");
+
+    const statements = query.mock.calls.map(([sql]) => sql);
+    const decrement = statements.findIndex((sql) =>
+      sql.includes("reply_count = GREATEST(reply_count - 1, 0)")
+    );
+    expect(decrement).toBeGreaterThan(statements.indexOf("BEGIN"));
+    expect(decrement).toBeLessThan(statements.indexOf("COMMIT"));
+    expect(query.mock.calls[decrement]).toEqual([expect.any(String), ["m1"]]);
+  });
+});
+
+describe("ChatService.deleteMessage", () => {
+  const setup = () => {
+    const harness = makeChat();
+    withMembers(harness.db, { u1: "member", u2: "member", mod: "moderator" });
+    harness.db.getMessageById.mockResolvedValue(message());
+    harness.db.softDeleteMessage.mockImplementation(async () =>
+      message({ content: "", isDeleted: true })
+    );
+    return harness;
+  };
+
+  it("leaves a tombstone in the cache and the room", async () => {
+    const { chat, db, redis, payloads } = setup();
+    const tombstone = message({ content: "", isDeleted: true });
+
+    const result = await chat.deleteMessage("u1", "m1");
+
+    expect(result).toEqual({ success: true, message: tombstone });
+    expect(db.softDeleteMessage).toHaveBeenCalledWith("m1", "u1");
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", tombstone);
+    expect(payloads("room_update")).toEqual([
+      { type: "message_deleted", message: tombstone, parent: null },
+    ]);
+  });
+
+  it("lets moderators delete anyone's message", async () => {
+    const { chat, db } = setup();
+    const result = await chat.deleteMessage("mod", "m1");
+    expect(result.success).toBe(true);
+    expect(db.softDeleteMessage).toHaveBeenCalledWith("m1", "mod");
+  });
+
+  it("keeps members to their own messages", async () => {
+    const { chat, db } = setup();
+    const result = await chat.deleteMessage("u2", "m1");
+    expect(result.error).toEqual({
+      message: "You can only delete your own messages",
+      code: "FORBIDDEN",
+    });
+    expect(db.softDeleteMessage).not.toHaveBeenCalled();
+  });
+
+  it("keeps system messages", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(message({ type: "system" }));
+    const result = await chat.deleteMessage("mod", "m1");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.softDeleteMessage).not.toHaveBeenCalled();
+  });
+
+  it("can't delete a message twice", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(message({ isDeleted: true }));
+    const result = await chat.deleteMessage("u1", "m1");
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("removes an attachment's stored files after the message", async () => {
+    const { chat, db, storage } = setup();
+    db.getMessageById.mockResolvedValue(
+      message({
+        type: "attachment",
+        attachment: {
+          id: "a1",
+          roomId: "r1",
+          filename: "cat.png",
+          mimeType: "image/png",
+          size: 10,
+          hasThumbnail: true,
+          createdAt: "2026-01-01T00:00:00.000Z",
+        },
+      })
+    );
+    db.getAttachment.mockResolvedValue({
+      storageKey: "cat.png",
+      thumbnailKey: "cat-thumb.png",
+    });
+
+    await chat.deleteMessage("u1", "m1");
+
+    expect(storage.delete).toHaveBeenCalledWith("cat.png");
+    expect(storage.delete).toHaveBeenCalledWith("cat-thumb.png");
+  });
+});
+
+describe("DatabaseService.softDeleteMessage", () => {
+  const withClient = (rowCount: number) => {
+    const query = jest.fn().mockResolvedValue({ rowCount, rows: [{}] });
+    const db = Object.create(DatabaseService.prototype) as DatabaseService;
+    Object.assign(db, {
+      pool: { connect: async () => ({ query, release: jest.fn() }) },
+      getMessageById: jest.fn().mockResolvedValue(message()),
+    });
+    return { db, query };
+  };
+
+  it("clears the content, pin, revisions and reactions together", async () => {
+    const { db, query } = withClient(1);
+
+    await db.softDeleteMessage("m1", "u1");
+
+    const statements = query.mock.calls.map(([sql]) => sql as string);
+    expect(statements[0]).toBe("BEGIN");
+    expect(statements[1]).toMatch(/pinned_at = NULL/);
+    expect(statements.some((sql) => /FROM message_revisions/.test(sql))).toBe(
+      true
+    );
+    expect(statements.some((sql) => /FROM message_reactions/.test(sql))).toBe(
+      true
+    );
+    expect(statements[statements.length - 1]).toBe("COMMIT");
+  });
+
+  it("finds nothing to delete in a deleted message", async () => {
+    const { db, query } = withClient(0);
+    await expect(db.softDeleteMessage("m1", "u1")).resolves.toBeNull();
+    expect(query).toHaveBeenLastCalledWith("ROLLBACK");
+  });
+});
@@ -0,0 +1,89 @@
+import { makeChat, room, user } from "./helpers";
+
+const dm = room({ id: "d1", name: "dm:alice:bob", kind: "direct" });
+
+describe("ChatService.startDirectMessage", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getUserById.mockImplementation(async (id: string) =>
+      id === "ghost" ? null : user(id)
+    );
+    harness.db.getOrCreateDirectRoom.mockResolvedValue({ room: dm });
+    return harness;
+  };
+
+  it("opens one room for the pair and brings the peer into it", async () => {
+    const { chat, db, redis, joined, payloads } = setup();
+
+    const result = await chat.startDirectMessage("bob", { userId: "alice" });
+
+    expect(db.getOrCreateDirectRoom).toHaveBeenCalledWith(
+      "dm:alice:bob",
+      "bob",
+      "alice"
+    );
+    expect(redis.addUserToRoom).toHaveBeenCalledWith("bob", "d1");
+    expect(redis.addUserToRoom).toHaveBeenCalledWith("alice", "d1");
+    expect(joined).toEqual([{ channel: "user:alice", room: "d1" }]);
+    expect(payloads("direct_room")).toEqual([
+      {
+        room: {
+          ...dm,
+          peer: { userId: "bob", username: "bob", status: "offline" },
+        },
+      },
+    ]);
+    expect(result).toMatchObject({
+      success: true,
+      room: { id: "d1", peer: { userId: "alice", username: "alice" } },
+    });
+  });
+
+  it("names the room the same whoever starts it", async () => {
+    const { chat, db } = setup();
+    await chat.startDirectMessage("alice", { userId: "bob" });
+    expect(db.getOrCreateDirectRoom).toHaveBeenCalledWith(
+      "dm:alice:bob",
+      "alice",
+      "bob"
+    );
+  });
+
+  it("fills in the peer's presence", async () => {
+    const { chat, redis } = setup();
+    redis.getUserPresence.mockResolvedValue({
+      status: "online",
+      lastSeen: "2026-01-01T00:00:00.000Z",
+    });
+
+    const result = await chat.startDirectMessage("bob", { userId: "alice" });
+
+    expect(result.room?.peer).toMatchObject({ status: "online" });
+  });
+
+  it("won't open a room with yourself", async () => {
+    const { chat, db } = setup();
+    const result = await chat.startDirectMessage("bob", { userId: "bob" });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(db.getOrCreateDirectRoom).not.toHaveBeenCalled();
+  });
+
+  it("needs someone to message", async () => {
+    const { chat, db } = setup();
+    const result = await chat.startDirectMessage("bob", { userId: "ghost" });
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(db.getOrCreateDirectRoom).not.toHaveBeenCalled();
+  });
+});
+
+describe("joining a direct room", () => {
+  it("is only for its two participants", async () => {
+    const { chat, db } = makeChat();
+    db.getRoomByName.mockResolvedValue(dm);
+
+    const result = await chat.joinRoom("carol", { roomId: "dm:alice:bob" });
+
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { makeChat, message } from "./helpers";
+
+describe("ChatService.editMessage", () => {
+  const edit = (content = "hello there") => ({ messageId: "m1", content });
+
+  it("stores the new content and tells the room", async () => {
+    const { chat, db, redis, payloads } = makeChat();
+    const edited = message({
+      content: "hello there",
+      editedAt: "2026-01-02T00:00:00.000Z",
+    });
+    db.getMessageById.mockResolvedValue(message());
+    db.updateMessageContent.mockResolvedValue(edited);
+
+    const result = await chat.editMessage("u1", edit());
+
+    expect(result).toEqual({ success: true, message: edited });
+    expect(db.updateMessageContent).toHaveBeenCalledWith("m1", "hello there");
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", edited);
+    expect(payloads("room_update")).toEqual([
+      { type: "message_edited", message: edited },
+    ]);
+  });
+
+  it("leaves an unchanged message alone", async () => {
+    const { chat, db, payloads } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+
+    const result = await chat.editMessage("u1", edit("hello"));
+
+    expect(result.success).toBe(true);
+    expect(db.updateMessageContent).not.toHaveBeenCalled();
+    expect(payloads("room_update")).toEqual([]);
+  });
+
+  it("rejects empty content", async () => {
+    const { chat, db } = makeChat();
+    const result = await chat.editMessage("u1", edit("   "));
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(db.getMessageById).not.toHaveBeenCalled();
+  });
+
+  it("can't find deleted messages", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message({ isDeleted: true }));
+    const result = await chat.editMessage("u1", edit());
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it.each([
+    ["someone else's message", message({ userId: "u2" })],
+    ["a system message", message({ type: "system" })],
+    ["an attachment", message({ type: "attachment" })],
+  ])("won't edit %s", async (_name, existing) => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(existing);
+    const result = await chat.editMessage("u1", edit());
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.updateMessageContent).not.toHaveBeenCalled();
+  });
+
+  it("lets authors edit their /me messages", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message({ type: "action" }));
+    db.updateMessageContent.mockResolvedValue(message({ type: "action" }));
+    const result = await chat.editMessage("u1", edit());
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects authors who have left or been removed", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    db.isUserInRoom.mockResolvedValue(false);
+
+    const result = await chat.editMessage("u1", edit());
+
+    expect(result.error).toEqual({
+      message: "Not a member of this room",
+      code: "FORBIDDEN",
+    });
+    expect(db.updateMessageContent).not.toHaveBeenCalled();
+  });
+
+  it("rejects muted authors", async () => {
+    const { chat, db, redis } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    redis.getMute.mockResolvedValue("2099-01-01T00:00:00.000Z");
+
+    const result = await chat.editMessage("u1", edit());
+
+    expect(result.error?.code).toBe("MUTED");
+    expect(db.updateMessageContent).not.toHaveBeenCalled();
+  });
+
+  it("rejects edits in archived rooms", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    db.isRoomArchived.mockResolvedValue(true);
+
+    const result = await chat.editMessage("u1", edit());
+
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.updateMessageContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { connectSocket, makeChat } from "./helpers";
+
+describe("ChatService.sendEphemeral", () => {
+  it("sends a system notice to the user alone and stores nothing", () => {
+    const { chat, db, redis, emitted } = makeChat();
+
+    const notice = chat.sendEphemeral("u1", "r1", "Only you can see this");
+
+    expect(notice).toMatchObject({
+      roomId: "r1",
+      userId: "u1",
+      content: "Only you can see this",
+      type: "system",
+      ephemeral: true,
+    });
+    expect(emitted).toEqual([
+      {
+        to: ["user:u1"],
+        except: [],
+        event: "ephemeral_message",
+        payload: notice,
+      },
+    ]);
+    expect(db.storeMessage).not.toHaveBeenCalled();
+    expect(redis.storeMessageInCache).not.toHaveBeenCalled();
+  });
+});
+
+describe("socket refusals", () => {
+  const MUTED_UNTIL = "2099-01-01T00:00:00.000Z";
+
+  it("explain a refused command to the sender alone", async () => {
+    const { chat, commands, fire, sentOf } = await connectSocket();
+    commands.run.mockResolvedValue({
+      success: false,
+      error: { message: "Only moderators and up can mute", code: "FORBIDDEN" },
+    });
+
+    await fire("send_message", { roomId: "r1", content: "/mute bob" });
+
+    expect(chat.sendEphemeral).toHaveBeenCalledWith(
+      "u1",
+      "r1",
+      "Only moderators and up can mute"
+    );
+    expect(sentOf("error")).toEqual([]);
+    expect(chat.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("keep the MUTED error when a command is refused for a mute", async () => {
+    const { chat, commands, fire, sentOf } = await connectSocket();
+    const error = { message: "You are muted in this room", code: "MUTED" };
+    commands.run.mockResolvedValue({ success: false, error });
+
+    await fire("send_message", { roomId: "r1", content: "/shrug" });
+
+    expect(sentOf("error")).toEqual([error]);
+    expect(chat.sendEphemeral).toHaveBeenCalledWith("u1", "r1", error.message);
+  });
+
+  it("give a muted sender the MUTED error and a notice", async () => {
+    const { chat, fire, sentOf } = await connectSocket();
+    chat.getMuteExpiry.mockResolvedValue(MUTED_UNTIL);
+
+    await fire("send_message", { roomId: "r1", content: "hello" });
+
+    const message = `You are muted in this room until ${new Date(
+      MUTED_UNTIL
+    ).toUTCString()}`;
+    expect(sentOf("error")).toEqual([{ message, code: "MUTED" }]);
+    expect(chat.sendEphemeral).toHaveBeenCalledWith("u1", "r1", message);
+    expect(chat.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("explain archived rooms with a notice", async () => {
+    const { chat, fire } = await connectSocket();
+    chat.checkWritable.mockResolvedValue({
+      message: "This room is archived and read-only",
+      code: "ROOM_ARCHIVED",
+    });
+
+    await fire("send_message", { roomId: "r1", content: "hello" });
+
+    expect(chat.sendEphemeral).toHaveBeenCalledWith(
+      "u1",
+      "r1",
+      "This room is archived and read-only"
+    );
+    expect(chat.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("don't turn typing into notices", async () => {
+    const { chat, socket, fire, sentOf, toRoom } = await connectSocket();
+    socket.rooms.add("r1");
+    chat.getMuteExpiry.mockResolvedValue(MUTED_UNTIL);
+
+    await fire("typing_start", { roomId: "r1" });
+
+    expect(sentOf("error")).toEqual([
+      expect.objectContaining({ code: "MUTED" }),
+    ]);
+    expect(chat.sendEphemeral).not.toHaveBeenCalled();
+    expect(toRoom).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+import type { Server } from "socket.io";
+import { ChatService } from "../src/services/chat";
+import { DatabaseService } from "../src/services/database";
+import { RedisService } from "../src/services/redis";
+import { AuthService } from "../src/services/auth";
+import { StorageDriver } from "../src/services/storage";
+import { CommandService } from "../src/services/commands";
+import { socketHandler } from "../src/handlers/socket";
+import { Message, Room, RoomRole, User } from "../src/utils/types";
+
+// A stand-in whose every method is a jest.fn resolving to undefined until a
+// test gives it something else to return
+export type Mocked<T> = { [K in keyof T]: jest.Mock };
+
+export function autoMock<T>(): Mocked<T> {
+  const fns = new Map<PropertyKey, jest.Mock>();
+  return new Proxy({} as Mocked<T>, {
+    get(_target, key) {
+      if (key === "then") return undefined; // not a thenable
+      if (!fns.has(key)) fns.set(key, jest.fn().mockResolvedValue(undefined));
+      return fns.get(key);
+    },
+  });
+}
+
+// One emit through the fake Socket.IO server, with the channels it went to
+// and any it left out
+export interface Emitted {
+  to: string[];
+  except: string[];
+  event: string;
+  payload: unknown;
+}
+
+export function fakeIo() {
+  const emitted: Emitted[] = [];
+  const left: { channel: string; room: string }[] = [];
+  const joined: { channel: string; room: string }[] = [];
+  const disconnected: string[] = [];
+
+  const operator = (to: string[], except: string[] = []) => ({
+    emit: (event: string, payload: unknown) => {
+      emitted.push({ to, except, event, payload });
+      return true;
+    },
+    except: (channels: string | string[]) =>
+      operator(to, except.concat(channels)),
+    socketsLeave: (room: string) =>
+      to.forEach((channel) => left.push({ channel, room })),
+    socketsJoin: (room: string) =>
+      to.forEach((channel) => joined.push({ channel, room })),
+    disconnectSockets: () => disconnected.push(...to),
+  });
+
+  const io = {
+    to: (channels: string | string[]) => operator([channels].flat()),
+    in: (channels: string | string[]) => operator([channels].flat()),
+    emit: (event: string, payload: unknown) =>
+      operator([]).emit(event, payload),
+  };
+
+  return {
+    io,
+    emitted,
+    left,
+    joined,
+    disconnected,
+    // Payloads of one event, for asserting on what a room was told
+    payloads: (event: string) =>
+      emitted.filter((e) => e.event === event).map((e) => e.payload),
+  };
+}
+
+// A ChatService over mocked PostgreSQL, Redis and storage. Members are not
+// muted and rooms are not archived unless a test says so.
+export function makeChat() {
+  const db = autoMock<DatabaseService>();
+  const redis = autoMock<RedisService>();
+  const storage = autoMock<StorageDriver>();
+  const fake = fakeIo();
+
+  db.isUserInRoom.mockResolvedValue(true);
+  db.isRoomArchived.mockResolvedValue(false);
+  db.getActiveMute.mockResolvedValue(null);
+  redis.getMute.mockResolvedValue(null);
+
+  const chat = new ChatService(
+    db as unknown as DatabaseService,
+    redis as unknown as RedisService,
+    autoMock<AuthService>() as unknown as AuthService,
+    fake.io as unknown as Server,
+    storage as unknown as StorageDriver
+  );
+  chats.push(chat);
+
+  return { chat, db, redis, storage, ...fake };
+}
+
+// Each ChatService starts a heartbeat timer; stop them so jest can exit.
+// Spies on real objects (Date.now, createMessage) end with the test too.
+const chats: ChatService[] = [];
+afterEach(async () => {
+  await Promise.all(chats.splice(0).map((chat) => chat.disconnect()));
+  jest.restoreAllMocks();
+});
+
+export const room = (overrides: Partial<Room> = {}): Room => ({
+  id: "r1",
+  name: "general",
+  isPrivate: false,
+  requiresApproval: false,
+  readReceipts: true,
+  kind: "group",
+  createdBy: "u0",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+export const message = (overrides: Partial<Message> = {}): Message => ({
+  id: "m1",
+  roomId: "r1",
+  userId: "u1",
+  username: "alice",
+  content: "hello",
+  type: "text",
+  timestamp: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+export const user = (id: string, username = id): User => ({
+  id,
+  username,
+  email: `${username}@example.com`,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+// Gives the room these members, by id and role; anyone else is not in it
+export function withMembers(
+  db: Mocked<DatabaseService>,
+  roles: Record<string, RoomRole>
+): void {
+  db.getMemberRole.mockImplementation(
+    async (userId: string) => roles[userId] ?? null
+  );
+  db.isUserInRoom.mockImplementation(async (userId: string) => !!roles[userId]);
+  db.getUserById.mockImplementation(async (userId: string) => user(userId));
+  db.getRoomRoles.mockResolvedValue(roles);
+}
+
+// One connected socket running the real handlers against a mocked
+// ChatService; `fire` runs a handler the way a client event would
+export async function connectSocket(socketUser: User = user("u1", "alice")) {
+  const chat = autoMock<ChatService>();
+  const commands = autoMock<CommandService>();
+  chat.getUserRoomIds.mockResolvedValue([]);
+  chat.getUserRooms.mockResolvedValue([]);
+  chat.checkWritable.mockResolvedValue(null);
+  chat.getMuteExpiry.mockResolvedValue(null);
+  chat.isUserInRoom.mockResolvedValue(true);
+  chat.sendEphemeral.mockReturnValue(undefined);
+
+  const handlers = new Map<string, (data: unknown) => Promise<void>>();
+  const sent: { event: string; payload: unknown }[] = [];
+  const toRoom: Emitted[] = [];
+  const socket = {
+    id: "s1",
+    user: socketUser,
+    rooms: new Set<string>(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    on: (event: string, handler: (data: unknown) => Promise<void>) =>
+      handlers.set(event, handler),
+    emit: (event: string, payload: unknown) => sent.push({ event, payload }),
+    to: (channel: string) => ({
+      emit: (event: string, payload: unknown) =>
+        toRoom.push({ to: [channel], except: [], event, payload }),
+    }),
+  };
+
+  let connect!: (connected: typeof socket) => Promise<void>;
+  const io = {
+    on: (_event: string, handler: typeof connect) => (connect = handler),
+  };
+  socketHandler(
+    io as unknown as Server,
+    chat as unknown as ChatService,
+    commands as unknown as CommandService
+  );
+  await connect(socket);
+
+  return {
+    chat,
+    commands,
+    socket,
+    sent,
+    toRoom,
+    fire: (event: string, data: unknown) => handlers.get(event)!(data),
+    // What this socket alone was sent, by event
+    sentOf: (event: string) =>
+      sent.filter((e) => e.event === event).map((e) => e.payload),
+  };
+}
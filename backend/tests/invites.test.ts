@@ -0,0 +1,185 @@
+import { makeChat, room, withMembers } from "./helpers";
+
+const invite = {
+  id: "i1",
+  roomId: "r1",
+  token: "tok",
+  uses: 0,
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("managing invites", () => {
+  const setup = (current = room({ isPrivate: true })) => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(current);
+    harness.db.createInvite.mockResolvedValue(invite);
+    harness.db.revokeInvite.mockResolvedValue(true);
+    withMembers(harness.db, { admin: "admin", mod: "moderator" });
+    return harness;
+  };
+
+  it("creates a link with its expiry and use limit", async () => {
+    const { chat, db } = setup();
+    jest.spyOn(Date, "now").mockReturnValue(Date.UTC(2026, 9, 18, 12));
+
+    const result = await chat.createInvite("admin", "r1", {
+      expiresInMinutes: 60,
+      maxUses: 5,
+    });
+
+    expect(result).toEqual({ success: true, invite });
+    const [, token, , expiresAt, maxUses] = db.createInvite.mock.calls[0];
+    expect(token).toMatch(/^[\w-]{22}$/);
+    expect(expiresAt).toBe("2026-10-18T13:00:00.000Z");
+    expect(maxUses).toBe(5);
+  });
+
+  it("makes a new token for every link", async () => {
+    const { chat, db } = setup();
+    await chat.createInvite("admin", "r1", {});
+    await chat.createInvite("admin", "r1", {});
+    const [first, second] = db.createInvite.mock.calls.map((call) => call[1]);
+    expect(first).not.toBe(second);
+  });
+
+  it("revokes a link", async () => {
+    const { chat, db } = setup();
+    const result = await chat.revokeInvite("admin", "r1", "i1");
+    expect(result).toEqual({ success: true });
+    expect(db.revokeInvite).toHaveBeenCalledWith("r1", "i1");
+  });
+
+  it("can't revoke a link twice", async () => {
+    const { chat, db } = setup();
+    db.revokeInvite.mockResolvedValue(false);
+    const result = await chat.revokeInvite("admin", "r1", "i1");
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("is for owners and admins", async () => {
+    const { chat, db } = setup();
+
+    const created = await chat.createInvite("mod", "r1", {});
+    const listed = await chat.getRoomInvites("mod", "r1");
+    const revoked = await chat.revokeInvite("mod", "r1", "i1");
+
+    expect(created.error?.code).toBe("FORBIDDEN");
+    expect(listed.error?.code).toBe("FORBIDDEN");
+    expect(revoked.error?.code).toBe("FORBIDDEN");
+    expect(db.createInvite).not.toHaveBeenCalled();
+    expect(db.revokeInvite).not.toHaveBeenCalled();
+  });
+
+  it("has no links for archived rooms", async () => {
+    const { chat, db } = setup(
+      room({ archivedAt: "2026-02-01T00:00:00.000Z" })
+    );
+    const result = await chat.createInvite("admin", "r1", {});
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.createInvite).not.toHaveBeenCalled();
+  });
+});
+
+describe("joining with an invite", () => {
+  const setup = (current = room({ isPrivate: true })) => {
+    const harness = makeChat();
+    harness.db.getUsableInvite.mockResolvedValue(invite);
+    harness.db.getRoomById.mockResolvedValue(current);
+    harness.db.isUserInRoom.mockResolvedValue(false);
+    harness.db.getActiveBan.mockResolvedValue(null);
+    harness.db.redeemInvite.mockResolvedValue(true);
+    harness.db.addUserToRoom.mockResolvedValue({ role: "member" });
+    return harness;
+  };
+
+  it("lets people into a private room without the passcode", async () => {
+    const { chat, db } = setup();
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result).toMatchObject({ success: true, room: { id: "r1" } });
+    expect(db.redeemInvite).toHaveBeenCalledWith("tok");
+    expect(db.validateRoomPasscode).not.toHaveBeenCalled();
+    expect(db.addUserToRoom).toHaveBeenCalledWith("bob", "r1");
+  });
+
+  it("stands in for approval", async () => {
+    const { chat, db } = setup(room({ requiresApproval: true }));
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result.success).toBe(true);
+    expect(db.createJoinRequest).not.toHaveBeenCalled();
+    expect(db.deleteJoinRequest).toHaveBeenCalledWith("r1", "bob");
+  });
+
+  it("turns away expired, used up or revoked links", async () => {
+    const { chat, db } = setup();
+    db.getUsableInvite.mockResolvedValue(null);
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result.error?.code).toBe("INVALID_INVITE");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+  });
+
+  it("turns away a join that lost the race for the last use", async () => {
+    const { chat, db } = setup();
+    db.redeemInvite.mockResolvedValue(false);
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result.error?.code).toBe("INVALID_INVITE");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+  });
+
+  it("doesn't use up a link on people already in the room", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(true);
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result).toMatchObject({ success: true, alreadyJoined: true });
+    expect(db.redeemInvite).not.toHaveBeenCalled();
+  });
+
+  it("still keeps banned users out", async () => {
+    const { chat, db } = setup();
+    db.getActiveBan.mockResolvedValue({ reason: "spam" });
+
+    const result = await chat.joinRoom("bob", { inviteToken: "tok" });
+
+    expect(result.error).toEqual({
+      message: "You are banned from this room: spam",
+      code: "BANNED",
+    });
+    expect(db.redeemInvite).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.getInvitePreview", () => {
+  it("shows where a link leads", async () => {
+    const { chat, db } = makeChat();
+    db.getUsableInvite.mockResolvedValue(invite);
+    db.getRoomById.mockResolvedValue(
+      room({ isPrivate: true, description: "Team room", memberCount: 4 })
+    );
+
+    await expect(chat.getInvitePreview("tok")).resolves.toEqual({
+      success: true,
+      preview: {
+        roomName: "general",
+        description: "Team room",
+        memberCount: 4,
+        isPrivate: true,
+      },
+    });
+  });
+
+  it("shows nothing for a link that can't be used", async () => {
+    const { chat, db } = makeChat();
+    db.getUsableInvite.mockResolvedValue(null);
+    const result = await chat.getInvitePreview("tok");
+    expect(result.error?.code).toBe("INVALID_INVITE");
+  });
+});
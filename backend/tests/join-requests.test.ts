@@ -0,0 +1,150 @@
+import { makeChat, room, withMembers } from "./helpers";
+
+const gated = room({ requiresApproval: true, memberCount: 2 });
+const joinRequest = {
+  roomId: "r1",
+  userId: "bob",
+  username: "bob",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("asking to join a gated room", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomByName.mockResolvedValue(gated);
+    harness.db.isUserInRoom.mockResolvedValue(false);
+    harness.db.getActiveBan.mockResolvedValue(null);
+    harness.db.createJoinRequest.mockResolvedValue(joinRequest);
+    harness.db.getRoomRoles.mockResolvedValue({
+      owner: "owner",
+      admin: "admin",
+      mod: "moderator",
+    });
+    return harness;
+  };
+
+  it("files a request and tells the admins, not the members", async () => {
+    const { chat, db, emitted } = setup();
+
+    const result = await chat.joinRoom("bob", { roomId: "general" });
+
+    expect(result.error?.code).toBe("JOIN_REQUEST_SENT");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+    expect(emitted).toEqual([
+      {
+        to: ["user:owner", "user:admin"],
+        except: [],
+        event: "join_request",
+        payload: joinRequest,
+      },
+    ]);
+  });
+
+  it("says a request is already waiting", async () => {
+    const { chat, db, emitted } = setup();
+    db.createJoinRequest.mockResolvedValue(null);
+
+    const result = await chat.joinRoom("bob", { roomId: "general" });
+
+    expect(result.error?.code).toBe("JOIN_REQUEST_PENDING");
+    expect(emitted).toEqual([]);
+  });
+});
+
+describe("ChatService.resolveJoinRequest", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(gated);
+    harness.db.deleteJoinRequest.mockResolvedValue(true);
+    harness.db.getActiveBan.mockResolvedValue(null);
+    harness.db.addUserToRoom.mockResolvedValue({ role: "member" });
+    withMembers(harness.db, {
+      owner: "owner",
+      admin: "admin",
+      mod: "moderator",
+    });
+    harness.db.getRoomRoles.mockResolvedValue({
+      owner: "owner",
+      admin: "admin",
+    });
+    return harness;
+  };
+
+  it("lets an approved requester in and tells them with the room", async () => {
+    const { chat, db, redis, emitted } = setup();
+
+    const result = await chat.resolveJoinRequest("admin", "r1", "bob", true);
+
+    expect(result).toEqual({ success: true });
+    expect(db.addUserToRoom).toHaveBeenCalledWith("bob", "r1");
+    expect(redis.addUserToRoom).toHaveBeenCalledWith("bob", "r1");
+    const payload = {
+      roomId: "r1",
+      roomName: "general",
+      userId: "bob",
+      approved: true,
+    };
+    expect(emitted).toEqual([
+      expect.objectContaining({
+        to: ["user:bob"],
+        event: "join_request_resolved",
+        payload: {
+          ...payload,
+          room: { ...gated, memberCount: 3, myRole: "member" },
+        },
+      }),
+      expect.objectContaining({
+        to: ["user:owner", "user:admin"],
+        event: "join_request_resolved",
+        payload,
+      }),
+    ]);
+  });
+
+  it("turns a request down without a membership", async () => {
+    const { chat, db, payloads } = setup();
+
+    await chat.resolveJoinRequest("admin", "r1", "bob", false);
+
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+    expect(payloads("join_request_resolved")).toEqual([
+      { roomId: "r1", roomName: "general", userId: "bob", approved: false },
+      { roomId: "r1", roomName: "general", userId: "bob", approved: false },
+    ]);
+  });
+
+  it("won't approve someone banned while they waited", async () => {
+    const { chat, db, payloads } = setup();
+    db.getActiveBan.mockResolvedValue({ reason: "spam" });
+
+    const result = await chat.resolveJoinRequest("admin", "r1", "bob", true);
+
+    expect(result.error?.code).toBe("BANNED");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+    expect(payloads("join_request_resolved")).toContainEqual(
+      expect.objectContaining({ approved: false })
+    );
+  });
+
+  it("can't resolve a request twice", async () => {
+    const { chat, db, emitted } = setup();
+    db.deleteJoinRequest.mockResolvedValue(false);
+
+    const result = await chat.resolveJoinRequest("admin", "r1", "bob", true);
+
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(db.addUserToRoom).not.toHaveBeenCalled();
+    expect(emitted).toEqual([]);
+  });
+
+  it("is for owners and admins", async () => {
+    const { chat, db } = setup();
+
+    const listed = await chat.getJoinRequests("mod", "r1");
+    const resolved = await chat.resolveJoinRequest("mod", "r1", "bob", true);
+
+    expect(listed.error?.code).toBe("FORBIDDEN");
+    expect(resolved.error?.code).toBe("FORBIDDEN");
+    expect(db.deleteJoinRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import { UserPresence } from "../src/utils/types";
+import { makeChat, message, user } from "./helpers";
+
+describe("ChatService mentions", () => {
+  const presence = (
+    userId: string,
+    status: UserPresence["status"]
+  ): UserPresence => ({
+    userId,
+    username: userId,
+    status,
+    lastSeen: "2026-01-01T00:00:00.000Z",
+    activeRooms: ["r1"],
+  });
+
+  // alice (u1) posts in a room with bob, carol and dave
+  const setup = (content: string) => {
+    const harness = makeChat();
+    harness.db.storeMessage.mockResolvedValue(message({ content }));
+    harness.db.getRoomMembers.mockResolvedValue([
+      user("u1", "alice"),
+      user("u2", "bob"),
+      user("u3", "Carol"),
+      user("u4", "dave"),
+    ]);
+    harness.redis.getRoomPresences.mockResolvedValue([
+      presence("u1", "online"),
+      presence("u2", "online"),
+      presence("u3", "offline"),
+    ]);
+    return harness;
+  };
+
+  it("records members mentioned by name and tells each of them", async () => {
+    const { chat, db, redis, emitted } = setup("@bob and @carol, look");
+
+    const result = await chat.sendMessage("r1", "u1", "@bob and @carol, look");
+
+    const mentioned = message({
+      content: "@bob and @carol, look",
+      mentions: ["u2", "u3"],
+    });
+    expect(result).toEqual({ success: true, message: mentioned });
+    expect(db.addMentions).toHaveBeenCalledWith("m1", ["u2", "u3"]);
+    expect(redis.storeMessageInCache).toHaveBeenCalledWith("r1", mentioned);
+    expect(emitted).toContainEqual({
+      to: ["user:u2", "user:u3"],
+      except: [],
+      event: "mention",
+      payload: { roomId: "r1", message: mentioned },
+    });
+  });
+
+  it("mentions everyone but the author with @room", async () => {
+    const { chat, db } = setup("@room standup in 5");
+    const result = await chat.sendMessage("r1", "u1", "@room standup in 5");
+    expect(result.message?.mentions).toEqual(["u2", "u3", "u4"]);
+    expect(db.addMentions).toHaveBeenCalledWith("m1", ["u2", "u3", "u4"]);
+  });
+
+  it("mentions only members who are online with @here", async () => {
+    const { chat } = setup("@here anyone around?");
+    const result = await chat.sendMessage("r1", "u1", "@here anyone around?");
+    expect(result.message?.mentions).toEqual(["u2"]);
+  });
+
+  it("never mentions the author", async () => {
+    const { chat, db, payloads } = setup("note to self @alice");
+    const result = await chat.sendMessage("r1", "u1", "note to self @alice");
+    expect(result.message?.mentions).toBeUndefined();
+    expect(db.addMentions).not.toHaveBeenCalled();
+    expect(payloads("mention")).toEqual([]);
+  });
+
+  it.each([
+    ["names of people outside the room", "@zed hi"],
+    ["email addresses", "mail bob@example.com"],
+    ["a bare @", "meet @ noon"],
+  ])("ignores %s", async (_name, content) => {
+    const { chat, db, payloads } = setup(content);
+    const result = await chat.sendMessage("r1", "u1", content);
+    expect(result.message?.mentions).toBeUndefined();
+    expect(db.addMentions).not.toHaveBeenCalled();
+    expect(payloads("mention")).toEqual([]);
+  });
+
+  it("leaves system messages unmentioned", async () => {
+    const { chat, db, payloads } = setup("bob joined the room");
+    db.storeMessage.mockResolvedValue(
+      message({ content: "@bob joined the room", type: "system" })
+    );
+    await chat.createMessage("r1", "u1", "@bob joined the room", "system");
+    expect(db.getRoomMembers).not.toHaveBeenCalled();
+    expect(db.addMentions).not.toHaveBeenCalled();
+    expect(payloads("mention")).toEqual([]);
+  });
+
+  it("records mentions in thread replies", async () => {
+    const { chat, db, payloads } = setup("@dave over here");
+    const reply = message({
+      id: "m2",
+      content: "@dave over here",
+      replyToId: "m1",
+    });
+    db.getMessageById.mockResolvedValue(message());
+    db.storeMessage.mockResolvedValue(reply);
+
+    const result = await chat.createReply("r1", "u1", "@dave over here", "m1");
+
+    expect(result.message?.mentions).toEqual(["u4"]);
+    expect(db.addMentions).toHaveBeenCalledWith("m2", ["u4"]);
+    expect(payloads("mention")).toEqual([
+      { roomId: "r1", message: { ...reply, mentions: ["u4"] } },
+    ]);
+  });
+
+  it("keeps people who aren't in the room from mentioning anyone", async () => {
+    const { chat, db } = setup("@bob hi");
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.sendMessage("r1", "u1", "@bob hi");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.storeMessage).not.toHaveBeenCalled();
+    expect(db.addMentions).not.toHaveBeenCalled();
+  });
+});
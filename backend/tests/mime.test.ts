@@ -0,0 +1,70 @@
+import { sniffMimeType } from "../src/utils/mime";
+
+const bytes = (...parts: (number[] | string)[]) =>
+  Buffer.concat(
+    parts.map((part) =>
+      typeof part === "string" ? Buffer.from(part, "binary") : Buffer.from(part)
+    )
+  );
+
+describe("sniffMimeType", () => {
+  it.each([
+    ["image/png", bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0])],
+    ["image/jpeg", bytes([0xff, 0xd8, 0xff, 0xe0, 0])],
+    ["image/gif", bytes("GIF89a", [0])],
+    ["image/webp", bytes("RIFF", [0x24, 0, 0, 0], "WEBPVP8 ")],
+    ["application/pdf", bytes("%PDF-1.7\n", [0xe2, 0xe3])],
+    ["application/zip", bytes([0x50, 0x4b, 0x03, 0x04, 0x14, 0])],
+    ["application/gzip", bytes([0x1f, 0x8b, 0x08, 0])],
+    ["audio/mpeg", bytes("ID3", [0x04, 0])],
+    ["video/mp4", bytes([0, 0, 0, 0x20], "ftypisom", [0])],
+  ])("recognizes %s by its leading bytes", (mimeType, data) => {
+    expect(sniffMimeType(data)).toBe(mimeType);
+  });
+
+  it("needs every part of a signature", () => {
+    // RIFF without WEBP is a WAV or AVI, which aren't accepted
+    expect(sniffMimeType(bytes("RIFF", [0x24, 0, 0, 0], "WAVEfmt ", [0]))).toBe(
+      null
+    );
+  });
+
+  it("doesn't match a signature cut short", () => {
+    expect(sniffMimeType(bytes([0x89, 0x50, 0x4e, 0x47]))).toBe(null);
+  });
+
+  it("ignores the file's claimed type, e.g. HTML named .png", () => {
+    expect(sniffMimeType(Buffer.from("<html><script>alert(1)</script>"))).toBe(
+      "text/plain"
+    );
+  });
+
+  it("treats valid UTF-8 without NUL bytes as plain text", () => {
+    expect(sniffMimeType(Buffer.from("héllo wörld ✓\n"))).toBe("text/plain");
+  });
+
+  it("tolerates a multi-byte character cut off at the sample's end", () => {
+    const data = Buffer.concat([
+      Buffer.from("a".repeat(8191)),
+      Buffer.from("✓"), // 3 bytes, starting at the sample's last byte
+    ]);
+    expect(sniffMimeType(data)).toBe("text/plain");
+  });
+
+  it("rejects text with a NUL byte", () => {
+    expect(sniffMimeType(bytes("hello", [0], "world"))).toBe(null);
+  });
+
+  it("rejects invalid UTF-8", () => {
+    expect(sniffMimeType(bytes("abc", [0xc3, 0x28]))).toBe(null);
+  });
+
+  it("rejects unknown binary formats", () => {
+    // An ELF executable
+    expect(sniffMimeType(bytes([0x7f], "ELF", [2, 1, 1, 0]))).toBe(null);
+  });
+
+  it("rejects empty files", () => {
+    expect(sniffMimeType(Buffer.alloc(0))).toBe(null);
+  });
+});
@@ -0,0 +1,158 @@
+import { makeChat, message, room, withMembers } from "./helpers";
+
+describe("ChatService.removeMember", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(room());
+    withMembers(harness.db, {
+      owner: "owner",
+      mod: "moderator",
+      mod2: "moderator",
+      bob: "member",
+    });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  it("removes a member and tells them and the room", async () => {
+    const { chat, db, redis, left, payloads } = setup();
+
+    const result = await chat.removeMember("mod", "r1", "bob", { ban: false });
+
+    expect(result).toEqual({ success: true });
+    expect(db.removeUserFromRoom).toHaveBeenCalledWith("bob", "r1");
+    expect(redis.removeUserFromRoom).toHaveBeenCalledWith("bob", "r1");
+    expect(db.banUser).not.toHaveBeenCalled();
+    expect(left).toEqual([{ channel: "user:bob", room: "r1" }]);
+    expect(payloads("removed_from_room")).toEqual([
+      { roomId: "r1", roomName: "general", banned: false },
+    ]);
+    expect(payloads("room_update")).toEqual([
+      expect.objectContaining({ type: "user_left", roomId: "r1" }),
+    ]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "mod",
+      "bob was removed by mod",
+      "system"
+    );
+  });
+
+  it("records a ban with its reason and expiry", async () => {
+    const { chat, db } = setup();
+    const expiresAt = "2099-01-01T00:00:00.000Z";
+
+    await chat.removeMember("owner", "r1", "mod", {
+      ban: true,
+      reason: "spam",
+      expiresAt,
+    });
+
+    expect(db.banUser).toHaveBeenCalledWith(
+      "r1",
+      "mod",
+      "owner",
+      "spam",
+      expiresAt
+    );
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "owner",
+      "mod was banned by owner: spam",
+      "system"
+    );
+  });
+
+  it("can ban someone who already left", async () => {
+    const { chat, db, payloads } = setup();
+
+    const result = await chat.removeMember("mod", "r1", "gone", { ban: true });
+
+    expect(result.success).toBe(true);
+    expect(db.banUser).toHaveBeenCalled();
+    expect(db.removeUserFromRoom).not.toHaveBeenCalled();
+    expect(payloads("removed_from_room")).toEqual([]);
+  });
+
+  it.each([
+    ["a member removing a moderator", "bob", "mod2", "FORBIDDEN"],
+    ["a moderator removing a moderator", "mod", "mod2", "FORBIDDEN"],
+    ["a moderator removing the owner", "mod", "owner", "FORBIDDEN"],
+    ["a moderator removing themselves", "mod", "mod", "VALIDATION_ERROR"],
+    ["an outsider removing a member", "stranger", "bob", "FORBIDDEN"],
+  ])("refuses %s", async (_name, actorId, targetId, code) => {
+    const { chat, db } = setup();
+    const result = await chat.removeMember(actorId, "r1", targetId, {
+      ban: false,
+    });
+    expect(result.error?.code).toBe(code);
+    expect(db.removeUserFromRoom).not.toHaveBeenCalled();
+  });
+
+  it("can't kick someone who isn't in the room", async () => {
+    const { chat } = setup();
+    const result = await chat.removeMember("mod", "r1", "gone", { ban: false });
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("has no one to remove in direct messages", async () => {
+    const { chat, db } = setup();
+    db.getRoomById.mockResolvedValue(room({ kind: "direct" }));
+    const result = await chat.removeMember("owner", "r1", "bob", {
+      ban: false,
+    });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+  });
+});
+
+describe("ChatService.leaveRoom", () => {
+  it("ends the membership and tells the room", async () => {
+    const { chat, db, redis, left, payloads } = makeChat();
+    db.getRoomById.mockResolvedValue(room());
+    withMembers(db, { owner: "owner", bob: "member" });
+    jest.spyOn(chat, "createMessage").mockResolvedValue(message());
+
+    await chat.leaveRoom("bob", "r1");
+
+    expect(db.removeUserFromRoom).toHaveBeenCalledWith("bob", "r1");
+    expect(redis.removeUserFromRoom).toHaveBeenCalledWith("bob", "r1");
+    expect(left).toEqual([{ channel: "user:bob", room: "r1" }]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "bob",
+      "bob left the room",
+      "system"
+    );
+    expect(payloads("room_update")).toEqual([
+      expect.objectContaining({ type: "user_left", roomId: "r1" }),
+    ]);
+  });
+
+  it("says nothing for someone who isn't in the room", async () => {
+    const { chat, db, emitted } = makeChat();
+    db.getRoomById.mockResolvedValue(room());
+    withMembers(db, { owner: "owner" });
+    jest.spyOn(chat, "createMessage");
+
+    await chat.leaveRoom("stranger", "r1");
+
+    expect(db.removeUserFromRoom).not.toHaveBeenCalled();
+    expect(chat.createMessage).not.toHaveBeenCalled();
+    expect(emitted).toEqual([]);
+  });
+
+  it("leaves archived rooms as they were", async () => {
+    const { chat, db, payloads } = makeChat();
+    db.getRoomById.mockResolvedValue(
+      room({ archivedAt: "2026-02-01T00:00:00.000Z" })
+    );
+    withMembers(db, { owner: "owner", bob: "member" });
+    jest.spyOn(chat, "createMessage");
+
+    await chat.leaveRoom("bob", "r1");
+
+    expect(db.removeUserFromRoom).toHaveBeenCalled();
+    expect(chat.createMessage).not.toHaveBeenCalled();
+    expect(payloads("room_update")).toHaveLength(1);
+  });
+});
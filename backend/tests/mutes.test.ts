@@ -0,0 +1,193 @@
+import { RedisService } from "../src/services/redis";
+import { makeChat, message, room, withMembers } from "./helpers";
+
+// RedisService over an in-memory stand-in for its ioredis client
+const store = new Map<string, string>();
+const client = {
+  on: jest.fn(),
+  get: jest.fn(async (key: string) => store.get(key) ?? null),
+  set: jest.fn(async (key: string, value: string, ...options: unknown[]) => {
+    if (options.includes("NX") && store.has(key)) return null;
+    store.set(key, value);
+    return "OK";
+  }),
+  del: jest.fn(async (key: string) => Number(store.delete(key))),
+};
+jest.mock("ioredis", () => ({
+  __esModule: true,
+  default: jest.fn(() => client),
+}));
+
+describe("ChatService.muteMember", () => {
+  const NOW = new Date("2026-10-18T12:00:00.000Z");
+
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(room());
+    withMembers(harness.db, {
+      owner: "owner",
+      mod: "moderator",
+      bob: "member",
+    });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: NOW,
+      doNotFake: ["setInterval", "clearInterval"],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("mutes a member until the time is up and tells them", async () => {
+    const { chat, db, redis, payloads } = setup();
+    const expiresAt = "2026-10-18T12:15:00.000Z";
+
+    const result = await chat.muteMember("mod", "r1", "bob", {
+      durationMinutes: 15,
+    });
+
+    expect(result).toEqual({ success: true, expiresAt });
+    expect(db.muteUser).toHaveBeenCalledWith("r1", "bob", "mod", expiresAt);
+    expect(redis.setMute).toHaveBeenCalledWith("r1", "bob", expiresAt);
+    expect(payloads("mute_updated")).toEqual([{ roomId: "r1", expiresAt }]);
+    expect(payloads("ephemeral_message")).toEqual([
+      expect.objectContaining({
+        userId: "bob",
+        content: `mod muted you until ${new Date(
+          expiresAt
+        ).toUTCString()}. You can still read the room.`,
+      }),
+    ]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "mod",
+      "bob was muted for 15 minutes by mod",
+      "system"
+    );
+  });
+
+  it.each([0, 1.5, 7 * 24 * 60 + 1])(
+    "rejects a duration of %d minutes",
+    async (durationMinutes) => {
+      const { chat, db } = setup();
+      const result = await chat.muteMember("mod", "r1", "bob", {
+        durationMinutes,
+      });
+      expect(result.error?.code).toBe("VALIDATION_ERROR");
+      expect(db.muteUser).not.toHaveBeenCalled();
+    }
+  );
+
+  it.each([
+    ["members", "bob", "mod"],
+    ["moderators muting the owner", "mod", "owner"],
+  ])("won't let %s mute", async (_name, actorId, targetId) => {
+    const { chat, db } = setup();
+    const result = await chat.muteMember(actorId, "r1", targetId, {
+      durationMinutes: 5,
+    });
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.muteUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.unmuteMember", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(room());
+    withMembers(harness.db, { mod: "moderator", bob: "member" });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  it("lifts a mute and tells the member", async () => {
+    const { chat, db, redis, payloads } = setup();
+    redis.getMute.mockResolvedValue("2099-01-01T00:00:00.000Z");
+
+    const result = await chat.unmuteMember("mod", "r1", "bob");
+
+    expect(result).toEqual({ success: true });
+    expect(db.unmuteUser).toHaveBeenCalledWith("r1", "bob");
+    expect(redis.clearMute).toHaveBeenCalledWith("r1", "bob");
+    expect(payloads("mute_updated")).toEqual([{ roomId: "r1" }]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "mod",
+      "bob was unmuted by mod",
+      "system"
+    );
+  });
+
+  it("has nothing to do for someone who isn't muted", async () => {
+    const { chat, db } = setup();
+    const result = await chat.unmuteMember("mod", "r1", "bob");
+    expect(result).toEqual({ success: true });
+    expect(db.unmuteUser).not.toHaveBeenCalled();
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.getMuteExpiry", () => {
+  it("answers from Redis when it can", async () => {
+    const { chat, db, redis } = makeChat();
+    redis.getMute.mockResolvedValue("2099-01-01T00:00:00.000Z");
+
+    await expect(chat.getMuteExpiry("r1", "bob")).resolves.toBe(
+      "2099-01-01T00:00:00.000Z"
+    );
+    expect(db.getActiveMute).not.toHaveBeenCalled();
+  });
+
+  it("caches what PostgreSQL says, muted or not", async () => {
+    const { chat, db, redis } = makeChat();
+    redis.getMute.mockResolvedValue(undefined);
+
+    db.getActiveMute.mockResolvedValueOnce("2099-01-01T00:00:00.000Z");
+    await chat.getMuteExpiry("r1", "bob");
+    expect(redis.setMute).toHaveBeenCalledWith(
+      "r1",
+      "bob",
+      "2099-01-01T00:00:00.000Z"
+    );
+
+    db.getActiveMute.mockResolvedValueOnce(null);
+    await expect(chat.getMuteExpiry("r1", "carol")).resolves.toBeNull();
+    expect(redis.setNotMuted).toHaveBeenCalledWith("r1", "carol");
+  });
+});
+
+describe("RedisService mute cache", () => {
+  beforeEach(() => store.clear());
+
+  it("tells no entry apart from a cached not-muted", async () => {
+    const redis = new RedisService();
+
+    await expect(redis.getMute("r1", "bob")).resolves.toBeUndefined();
+    await redis.setNotMuted("r1", "bob");
+    await expect(redis.getMute("r1", "bob")).resolves.toBeNull();
+  });
+
+  it("never covers up a mute that was set first", async () => {
+    const redis = new RedisService();
+    await redis.setMute("r1", "bob", "2099-01-01T00:00:00.000Z");
+
+    await redis.setNotMuted("r1", "bob");
+
+    await expect(redis.getMute("r1", "bob")).resolves.toBe(
+      "2099-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("forgets the mute when it's lifted", async () => {
+    const redis = new RedisService();
+    await redis.setMute("r1", "bob", "2099-01-01T00:00:00.000Z");
+    await redis.clearMute("r1", "bob");
+    await expect(redis.getMute("r1", "bob")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { makeChat, message, room, user, withMembers } from "./helpers";
+
+const roleUpdates = (payloads: unknown[]) =>
+  payloads.filter(
+    (payload) => (payload as { type: string }).type === "role_updated"
+  );
+
+describe("ChatService.transferOwnership", () => {
+  const setup = (current = room()) => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(current);
+    harness.db.transferOwnership.mockResolvedValue(true);
+    withMembers(harness.db, { owner: "owner", admin: "admin", bob: "member" });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  it("makes the member owner and keeps the old owner on as admin", async () => {
+    const { chat, db, payloads } = setup();
+
+    const result = await chat.transferOwnership("owner", "r1", "bob");
+
+    expect(result).toEqual({ success: true });
+    expect(db.transferOwnership).toHaveBeenCalledWith("r1", "owner", "bob");
+    expect(roleUpdates(payloads("room_update"))).toEqual([
+      { type: "role_updated", roomId: "r1", userId: "bob", role: "owner" },
+      { type: "role_updated", roomId: "r1", userId: "owner", role: "admin" },
+    ]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "owner",
+      "owner transferred ownership to bob",
+      "system"
+    );
+  });
+
+  it("is for the owner only", async () => {
+    const { chat, db } = setup();
+    const result = await chat.transferOwnership("admin", "r1", "bob");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.transferOwnership).not.toHaveBeenCalled();
+  });
+
+  it("needs someone else to hand the room to", async () => {
+    const { chat, db } = setup();
+    const result = await chat.transferOwnership("owner", "r1", "owner");
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(db.transferOwnership).not.toHaveBeenCalled();
+  });
+
+  it("can only hand the room to a member", async () => {
+    const { chat, db, emitted } = setup();
+    db.transferOwnership.mockResolvedValue(false);
+
+    const result = await chat.transferOwnership("owner", "r1", "stranger");
+
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(emitted).toEqual([]);
+  });
+
+  it("hands over an archived room quietly", async () => {
+    const { chat } = setup(room({ archivedAt: "2026-02-01T00:00:00.000Z" }));
+    const result = await chat.transferOwnership("owner", "r1", "bob");
+    expect(result.success).toBe(true);
+    expect(chat.createMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("ownership succession", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(room());
+    harness.db.getOwnershipSuccessor.mockResolvedValue(user("admin"));
+    withMembers(harness.db, { owner: "owner", admin: "admin", bob: "member" });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  it("passes the room on when its owner leaves", async () => {
+    const { chat, db, payloads } = setup();
+
+    await chat.leaveRoom("owner", "r1");
+
+    expect(db.getOwnershipSuccessor).toHaveBeenCalledWith("r1", "owner");
+    expect(db.setMemberRole).toHaveBeenCalledWith("admin", "r1", "owner");
+    expect(roleUpdates(payloads("room_update"))).toEqual([
+      { type: "role_updated", roomId: "r1", userId: "admin", role: "owner" },
+    ]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "admin",
+      "admin is now the owner",
+      "system"
+    );
+  });
+
+  it("leaves ownership alone when anyone else leaves", async () => {
+    const { chat, db } = setup();
+    await chat.leaveRoom("bob", "r1");
+    expect(db.getOwnershipSuccessor).not.toHaveBeenCalled();
+    expect(db.setMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("has no one to pass an empty room to", async () => {
+    const { chat, db } = setup();
+    db.getOwnershipSuccessor.mockResolvedValue(null);
+
+    await chat.leaveRoom("owner", "r1");
+
+    expect(db.setMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("passes on every owned room before an account is deleted", async () => {
+    const { chat, db, disconnected } = setup();
+    db.getOwnedRooms.mockResolvedValue([room(), room({ id: "r2" })]);
+    db.getUserRoomIds.mockResolvedValue(["r1", "r2"]);
+
+    await chat.deleteAccount("owner");
+
+    expect(db.setMemberRole).toHaveBeenCalledWith("admin", "r1", "owner");
+    expect(db.setMemberRole).toHaveBeenCalledWith("admin", "r2", "owner");
+    const passed = db.setMemberRole.mock.invocationCallOrder[1];
+    expect(passed).toBeLessThan(db.deleteUser.mock.invocationCallOrder[0]);
+    expect(disconnected).toEqual(["user:owner"]);
+  });
+});
@@ -0,0 +1,165 @@
+import { makeChat, message, room, withMembers } from "./helpers";
+
+describe("ChatService.setPinned", () => {
+  const pinned = message({
+    pinnedAt: "2026-01-02T00:00:00.000Z",
+    pinnedBy: "mod",
+  });
+
+  const setup = (kind: "group" | "direct" = "group") => {
+    const harness = makeChat();
+    harness.db.getMessageById.mockResolvedValue(message());
+    harness.db.getRoomById.mockResolvedValue(room({ kind }));
+    harness.db.getPinnedMessages.mockResolvedValue([]);
+    harness.db.setMessagePinned.mockImplementation(
+      async (_id: string, by: string | null) => (by ? pinned : message())
+    );
+    withMembers(harness.db, {
+      u0: "owner",
+      mod: "moderator",
+      u1: "member",
+    });
+    return harness;
+  };
+
+  it("pins a message and tells the room", async () => {
+    const { chat, db, redis, payloads } = setup();
+
+    const result = await chat.setPinned("mod", "m1", true);
+
+    expect(result).toEqual({ success: true, message: pinned });
+    expect(db.setMessagePinned).toHaveBeenCalledWith("m1", "mod");
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", pinned);
+    expect(payloads("room_update")).toEqual([
+      { type: "message_pinned", message: pinned },
+    ]);
+  });
+
+  it("unpins a pinned message", async () => {
+    const { chat, db, payloads } = setup();
+    db.getMessageById.mockResolvedValue(pinned);
+
+    const result = await chat.setPinned("u0", "m1", false);
+
+    expect(result).toEqual({ success: true, message: message() });
+    expect(db.setMessagePinned).toHaveBeenCalledWith("m1", null);
+    expect(payloads("room_update")).toEqual([
+      { type: "message_unpinned", message: message() },
+    ]);
+  });
+
+  it("changes nothing when the message is already that way", async () => {
+    const { chat, db, payloads } = setup();
+    db.getMessageById.mockResolvedValue(pinned);
+
+    const result = await chat.setPinned("mod", "m1", true);
+
+    expect(result).toEqual({ success: true, message: pinned });
+    expect(db.setMessagePinned).not.toHaveBeenCalled();
+    expect(payloads("room_update")).toEqual([]);
+  });
+
+  it.each([
+    ["members", "u1"],
+    ["people outside the room", "u9"],
+  ])("keeps %s from pinning in group rooms", async (_name, userId) => {
+    const { chat, db } = setup();
+    const result = await chat.setPinned(userId, "m1", true);
+    expect(result.error).toEqual({
+      message: "Only moderators and up can pin messages",
+      code: "FORBIDDEN",
+    });
+    expect(db.setMessagePinned).not.toHaveBeenCalled();
+  });
+
+  it("lets either participant of a direct message pin", async () => {
+    const { chat, db } = setup("direct");
+    withMembers(db, { u1: "member", u2: "member" });
+
+    const result = await chat.setPinned("u2", "m1", true);
+
+    expect(result.success).toBe(true);
+    expect(db.setMessagePinned).toHaveBeenCalledWith("m1", "u2");
+  });
+
+  it("keeps outsiders from pinning in a direct message", async () => {
+    const { chat, db } = setup("direct");
+    withMembers(db, { u1: "member", u2: "member" });
+    const result = await chat.setPinned("u9", "m1", true);
+    expect(result.error?.code).toBe("FORBIDDEN");
+  });
+
+  it.each([
+    ["system messages", message({ type: "system" })],
+    ["thread replies", message({ replyToId: "m0" })],
+  ])("only pins top-level messages, not %s", async (_name, target) => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(target);
+    const result = await chat.setPinned("mod", "m1", true);
+    expect(result.error).toEqual({
+      message: "Only top-level messages can be pinned",
+      code: "VALIDATION_ERROR",
+    });
+  });
+
+  it("stops at 50 pins a room", async () => {
+    const { chat, db } = setup();
+    db.getPinnedMessages.mockResolvedValue(
+      Array.from({ length: 50 }, (_, i) => message({ id: `p${i}` }))
+    );
+
+    const result = await chat.setPinned("mod", "m1", true);
+
+    expect(result.error).toEqual({
+      message: "A room can have at most 50 pinned messages",
+      code: "VALIDATION_ERROR",
+    });
+    expect(db.setMessagePinned).not.toHaveBeenCalled();
+  });
+
+  it("still unpins when the room is at the limit", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(pinned);
+    db.getPinnedMessages.mockResolvedValue(
+      Array.from({ length: 50 }, (_, i) => message({ id: `p${i}` }))
+    );
+    const result = await chat.setPinned("mod", "m1", false);
+    expect(result.success).toBe(true);
+  });
+
+  it("doesn't pin deleted messages", async () => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(message({ isDeleted: true }));
+    const result = await chat.setPinned("mod", "m1", true);
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("doesn't change pins in archived rooms", async () => {
+    const { chat, db } = setup();
+    db.getRoomById.mockResolvedValue(
+      room({ archivedAt: "2026-01-02T00:00:00.000Z" })
+    );
+    const result = await chat.setPinned("u0", "m1", true);
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.setMessagePinned).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.getPinnedMessages", () => {
+  it("lists a room's pins for its members", async () => {
+    const { chat, db } = makeChat();
+    db.getPinnedMessages.mockResolvedValue([message()]);
+    await expect(chat.getPinnedMessages("u1", "r1")).resolves.toEqual({
+      success: true,
+      pins: [message()],
+    });
+  });
+
+  it("keeps them from people who aren't in the room", async () => {
+    const { chat, db } = makeChat();
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.getPinnedMessages("u9", "r1");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.getPinnedMessages).not.toHaveBeenCalled();
+  });
+});
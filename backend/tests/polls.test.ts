@@ -0,0 +1,371 @@
+import { RedisService } from "../src/services/redis";
+import { CreatePollRequest, Poll } from "../src/utils/types";
+import { connectSocket, makeChat, message } from "./helpers";
+
+// RedisService over an in-memory stand-in for the lists its cache keeps
+const lists = new Map<string, string[]>();
+const client = {
+  on: jest.fn(),
+  pipeline: () => {
+    const queued: (() => void)[] = [];
+    const pipeline = {
+      lpush: (key: string, value: string) => {
+        queued.push(() => lists.set(key, [value, ...(lists.get(key) ?? [])]));
+        return pipeline;
+      },
+      ltrim: () => pipeline,
+      expire: () => pipeline,
+      exec: async () => queued.forEach((run) => run()),
+    };
+    return pipeline;
+  },
+  lrange: jest.fn(async (key: string, start: number, stop: number) =>
+    (lists.get(key) ?? []).slice(start, stop === -1 ? undefined : stop + 1)
+  ),
+  lset: jest.fn(async (key: string, index: number, value: string) => {
+    lists.get(key)![index] = value;
+    return "OK";
+  }),
+};
+jest.mock("ioredis", () => ({
+  __esModule: true,
+  default: jest.fn(() => client),
+}));
+
+const NOW = new Date("2026-10-18T12:00:00.000Z");
+
+const poll = (overrides: Partial<Poll> = {}): Poll => ({
+  question: "Lunch?",
+  options: [
+    { text: "Pizza", votes: 0 },
+    { text: "Sushi", votes: 0 },
+    { text: "Tacos", votes: 0 },
+  ],
+  multipleChoice: false,
+  anonymous: false,
+  voterCount: 0,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({
+    now: NOW,
+    doNotFake: ["setInterval", "clearInterval"],
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  lists.clear();
+});
+
+describe("ChatService.createPoll", () => {
+  const request = (
+    overrides: Partial<CreatePollRequest> = {}
+  ): CreatePollRequest => ({
+    roomId: "r1",
+    question: "Lunch?",
+    options: ["Pizza", "Sushi", "Tacos"],
+    ...overrides,
+  });
+
+  const setup = () => {
+    const harness = makeChat();
+    const posted = message({ content: "Lunch?", type: "poll", poll: poll() });
+    harness.db.storeMessage.mockResolvedValue(posted);
+    return { ...harness, posted };
+  };
+
+  it("posts the poll to the room as a message", async () => {
+    const { chat, db, payloads, posted } = setup();
+    const closesAt = "2026-10-19T12:00:00.000Z";
+
+    const result = await chat.createPoll(
+      "u1",
+      request({ multipleChoice: true, anonymous: true, closesAt })
+    );
+
+    expect(result).toEqual({ success: true, message: posted });
+    expect(db.storeMessage).toHaveBeenCalledWith(
+      "r1",
+      "u1",
+      "Lunch?",
+      "poll",
+      undefined,
+      undefined,
+      {
+        question: "Lunch?",
+        options: ["Pizza", "Sushi", "Tacos"],
+        multipleChoice: true,
+        anonymous: true,
+        closesAt,
+      }
+    );
+    expect(payloads("room_update")).toEqual([
+      { type: "new_message", message: posted },
+    ]);
+  });
+
+  it("keeps polls single choice, named and open unless asked", async () => {
+    const { chat, db } = setup();
+    await chat.createPoll("u1", request());
+    expect(db.storeMessage.mock.calls[0][6]).toEqual({
+      question: "Lunch?",
+      options: ["Pizza", "Sushi", "Tacos"],
+      multipleChoice: false,
+      anonymous: false,
+      closesAt: undefined,
+    });
+  });
+
+  it.each([
+    ["an empty question", { question: "   " }, "Questions must be 1 to 300"],
+    [
+      "a question over 300 characters",
+      { question: "x".repeat(301) },
+      "Questions must be 1 to 300",
+    ],
+    ["a blank option", { options: ["Pizza", " "] }, "Options must be 1 to 100"],
+    [
+      "an option over 100 characters",
+      { options: ["Pizza", "x".repeat(101)] },
+      "Options must be 1 to 100",
+    ],
+    ["one option", { options: ["Pizza"] }, "Polls need 2 to 10 options"],
+    [
+      "more than ten options",
+      { options: Array.from({ length: 11 }, (_, i) => `Option ${i}`) },
+      "Polls need 2 to 10 options",
+    ],
+    [
+      "options that differ only in case",
+      { options: ["Pizza", "pizza"] },
+      "Poll options must all be different",
+    ],
+    [
+      "a closing time in the past",
+      { closesAt: "2026-10-18T11:59:00.000Z" },
+      "Polls must close in the future, within 30 days",
+    ],
+    [
+      "a closing time over 30 days away",
+      { closesAt: "2026-11-18T12:00:01.000Z" },
+      "Polls must close in the future, within 30 days",
+    ],
+    [
+      "a closing time that isn't a date",
+      { closesAt: "tomorrow" },
+      "Polls must close in the future, within 30 days",
+    ],
+  ])("rejects %s", async (_name, overrides, expected) => {
+    const { chat, db } = setup();
+    const result = await chat.createPoll("u1", request(overrides));
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(result.error?.message).toContain(expected);
+    expect(db.storeMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects people who aren't in the room", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.createPoll("u9", request());
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.storeMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("ChatService.votePoll", () => {
+  const setup = (options: Partial<Poll> = {}) => {
+    const harness = makeChat();
+    const posted = message({ type: "poll", poll: poll(options) });
+    const tallied = message({
+      type: "poll",
+      poll: poll({
+        ...options,
+        options: [
+          { text: "Pizza", votes: 1 },
+          { text: "Sushi", votes: 0 },
+          { text: "Tacos", votes: 1 },
+        ],
+        voterCount: 1,
+      }),
+    });
+    harness.db.getMessageById
+      .mockResolvedValueOnce(posted)
+      .mockResolvedValueOnce(tallied);
+    return { ...harness, tallied };
+  };
+
+  it("records the vote and sends the new tallies", async () => {
+    const { chat, db, redis, emitted, tallied } = setup({
+      multipleChoice: true,
+    });
+
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes: [2, 0, 2],
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(db.setPollVotes).toHaveBeenCalledWith("m1", "u2", [0, 2]);
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", tallied);
+    const update = {
+      type: "poll_updated",
+      roomId: "r1",
+      messageId: "m1",
+      poll: tallied.poll,
+    };
+    expect(emitted).toEqual([
+      {
+        to: ["r1"],
+        except: ["user:u2"],
+        event: "room_update",
+        payload: update,
+      },
+      {
+        to: ["user:u2"],
+        except: [],
+        event: "room_update",
+        payload: { ...update, poll: { ...tallied.poll, myVotes: [0, 2] } },
+      },
+    ]);
+  });
+
+  it("takes back a vote with no options chosen", async () => {
+    const { chat, db } = setup();
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes: [],
+    });
+    expect(result.success).toBe(true);
+    expect(db.setPollVotes).toHaveBeenCalledWith("m1", "u2", []);
+  });
+
+  it.each([
+    ["two options in a single-choice poll", [0, 1]],
+    ["an option that doesn't exist", [3]],
+    ["a negative index", [-1]],
+    ["a fractional index", [0.5]],
+  ])("rejects %s", async (_name, optionIndexes) => {
+    const { chat, db } = setup();
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes,
+    });
+    expect(result.error).toEqual({
+      message: "Invalid poll vote",
+      code: "VALIDATION_ERROR",
+    });
+    expect(db.setPollVotes).not.toHaveBeenCalled();
+  });
+
+  it("takes no votes once the poll has closed", async () => {
+    const { chat, db } = setup({ closesAt: "2026-10-18T11:00:00.000Z" });
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes: [0],
+    });
+    expect(result.error).toEqual({
+      message: "This poll has closed",
+      code: "VALIDATION_ERROR",
+    });
+    expect(db.setPollVotes).not.toHaveBeenCalled();
+  });
+
+  it("takes votes until the closing time", async () => {
+    const { chat, db } = setup({ closesAt: "2026-10-18T12:00:01.000Z" });
+    await chat.votePoll("u2", { messageId: "m1", optionIndexes: [0] });
+    expect(db.setPollVotes).toHaveBeenCalled();
+  });
+
+  it("keeps people who aren't in the room from voting", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.votePoll("u9", {
+      messageId: "m1",
+      optionIndexes: [0],
+    });
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.setPollVotes).not.toHaveBeenCalled();
+  });
+
+  it("takes no votes in archived rooms", async () => {
+    const { chat, db } = setup();
+    db.isRoomArchived.mockResolvedValue(true);
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes: [0],
+    });
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.setPollVotes).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["messages that aren't polls", message()],
+    ["deleted polls", message({ poll: poll(), isDeleted: true })],
+  ])("finds no poll in %s", async (_name, target) => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(target);
+    const result = await chat.votePoll("u2", {
+      messageId: "m1",
+      optionIndexes: [0],
+    });
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("send_poll", () => {
+  it("keeps muted members from starting a poll", async () => {
+    const { chat, fire } = await connectSocket();
+    chat.getMuteExpiry.mockResolvedValue("2026-10-18T13:00:00.000Z");
+
+    await fire("send_poll", {
+      roomId: "r1",
+      question: "Lunch?",
+      options: ["Pizza", "Sushi"],
+    });
+
+    expect(chat.createPoll).not.toHaveBeenCalled();
+  });
+});
+
+describe("RedisService poll caching", () => {
+  it("keeps the poll through the cache but not one viewer's votes", async () => {
+    const redis = new RedisService();
+    const mine = poll({ voterCount: 1, myVotes: [1] });
+
+    await redis.storeMessageInCache(
+      "r1",
+      message({ type: "poll", poll: mine })
+    );
+    const [cached] = await redis.getRecentMessagesFromCache("r1");
+
+    const { myVotes: _myVotes, ...shared } = mine;
+    expect(cached).toEqual(message({ type: "poll", poll: shared }));
+  });
+
+  it("keeps new tallies when a cached poll is updated", async () => {
+    const redis = new RedisService();
+    await redis.storeMessageInCache(
+      "r1",
+      message({ type: "poll", poll: poll() })
+    );
+
+    const tallied = poll({
+      options: [
+        { text: "Pizza", votes: 2 },
+        { text: "Sushi", votes: 1 },
+        { text: "Tacos", votes: 0 },
+      ],
+      voterCount: 3,
+    });
+    await redis.updateMessageInCache(
+      "r1",
+      message({ type: "poll", poll: { ...tallied, myVotes: [0] } })
+    );
+
+    await expect(redis.getRecentMessagesFromCache("r1")).resolves.toEqual([
+      message({ type: "poll", poll: tallied }),
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { makeChat, message } from "./helpers";
+
+describe("ChatService.setReaction", () => {
+  const reactions = [{ emoji: "👍", count: 1, userIds: ["u1"] }];
+
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getMessageById.mockResolvedValue(message());
+    harness.db.getMessageReactions.mockResolvedValue(reactions);
+    return harness;
+  };
+
+  it("adds a reaction and sends the room the new tally", async () => {
+    const { chat, db, redis, payloads } = setup();
+
+    const result = await chat.setReaction(
+      "u1",
+      { messageId: "m1", emoji: " 👍 " },
+      true
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(db.addReaction).toHaveBeenCalledWith("m1", "u1", "👍");
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", {
+      ...message(),
+      reactions,
+    });
+    expect(payloads("room_update")).toEqual([
+      { type: "reaction_updated", roomId: "r1", messageId: "m1", reactions },
+    ]);
+  });
+
+  it("removes a reaction", async () => {
+    const { chat, db } = setup();
+    await chat.setReaction("u1", { messageId: "m1", emoji: "👍" }, false);
+    expect(db.removeReaction).toHaveBeenCalledWith("m1", "u1", "👍");
+    expect(db.addReaction).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["empty", "  "],
+    ["too long", "x".repeat(17)],
+    ["spaced", "👍 👎"],
+  ])("rejects %s reactions", async (_name, emoji) => {
+    const { chat, db } = setup();
+    const result = await chat.setReaction(
+      "u1",
+      { messageId: "m1", emoji },
+      true
+    );
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(db.addReaction).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["deleted", message({ isDeleted: true })],
+    ["system", message({ type: "system" })],
+  ])("has nothing to react to on %s messages", async (_name, target) => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(target);
+    const result = await chat.setReaction(
+      "u1",
+      { messageId: "m1", emoji: "👍" },
+      true
+    );
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("rejects people who aren't in the room", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.setReaction(
+      "u1",
+      { messageId: "m1", emoji: "👍" },
+      true
+    );
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.addReaction).not.toHaveBeenCalled();
+  });
+
+  it("rejects reactions in archived rooms", async () => {
+    const { chat, db } = setup();
+    db.isRoomArchived.mockResolvedValue(true);
+    const result = await chat.setReaction(
+      "u1",
+      { messageId: "m1", emoji: "👍" },
+      true
+    );
+    expect(result.error?.code).toBe("ROOM_ARCHIVED");
+    expect(db.addReaction).not.toHaveBeenCalled();
+  });
+});
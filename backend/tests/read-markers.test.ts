@@ -0,0 +1,83 @@
+import { DatabaseService } from "../src/services/database";
+import { makeChat, room } from "./helpers";
+
+describe("ChatService.markRead", () => {
+  it("moves the marker and clears the badge in every tab", async () => {
+    const { chat, db, payloads } = makeChat();
+    db.markRead.mockResolvedValue(true);
+    db.getRoomById.mockResolvedValue(room({ readReceipts: false }));
+
+    await expect(chat.markRead("u1", "alice", "r1", "m5")).resolves.toBe(true);
+
+    expect(db.markRead).toHaveBeenCalledWith("u1", "r1", "m5");
+    expect(payloads("read_marker")).toEqual([
+      { roomId: "r1", messageId: "m5" },
+    ]);
+  });
+
+  it("says nothing when the marker didn't move", async () => {
+    const { chat, db, emitted } = makeChat();
+    db.markRead.mockResolvedValue(false);
+
+    await expect(chat.markRead("u1", "alice", "r1", "m1")).resolves.toBe(false);
+    expect(emitted).toEqual([]);
+  });
+});
+
+describe("DatabaseService read markers", () => {
+  const withRows = (result: object) => {
+    const query = jest.fn().mockResolvedValue(result);
+    const db = Object.create(DatabaseService.prototype) as DatabaseService;
+    Object.assign(db, { pool: { query } });
+    return { db, query };
+  };
+
+  it("only moves a member's marker forward, to a top-level message", async () => {
+    const { db, query } = withRows({ rowCount: 1 });
+
+    await db.markRead("u1", "r1", "m5");
+
+    const [sql, params] = query.mock.calls[0];
+    expect(params).toEqual(["u1", "r1", "m5"]);
+    expect(sql).toMatch(/rm\.is_active = true/);
+    expect(sql).toMatch(/m\.reply_to_id IS NULL/);
+    expect(sql).toMatch(/m\.created_at > COALESCE/);
+  });
+
+  it("counts unread messages and mentions per room", async () => {
+    const { db, query } = withRows({
+      rows: [
+        {
+          id: "r1",
+          name: "general",
+          is_private: false,
+          requires_approval: false,
+          read_receipts: true,
+          kind: "group",
+          created_by: "u0",
+          created_at: new Date("2026-01-01T00:00:00.000Z"),
+          member_count: "3",
+          my_role: "member",
+          last_read_message_id: "m5",
+          unread_count: 4,
+          unread_mention_count: 1,
+        },
+      ],
+    });
+
+    const [listed] = await db.getUserRooms("u1");
+
+    // Only others' top-level messages since the marker (or rejoining) count
+    const sql = query.mock.calls[0][0];
+    expect(sql).toMatch(/um\.user_id IS DISTINCT FROM rm\.user_id/);
+    expect(sql).toMatch(/um\.reply_to_id IS NULL AND um\.deleted_at IS NULL/);
+    expect(sql).not.toMatch(/'system'/);
+    expect(sql).toMatch(/rm\.joined_at/);
+    expect(listed).toMatchObject({
+      id: "r1",
+      memberCount: 3,
+      unreadCount: 4,
+      unreadMentionCount: 1,
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { connectSocket, makeChat, room } from "./helpers";
+
+describe("read receipts", () => {
+  const receipts = [{ userId: "bob", username: "bob", messageId: "m3" }];
+
+  it("shows the room how far a member has read", async () => {
+    const { chat, db, emitted } = makeChat();
+    db.markRead.mockResolvedValue(true);
+    db.getRoomById.mockResolvedValue(room());
+
+    await chat.markRead("u1", "alice", "r1", "m5");
+
+    expect(emitted).toContainEqual({
+      to: ["r1"],
+      except: [],
+      event: "read_receipts",
+      payload: {
+        roomId: "r1",
+        receipts: [{ userId: "u1", username: "alice", messageId: "m5" }],
+      },
+    });
+  });
+
+  it("keeps read positions to the reader when the room has them off", async () => {
+    const { chat, db, payloads } = makeChat();
+    db.markRead.mockResolvedValue(true);
+    db.getRoomById.mockResolvedValue(room({ readReceipts: false }));
+
+    await chat.markRead("u1", "alice", "r1", "m5");
+
+    expect(payloads("read_receipts")).toEqual([]);
+    expect(payloads("read_marker")).toHaveLength(1);
+  });
+
+  it("lists everyone's position for rooms that show them", async () => {
+    const { chat, db } = makeChat();
+    db.getRoomById.mockResolvedValue(room());
+    db.getReadReceipts.mockResolvedValue(receipts);
+
+    await expect(chat.getReadReceipts("r1")).resolves.toEqual(receipts);
+  });
+
+  it("lists no positions for rooms that don't", async () => {
+    const { chat, db } = makeChat();
+    db.getRoomById.mockResolvedValue(room({ readReceipts: false }));
+
+    await expect(chat.getReadReceipts("r1")).resolves.toEqual([]);
+    expect(db.getReadReceipts).not.toHaveBeenCalled();
+  });
+
+  it("come with the room when a member opens it", async () => {
+    const { chat, fire, sentOf } = await connectSocket();
+    chat.getReadReceipts.mockResolvedValue(receipts);
+    chat.getMessages.mockResolvedValue({
+      success: true,
+      page: { messages: [], hasMore: false },
+    });
+
+    await fire("join_room", { roomId: "r1", alreadyJoined: true });
+
+    expect(sentOf("room_joined")).toEqual([
+      expect.objectContaining({ roomId: "r1", receipts }),
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { hasRoleAtLeast } from "../src/services/chat";
+import { makeChat, message, room, withMembers } from "./helpers";
+
+describe("hasRoleAtLeast", () => {
+  it("ranks owner over admin over moderator over member", () => {
+    expect(hasRoleAtLeast("owner", "admin")).toBe(true);
+    expect(hasRoleAtLeast("admin", "moderator")).toBe(true);
+    expect(hasRoleAtLeast("moderator", "moderator")).toBe(true);
+    expect(hasRoleAtLeast("member", "moderator")).toBe(false);
+  });
+
+  it("gives people outside the room no role", () => {
+    expect(hasRoleAtLeast(null, "member")).toBe(false);
+  });
+});
+
+describe("ChatService.setMemberRole", () => {
+  const setup = () => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(room());
+    withMembers(harness.db, {
+      owner: "owner",
+      admin: "admin",
+      admin2: "admin",
+      mod: "moderator",
+      bob: "member",
+    });
+    jest.spyOn(harness.chat, "createMessage").mockResolvedValue(message());
+    return harness;
+  };
+
+  it("promotes a member and tells the room and the member", async () => {
+    const { chat, db, emitted } = setup();
+
+    const result = await chat.setMemberRole("admin", "r1", "bob", {
+      role: "moderator",
+    });
+
+    expect(result).toEqual({ success: true, role: "moderator" });
+    expect(db.setMemberRole).toHaveBeenCalledWith("bob", "r1", "moderator");
+    expect(emitted).toEqual([
+      {
+        to: ["r1", "user:bob"],
+        except: [],
+        event: "room_update",
+        payload: {
+          type: "role_updated",
+          roomId: "r1",
+          userId: "bob",
+          role: "moderator",
+        },
+      },
+    ]);
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "bob",
+      "bob is now a moderator",
+      "system"
+    );
+  });
+
+  it("announces a demotion by the role that was lost", async () => {
+    const { chat } = setup();
+    await chat.setMemberRole("owner", "r1", "admin", { role: "member" });
+    expect(chat.createMessage).toHaveBeenCalledWith(
+      "r1",
+      "admin",
+      "admin is no longer an admin",
+      "system"
+    );
+  });
+
+  it("leaves a member alone when nothing changes", async () => {
+    const { chat, db } = setup();
+    const result = await chat.setMemberRole("admin", "r1", "bob", {
+      role: "member",
+    });
+    expect(result).toEqual({ success: true, role: "member" });
+    expect(db.setMemberRole).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["moderators", "mod", "bob", "moderator"],
+    ["admins on other admins", "admin", "admin2", "member"],
+    ["admins making admins", "admin", "bob", "admin"],
+    ["anyone on themselves", "owner", "owner", "admin"],
+  ] as const)(
+    "won't let %s change roles",
+    async (_name, actorId, targetId, role) => {
+      const { chat, db } = setup();
+      const result = await chat.setMemberRole(actorId, "r1", targetId, {
+        role,
+      });
+      expect(result.error?.code).toBe("FORBIDDEN");
+      expect(db.setMemberRole).not.toHaveBeenCalled();
+    }
+  );
+
+  it("hands out ownership by transfer only", async () => {
+    const { chat, db } = setup();
+    const result = await chat.setMemberRole("owner", "r1", "bob", {
+      role: "owner",
+    });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(db.setMemberRole).not.toHaveBeenCalled();
+  });
+
+  it("needs the target to be a member", async () => {
+    const { chat } = setup();
+    const result = await chat.setMemberRole("owner", "r1", "stranger", {
+      role: "moderator",
+    });
+    expect(result.error?.code).toBe("NOT_FOUND");
+  });
+
+  it("has no roles in direct messages", async () => {
+    const { chat, db } = setup();
+    db.getRoomById.mockResolvedValue(room({ kind: "direct" }));
+    const result = await chat.setMemberRole("owner", "r1", "bob", {
+      role: "moderator",
+    });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+  });
+});
@@ -0,0 +1,229 @@
+import { ChatService } from "../src/services/chat";
+import { DatabaseService } from "../src/services/database";
+import { ScheduledMessageWorker } from "../src/services/scheduler";
+import { ScheduledMessageRecord } from "../src/utils/types";
+
+const TICK_MS = 5000;
+
+type Row = Omit<ScheduledMessageRecord, "status"> & {
+  status: ScheduledMessageRecord["status"] | "sent";
+  claimedAt?: number;
+  messageId?: string;
+};
+
+// The scheduled_messages table as the worker's queries see it. Each method
+// makes the same status checks as its SQL, and like a single statement it
+// runs without interleaving; the awaits around it let instances interleave.
+class ScheduledStore {
+  rows = new Map<string, Row>();
+
+  add(id: string, sendAt: number): void {
+    this.rows.set(id, {
+      id,
+      roomId: "r1",
+      userId: "u1",
+      content: `message ${id}`,
+      sendAt: new Date(sendAt).toISOString(),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async claimDueScheduledMessages(
+    limit: number
+  ): Promise<ScheduledMessageRecord[]> {
+    await Promise.resolve();
+    const due = [...this.rows.values()]
+      .filter(
+        (r) => r.status === "pending" && Date.parse(r.sendAt) <= Date.now()
+      )
+      .sort((a, b) => Date.parse(a.sendAt) - Date.parse(b.sendAt))
+      .slice(0, limit);
+    for (const row of due) {
+      row.status = "sending";
+      row.claimedAt = Date.now();
+    }
+    return due.map((row) => ({ ...row, status: "sending" }));
+  }
+
+  async finishScheduledMessage(
+    id: string,
+    outcome: { messageId: string } | { error: string }
+  ): Promise<boolean> {
+    await Promise.resolve();
+    const row = this.rows.get(id);
+    if (!row || row.status !== "sending") return false;
+    if ("messageId" in outcome) {
+      row.status = "sent";
+      row.messageId = outcome.messageId;
+    } else {
+      row.status = "failed";
+      row.error = outcome.error;
+    }
+    return true;
+  }
+
+  async failStaleScheduledMessages(
+    olderThanMinutes: number,
+    error: string
+  ): Promise<ScheduledMessageRecord[]> {
+    await Promise.resolve();
+    const stale = [...this.rows.values()].filter(
+      (r) =>
+        r.status === "sending" &&
+        r.claimedAt! < Date.now() - olderThanMinutes * 60 * 1000
+    );
+    for (const row of stale) {
+      row.status = "failed";
+      row.error = error;
+    }
+    return stale as ScheduledMessageRecord[];
+  }
+}
+
+// One backend instance: a worker over the shared store, posting through a
+// stand-in for ChatService.sendScheduledMessage
+function startInstance(
+  store: ScheduledStore,
+  posted: string[],
+  post: (scheduled: ScheduledMessageRecord) => Promise<void> = async () =>
+    undefined
+) {
+  const chat = {
+    dbService: store,
+    notifyScheduled: jest.fn().mockResolvedValue(undefined),
+    sendScheduledMessage: jest.fn(async (scheduled: ScheduledMessageRecord) => {
+      await post(scheduled);
+      posted.push(scheduled.id);
+      await store.finishScheduledMessage(scheduled.id, {
+        messageId: `m-${scheduled.id}`,
+      });
+    }),
+  };
+  const worker = new ScheduledMessageWorker(chat as unknown as ChatService);
+  worker.start();
+  return { chat, worker };
+}
+
+describe("ScheduledMessageWorker", () => {
+  const workers: ScheduledMessageWorker[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-10-18T12:00:00.000Z") });
+  });
+
+  afterEach(() => {
+    workers.splice(0).forEach((worker) => worker.stop());
+    jest.useRealTimers();
+  });
+
+  it("posts each due message exactly once across instances", async () => {
+    const store = new ScheduledStore();
+    for (let i = 0; i < 45; i++) store.add(`s${i}`, Date.now() - i * 1000);
+    store.add("later", Date.now() + 60 * 60 * 1000);
+
+    const posted: string[] = [];
+    workers.push(
+      startInstance(store, posted).worker,
+      startInstance(store, posted).worker,
+      startInstance(store, posted).worker
+    );
+    await jest.advanceTimersByTimeAsync(TICK_MS * 3);
+
+    expect(posted).toHaveLength(45);
+    expect(new Set(posted).size).toBe(45);
+    for (let i = 0; i < 45; i++) {
+      expect(store.rows.get(`s${i}`)).toMatchObject({
+        status: "sent",
+        messageId: `m-s${i}`,
+      });
+    }
+    expect(store.rows.get("later")!.status).toBe("pending");
+  });
+
+  it("posts a message once it falls due", async () => {
+    const store = new ScheduledStore();
+    store.add("soon", Date.now() + TICK_MS * 2);
+
+    const posted: string[] = [];
+    workers.push(startInstance(store, posted).worker);
+    await jest.advanceTimersByTimeAsync(TICK_MS);
+    expect(posted).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(TICK_MS * 2);
+    expect(posted).toEqual(["soon"]);
+  });
+
+  it("marks a message failed, not retried, when posting throws", async () => {
+    const store = new ScheduledStore();
+    store.add("broken", Date.now());
+
+    const posted: string[] = [];
+    const { chat, worker } = startInstance(store, posted, async () => {
+      throw new Error("database went away");
+    });
+    workers.push(worker);
+    await jest.advanceTimersByTimeAsync(TICK_MS * 3);
+
+    expect(chat.sendScheduledMessage).toHaveBeenCalledTimes(1);
+    expect(store.rows.get("broken")!.status).toBe("failed");
+    expect(chat.notifyScheduled).toHaveBeenCalledWith("u1", "r1");
+  });
+
+  it("fails a stalled claim and keeps it failed when the send finishes late", async () => {
+    const store = new ScheduledStore();
+    store.add("slow", Date.now());
+
+    let release!: () => void;
+    const stalled = new Promise<void>((resolve) => (release = resolve));
+    const posted: string[] = [];
+    const slow = startInstance(store, posted, () => stalled);
+    workers.push(slow.worker);
+    await jest.advanceTimersByTimeAsync(TICK_MS);
+    expect(store.rows.get("slow")!.status).toBe("sending");
+
+    // Another instance notices the claim outlived the stale window
+    const other = startInstance(store, posted);
+    workers.push(other.worker);
+    await jest.advanceTimersByTimeAsync(6 * 60 * 1000);
+    expect(store.rows.get("slow")!.status).toBe("failed");
+    expect(other.chat.sendScheduledMessage).not.toHaveBeenCalled();
+
+    release();
+    await jest.advanceTimersByTimeAsync(TICK_MS);
+    expect(posted).toEqual(["slow"]);
+    expect(store.rows.get("slow")!.status).toBe("failed");
+  });
+});
+
+describe("DatabaseService.finishScheduledMessage", () => {
+  const withPool = (rowCount: number) => {
+    const query = jest.fn().mockResolvedValue({ rowCount, rows: [] });
+    const db = Object.create(DatabaseService.prototype) as DatabaseService;
+    Object.assign(db, { pool: { query } });
+    return { db, query };
+  };
+
+  it.each([
+    ["sent", { messageId: "m1" }],
+    ["failed", { error: "muted" }],
+  ])(
+    "only records %s over a claim still being sent",
+    async (_status, outcome) => {
+      const { db, query } = withPool(1);
+      await expect(db.finishScheduledMessage("s1", outcome)).resolves.toBe(
+        true
+      );
+      expect(query.mock.calls[0][0]).toMatch(
+        /WHERE id = \$1 AND status = 'sending'/
+      );
+    }
+  );
+
+  it("reports a claim that was already finished", async () => {
+    const { db } = withPool(0);
+    await expect(
+      db.finishScheduledMessage("s1", { messageId: "m1" })
+    ).resolves.toBe(false);
+  });
+});
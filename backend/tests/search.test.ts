@@ -0,0 +1,109 @@
+import { DatabaseService } from "../src/services/database";
+import { makeChat, message } from "./helpers";
+
+const row = (id: string) => ({
+  id,
+  room_id: "r1",
+  user_id: "u1",
+  username: "alice",
+  content: "release notes",
+  message_type: "text",
+  created_at: new Date("2026-01-01T00:00:00.000Z"),
+  room_name: "general",
+  snippet: "<mark>release</mark> notes",
+});
+
+describe("DatabaseService.searchMessages", () => {
+  const withRows = (rows: unknown[]) => {
+    const query = jest.fn().mockResolvedValue({ rows });
+    const db = Object.create(DatabaseService.prototype) as DatabaseService;
+    Object.assign(db, { pool: { query } });
+    return { db, query };
+  };
+
+  it("only searches live messages in rooms the user belongs to", async () => {
+    const { db, query } = withRows([]);
+
+    await db.searchMessages("u1", { query: "release" });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toMatch(/rm\.user_id = \$1 AND rm\.is_active = true/);
+    expect(sql).toMatch(/m\.deleted_at IS NULL/);
+    expect(sql).not.toMatch(/'system'/);
+    expect(params).toEqual(["u1", "release", 21]);
+  });
+
+  it("narrows by room, author and dates", async () => {
+    const { db, query } = withRows([]);
+
+    await db.searchMessages("u1", {
+      query: "release",
+      roomId: "r1",
+      author: "Alice",
+      from: "2026-01-01",
+      to: "2026-02-01",
+      limit: 5,
+    });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toMatch(/m\.room_id = \$3/);
+    expect(sql).toMatch(/lower\(u\.username\) = lower\(\$4\)/);
+    expect(sql).toMatch(/m\.created_at >= \$5/);
+    expect(sql).toMatch(/m\.created_at <= \$6/);
+    expect(params).toEqual([
+      "u1",
+      "release",
+      "r1",
+      "Alice",
+      "2026-01-01",
+      "2026-02-01",
+      6,
+    ]);
+  });
+
+  it("pages from the last hit shown", async () => {
+    const { db } = withRows([row("m3"), row("m2"), row("m1")]);
+
+    const result = await db.searchMessages("u1", {
+      query: "release",
+      limit: 2,
+    });
+
+    expect(result.results.map((hit) => hit.message.id)).toEqual(["m3", "m2"]);
+    expect(result.results[0]).toMatchObject({
+      roomName: "general",
+      snippet: "<mark>release</mark> notes",
+    });
+    expect(result).toMatchObject({ hasMore: true, nextCursor: "m2" });
+  });
+
+  it("has no cursor on the last page", async () => {
+    const { db } = withRows([row("m1")]);
+    const result = await db.searchMessages("u1", { query: "release" });
+    expect(result).toMatchObject({ hasMore: false, nextCursor: undefined });
+  });
+});
+
+describe("ChatService.searchMessages", () => {
+  it("marks the viewer's own reactions on each hit", async () => {
+    const { chat, db } = makeChat();
+    db.searchMessages.mockResolvedValue({
+      results: [
+        {
+          message: message({
+            reactions: [{ emoji: "👍", count: 1, userIds: ["u1"] }],
+          }),
+          roomName: "general",
+          snippet: "hello",
+        },
+      ],
+      hasMore: false,
+    });
+
+    const result = await chat.searchMessages("u1", { query: "hello" });
+
+    expect(result.results[0].message.reactions).toEqual([
+      { emoji: "👍", count: 1, userIds: ["u1"], reactedByMe: true },
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { makeChat, room, withMembers } from "./helpers";
+
+describe("ChatService.updateRoom", () => {
+  const setup = (current = room()) => {
+    const harness = makeChat();
+    harness.db.getRoomById.mockResolvedValue(current);
+    harness.db.getRoomMembers.mockResolvedValue([
+      { id: "owner" },
+      { id: "bob" },
+    ]);
+    harness.db.updateRoom.mockImplementation(async (_id, changes) => ({
+      ...current,
+      ...changes,
+    }));
+    withMembers(harness.db, {
+      owner: "owner",
+      admin: "admin",
+      mod: "moderator",
+    });
+    return harness;
+  };
+
+  it("saves the changes and tells every member", async () => {
+    const { chat, db, emitted } = setup();
+
+    const result = await chat.updateRoom("admin", "r1", {
+      name: "releases",
+      description: "Ship it",
+    });
+
+    expect(db.updateRoom).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ name: "releases", description: "Ship it" })
+    );
+    expect(result.room).toMatchObject({ name: "releases" });
+    expect(emitted).toEqual([
+      expect.objectContaining({
+        to: ["user:owner", "user:bob"],
+        event: "room_updated",
+      }),
+    ]);
+  });
+
+  it("only lets owners and admins change settings", async () => {
+    const { chat, db } = setup();
+    const result = await chat.updateRoom("mod", "r1", { name: "mine" });
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.updateRoom).not.toHaveBeenCalled();
+  });
+
+  it("needs a passcode to go private", async () => {
+    const { chat, db } = setup();
+    const result = await chat.updateRoom("owner", "r1", { isPrivate: true });
+    expect(result.error?.code).toBe("PASSCODE_REQUIRED");
+    expect(db.updateRoom).not.toHaveBeenCalled();
+  });
+
+  it("won't clear the passcode of a private room", async () => {
+    const { chat } = setup(room({ isPrivate: true }));
+    const result = await chat.updateRoom("owner", "r1", { passcode: null });
+    expect(result.error?.code).toBe("PASSCODE_REQUIRED");
+  });
+
+  it("drops the passcode when a room goes public", async () => {
+    const { chat, db } = setup(room({ isPrivate: true }));
+    await chat.updateRoom("owner", "r1", { isPrivate: false });
+    expect(db.updateRoom).toHaveBeenCalledWith(
+      "r1",
+      expect.objectContaining({ isPrivate: false, passcode: null })
+    );
+  });
+
+  it("keeps approval to public rooms", async () => {
+    const { chat } = setup(room({ isPrivate: true }));
+    const result = await chat.updateRoom("owner", "r1", {
+      requiresApproval: true,
+    });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("lets waiting requesters in once approval is off", async () => {
+    const { chat, db } = setup(room({ requiresApproval: true }));
+    await chat.updateRoom("owner", "r1", { requiresApproval: false });
+    expect(db.deleteRoomJoinRequests).toHaveBeenCalledWith("r1");
+  });
+
+  it("catches open rooms up when read receipts come back on", async () => {
+    const { chat, db, payloads } = setup(room({ readReceipts: false }));
+    const receipts = [{ userId: "bob", username: "bob", messageId: "m1" }];
+    db.getReadReceipts.mockResolvedValue(receipts);
+
+    await chat.updateRoom("owner", "r1", { readReceipts: true });
+
+    expect(payloads("read_receipts")).toEqual([{ roomId: "r1", receipts }]);
+  });
+
+  it.each([
+    ["direct rooms", room({ kind: "direct" }), "VALIDATION_ERROR"],
+    [
+      "archived rooms",
+      room({ archivedAt: "2026-02-01T00:00:00.000Z" }),
+      "ROOM_ARCHIVED",
+    ],
+  ])("leaves %s as they are", async (_name, current, code) => {
+    const { chat, db } = setup(current);
+    const result = await chat.updateRoom("owner", "r1", { name: "renamed" });
+    expect(result.error?.code).toBe(code);
+    expect(db.updateRoom).not.toHaveBeenCalled();
+  });
+});
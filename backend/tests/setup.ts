@@ -0,0 +1,6 @@
+// Service logs stay out of the test output, and without pino-pretty's
+// worker thread nothing outlives a test file
+jest.mock("../src/utils/logger", () => {
+  const pino = jest.requireActual<typeof import("pino")>("pino");
+  return { logger: pino({ level: "silent" }) };
+});
@@ -0,0 +1,100 @@
+import { makeChat, message } from "./helpers";
+
+describe("ChatService.createReply", () => {
+  const setup = () => {
+    const harness = makeChat();
+    const parent = message();
+    const reply = message({ id: "m2", content: "agreed", replyToId: "m1" });
+    harness.db.getMessageById.mockResolvedValue(parent);
+    harness.db.storeMessage.mockResolvedValue(reply);
+    return { ...harness, parent, reply };
+  };
+
+  it("stores the reply under its parent and sends both to the room", async () => {
+    const { chat, db, redis, payloads, reply } = setup();
+    const counted = message({ replyCount: 1 });
+    db.getMessageById
+      .mockResolvedValueOnce(message())
+      .mockResolvedValueOnce(counted);
+
+    const result = await chat.createReply("r1", "u1", "agreed", "m1");
+
+    expect(result).toEqual({ success: true, message: reply });
+    expect(db.storeMessage).toHaveBeenCalledWith(
+      "r1",
+      "u1",
+      "agreed",
+      "text",
+      "m1"
+    );
+    expect(redis.updateMessageInCache).toHaveBeenCalledWith("r1", counted);
+    expect(payloads("room_update")).toEqual([
+      { type: "thread_reply", message: reply, parent: counted },
+    ]);
+  });
+
+  it("rejects people who aren't in the room", async () => {
+    const { chat, db } = setup();
+    db.isUserInRoom.mockResolvedValue(false);
+    const result = await chat.createReply("r1", "u1", "agreed", "m1");
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.storeMessage).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a deleted message", message({ isDeleted: true })],
+    ["a message in another room", message({ roomId: "r2" })],
+  ])("can't find %s to reply to", async (_name, parent) => {
+    const { chat, db } = setup();
+    db.getMessageById.mockResolvedValue(parent);
+    const result = await chat.createReply("r1", "u1", "agreed", "m1");
+    expect(result.error?.code).toBe("NOT_FOUND");
+    expect(db.storeMessage).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a reply", message({ replyToId: "m0" })],
+    ["a system message", message({ type: "system" })],
+  ])(
+    "keeps threads one level deep: no replies to %s",
+    async (_name, parent) => {
+      const { chat, db } = setup();
+      db.getMessageById.mockResolvedValue(parent);
+      const result = await chat.createReply("r1", "u1", "agreed", "m1");
+      expect(result.error?.code).toBe("VALIDATION_ERROR");
+      expect(db.storeMessage).not.toHaveBeenCalled();
+    }
+  );
+});
+
+describe("ChatService.getThread", () => {
+  it("returns the parent with a page of its replies", async () => {
+    const { chat, db } = makeChat();
+    const replies = [message({ id: "m2", replyToId: "m1" })];
+    db.getMessageById.mockResolvedValue(message({ replyCount: 1 }));
+    db.getThreadReplies.mockResolvedValue({
+      messages: replies,
+      hasMore: false,
+    });
+
+    const result = await chat.getThread("u1", { messageId: "m1", limit: 20 });
+
+    expect(db.getThreadReplies).toHaveBeenCalledWith("m1", 20, undefined);
+    expect(result).toMatchObject({
+      success: true,
+      parent: { id: "m1", replyCount: 1 },
+      replies: { messages: [{ id: "m2" }], hasMore: false },
+    });
+  });
+
+  it("is only for members of the room", async () => {
+    const { chat, db } = makeChat();
+    db.getMessageById.mockResolvedValue(message());
+    db.isUserInRoom.mockResolvedValue(false);
+
+    const result = await chat.getThread("u1", { messageId: "m1" });
+
+    expect(result.error?.code).toBe("FORBIDDEN");
+    expect(db.getThreadReplies).not.toHaveBeenCalled();
+  });
+});
@@ -5,10 +5,20 @@ import ErrorAlert from "../utility/ErrorAlert";
 import AuthContainer from "../auth/AuthContainer";
 import ChatLobby from "../chat/ChatLobby";
 import ChatRoom from "../chat/ChatRoom";
+import JoinRoomModal from "../room/JoinRoomModal";
+import MentionToast from "../message/MentionToast";
+import { readInviteToken, clearInviteToken } from "../../utils/room";
 
 const ChatContainer: React.FC = () => {
   const { state, connect, disconnect } = useChat();
   const [isInitialized, setIsInitialized] = useState(false);
+  // Kept across sign-in so an invite link also works when logged out
+  const [inviteToken, setInviteToken] = useState(readInviteToken);
+
+  const closeInvite = () => {
+    clearInviteToken();
+    setInviteToken(null);
+  };
 
   useEffect(() => {
     const initializeConnection = async () => {
@@ -94,6 +104,12 @@ const ChatContainer: React.FC = () => {
       {state.error && <ErrorAlert message={state.error.message} />}
 
       {!state.currentRoomId ? <ChatLobby /> : <ChatRoom />}
+
+      <MentionToast />
+
+      {inviteToken && (
+        <JoinRoomModal isOpen onClose={closeInvite} inviteToken={inviteToken} />
+      )}
     </div>
   );
 };
@@ -5,7 +5,10 @@ import CreateRoomModal from "../room/CreateRoomModal";
 import JoinRoomModal from "../room/JoinRoomModal";
 
 const ChatLobby: React.FC = () => {
-  const { state, logout } = useChat();
+  const { state, logout, clearRemovalNotice, clearJoinRequestNotice } =
+    useChat();
+  const notice = state.removalNotice;
+  const requestNotice = state.joinRequestNotice;
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
 
@@ -89,6 +92,54 @@ const ChatLobby: React.FC = () => {
 
       {/* Content */}
       <div className="flex-1 max-w-7xl mx-auto w-full p-6">
+        {notice && (
+          <div className="mb-6 flex items-start justify-between gap-4 p-4 rounded-lg bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200">
+            <div className="text-sm">
+              <p className="font-medium">
+                {notice.deleted
+                  ? `${notice.roomName} was deleted by its owner`
+                  : notice.banned
+                  ? `You were banned from ${notice.roomName}`
+                  : `You were removed from ${notice.roomName}`}
+                {notice.banned &&
+                  (notice.expiresAt
+                    ? ` until ${new Date(notice.expiresAt).toLocaleString()}`
+                    : " permanently")}
+              </p>
+              {notice.reason && <p className="mt-1">Reason: {notice.reason}</p>}
+              {!notice.banned && !notice.deleted && (
+                <p className="mt-1">You can rejoin the room at any time.</p>
+              )}
+            </div>
+            <button
+              onClick={clearRemovalNotice}
+              className="text-sm font-medium hover:underline flex-shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        {requestNotice && (
+          <div
+            className={`mb-6 flex items-start justify-between gap-4 p-4 rounded-lg border ${
+              requestNotice.approved
+                ? "bg-green-50 dark:bg-green-900/30 border-green-300 dark:border-green-700 text-green-800 dark:text-green-200"
+                : "bg-amber-50 dark:bg-amber-900/30 border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-200"
+            }`}
+          >
+            <p className="text-sm font-medium">
+              {requestNotice.approved
+                ? `Your request to join ${requestNotice.roomName} was approved. It's now in My Rooms.`
+                : `Your request to join ${requestNotice.roomName} was declined.`}
+            </p>
+            <button
+              onClick={clearJoinRequestNotice}
+              className="text-sm font-medium hover:underline flex-shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
         <RoomList />
       </div>
 
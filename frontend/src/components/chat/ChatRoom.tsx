@@ -1,29 +1,57 @@
 import React, { useState } from "react";
 import { useChat } from "../../contexts/ChatContext";
 import UserList from "../room/UserList";
+import JoinRequestList from "../room/JoinRequestList";
 import CreateRoomModal from "../room/CreateRoomModal";
 import JoinRoomModal from "../room/JoinRoomModal";
+import RoomSettingsModal from "../room/RoomSettingsModal";
 import JoinedRoomList from "../room/JoinedRoomList";
 import MessageList from "../message/MessageList";
 import MessageInput from "../message/MessageInput";
+import ThreadPanel from "../message/ThreadPanel";
+import SearchPanel from "../message/SearchPanel";
+import PinnedPanel from "../message/PinnedPanel";
 import {
   IconCreate,
   IconJoin,
   IconLeave,
   IconLobby,
   IconLogout,
+  IconPin,
+  IconSearch,
+  IconSettings,
 } from "../utility/Icons";
+import { getPeerStatus, getRoomLabel, hasRoleAtLeast } from "../../utils/room";
 
 const ChatRoom: React.FC = () => {
-  const { state, leaveRoom, logout, goToLobby } = useChat();
+  const {
+    state,
+    leaveRoom,
+    logout,
+    goToLobby,
+    getRoomPresences,
+    getMemberRole,
+  } = useChat();
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
   const [activeTab, setActiveTab] = useState<"users" | "rooms">("users");
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showPins, setShowPins] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   if (!state.currentRoomId) return null;
 
   const currentRoom = state.userRooms.find((r) => r.id === state.currentRoomId);
+  const myRole =
+    currentRoom && state.currentUser
+      ? getMemberRole(currentRoom.id, state.currentUser.id)
+      : "member";
+  const isArchived = !!currentRoom?.archivedAt;
+  // Archived rooms can't change; only their owner still gets settings (to delete)
+  const canEditSettings =
+    currentRoom?.kind === "group" &&
+    (isArchived ? myRole === "owner" : hasRoleAtLeast(myRole, "admin"));
 
   const handleLeaveRoom = async () => {
     if (state.currentRoomId) {
@@ -98,7 +126,12 @@ const ChatRoom: React.FC = () => {
 
           <div className="flex-1 overflow-hidden">
             {activeTab === "users" ? (
-              <UserList roomId={state.currentRoomId} />
+              <>
+                {canEditSettings && !isArchived && (
+                  <JoinRequestList roomId={state.currentRoomId} />
+                )}
+                <UserList roomId={state.currentRoomId} />
+              </>
             ) : (
               <JoinedRoomList />
             )}
@@ -207,7 +240,9 @@ const ChatRoom: React.FC = () => {
                     </div>
                   )}
                   <h1 className="text-xl font-semibold text-gray-900 dark:text-white pb-0.5">
-                    {currentRoom?.name || state.currentRoomId}
+                    {currentRoom
+                      ? getRoomLabel(currentRoom)
+                      : state.currentRoomId}
                   </h1>
                 </div>
 
@@ -216,22 +251,100 @@ const ChatRoom: React.FC = () => {
                     {currentRoom.description}
                   </p>
                 )}
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  {currentRoom?.memberCount} member
-                  {currentRoom?.memberCount !== 1 ? "s" : ""}
-                </p>
+                {currentRoom?.kind === "direct" ? (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Direct message ·{" "}
+                    {getPeerStatus(
+                      currentRoom,
+                      getRoomPresences(currentRoom.id)
+                    ) === "online"
+                      ? "Online"
+                      : "Offline"}
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {currentRoom?.memberCount} member
+                    {currentRoom?.memberCount !== 1 ? "s" : ""}
+                  </p>
+                )}
               </div>
             </div>
+
+            <div className="flex items-center gap-1">
+              {canEditSettings && (
+                <button
+                  onClick={() => setShowSettings(true)}
+                  className="p-2 rounded-lg text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                  title="Room settings"
+                >
+                  <IconSettings title="Room settings" />
+                </button>
+              )}
+              <button
+                onClick={() => setShowPins((v) => !v)}
+                className={`p-2 rounded-lg transition-colors ${
+                  showPins
+                    ? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white"
+                    : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                }`}
+                title="Pinned messages"
+              >
+                <IconPin title="Pinned messages" />
+              </button>
+              <button
+                onClick={() => setShowSearch((v) => !v)}
+                className={`p-2 rounded-lg transition-colors ${
+                  showSearch
+                    ? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white"
+                    : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                }`}
+                title="Search messages"
+              >
+                <IconSearch title="Search messages" />
+              </button>
+            </div>
           </div>
         </div>
 
         {/* Messages & Input */}
         <div className="flex-1 flex flex-col min-h-0">
           <MessageList roomId={state.currentRoomId} />
-          <MessageInput roomId={state.currentRoomId} />
+          {isArchived ? (
+            <div className="border-t border-gray-200 dark:border-gray-700 px-4 py-3 bg-white dark:bg-gray-800 text-sm text-center text-gray-500 dark:text-gray-400">
+              This room was archived on{" "}
+              {new Date(currentRoom!.archivedAt!).toLocaleDateString()}. Its
+              history is read-only.
+            </div>
+          ) : (
+            <MessageInput roomId={state.currentRoomId} />
+          )}
         </div>
       </div>
 
+      {/* Pinned messages drawer */}
+      {showPins && (
+        <div className="fixed md:static inset-0 z-40 md:z-auto md:flex md:flex-shrink-0">
+          <PinnedPanel
+            roomId={state.currentRoomId}
+            onClose={() => setShowPins(false)}
+          />
+        </div>
+      )}
+
+      {/* Search side panel */}
+      {showSearch && (
+        <div className="fixed md:static inset-0 z-40 md:z-auto md:flex md:flex-shrink-0">
+          <SearchPanel onClose={() => setShowSearch(false)} />
+        </div>
+      )}
+
+      {/* Thread side panel */}
+      {state.activeThreadId && (
+        <div className="fixed md:static inset-0 z-40 md:z-auto md:flex md:flex-shrink-0">
+          <ThreadPanel messageId={state.activeThreadId} />
+        </div>
+      )}
+
       <CreateRoomModal
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
@@ -240,6 +353,13 @@ const ChatRoom: React.FC = () => {
         isOpen={showJoinModal}
         onClose={() => setShowJoinModal(false)}
       />
+      {currentRoom && canEditSettings && (
+        <RoomSettingsModal
+          room={currentRoom}
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 };
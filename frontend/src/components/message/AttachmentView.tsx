@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { Attachment } from "../../types";
+import { roomService } from "../../services/room";
+import { formatFileSize, isImage } from "../../utils/attachment";
+
+// Save a blob under the attachment's name
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Images render inline from their thumbnail (the full file when there is
+// none); other files are a card with a download button
+const AttachmentView: React.FC<{
+  attachment: Attachment;
+  isOwnMessage: boolean;
+}> = ({ attachment, isOwnMessage }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const showImage = isImage(attachment.mimeType) && !failed;
+
+  useEffect(() => {
+    if (!isImage(attachment.mimeType)) return;
+    let url: string | null = null;
+    let cancelled = false;
+    roomService
+      .getAttachmentBlob(
+        attachment.roomId,
+        attachment.id,
+        attachment.hasThumbnail
+      )
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [
+    attachment.roomId,
+    attachment.id,
+    attachment.mimeType,
+    attachment.hasThumbnail,
+  ]);
+
+  const download = async () => {
+    setIsDownloading(true);
+    try {
+      const blob = await roomService.getAttachmentBlob(
+        attachment.roomId,
+        attachment.id
+      );
+      saveBlob(blob, attachment.filename);
+    } catch {
+      setFailed(true);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (showImage) {
+    return (
+      <button
+        onClick={download}
+        className="block mt-1 mb-1"
+        title={`Download ${attachment.filename}`}
+      >
+        {previewUrl ? (
+          <img
+            src={previewUrl}
+            alt={attachment.filename}
+            className="max-h-60 max-w-full rounded-lg"
+          />
+        ) : (
+          <div className="w-40 h-28 rounded-lg bg-gray-200 dark:bg-gray-700 animate-pulse" />
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className={`flex items-center gap-3 mt-1 mb-1 px-3 py-2 rounded-lg ${
+        isOwnMessage ? "bg-blue-400/40" : "bg-gray-100 dark:bg-gray-700"
+      }`}
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{attachment.filename}</p>
+        <p
+          className={`text-xs ${
+            isOwnMessage ? "text-blue-100" : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          {formatFileSize(attachment.size)}
+          {failed && " · unavailable"}
+        </p>
+      </div>
+      <button
+        onClick={download}
+        disabled={isDownloading}
+        className={`flex-shrink-0 text-xs font-medium hover:underline disabled:opacity-50 ${
+          isOwnMessage ? "text-white" : "text-blue-600 dark:text-blue-400"
+        }`}
+      >
+        {isDownloading ? "Downloading..." : "Download"}
+      </button>
+    </div>
+  );
+};
+
+export default AttachmentView;
@@ -0,0 +1,145 @@
+import React, { useMemo } from "react";
+import { BlockNode, InlineNode, parseMarkdown } from "../../utils/markdown";
+import { TokenType, highlight } from "../../utils/highlight";
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: "",
+  comment: "text-gray-500 italic",
+  string: "text-green-400",
+  number: "text-orange-300",
+  keyword: "text-purple-400 font-semibold",
+};
+
+interface MarkdownProps {
+  content: string;
+  inverted?: boolean; // on a colored (own message) bubble
+  renderText?: (text: string) => React.ReactNode; // e.g. mention highlights
+}
+
+// Message content rendered from its Markdown; only React elements are
+// produced, so nothing in the content is ever interpreted as HTML
+const Markdown: React.FC<MarkdownProps> = ({
+  content,
+  inverted = false,
+  renderText = (text) => text,
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const codeClass = inverted
+    ? "bg-blue-600/60"
+    : "bg-gray-100 dark:bg-gray-700 text-pink-600 dark:text-pink-300";
+  const linkClass = inverted
+    ? "underline text-white"
+    : "underline text-blue-600 dark:text-blue-400";
+
+  // Links can't nest, so text inside one is rendered without new links
+  const renderInline = (
+    nodes: InlineNode[],
+    inLink = false
+  ): React.ReactNode[] =>
+    nodes.map((node, i) => {
+      switch (node.type) {
+        case "text":
+          return (
+            <React.Fragment key={i}>{renderText(node.text)}</React.Fragment>
+          );
+        case "code":
+          return (
+            <code
+              key={i}
+              className={`px-1 rounded font-mono text-[0.85em] ${codeClass}`}
+            >
+              {node.text}
+            </code>
+          );
+        case "strong":
+          return (
+            <strong key={i} className="font-semibold">
+              {renderInline(node.children, inLink)}
+            </strong>
+          );
+        case "em":
+          return <em key={i}>{renderInline(node.children, inLink)}</em>;
+        case "link":
+          return inLink ? (
+            <React.Fragment key={i}>
+              {renderInline(node.children, true)}
+            </React.Fragment>
+          ) : (
+            <a
+              key={i}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className={`${linkClass} break-all`}
+            >
+              {renderInline(node.children, true)}
+            </a>
+          );
+      }
+    });
+
+  const renderBlocks = (nodes: BlockNode[]): React.ReactNode[] =>
+    nodes.map((block, i) => {
+      switch (block.type) {
+        case "paragraph":
+          return (
+            <p key={i} className="whitespace-pre-wrap break-words">
+              {renderInline(block.children)}
+            </p>
+          );
+        case "code":
+          return (
+            <pre
+              key={i}
+              className="my-1 p-2 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto"
+            >
+              <code>
+                {highlight(block.text, block.lang).map((token, j) =>
+                  token.type === "plain" ? (
+                    token.text
+                  ) : (
+                    <span key={j} className={TOKEN_CLASSES[token.type]}>
+                      {token.text}
+                    </span>
+                  )
+                )}
+              </code>
+            </pre>
+          );
+        case "quote":
+          return (
+            <blockquote
+              key={i}
+              className={`pl-2 border-l-4 ${
+                inverted
+                  ? "border-blue-300"
+                  : "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+              }`}
+            >
+              {renderBlocks(block.children)}
+            </blockquote>
+          );
+        case "list": {
+          const items = block.items.map((item, j) => (
+            <li key={j} className="break-words">
+              {renderInline(item)}
+            </li>
+          ));
+          return block.ordered ? (
+            <ol key={i} start={block.start} className="pl-5 list-decimal">
+              {items}
+            </ol>
+          ) : (
+            <ul key={i} className="pl-5 list-disc">
+              {items}
+            </ul>
+          );
+        }
+      }
+    });
+
+  return <div className="text-sm space-y-1">{renderBlocks(blocks)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,46 @@
+import React from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { getRoomLabel } from "../../utils/room";
+import { getMessagePreview } from "../../utils/message";
+
+// Latest mention of the viewer in another room, until opened or dismissed
+const MentionToast: React.FC = () => {
+  const { state, jumpToMessage, clearMentionNotice } = useChat();
+  const notice = state.mentionNotice;
+  if (!notice) return null;
+
+  const room = state.userRooms.find((r) => r.id === notice.roomId);
+  const { message } = notice;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 bg-white dark:bg-gray-800 border border-amber-300 dark:border-amber-700 rounded-lg shadow-lg p-4">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">
+          {message.username} mentioned you
+          {room && ` in ${getRoomLabel(room)}`}
+        </p>
+        <button
+          onClick={clearMentionNotice}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-2 break-words">
+        {getMessagePreview(message)}
+      </p>
+      <button
+        onClick={() => {
+          clearMentionNotice();
+          jumpToMessage(message);
+        }}
+        className="mt-2 text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+      >
+        View message
+      </button>
+    </div>
+  );
+};
+
+export default MentionToast;
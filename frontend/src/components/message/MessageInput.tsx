@@ -1,18 +1,209 @@
 import React, { useState, useRef, useEffect, useLayoutEffect } from "react";
 import { useChat } from "../../contexts/ChatContext";
 import TypingIndicator from "./TypingIndicator";
+import { BROADCAST_MENTIONS, getMentionQuery } from "../../utils/message";
+import { roomService } from "../../services/room";
+import { Attachment } from "../../types";
+import {
+  MAX_ATTACHMENT_BYTES,
+  formatFileSize,
+  makeThumbnail,
+} from "../../utils/attachment";
+import { IconClock, IconPaperclip, IconPoll } from "../utility/Icons";
+import Markdown from "./Markdown";
+import PollComposer from "./PollComposer";
+import ScheduledMessages from "./ScheduledMessages";
+import { MAX_MESSAGE_LENGTH } from "../../utils/markdown";
+import {
+  getAvailableCommands,
+  getCommandQuery,
+  getCommandUsage,
+  getTypedCommand,
+} from "../../utils/command";
+import { toDateTimeInput } from "../../utils/time";
+
+const MAX_MENTION_OPTIONS = 6;
+const MAX_COMMAND_OPTIONS = 8;
+
+// 9:05, or 1:02:09 past an hour
+const formatCountdown = (ms: number): string => {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+// A file picked for the next message; uploaded right away, sent on submit
+interface PendingAttachment {
+  file: File;
+  status: "uploading" | "ready" | "error";
+  attachment?: Attachment;
+  error?: string;
+}
 
 const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
   const [message, setMessage] = useState("");
-  const { sendMessage, startTyping, stopTyping } = useChat();
+  const {
+    state,
+    sendMessage,
+    sendAttachment,
+    sendPoll,
+    scheduleMessage,
+    startTyping,
+    stopTyping,
+    getMutedUntil,
+    getRoomPresences,
+    getMemberRole,
+    loadCommands,
+  } = useChat();
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingAttachment | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showPollComposer, setShowPollComposer] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [sendAt, setSendAt] = useState(""); // datetime-local value
+
+  // @mention autocomplete: members of the room, online first, then @here/@room
+  const [caret, setCaret] = useState(0);
+  const [activeOption, setActiveOption] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const mentionQuery = getMentionQuery(message, caret);
+  const mentionOptions = mentionQuery
+    ? [
+        ...getRoomPresences(roomId)
+          .filter((p) => p.userId !== state.currentUser?.id)
+          .sort((a, b) =>
+            a.status === b.status ? 0 : a.status === "online" ? -1 : 1
+          )
+          .map((p) => p.username),
+        ...BROADCAST_MENTIONS,
+      ]
+        .filter((name) =>
+          name.toLowerCase().startsWith(mentionQuery.query.toLowerCase())
+        )
+        .slice(0, MAX_MENTION_OPTIONS)
+    : [];
+  const showMentions =
+    mentionOptions.length > 0 && dismissedAt !== mentionQuery?.start;
+
+  // Slash commands: names complete from the start of the message, then the
+  // chosen command's arguments are hinted
+  useEffect(() => {
+    if (!state.commands) loadCommands();
+  }, []);
+  const commands = getAvailableCommands(
+    state.commands ?? [],
+    state.userRooms.find((r) => r.id === roomId),
+    state.currentUser ? getMemberRole(roomId, state.currentUser.id) : "member"
+  );
+  const commandQuery = pending ? null : getCommandQuery(message, caret);
+  const commandOptions =
+    commandQuery === null
+      ? []
+      : commands
+          .filter((command) => command.name.startsWith(commandQuery))
+          .slice(0, MAX_COMMAND_OPTIONS);
+  const showCommands = commandOptions.length > 0 && dismissedAt !== 0;
+  const typedCommand = pending ? undefined : getTypedCommand(message, commands);
+
+  useEffect(() => {
+    setActiveOption(0);
+  }, [mentionQuery?.query, commandQuery]);
+
+  const insertCommand = (name: string) => {
+    const after = message
+      .slice(caret)
+      .replace(/^[a-z]*/i, "")
+      .trimStart();
+    const next = `/${name} ${after}`;
+    const nextCaret = name.length + 2;
+    setMessage(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const insertMention = (name: string) => {
+    if (!mentionQuery) return;
+    const before = message.slice(0, mentionQuery.start);
+    const after = message.slice(caret).replace(/^[\w.-]*/, "");
+    const next = `${before}@${name} ${after}`;
+    const nextCaret = before.length + name.length + 2;
+    setMessage(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
 
-  // Auto-focus on mount / room change
+  // Tick once a second while muted so the countdown (and unmute) updates
+  const mutedUntil = getMutedUntil(roomId);
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!mutedUntil) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [mutedUntil]);
+  const mutedMs = mutedUntil ? new Date(mutedUntil).getTime() - now : 0;
+  const isMuted = mutedMs > 0;
+
+  // Auto-focus on mount / room change; a picked file or poll draft belongs
+  // to its room
   useEffect(() => {
     inputRef.current?.focus();
+    setPending(null);
+    setShowPollComposer(false);
+    setShowSchedule(false);
   }, [roomId]);
 
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // picking the same file again still fires
+    if (!file) return;
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setPending({
+        file,
+        status: "error",
+        error: `Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}`,
+      });
+      return;
+    }
+
+    setPending({ file, status: "uploading" });
+    try {
+      const attachment = await roomService.uploadAttachment(roomId, file);
+      // The thumbnail is best effort; images fall back to the full file
+      const thumbnail = await makeThumbnail(file);
+      if (thumbnail) {
+        await roomService
+          .uploadThumbnail(roomId, attachment.id, thumbnail)
+          .catch(() => undefined);
+      }
+      setPending((p) =>
+        p?.file === file ? { file, status: "ready", attachment } : p
+      );
+    } catch (error) {
+      setPending((p) =>
+        p?.file === file
+          ? {
+              file,
+              status: "error",
+              error: error instanceof Error ? error.message : "Upload failed",
+            }
+          : p
+      );
+    }
+    inputRef.current?.focus();
+  };
+
   useLayoutEffect(() => {
     autoResize(true);
   }, [message, roomId]);
@@ -28,7 +219,16 @@ const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim()) {
+    if (pending) {
+      if (pending.status !== "ready" || !pending.attachment || isMuted) return;
+      sendAttachment(pending.attachment.id, message);
+      setPending(null);
+      setMessage("");
+      stopTyping(roomId);
+      inputRef.current?.focus();
+      return;
+    }
+    if (message.trim() && !isMuted) {
       sendMessage(message.trim());
       setMessage("");
       stopTyping(roomId);
@@ -50,9 +250,37 @@ const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
     }
   };
 
+  // Only plain text can be sent later; "//" still escapes a leading slash
+  const canSchedule =
+    !!message.trim() && !pending && !isMuted && !/^\/(?!\/)/.test(message);
+  const sendAtInPast = !!sendAt && new Date(sendAt).getTime() <= Date.now();
+
+  const openSchedule = () => {
+    if (!showSchedule) {
+      // Default to an hour from now
+      setSendAt(toDateTimeInput(new Date(Date.now() + 60 * 60 * 1000)));
+    }
+    setShowSchedule((v) => !v);
+  };
+
+  const handleSchedule = async () => {
+    if (!canSchedule || !sendAt || sendAtInPast) return;
+    try {
+      await scheduleMessage(message, new Date(sendAt).toISOString());
+      setMessage("");
+      setShowSchedule(false);
+      stopTyping(roomId);
+      inputRef.current?.focus();
+    } catch {
+      // The error is shown through the chat state; keep the text
+    }
+  };
+
   const handleTyping = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setMessage(value);
+    setCaret(e.target.selectionStart);
+    setDismissedAt(null);
     // autoResize();
 
     if (value.trim()) {
@@ -77,6 +305,50 @@ const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showCommands) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveOption(
+          (i) => (i + step + commandOptions.length) % commandOptions.length
+        );
+        return;
+      }
+      // Enter runs a command that's already typed out in full
+      const exact = commandOptions.some((c) => c.name === commandQuery);
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && !exact)) {
+        e.preventDefault();
+        insertCommand((commandOptions[activeOption] ?? commandOptions[0]).name);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedAt(0);
+        return;
+      }
+    }
+
+    if (showMentions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveOption(
+          (i) => (i + step + mentionOptions.length) % mentionOptions.length
+        );
+        return;
+      }
+      if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(mentionOptions[activeOption] ?? mentionOptions[0]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedAt(mentionQuery?.start ?? null);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e as any);
@@ -120,23 +392,219 @@ const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
   return (
     <div className="border-t border-gray-200 dark:border-gray-700 px-4 pb-3 pt-2 bg-white dark:bg-gray-800">
       <TypingIndicator roomId={roomId} />
-      <form onSubmit={handleSubmit} className="flex space-x-2">
+      <ScheduledMessages roomId={roomId} />
+      {pending && (
+        <div
+          className={`flex items-center gap-2 mb-2 px-3 py-1.5 rounded-lg text-sm ${
+            pending.status === "error"
+              ? "bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+              : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+          }`}
+        >
+          <IconPaperclip className="w-4 h-4 flex-shrink-0" title="" />
+          <span className="truncate">{pending.file.name}</span>
+          <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+            {pending.status === "uploading"
+              ? "Uploading..."
+              : pending.status === "error"
+              ? pending.error
+              : formatFileSize(pending.file.size)}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPending(null)}
+            className="ml-auto text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Remove attachment"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      {showPollComposer && !isMuted && (
+        <PollComposer
+          onSend={(poll) => {
+            sendPoll(poll);
+            setShowPollComposer(false);
+          }}
+          onCancel={() => setShowPollComposer(false)}
+        />
+      )}
+      {showPreview && message.trim() && (
+        <div className="mb-2 px-4 py-2 max-h-60 overflow-y-auto rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white">
+          <Markdown content={message} />
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="relative flex space-x-2">
+        {showSchedule && (
+          <div className="absolute bottom-full right-0 mb-1 p-3 space-y-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 text-xs text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              Send at
+              <input
+                type="datetime-local"
+                value={sendAt}
+                min={toDateTimeInput(new Date())}
+                onChange={(e) => setSendAt(e.target.value)}
+                className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+            {sendAtInPast && (
+              <p className="text-red-600 dark:text-red-400">
+                The time must be in the future
+              </p>
+            )}
+            {!canSchedule && message.trim() && !pending && !isMuted && (
+              <p className="text-gray-500 dark:text-gray-400">
+                Commands can't be scheduled
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowSchedule(false)}
+                className="px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSchedule}
+                disabled={!canSchedule || !sendAt || sendAtInPast}
+                className="px-2 py-0.5 rounded bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white"
+              >
+                Schedule
+              </button>
+            </div>
+          </div>
+        )}
+        {showCommands && (
+          <ul className="absolute bottom-full left-0 mb-1 w-96 max-w-full py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10">
+            {commandOptions.map((command, i) => (
+              <li key={command.name}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertCommand(command.name)}
+                  className={`w-full text-left px-3 py-1 text-sm text-gray-900 dark:text-white ${
+                    i === activeOption
+                      ? "bg-blue-100 dark:bg-blue-900"
+                      : "hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  <span className="font-mono">{getCommandUsage(command)}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {command.description}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {!showCommands && !showMentions && typedCommand && (
+          <div className="absolute bottom-full left-0 mb-1 px-3 py-1 text-xs bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow z-10 text-gray-600 dark:text-gray-300">
+            <span className="font-mono">{getCommandUsage(typedCommand)}</span>
+            {typedCommand.args.length > 0 && (
+              <span className="ml-2 text-gray-500 dark:text-gray-400">
+                {typedCommand.args
+                  .map((arg) => `${arg.name}: ${arg.description}`)
+                  .join(" · ")}
+              </span>
+            )}
+          </div>
+        )}
+        {showMentions && (
+          <ul className="absolute bottom-full left-0 mb-1 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10">
+            {mentionOptions.map((name, i) => (
+              <li key={name}>
+                <button
+                  type="button"
+                  // Keep focus (and the caret) in the textarea
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(name)}
+                  className={`w-full text-left px-3 py-1 text-sm text-gray-900 dark:text-white ${
+                    i === activeOption
+                      ? "bg-blue-100 dark:bg-blue-900"
+                      : "hover:bg-gray-100 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  @{name}
+                  {BROADCAST_MENTIONS.includes(name) && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {name === "here"
+                        ? "Notify everyone online"
+                        : "Notify everyone in the room"}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isMuted || pending?.status === "uploading"}
+          className="px-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200
+                     disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <IconPaperclip />
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowPollComposer((v) => !v)}
+          disabled={isMuted}
+          className={`px-1 hover:text-gray-700 dark:hover:text-gray-200 disabled:cursor-not-allowed disabled:opacity-50 ${
+            showPollComposer
+              ? "text-blue-600 dark:text-blue-400"
+              : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          <IconPoll />
+        </button>
+        <button
+          type="button"
+          onClick={openSchedule}
+          disabled={isMuted || !!pending}
+          className={`px-1 hover:text-gray-700 dark:hover:text-gray-200 disabled:cursor-not-allowed disabled:opacity-50 ${
+            showSchedule
+              ? "text-blue-600 dark:text-blue-400"
+              : "text-gray-500 dark:text-gray-400"
+          }`}
+        >
+          <IconClock />
+        </button>
         <textarea
           ref={inputRef}
           value={message}
           onChange={handleTyping}
           onKeyDown={handleKeyDown}
-          maxLength={500}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          maxLength={MAX_MESSAGE_LENGTH}
           rows={1}
-          placeholder="Type a message..."
+          disabled={isMuted}
+          placeholder={
+            isMuted
+              ? "You are muted in this room"
+              : pending
+              ? "Add a caption..."
+              : "Type a message..."
+          }
           className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
                      focus:ring-2 focus:ring-blue-500 focus:border-blue-500 
                      dark:bg-gray-700 dark:text-white dark:focus:ring-blue-400
-                     transition-colors resize-none leading-6 overflow-y-auto"
+                     transition-colors resize-none leading-6 overflow-y-auto
+                     disabled:cursor-not-allowed disabled:opacity-60"
         />
         <button
           type="submit"
-          disabled={!message.trim()}
+          disabled={
+            (pending ? pending.status !== "ready" : !message.trim()) || isMuted
+          }
           className="px-6 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 
                      disabled:cursor-not-allowed text-white rounded-lg transition-colors
                      flex items-center space-x-2"
@@ -157,9 +625,29 @@ const MessageInput: React.FC<{ roomId: string }> = ({ roomId }) => {
           </svg>
         </button>
       </form>
-      <p className="text-[0.65rem] text-gray-500 dark:text-gray-400 mt-1">
-        Press Enter to send, Shift+Enter for new line
-      </p>
+      {isMuted ? (
+        <p className="text-[0.65rem] text-amber-600 dark:text-amber-400 mt-1">
+          A moderator muted you. You can send messages again in{" "}
+          {formatCountdown(mutedMs)}
+        </p>
+      ) : (
+        <div className="flex items-center justify-between text-[0.65rem] text-gray-500 dark:text-gray-400 mt-1">
+          <p>
+            Press Enter to send, Shift+Enter for new line, / for commands.
+            Markdown: **bold**, *italic*, `code`, ```code blocks```, &gt;
+            quotes, - lists
+          </p>
+          <button
+            type="button"
+            onClick={() => setShowPreview((v) => !v)}
+            className={`flex-shrink-0 ml-2 hover:underline ${
+              showPreview ? "text-blue-600 dark:text-blue-400" : ""
+            }`}
+          >
+            {showPreview ? "Hide preview" : "Preview"}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,12 +1,85 @@
-import React from "react";
-import { Message } from "../../types";
+import React, { useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { Message, ReadReceipt } from "../../types";
+import ReactionBar from "./ReactionBar";
+import AttachmentView from "./AttachmentView";
+import PollCard from "./PollCard";
+import Markdown from "./Markdown";
+import { MAX_MESSAGE_LENGTH } from "../../utils/markdown";
+import { BROADCAST_MENTIONS, splitMentions } from "../../utils/message";
+
+const MAX_READER_AVATARS = 5;
 
 interface MessageItemProps {
   message: Message;
   isOwnMessage: boolean;
+  canModerate?: boolean;
+  canPin?: boolean; // moderators and up, or either side of a DM
+  inThread?: boolean; // rendered inside the thread panel
+  isHighlighted?: boolean; // briefly marked after jumping to it
+  readers?: ReadReceipt[]; // members whose newest read message this is
 }
 
-const MessageItem: React.FC<MessageItemProps> = ({ message, isOwnMessage }) => {
+const MessageItem: React.FC<MessageItemProps> = ({
+  message,
+  isOwnMessage,
+  canModerate = false,
+  canPin = false,
+  inThread = false,
+  isHighlighted = false,
+  readers = [],
+}) => {
+  const {
+    state,
+    editMessage,
+    deleteMessage,
+    togglePin,
+    loadMessageHistory,
+    getMessageRevisions,
+    openThread,
+    startDirectMessage,
+    dismissEphemeral,
+  } = useChat();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const revisions = getMessageRevisions(message.id);
+  const replyCount = message.replyCount ?? 0;
+  // Only top-level messages start threads
+  const canReply = !inThread && !message.replyToId;
+  // Pins are jumped to in the timeline, so only top-level messages qualify
+  const showPin = canPin && !message.replyToId;
+  // Attachment captions and polls can't be edited
+  const canEdit =
+    isOwnMessage && (message.type === "text" || message.type === "action");
+  const isAction = message.type === "action";
+
+  const currentUser = state.currentUser;
+  const mentionsMe =
+    !isOwnMessage &&
+    !!currentUser &&
+    !!message.mentions?.includes(currentUser.id);
+
+  // @here/@room only count when the server resolved them to the viewer
+  const isMyMention = (name: string) =>
+    name === currentUser?.username.toLowerCase() ||
+    (mentionsMe && BROADCAST_MENTIONS.includes(name));
+
+  const renderMentions = (text: string) =>
+    splitMentions(text).map((part, i) =>
+      part.mention && isMyMention(part.mention) ? (
+        <span
+          key={i}
+          className="px-0.5 rounded font-medium bg-amber-200 dark:bg-amber-700"
+        >
+          {part.text}
+        </span>
+      ) : (
+        part.text
+      )
+    );
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString("en-US", {
@@ -16,44 +89,356 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, isOwnMessage }) => {
     });
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const content = draft.trim();
+    if (content && content !== message.content) {
+      editMessage(message.id, content);
+    }
+    setIsEditing(false);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  const toggleHistory = () => {
+    // Fetch on open; edits invalidate the cached revisions
+    if (!showHistory && !revisions) {
+      loadMessageHistory(message.id);
+    }
+    setShowHistory((v) => !v);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm("Delete this message?")) {
+      deleteMessage(message.id);
+    }
+  };
+
+  const readBy = readers.length > 0 && (
+    <div
+      className={`flex items-center mt-1 ${
+        message.type === "system"
+          ? "justify-center"
+          : isOwnMessage
+          ? "justify-end"
+          : "justify-start"
+      }`}
+      title={`Read by ${readers.map((r) => r.username).join(", ")}`}
+    >
+      <div className="flex -space-x-1">
+        {readers.slice(0, MAX_READER_AVATARS).map((reader) => (
+          <span
+            key={reader.userId}
+            className="w-4 h-4 rounded-full bg-gray-300 dark:bg-gray-600 ring-1 ring-white dark:ring-gray-900
+                       text-[0.55rem] font-semibold text-gray-700 dark:text-gray-200 flex items-center justify-center"
+          >
+            {reader.username.charAt(0).toUpperCase()}
+          </span>
+        ))}
+      </div>
+      {readers.length > MAX_READER_AVATARS && (
+        <span className="ml-1 text-[0.65rem] text-gray-500 dark:text-gray-400">
+          +{readers.length - MAX_READER_AVATARS}
+        </span>
+      )}
+    </div>
+  );
+
+  if (message.ephemeral) {
+    return (
+      <div className="flex justify-center my-2">
+        <div className="flex items-start gap-2 max-w-md px-3 py-1.5 rounded-lg border border-dashed border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/30">
+          <div className="min-w-0">
+            <p className="text-[0.65rem] font-medium uppercase tracking-wide text-blue-600 dark:text-blue-400">
+              Only you can see this
+            </p>
+            <p className="text-sm text-gray-700 dark:text-gray-200 break-words whitespace-pre-wrap">
+              {message.content}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => dismissEphemeral(message.roomId, message.id)}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (message.type === "system") {
     return (
       <div className="text-center my-2">
         <span className="text-sm text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">
           {message.content}
         </span>
+        {readBy}
+      </div>
+    );
+  }
+
+  const threadLink = canReply && replyCount > 0 && (
+    <button
+      onClick={() => openThread(message.id)}
+      className={`mt-1 text-xs font-medium hover:underline ${
+        isOwnMessage && !message.isDeleted
+          ? "text-blue-100"
+          : "text-blue-600 dark:text-blue-400"
+      }`}
+    >
+      {replyCount} {replyCount === 1 ? "reply" : "replies"}
+    </button>
+  );
+
+  const highlight = isHighlighted
+    ? "bg-yellow-100 dark:bg-yellow-900/30 rounded-xl"
+    : "";
+
+  if (message.isDeleted) {
+    return (
+      <div
+        data-id={message.id}
+        className={`flex ${
+          isOwnMessage ? "justify-end" : "justify-start"
+        } mb-4 transition-colors ${highlight}`}
+      >
+        <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-2xl border border-dashed border-gray-300 dark:border-gray-600">
+          {!isOwnMessage && (
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              {message.username}
+            </p>
+          )}
+          <p className="text-sm italic text-gray-500 dark:text-gray-400">
+            message deleted
+          </p>
+          <p className="text-xs mt-1 text-gray-500 dark:text-gray-400">
+            {formatTime(message.timestamp)}
+          </p>
+          {threadLink}
+          {readBy}
+        </div>
       </div>
     );
   }
 
+  const actions = !isEditing &&
+    (canReply || showPin || isOwnMessage || canModerate) && (
+      <div className="flex flex-col items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        {canReply && (
+          <button
+            onClick={() => openThread(message.id)}
+            className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title="Reply in thread"
+          >
+            Reply
+          </button>
+        )}
+        {showPin && (
+          <button
+            onClick={() => togglePin(message)}
+            className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title={message.pinnedAt ? "Unpin message" : "Pin message"}
+          >
+            {message.pinnedAt ? "Unpin" : "Pin"}
+          </button>
+        )}
+        {canEdit && (
+          <button
+            onClick={startEditing}
+            className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+            title="Edit message"
+          >
+            Edit
+          </button>
+        )}
+        {(isOwnMessage || canModerate) && (
+          <button
+            onClick={handleDelete}
+            className="text-xs text-gray-400 hover:text-red-500"
+            title="Delete message"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    );
+
   return (
     <div
       data-id={message.id}
-      className={`flex ${isOwnMessage ? "justify-end" : "justify-start"} mb-4`}
+      className={`group flex items-center gap-2 ${
+        isOwnMessage ? "justify-end" : "justify-start"
+      } mb-4 transition-colors ${highlight}`}
     >
+      {isOwnMessage && actions}
       <div
-        className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl ${
-          isOwnMessage
-            ? "bg-blue-500 text-white"
-            : "bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700"
+        className={`flex flex-col max-w-xs lg:max-w-md ${
+          isOwnMessage ? "items-end" : "items-start"
         }`}
       >
-        {!isOwnMessage && (
-          <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
-            {message.username}
-          </p>
-        )}
-        <p className="text-sm break-words whitespace-pre-wrap">
-          {message.content}
-        </p>
-        <p
-          className={`text-xs mt-1 ${
-            isOwnMessage ? "text-blue-100" : "text-gray-500 dark:text-gray-400"
+        <div
+          className={`max-w-full px-4 py-2 rounded-2xl ${
+            isOwnMessage
+              ? "bg-blue-500 text-white"
+              : mentionsMe
+              ? "bg-amber-50 dark:bg-amber-900/30 text-gray-900 dark:text-white border border-amber-300 dark:border-amber-700"
+              : "bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700"
           }`}
         >
-          {formatTime(message.timestamp)}
-        </p>
+          {!isOwnMessage && !isAction && (
+            <button
+              onClick={() => startDirectMessage(message.userId)}
+              className="block text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline mb-1"
+              title={`Message ${message.username}`}
+            >
+              {message.username}
+            </button>
+          )}
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                maxLength={MAX_MESSAGE_LENGTH}
+                rows={2}
+                autoFocus
+                className="w-full px-2 py-1 text-sm text-gray-900 dark:text-white dark:bg-gray-700 rounded-lg resize-none"
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-2 py-1 rounded bg-white/20 hover:bg-white/30"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={saveEdit}
+                  disabled={!draft.trim()}
+                  className="px-2 py-1 rounded bg-white/90 text-blue-600 hover:bg-white disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {message.attachment && (
+                <AttachmentView
+                  attachment={message.attachment}
+                  isOwnMessage={isOwnMessage}
+                />
+              )}
+              {message.poll ? (
+                <PollCard
+                  message={message}
+                  poll={message.poll}
+                  isOwnMessage={isOwnMessage}
+                />
+              ) : isAction ? (
+                // "/me waves" reads as "alice waves"
+                <p className="text-sm italic break-words whitespace-pre-wrap">
+                  {isOwnMessage ? (
+                    message.username
+                  ) : (
+                    <button
+                      onClick={() => startDirectMessage(message.userId)}
+                      className="font-medium not-italic hover:underline"
+                      title={`Message ${message.username}`}
+                    >
+                      {message.username}
+                    </button>
+                  )}{" "}
+                  {renderMentions(message.content)}
+                </p>
+              ) : (
+                message.content && (
+                  <Markdown
+                    content={message.content}
+                    inverted={isOwnMessage}
+                    renderText={renderMentions}
+                  />
+                )
+              )}
+            </>
+          )}
+          <p
+            className={`text-xs mt-1 ${
+              isOwnMessage
+                ? "text-blue-100"
+                : "text-gray-500 dark:text-gray-400"
+            }`}
+          >
+            {formatTime(message.timestamp)}
+            {message.editedAt && (
+              <button
+                onClick={toggleHistory}
+                className="ml-1 italic hover:underline"
+                title={`Edited at ${formatTime(message.editedAt)}`}
+              >
+                (edited)
+              </button>
+            )}
+            {message.pinnedAt && (
+              <span
+                className="ml-1"
+                title={`Pinned${
+                  message.pinnedBy ? ` by ${message.pinnedBy}` : ""
+                }`}
+              >
+                · Pinned
+              </span>
+            )}
+          </p>
+
+          {/* Edit history */}
+          {showHistory && (
+            <div
+              className={`mt-2 pt-2 border-t text-xs space-y-1 ${
+                isOwnMessage
+                  ? "border-blue-300 text-blue-100"
+                  : "border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400"
+              }`}
+            >
+              {!revisions ? (
+                <p>Loading history...</p>
+              ) : revisions.length === 0 ? (
+                <p>No previous versions</p>
+              ) : (
+                revisions.map((revision) => (
+                  <div key={revision.id}>
+                    <span className="font-medium">
+                      {formatTime(revision.editedAt)}
+                    </span>{" "}
+                    <span className="break-words whitespace-pre-wrap line-through">
+                      {revision.content}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
+          {threadLink}
+        </div>
+        <ReactionBar message={message} isOwnMessage={isOwnMessage} />
+        {readBy}
       </div>
+      {!isOwnMessage && actions}
     </div>
   );
 };
@@ -7,21 +7,35 @@ import React, {
 } from "react";
 import { useChat } from "../../contexts/ChatContext";
 import MessageItem from "./MessageItem";
+import { ReadReceipt } from "../../types";
+import { hasRoleAtLeast } from "../../utils/room";
 
 const NEAR_BOTTOM_PX = 300;
 const NEAR_TOP_PX = 200;
+const HIGHLIGHT_MS = 2500;
 
 // Persist scroll position per room across toggles/mounts
 const roomScrollMemory = new Map<string, number>();
 
 const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
-  const { state, getRoomData, loadMoreMessages } = useChat();
+  const {
+    state,
+    getRoomData,
+    loadMoreMessages,
+    loadNewerMessages,
+    jumpToLatest,
+    clearFocusedMessage,
+    getMemberRole,
+    markRoomRead,
+  } = useChat();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
   // control flags
   const initialAppliedRef = useRef(false); // initial restore/bottom applied for this room view
   const isApplyingRef = useRef(false); // suppress scroll handler during programmatic scrolls
+  const jumpingToLatestRef = useRef(false); // scroll to bottom once the latest page replaces a window
+  const isLoadingNewerRef = useRef(false); // forward page appended below; keep the reader in place
   const currentRoomRef = useRef(roomId); // guard against stale events
 
   // last known scrollTop we control (never read DOM at switch time)
@@ -31,6 +45,10 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
   const [showLoadMore, setShowLoadMore] = useState(false);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [unseenCount, setUnseenCount] = useState(0);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Read marker as it was when the room was opened; the divider stays put
+  // while the marker itself moves on
+  const [unreadAfterId, setUnreadAfterId] = useState<string | null>(null);
   const isLoadingMoreRef = useRef(false);
   const prevHeightRef = useRef(0);
   const prevTopRef = useRef(0);
@@ -40,13 +58,42 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
     () => getRoomData(roomId),
     [roomId, state.messagesByRoom[roomId]]
   );
-  let { messages, hasMore, isLoading } = roomData;
+  let { messages, hasMore, isLoading, hasNewer } = roomData;
+
+  // Moderators and up can delete anyone's messages
+  const canModerate =
+    !!state.currentUser &&
+    hasRoleAtLeast(getMemberRole(roomId, state.currentUser.id), "moderator");
+
+  const room = state.userRooms.find((r) => r.id === roomId);
+  const canPin = !room?.archivedAt && (room?.kind === "direct" || canModerate);
+
+  // Other members under the newest message each has read; authors aren't
+  // listed as readers of their own messages
+  const roomReceipts = state.readReceiptsByRoom[roomId];
+  const readersByMessage = useMemo(() => {
+    const readers: Record<string, ReadReceipt[]> = {};
+    if (!room?.readReceipts || !roomReceipts) return readers;
+
+    const authors = new Map(messages.map((m) => [m.id, m.userId]));
+    for (const receipt of Object.values(roomReceipts)) {
+      if (receipt.userId === state.currentUser?.id) continue;
+      if (authors.get(receipt.messageId) === receipt.userId) continue;
+      (readers[receipt.messageId] ??= []).push(receipt);
+    }
+    return readers;
+  }, [room?.readReceipts, roomReceipts, messages, state.currentUser?.id]);
 
   const messagesLength = messages.length;
   const lastMessageId = useMemo(
     () => (messagesLength ? messages[messagesLength - 1].id : null),
     [messagesLength, messages]
   );
+  // Ephemeral notices aren't stored, so the server can't mark them read
+  const lastStoredMessageId = useMemo(
+    () => [...messages].reverse().find((m) => !m.ephemeral)?.id ?? null,
+    [messages]
+  );
 
   // Utilities
   const formatDate = (timestamp: string) => {
@@ -92,6 +139,7 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
     setShowLoadMore(false);
     setUnseenCount(0);
     setIsAtBottom(true);
+    setUnreadAfterId(room?.unreadCount ? room.lastReadMessageId ?? null : null);
   }, [roomId]);
 
   // -------- INITIAL APPLY (after messages exist) --------
@@ -131,6 +179,40 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
     requestAnimationFrame(() => requestAnimationFrame(apply));
   }, [messagesLength, roomId]);
 
+  // -------- FOCUSED MESSAGE (e.g. opened search hit) --------
+  const focused = state.focusedMessage;
+  useEffect(() => {
+    if (!focused || focused.roomId !== roomId) return;
+    if (!messages.some((m) => m.id === focused.messageId)) return;
+
+    // Run after the initial apply so it wins over the restored position
+    requestAnimationFrame(() =>
+      requestAnimationFrame(() => {
+        const c = messagesContainerRef.current;
+        const el = c?.querySelector(`[data-id="${focused.messageId}"]`);
+        if (!c || !el) return;
+
+        isApplyingRef.current = true;
+        el.scrollIntoView({ block: "center" });
+        setHighlightedId(focused.messageId);
+        clearFocusedMessage();
+
+        requestAnimationFrame(() => {
+          initialAppliedRef.current = true;
+          isApplyingRef.current = false;
+          recomputeBottomState();
+          saveMemory(roomId, c.scrollTop);
+        });
+      })
+    );
+  }, [focused, messages, roomId]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
   // -------- SCROLL HANDLER --------
   const handleScroll = () => {
     const c = messagesContainerRef.current;
@@ -154,6 +236,12 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
   useEffect(() => {
     const c = messagesContainerRef.current;
     if (!c || !initialAppliedRef.current) return;
+    if (isLoadingNewerRef.current) {
+      isLoadingNewerRef.current = false;
+      return;
+    }
+    // Windows around older messages don't grow at the tail
+    if (hasNewer || jumpingToLatestRef.current) return;
 
     const atBottom =
       c.scrollTop + c.clientHeight >= c.scrollHeight - NEAR_BOTTOM_PX;
@@ -174,6 +262,41 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
     }
   }, [lastMessageId, roomId]);
 
+  // -------- READ MARKER (latest message seen while the tab is visible) --------
+  useEffect(() => {
+    if (hasNewer || !isAtBottom || !lastStoredMessageId) return;
+
+    const markIfVisible = () => {
+      if (document.visibilityState === "visible") {
+        markRoomRead(roomId, lastStoredMessageId);
+      }
+    };
+
+    markIfVisible();
+    document.addEventListener("visibilitychange", markIfVisible);
+    return () =>
+      document.removeEventListener("visibilitychange", markIfVisible);
+  }, [lastStoredMessageId, isAtBottom, hasNewer, roomId]);
+
+  // -------- BACK TO LATEST (window replaced by the latest page) --------
+  useEffect(() => {
+    if (!jumpingToLatestRef.current || hasNewer) return;
+    jumpingToLatestRef.current = false;
+
+    isApplyingRef.current = true;
+    requestAnimationFrame(() => {
+      scrollToBottom("auto");
+      requestAnimationFrame(() => {
+        isApplyingRef.current = false;
+        if (messagesContainerRef.current) {
+          saveMemory(roomId, messagesContainerRef.current.scrollTop);
+        }
+        setUnseenCount(0);
+        setIsAtBottom(true);
+      });
+    });
+  }, [hasNewer, lastMessageId, roomId]);
+
   // -------- RESIZE OBSERVER --------
   useEffect(() => {
     const c = messagesContainerRef.current;
@@ -225,6 +348,17 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
     await loadMoreMessages(roomId);
   };
 
+  const handleLoadNewer = async () => {
+    if (isLoading || !hasNewer) return;
+    isLoadingNewerRef.current = true;
+    await loadNewerMessages(roomId);
+  };
+
+  const handleJumpToLatest = () => {
+    jumpingToLatestRef.current = true;
+    jumpToLatest(roomId);
+  };
+
   const handleJumpToNew = () => {
     isApplyingRef.current = true;
     scrollToBottom("smooth");
@@ -324,18 +458,60 @@ const MessageList: React.FC<{ roomId: string }> = ({ roomId }) => {
                   <MessageItem
                     message={message}
                     isOwnMessage={message.userId === state.currentUser?.id}
+                    canModerate={canModerate}
+                    canPin={canPin}
+                    isHighlighted={message.id === highlightedId}
+                    readers={readersByMessage[message.id]}
                   />
+                  {message.id === unreadAfterId &&
+                    index < messages.length - 1 && (
+                      <div className="flex items-center my-3 gap-2">
+                        <div className="flex-1 border-t border-red-400 dark:border-red-500" />
+                        <span className="text-xs font-medium text-red-500 dark:text-red-400">
+                          New messages
+                        </span>
+                        <div className="flex-1 border-t border-red-400 dark:border-red-500" />
+                      </div>
+                    )}
                 </React.Fragment>
               );
             })}
           </div>
         )}
 
+        {/* Load newer (paging forward from a window) */}
+        {hasNewer && (
+          <div className="text-center mt-4 mb-12">
+            <button
+              onClick={handleLoadNewer}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 
+                     text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-sm
+                     disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? "Loading..." : "Load newer messages"}
+            </button>
+          </div>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Viewing older messages: back to the live tail */}
+      {hasNewer && (
+        <div className="absolute inset-x-0 bottom-4 flex justify-center pointer-events-none">
+          <button
+            onClick={handleJumpToLatest}
+            className="pointer-events-auto px-3 py-1.5 text-sm rounded-full shadow 
+                       bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Jump to latest
+          </button>
+        </div>
+      )}
+
       {/* New message pill */}
-      {!isAtBottom && unseenCount > 0 && (
+      {!hasNewer && !isAtBottom && unseenCount > 0 && (
         <div className="absolute inset-x-0 bottom-4 flex justify-center pointer-events-none">
           <button
             onClick={handleJumpToNew}
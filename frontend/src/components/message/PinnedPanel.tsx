@@ -0,0 +1,110 @@
+import React, { useEffect } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { Message } from "../../types";
+import { getMessagePreview } from "../../utils/message";
+
+// Pinned messages of a room; opening one jumps to it in the timeline
+const PinnedPanel: React.FC<{ roomId: string; onClose: () => void }> = ({
+  roomId,
+  onClose,
+}) => {
+  const { state, loadPinnedMessages, jumpToMessage } = useChat();
+  const pins = state.pinsByRoom[roomId];
+
+  useEffect(() => {
+    loadPinnedMessages(roomId);
+  }, [roomId]);
+
+  const handleOpen = async (message: Message) => {
+    try {
+      await jumpToMessage(message);
+      // The panel covers the conversation on small screens
+      if (window.matchMedia("(max-width: 767px)").matches) {
+        onClose();
+      }
+    } catch {
+      // jumpToMessage surfaces the error through the chat state
+    }
+  };
+
+  const formatDateTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+
+  return (
+    <div className="flex flex-col w-full md:w-80 h-full bg-gray-50 dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Pinned messages{pins && ` (${pins.length})`}
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Close pinned messages"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Pins */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!pins ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            Loading...
+          </p>
+        ) : pins.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            Nothing pinned yet. Pin messages worth keeping, like links and
+            rules, to find them here.
+          </p>
+        ) : (
+          pins.map((message) => (
+            <button
+              key={message.id}
+              onClick={() => handleOpen(message)}
+              className="w-full text-left p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
+                         hover:border-blue-300 dark:hover:border-blue-600 transition-colors"
+            >
+              <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span className="truncate font-medium text-gray-700 dark:text-gray-300">
+                  {message.username}
+                </span>
+                <span className="flex-shrink-0 ml-2">
+                  {formatDateTime(message.timestamp)}
+                </span>
+              </div>
+              <p className="text-sm text-gray-900 dark:text-white break-words whitespace-pre-wrap line-clamp-4">
+                {getMessagePreview(message)}
+              </p>
+              {message.pinnedBy && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Pinned by {message.pinnedBy}
+                </p>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PinnedPanel;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { Message, Poll } from "../../types";
+
+// setTimeout can't wait longer than this (about 24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const isClosed = (poll: Poll) =>
+  !!poll.closesAt && Date.parse(poll.closesAt) <= Date.now();
+
+const formatClosing = (closesAt: string) =>
+  new Date(closesAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+// A poll message: options show their live tallies and are voted on in place.
+// Clicking a chosen option takes that choice back.
+const PollCard: React.FC<{
+  message: Message;
+  poll: Poll;
+  isOwnMessage: boolean;
+}> = ({ message, poll, isOwnMessage }) => {
+  const { votePoll, getRoomPresences } = useChat();
+  const [closed, setClosed] = useState(() => isClosed(poll));
+
+  // Flip to closed when the closing time passes while the poll is on screen
+  useEffect(() => {
+    setClosed(isClosed(poll));
+    if (!poll.closesAt) return;
+    const delay = Date.parse(poll.closesAt) - Date.now();
+    if (delay <= 0 || delay > MAX_TIMER_MS) return;
+    const timer = setTimeout(() => setClosed(true), delay);
+    return () => clearTimeout(timer);
+  }, [poll]);
+
+  const myVotes = poll.myVotes ?? [];
+  const names = new Map(
+    getRoomPresences(message.roomId).map((p) => [p.userId, p.username])
+  );
+
+  const choose = (index: number) => {
+    if (closed) return;
+    const chosen = myVotes.includes(index);
+    if (poll.multipleChoice) {
+      votePoll(
+        message.id,
+        chosen ? myVotes.filter((i) => i !== index) : [...myVotes, index]
+      );
+    } else {
+      votePoll(message.id, chosen ? [] : [index]);
+    }
+  };
+
+  const mutedText = isOwnMessage
+    ? "text-blue-100"
+    : "text-gray-500 dark:text-gray-400";
+
+  return (
+    <div className="mt-1 mb-1 min-w-[14rem]">
+      <p className="text-sm font-semibold break-words">{poll.question}</p>
+      <p className={`text-xs mb-2 ${mutedText}`}>
+        {poll.multipleChoice ? "Choose any" : "Choose one"}
+        {poll.anonymous && " · Anonymous"}
+      </p>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option, index) => {
+          const chosen = myVotes.includes(index);
+          const share = poll.voterCount
+            ? Math.round((option.votes / poll.voterCount) * 100)
+            : 0;
+          const voters = option.userIds
+            ?.map((id) => names.get(id))
+            .filter(Boolean)
+            .join(", ");
+
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => choose(index)}
+              disabled={closed}
+              title={voters || undefined}
+              className={`relative block w-full overflow-hidden rounded-lg border text-left text-sm disabled:cursor-default ${
+                chosen
+                  ? isOwnMessage
+                    ? "border-white"
+                    : "border-blue-500"
+                  : isOwnMessage
+                  ? "border-blue-300"
+                  : "border-gray-200 dark:border-gray-600"
+              }`}
+            >
+              <span
+                className={`absolute inset-y-0 left-0 ${
+                  isOwnMessage
+                    ? "bg-blue-400/60"
+                    : "bg-blue-100 dark:bg-blue-900/40"
+                }`}
+                style={{ width: `${share}%` }}
+              />
+              <span className="relative flex items-center gap-2 px-2 py-1">
+                <span
+                  className={`flex-shrink-0 w-3.5 h-3.5 border flex items-center justify-center text-[0.6rem] ${
+                    poll.multipleChoice ? "rounded" : "rounded-full"
+                  } ${isOwnMessage ? "border-white" : "border-gray-400"}`}
+                >
+                  {chosen && "✓"}
+                </span>
+                <span className="flex-1 min-w-0 break-words">
+                  {option.text}
+                </span>
+                <span className={`text-xs ${mutedText}`}>{option.votes}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className={`text-xs mt-2 ${mutedText}`}>
+        {poll.voterCount} {poll.voterCount === 1 ? "vote" : "votes"}
+        {poll.closesAt &&
+          (closed ? " · Closed" : ` · Closes ${formatClosing(poll.closesAt)}`)}
+      </p>
+    </div>
+  );
+};
+
+export default PollCard;
@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { CreatePollRequest } from "../../types";
+import { toDateTimeInput } from "../../utils/time";
+
+// Same limits the server checks
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+
+// Question, options and settings for a new poll in the current room
+const PollComposer: React.FC<{
+  onSend: (poll: Omit<CreatePollRequest, "roomId">) => void;
+  onCancel: () => void;
+}> = ({ onSend, onCancel }) => {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState<string[]>(["", ""]);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState(""); // datetime-local value
+
+  const filled = options.map((o) => o.trim()).filter(Boolean);
+  const hasDuplicates =
+    new Set(filled.map((o) => o.toLowerCase())).size < filled.length;
+  const closesInPast = !!closesAt && new Date(closesAt).getTime() <= Date.now();
+  const canSend =
+    !!question.trim() &&
+    filled.length >= MIN_OPTIONS &&
+    !hasDuplicates &&
+    !closesInPast;
+
+  const setOption = (index: number, value: string) =>
+    setOptions((prev) => prev.map((o, i) => (i === index ? value : o)));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend) return;
+    onSend({
+      question: question.trim(),
+      options: filled,
+      multipleChoice,
+      anonymous,
+      closesAt: closesAt ? new Date(closesAt).toISOString() : undefined,
+    });
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mb-2 p-3 space-y-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40"
+    >
+      <input
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        maxLength={MAX_QUESTION_LENGTH}
+        placeholder="Ask a question..."
+        autoFocus
+        className={inputClass}
+      />
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            value={option}
+            onChange={(e) => setOption(index, e.target.value)}
+            maxLength={MAX_OPTION_LENGTH}
+            placeholder={`Option ${index + 1}`}
+            className={inputClass}
+          />
+          {options.length > MIN_OPTIONS && (
+            <button
+              type="button"
+              onClick={() =>
+                setOptions((prev) => prev.filter((_, i) => i !== index))
+              }
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label={`Remove option ${index + 1}`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      ))}
+      {options.length < MAX_OPTIONS && (
+        <button
+          type="button"
+          onClick={() => setOptions((prev) => [...prev, ""])}
+          className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          + Add option
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={multipleChoice}
+            onChange={(e) => setMultipleChoice(e.target.checked)}
+          />
+          Allow multiple answers
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={anonymous}
+            onChange={(e) => setAnonymous(e.target.checked)}
+          />
+          Anonymous
+        </label>
+        <label className="flex items-center gap-1">
+          Closes
+          <input
+            type="datetime-local"
+            value={closesAt}
+            min={toDateTimeInput(new Date())}
+            onChange={(e) => setClosesAt(e.target.value)}
+            className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+          />
+        </label>
+      </div>
+
+      {(hasDuplicates || closesInPast) && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          {hasDuplicates
+            ? "Options must all be different"
+            : "The closing time must be in the future"}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2 text-sm">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSend}
+          className="px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white"
+        >
+          Create poll
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PollComposer;
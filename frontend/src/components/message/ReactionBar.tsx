@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { Message } from "../../types";
+
+// Quick picks offered by the picker
+const PICKER_EMOJIS = ["👍", "👎", "❤️", "😂", "🎉", "😮", "😢", "👀"];
+
+interface ReactionBarProps {
+  message: Message;
+  isOwnMessage: boolean;
+}
+
+const ReactionBar: React.FC<ReactionBarProps> = ({ message, isOwnMessage }) => {
+  const { toggleReaction } = useChat();
+  const [showPicker, setShowPicker] = useState(false);
+  const reactions = message.reactions ?? [];
+
+  const handlePick = (emoji: string) => {
+    toggleReaction(message, emoji);
+    setShowPicker(false);
+  };
+
+  return (
+    <div
+      className={`relative flex flex-wrap items-center gap-1 mt-1 ${
+        isOwnMessage ? "justify-end" : "justify-start"
+      }`}
+    >
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          onClick={() => toggleReaction(message, reaction.emoji)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs transition-colors ${
+            reaction.reactedByMe
+              ? "bg-blue-100 border-blue-300 text-blue-700 dark:bg-blue-900/40 dark:border-blue-600 dark:text-blue-300"
+              : "bg-gray-100 border-gray-200 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-600"
+          }`}
+          title={reaction.reactedByMe ? "Remove reaction" : "Add reaction"}
+        >
+          <span>{reaction.emoji}</span>
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+
+      <button
+        onClick={() => setShowPicker((v) => !v)}
+        className={`px-2 py-0.5 rounded-full border border-transparent text-xs text-gray-400 hover:text-gray-600 hover:border-gray-200 dark:hover:text-gray-300 dark:hover:border-gray-600 transition-opacity ${
+          reactions.length > 0 || showPicker
+            ? ""
+            : "opacity-0 group-hover:opacity-100"
+        }`}
+        title="Add reaction"
+      >
+        + 🙂
+      </button>
+
+      {/* Picker */}
+      {showPicker && (
+        <div
+          className={`absolute z-10 bottom-full mb-1 flex gap-1 p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg ${
+            isOwnMessage ? "right-0" : "left-0"
+          }`}
+        >
+          {PICKER_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handlePick(emoji)}
+              className="w-8 h-8 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-lg"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReactionBar;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { ScheduledMessage } from "../../types";
+import { MAX_MESSAGE_LENGTH } from "../../utils/markdown";
+import { toDateTimeInput } from "../../utils/time";
+import { IconClock } from "../utility/Icons";
+
+const formatSendAt = (sendAt: string) =>
+  new Date(sendAt).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+// One scheduled message; edited in place until the worker picks it up
+const ScheduledItem: React.FC<{ scheduled: ScheduledMessage }> = ({
+  scheduled,
+}) => {
+  const { updateScheduledMessage, cancelScheduledMessage } = useChat();
+  const [editing, setEditing] = useState(false);
+  const [content, setContent] = useState(scheduled.content);
+  const [sendAt, setSendAt] = useState(""); // datetime-local value
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setContent(scheduled.content);
+    // A failed one needs a new time if its old one has passed
+    setSendAt(
+      toDateTimeInput(
+        new Date(Math.max(Date.parse(scheduled.sendAt), Date.now()))
+      )
+    );
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim() || !sendAt) return;
+    setSaving(true);
+    try {
+      await updateScheduledMessage(scheduled.roomId, scheduled.id, {
+        content: content.trim(),
+        sendAt: new Date(sendAt).toISOString(),
+      });
+      setEditing(false);
+    } catch {
+      // The error is shown through the chat state; keep the edits
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (window.confirm("Delete this scheduled message?")) {
+      cancelScheduledMessage(scheduled.roomId, scheduled.id);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="space-y-1 py-1.5">
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={2}
+          autoFocus
+          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white resize-none"
+        />
+        <div className="flex items-center gap-2 text-xs">
+          <input
+            type="datetime-local"
+            value={sendAt}
+            min={toDateTimeInput(new Date())}
+            onChange={(e) => setSendAt(e.target.value)}
+            className="px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="button"
+            onClick={() => setEditing(false)}
+            className="ml-auto px-2 py-0.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !content.trim() || !sendAt}
+            className="px-2 py-0.5 rounded bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 py-1.5 text-sm">
+      <div className="flex-1 min-w-0">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {formatSendAt(scheduled.sendAt)}
+          {scheduled.status === "sending" && " · Sending..."}
+        </p>
+        <p className="truncate text-gray-900 dark:text-white">
+          {scheduled.content}
+        </p>
+        {scheduled.status === "failed" && (
+          <p className="text-xs text-red-600 dark:text-red-400">
+            Not sent: {scheduled.error ?? "something went wrong"}
+          </p>
+        )}
+      </div>
+      {scheduled.status !== "sending" && (
+        <div className="flex-shrink-0 flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={startEditing}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {scheduled.status === "failed" ? "Retry" : "Edit"}
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="text-red-600 dark:text-red-400 hover:underline"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The viewer's messages waiting to be posted in this room, above the input
+const ScheduledMessages: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const { state, loadScheduledMessages } = useChat();
+  const [expanded, setExpanded] = useState(false);
+  const scheduled = state.scheduledByRoom[roomId] ?? [];
+  const failed = scheduled.filter((s) => s.status === "failed").length;
+
+  useEffect(() => {
+    loadScheduledMessages(roomId);
+    setExpanded(false);
+  }, [roomId]);
+
+  if (scheduled.length === 0) return null;
+
+  return (
+    <div className="mb-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="flex w-full items-center gap-1.5 px-3 py-1 text-xs text-gray-600 dark:text-gray-300"
+      >
+        <IconClock className="w-3.5 h-3.5" title="" />
+        <span>{scheduled.length} scheduled</span>
+        {failed > 0 && (
+          <span className="text-red-600 dark:text-red-400">
+            · {failed} not sent
+          </span>
+        )}
+        <span className="ml-auto">{expanded ? "Hide" : "Show"}</span>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-1 max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {scheduled.map((s) => (
+            <ScheduledItem key={s.id} scheduled={s} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledMessages;
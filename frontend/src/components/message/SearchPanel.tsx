@@ -0,0 +1,259 @@
+import React, { useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { roomService } from "../../services/room";
+import { MessageSearchHit, MessageSearchRequest } from "../../types";
+import { getRoomLabel } from "../../utils/room";
+
+const PAGE_SIZE = 20;
+
+// Render a ts_headline snippet without injecting HTML: only the <mark>
+// delimiters are interpreted, everything else stays text
+const Snippet: React.FC<{ text: string }> = ({ text }) => {
+  const parts = text.split(/(<mark>|<\/mark>)/);
+  let isMatch = false;
+
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part === "<mark>" || part === "</mark>") {
+          isMatch = part === "<mark>";
+          return null;
+        }
+        return isMatch ? (
+          <mark
+            key={i}
+            className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+const SearchPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { state, jumpToMessage } = useChat();
+  const [query, setQuery] = useState("");
+  const [roomId, setRoomId] = useState("");
+  const [author, setAuthor] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState("");
+
+  const runSearch = async (cursor?: string) => {
+    if (!query.trim()) return;
+
+    // Date inputs are local days; send an inclusive range as timestamps
+    const request: MessageSearchRequest = {
+      query: query.trim(),
+      roomId: roomId || undefined,
+      author: author.trim() || undefined,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+      limit: PAGE_SIZE,
+      cursor,
+    };
+
+    setIsSearching(true);
+    setError("");
+    try {
+      const page = await roomService.searchMessages(request);
+      setResults((prev) =>
+        cursor ? [...prev, ...page.results] : page.results
+      );
+      setHasMore(page.hasMore);
+      setNextCursor(page.nextCursor);
+      setHasSearched(true);
+    } catch (err: any) {
+      setError(err?.message || "Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
+  const handleOpen = async (hit: MessageSearchHit) => {
+    try {
+      await jumpToMessage(hit.message);
+      // The panel covers the conversation on small screens
+      if (window.matchMedia("(max-width: 767px)").matches) {
+        onClose();
+      }
+    } catch {
+      // jumpToMessage surfaces the error through the chat state
+    }
+  };
+
+  const hitRoomLabel = (hit: MessageSearchHit) => {
+    const room = state.userRooms.find((r) => r.id === hit.message.roomId);
+    return room ? getRoomLabel(room) : hit.roomName;
+  };
+
+  const formatDateTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+
+  const inputClass =
+    "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+  return (
+    <div className="flex flex-col w-full md:w-80 h-full bg-gray-50 dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Search messages
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Close search"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Query + filters */}
+      <form
+        onSubmit={handleSubmit}
+        className="p-3 space-y-2 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700"
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          maxLength={200}
+          placeholder="Search your rooms..."
+          autoFocus
+          className={inputClass}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={roomId}
+            onChange={(e) => setRoomId(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All rooms</option>
+            {state.userRooms.map((room) => (
+              <option key={room.id} value={room.id}>
+                {getRoomLabel(room)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            placeholder="From user"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            title="From date"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            title="To date"
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!query.trim() || isSearching}
+          className="w-full px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400
+                     disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+        >
+          {isSearching && !results.length ? "Searching..." : "Search"}
+        </button>
+      </form>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {hasSearched && !error && results.length === 0 && (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            No messages found
+          </p>
+        )}
+
+        {results.map((hit) => (
+          <button
+            key={hit.message.id}
+            onClick={() => handleOpen(hit)}
+            className="w-full text-left p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
+                       hover:border-blue-300 dark:hover:border-blue-600 transition-colors"
+          >
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+              <span className="truncate">
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  {hit.message.username}
+                </span>{" "}
+                in {hitRoomLabel(hit)}
+                {hit.message.replyToId && " (thread)"}
+              </span>
+              <span className="flex-shrink-0 ml-2">
+                {formatDateTime(hit.message.timestamp)}
+              </span>
+            </div>
+            <p className="text-sm text-gray-900 dark:text-white break-words">
+              <Snippet text={hit.snippet} />
+            </p>
+          </button>
+        ))}
+
+        {hasMore && (
+          <div className="text-center pt-1">
+            <button
+              onClick={() => runSearch(nextCursor)}
+              disabled={isSearching}
+              className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600
+                         text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-xs
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSearching ? "Loading..." : "More results"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import MessageItem from "./MessageItem";
+import { hasRoleAtLeast } from "../../utils/room";
+import { MAX_MESSAGE_LENGTH } from "../../utils/markdown";
+
+const ThreadPanel: React.FC<{ messageId: string }> = ({ messageId }) => {
+  const {
+    state,
+    getThreadData,
+    getMemberRole,
+    closeThread,
+    sendReply,
+    loadMoreReplies,
+  } = useChat();
+  const [reply, setReply] = useState("");
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+
+  const thread = getThreadData(messageId);
+  const replyCount = thread?.messages.length ?? 0;
+  const canReply =
+    !!thread &&
+    !thread.parent.isDeleted &&
+    !state.userRooms.find((r) => r.id === thread.parent.roomId)?.archivedAt;
+
+  // Moderators and up can delete anyone's replies
+  const canModerate =
+    !!thread &&
+    !!state.currentUser &&
+    hasRoleAtLeast(
+      getMemberRole(thread.parent.roomId, state.currentUser.id),
+      "moderator"
+    );
+
+  // Keep the newest reply in view as replies arrive
+  const lastReplyId = replyCount ? thread?.messages[replyCount - 1].id : null;
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: "auto" });
+  }, [lastReplyId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim()) return;
+    sendReply(messageId, reply.trim());
+    setReply("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit(e as any);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full md:w-80 h-full bg-gray-50 dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Thread
+        </h2>
+        <button
+          onClick={closeThread}
+          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          title="Close thread"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {/* Parent + replies */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {!thread ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            Loading thread...
+          </p>
+        ) : (
+          <>
+            <MessageItem
+              message={thread.parent}
+              isOwnMessage={thread.parent.userId === state.currentUser?.id}
+              canModerate={canModerate}
+              inThread
+            />
+
+            <div className="flex items-center my-3 text-xs text-gray-500 dark:text-gray-400">
+              <span className="pr-2">
+                {thread.parent.replyCount ?? 0}{" "}
+                {thread.parent.replyCount === 1 ? "reply" : "replies"}
+              </span>
+              <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+            </div>
+
+            {thread.hasMore && (
+              <div className="text-center mb-4">
+                <button
+                  onClick={() => loadMoreReplies(messageId)}
+                  disabled={thread.isLoading}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600
+                           text-gray-700 dark:text-gray-300 rounded-lg transition-colors text-xs
+                           disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {thread.isLoading ? "Loading..." : "Load earlier replies"}
+                </button>
+              </div>
+            )}
+
+            {thread.messages.map((message) => (
+              <MessageItem
+                key={message.id}
+                message={message}
+                isOwnMessage={message.userId === state.currentUser?.id}
+                canModerate={canModerate}
+                inThread
+              />
+            ))}
+            <div ref={repliesEndRef} />
+          </>
+        )}
+      </div>
+
+      {/* Reply input */}
+      <form
+        onSubmit={handleSubmit}
+        className="flex space-x-2 p-3 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+      >
+        <textarea
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_MESSAGE_LENGTH}
+          rows={1}
+          placeholder={canReply ? "Reply in thread..." : "Replies are closed"}
+          disabled={!canReply}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                     dark:bg-gray-700 dark:text-white resize-none"
+        />
+        <button
+          type="submit"
+          disabled={!reply.trim() || !canReply}
+          className="px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400
+                     disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+        >
+          Reply
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ThreadPanel;
@@ -9,6 +9,7 @@ const CreateRoomModal: React.FC<{
   const [description, setDescription] = useState("");
   const [isPrivate, setIsPrivate] = useState(false);
   const [passcode, setPasscode] = useState("");
+  const [requiresApproval, setRequiresApproval] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { createRoom, state } = useChat();
 
@@ -22,13 +23,15 @@ const CreateRoomModal: React.FC<{
         name.trim(),
         description.trim(),
         isPrivate,
-        isPrivate ? passcode : undefined
+        isPrivate ? passcode : undefined,
+        !isPrivate && requiresApproval
       );
       // Reset form
       setName("");
       setDescription("");
       setIsPrivate(false);
       setPasscode("");
+      setRequiresApproval(false);
       onClose();
     } catch (error) {
       // Error is handled by context
@@ -129,6 +132,27 @@ const CreateRoomModal: React.FC<{
             </label>
           </div>
 
+          {!isPrivate && (
+            <div className="flex items-center">
+              <input
+                id="requires-approval"
+                type="checkbox"
+                checked={requiresApproval}
+                onChange={(e) => setRequiresApproval(e.target.checked)}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded
+                       focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800
+                       dark:bg-gray-700 dark:border-gray-600"
+                disabled={isSubmitting}
+              />
+              <label
+                htmlFor="requires-approval"
+                className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Require approval to join
+              </label>
+            </div>
+          )}
+
           {isPrivate && (
             <div>
               <label
@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { useChat } from "../../contexts/ChatContext";
+
+// Pending join requests, shown to owners and admins above the member list
+const JoinRequestList: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const { state, loadJoinRequests, resolveJoinRequest } = useChat();
+  const requests = state.joinRequestsByRoom[roomId] ?? [];
+
+  useEffect(() => {
+    loadJoinRequests(roomId);
+  }, [roomId]);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+        Join Requests ({requests.length})
+      </h3>
+      <ul className="space-y-2">
+        {requests.map((request) => (
+          <li
+            key={request.userId}
+            className="flex items-center justify-between text-sm"
+          >
+            <div className="min-w-0">
+              <p className="text-gray-900 dark:text-white truncate">
+                {request.username}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {new Date(request.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex-shrink-0 space-x-2 ml-2">
+              <button
+                onClick={() => resolveJoinRequest(roomId, request.userId, true)}
+                className="text-xs text-green-600 hover:text-green-700 dark:text-green-400"
+              >
+                Approve
+              </button>
+              <button
+                onClick={() =>
+                  resolveJoinRequest(roomId, request.userId, false)
+                }
+                className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Deny
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JoinRequestList;
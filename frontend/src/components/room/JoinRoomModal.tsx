@@ -1,23 +1,30 @@
 import { useEffect, useState } from "react";
 import { useChat } from "../../contexts/ChatContext";
-import { ApiError } from "../../types";
+import { roomService } from "../../services/room";
+import { ApiError, InvitePreview } from "../../types";
 
 const JoinRoomModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   roomId?: string;
   isPrivate?: boolean;
+  inviteToken?: string; // opened from an invite link
 }> = ({
   isOpen,
   onClose,
   roomId: initialRoomId,
   isPrivate: initialIsPrivate, // need a machism to check if a room requires passcode
+  inviteToken,
 }) => {
   const [roomId, setRoomId] = useState(initialRoomId || "");
   const [passcode, setPasscode] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [forceAskPasscode, setForceAskPasscode] = useState(false);
-  const { joinRoom, state } = useChat();
+  const [invitePreview, setInvitePreview] = useState<InvitePreview | null>(
+    null
+  );
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const { joinRoom, joinRoomByInvite, state } = useChat();
 
   const showPasscode = forceAskPasscode || passcode.length > 0;
 
@@ -27,8 +34,37 @@ const JoinRoomModal: React.FC<{
     }
   }, [initialRoomId]);
 
+  // Show which room the invite leads to before joining
+  useEffect(() => {
+    if (!isOpen || !inviteToken) return;
+    let cancelled = false;
+    setInvitePreview(null);
+    setInviteError(null);
+    roomService
+      .getInvitePreview(inviteToken)
+      .then((preview) => !cancelled && setInvitePreview(preview))
+      .catch((error: ApiError) => !cancelled && setInviteError(error.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, inviteToken]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (inviteToken) {
+      setIsSubmitting(true);
+      try {
+        await joinRoomByInvite(inviteToken);
+        onClose();
+      } catch (error) {
+        // Error is handled by context
+      } finally {
+        setIsSubmitting(false);
+      }
+      return;
+    }
+
     if (!roomId.trim()) return;
 
     setIsSubmitting(true);
@@ -53,12 +89,17 @@ const JoinRoomModal: React.FC<{
   const passcodeLabelRequiredStar =
     state.error?.code === "PASSCODE_REQUIRED" ? "*" : "";
 
+  // Approval-gated rooms answer a join with a pending request, not an error
+  const isRequestPending =
+    state.error?.code === "JOIN_REQUEST_SENT" ||
+    state.error?.code === "JOIN_REQUEST_PENDING";
+
   return (
     <div className="fixed inset-0 bg-black flex items-center justify-center p-4 z-50">
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md">
         <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-            Join Room
+            {inviteToken ? "Room Invite" : "Join Room"}
           </h2>
           <button
             onClick={onClose}
@@ -81,58 +122,99 @@ const JoinRoomModal: React.FC<{
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          <div>
-            <label
-              htmlFor="join-room-id"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-            >
-              Room ID *
-            </label>
-            <input
-              id="join-room-id"
-              type="text"
-              value={roomId}
-              onChange={(e) => setRoomId(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
+          {inviteToken ? (
+            <div>
+              {invitePreview ? (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    You've been invited to join
+                  </p>
+                  <p className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">
+                    {invitePreview.roomName}
+                  </p>
+                  {invitePreview.description && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                      {invitePreview.description}
+                    </p>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    {invitePreview.memberCount}{" "}
+                    {invitePreview.memberCount === 1 ? "member" : "members"}
+                    {invitePreview.isPrivate && " · Private room"}
+                  </p>
+                </>
+              ) : inviteError ? (
+                <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">
+                  {inviteError}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Loading invite...
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div>
+                <label
+                  htmlFor="join-room-id"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Room ID *
+                </label>
+                <input
+                  id="join-room-id"
+                  type="text"
+                  value={roomId}
+                  onChange={(e) => setRoomId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
                        focus:ring-2 focus:ring-blue-500 focus:border-blue-500 
                        dark:bg-gray-700 dark:text-white font-mono"
-              placeholder="Enter room ID"
-              required
-              disabled={isSubmitting}
-              readOnly={!!initialRoomId}
-            />
-          </div>
+                  placeholder="Enter room ID"
+                  required
+                  disabled={isSubmitting}
+                  readOnly={!!initialRoomId}
+                />
+              </div>
 
-          {showPasscode && (
-            <div>
-              <label
-                htmlFor="join-passcode"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-              >
-                Passcode {passcodeLabelRequiredStar}
-              </label>
-              <input
-                id="join-passcode"
-                type="password"
-                value={passcode}
-                onChange={(e) => setPasscode(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
+              {showPasscode && (
+                <div>
+                  <label
+                    htmlFor="join-passcode"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    Passcode {passcodeLabelRequiredStar}
+                  </label>
+                  <input
+                    id="join-passcode"
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
                          focus:ring-2 focus:ring-blue-500 focus:border-blue-500 
                          dark:bg-gray-700 dark:text-white"
-                placeholder="Enter room passcode"
-                required={state.error?.code === "PASSCODE_REQUIRED"}
-                disabled={isSubmitting}
-              />
-              {!forceAskPasscode && !passcode && (
-                <p className="mt-1 text-xs text-gray-500">
-                  Leave blank if the room is public.
-                </p>
+                    placeholder="Enter room passcode"
+                    required={state.error?.code === "PASSCODE_REQUIRED"}
+                    disabled={isSubmitting}
+                  />
+                  {!forceAskPasscode && !passcode && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Leave blank if the room is public.
+                    </p>
+                  )}
+                </div>
               )}
-            </div>
+            </>
           )}
 
           {state.error && (
-            <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">
+            <div
+              className={`p-3 border rounded-lg text-sm ${
+                isRequestPending
+                  ? "bg-blue-50 border-blue-300 text-blue-700"
+                  : "bg-red-100 border-red-300 text-red-700"
+              }`}
+            >
               {state.error.message}
             </div>
           )}
@@ -149,7 +231,9 @@ const JoinRoomModal: React.FC<{
             </button>
             <button
               type="submit"
-              disabled={!roomId.trim() || isSubmitting}
+              disabled={
+                (inviteToken ? !invitePreview : !roomId.trim()) || isSubmitting
+              }
               className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 
                        disabled:cursor-not-allowed text-white rounded-lg transition-colors"
             >
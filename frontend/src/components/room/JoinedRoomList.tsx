@@ -1,9 +1,38 @@
 import React from "react";
 import { useChat } from "../../contexts/ChatContext";
+import { Room } from "../../types";
+import { getPeerStatus, getRoomLabel } from "../../utils/room";
+
+// Unread messages since the viewer's read marker; red when they're mentioned
+const UnreadBadge: React.FC<{ room: Room }> = ({ room }) => {
+  if (!room.unreadCount) return null;
+  const mentioned = !!room.unreadMentionCount;
+
+  return (
+    <span
+      className={`min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-[0.65rem] font-semibold text-center text-white flex-shrink-0 ${
+        mentioned ? "bg-red-500" : "bg-blue-500"
+      }`}
+      title={
+        mentioned
+          ? `${room.unreadMentionCount} unread mention${
+              room.unreadMentionCount === 1 ? "" : "s"
+            }`
+          : `${room.unreadCount} unread`
+      }
+    >
+      {mentioned && "@"}
+      {room.unreadCount > 99 ? "99+" : room.unreadCount}
+    </span>
+  );
+};
 
 const JoinedRoomList: React.FC = () => {
-  const { state, switchToRoom } = useChat();
-  const rooms = state.userRooms || [];
+  const { state, switchToRoom, getRoomPresences } = useChat();
+  const rooms = (state.userRooms || []).filter((r) => r.kind !== "direct");
+  const directRooms = (state.userRooms || []).filter(
+    (r) => r.kind === "direct"
+  );
 
   const formatMemberCount = (count?: number) =>
     !count ? "0" : count === 1 ? "1" : `${count}`;
@@ -15,6 +44,10 @@ const JoinedRoomList: React.FC = () => {
     return a.name.localeCompare(b.name);
   });
 
+  const sortedDirect = [...directRooms].sort((a, b) =>
+    getRoomLabel(a).localeCompare(getRoomLabel(b))
+  );
+
   return (
     <div className="p-4">
       <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -46,6 +79,8 @@ const JoinedRoomList: React.FC = () => {
                   className={`text-sm truncate ${
                     room.id === state.currentRoomId
                       ? "font-medium text-blue-600 dark:text-blue-400"
+                      : room.unreadCount
+                      ? "font-semibold text-gray-900 dark:text-white"
                       : "text-gray-600 dark:text-gray-400"
                   }`}
                 >
@@ -64,15 +99,68 @@ const JoinedRoomList: React.FC = () => {
                     />
                   </svg>
                 )}
+                {room.archivedAt && (
+                  <span className="text-[0.65rem] px-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    Archived
+                  </span>
+                )}
               </div>
 
-              <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
-                {formatMemberCount(room.memberCount)}
-              </span>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <UnreadBadge room={room} />
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  {formatMemberCount(room.memberCount)}
+                </span>
+              </div>
             </button>
           ))
         )}
       </div>
+
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-5 mb-3">
+        Direct Messages ({directRooms.length})
+      </h3>
+
+      <div className="space-y-2 pr-1 max-h-64 overflow-y-auto">
+        {sortedDirect.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No direct messages yet
+          </p>
+        ) : (
+          sortedDirect.map((room) => {
+            const status = getPeerStatus(room, getRoomPresences(room.id));
+
+            return (
+              <button
+                key={room.id}
+                onClick={() => switchToRoom(room.name)}
+                className="w-full flex items-center justify-between bg-blue-100/50 hover:bg-blue-100 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg px-4 py-2"
+                title={status === "online" ? "Currently online" : "Offline"}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <div
+                    className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                      status === "online" ? "bg-green-500" : "bg-gray-400"
+                    }`}
+                  />
+                  <span
+                    className={`text-sm truncate ${
+                      room.id === state.currentRoomId
+                        ? "font-medium text-blue-600 dark:text-blue-400"
+                        : room.unreadCount
+                        ? "font-semibold text-gray-900 dark:text-white"
+                        : "text-gray-600 dark:text-gray-400"
+                    }`}
+                  >
+                    {getRoomLabel(room)}
+                  </span>
+                </div>
+                <UnreadBadge room={room} />
+              </button>
+            );
+          })
+        )}
+      </div>
     </div>
   );
 };
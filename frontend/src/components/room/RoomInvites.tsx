@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { roomService } from "../../services/room";
+import { ApiError, RoomInvite } from "../../types";
+import { getInviteUrl } from "../../utils/room";
+
+// Minutes; empty value means the invite never expires
+const EXPIRY_OPTIONS = [
+  { label: "Never", value: "" },
+  { label: "1 hour", value: "60" },
+  { label: "1 day", value: "1440" },
+  { label: "7 days", value: "10080" },
+];
+
+const describeInvite = (invite: RoomInvite): string => {
+  const uses = invite.maxUses
+    ? `${invite.uses}/${invite.maxUses} uses`
+    : `${invite.uses} ${invite.uses === 1 ? "use" : "uses"}`;
+  if (!invite.expiresAt) return `${uses} · never expires`;
+  const expiresAt = new Date(invite.expiresAt);
+  return expiresAt.getTime() <= Date.now()
+    ? `${uses} · expired`
+    : `${uses} · expires ${expiresAt.toLocaleString()}`;
+};
+
+const RoomInvites: React.FC<{ roomId: string }> = ({ roomId }) => {
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiresInMinutes, setExpiresInMinutes] = useState("1440");
+  const [maxUses, setMaxUses] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    roomService
+      .getInvites(roomId)
+      .then((list) => !cancelled && setInvites(list))
+      .catch((err: ApiError) => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const invite = await roomService.createInvite(roomId, {
+        expiresInMinutes: expiresInMinutes
+          ? parseInt(expiresInMinutes)
+          : undefined,
+        maxUses: maxUses ? parseInt(maxUses) : undefined,
+      });
+      setInvites((prev) => [invite, ...prev]);
+      setMaxUses("");
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    setError(null);
+    try {
+      await roomService.revokeInvite(roomId, inviteId);
+      setInvites((prev) => prev.filter((invite) => invite.id !== inviteId));
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const handleCopy = async (invite: RoomInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.token));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError("Couldn't copy the link");
+    }
+  };
+
+  return (
+    <div className="p-6 border-t border-gray-200 dark:border-gray-700 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+        Invite Links
+      </h3>
+
+      <div className="flex items-end space-x-2">
+        <div className="flex-1">
+          <label
+            htmlFor="invite-expiry"
+            className="block text-xs text-gray-500 dark:text-gray-400 mb-1"
+          >
+            Expires after
+          </label>
+          <select
+            id="invite-expiry"
+            value={expiresInMinutes}
+            onChange={(e) => setExpiresInMinutes(e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     dark:bg-gray-700 dark:text-white"
+            disabled={isCreating}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="w-24">
+          <label
+            htmlFor="invite-max-uses"
+            className="block text-xs text-gray-500 dark:text-gray-400 mb-1"
+          >
+            Max uses
+          </label>
+          <input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     dark:bg-gray-700 dark:text-white"
+            placeholder="∞"
+            disabled={isCreating}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400
+                   text-white rounded-lg transition-colors"
+        >
+          {isCreating ? "Creating..." : "Create"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-100 border border-red-300 text-red-700 rounded-lg text-xs">
+          {error}
+        </div>
+      )}
+
+      {invites.length > 0 && (
+        <ul className="space-y-2 max-h-40 overflow-y-auto">
+          {invites.map((invite) => (
+            <li
+              key={invite.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <div className="min-w-0">
+                <p className="font-mono text-xs text-gray-900 dark:text-white truncate">
+                  {invite.token}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {describeInvite(invite)}
+                </p>
+              </div>
+              <div className="flex-shrink-0 space-x-2 ml-2">
+                <button
+                  type="button"
+                  onClick={() => handleCopy(invite)}
+                  className="text-xs text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                >
+                  {copiedId === invite.id ? "Copied" : "Copy link"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(invite.id)}
+                  className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RoomInvites;
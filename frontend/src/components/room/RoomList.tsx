@@ -123,6 +123,16 @@ const RoomList: React.FC<RoomListProps> = ({ onRoomSelect }) => {
                           />
                         </svg>
                       )}
+                      {room.requiresApproval && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                          Approval
+                        </span>
+                      )}
+                      {room.archivedAt && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                          Archived
+                        </span>
+                      )}
                     </div>
                     {room.description && (
                       <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">
@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { useChat } from "../../contexts/ChatContext";
+import { Room, UpdateRoomRequest } from "../../types";
+import RoomInvites from "./RoomInvites";
+
+const RoomSettingsModal: React.FC<{
+  room: Room;
+  isOpen: boolean;
+  onClose: () => void;
+}> = ({ room, isOpen, onClose }) => {
+  const [name, setName] = useState(room.name);
+  const [description, setDescription] = useState(room.description ?? "");
+  const [isPrivate, setIsPrivate] = useState(room.isPrivate);
+  const [passcode, setPasscode] = useState("");
+  const [requiresApproval, setRequiresApproval] = useState(
+    room.requiresApproval
+  );
+  const [readReceipts, setReadReceipts] = useState(room.readReceipts);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { updateRoom, archiveRoom, deleteRoom, getMemberRole, state } =
+    useChat();
+  const isOwner =
+    !!state.currentUser &&
+    getMemberRole(room.id, state.currentUser.id) === "owner";
+
+  // Start from the room's current settings each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(room.name);
+    setDescription(room.description ?? "");
+    setIsPrivate(room.isPrivate);
+    setPasscode("");
+    setRequiresApproval(room.requiresApproval);
+    setReadReceipts(room.readReceipts);
+  }, [isOpen, room.id]);
+
+  // A room that is already private keeps its passcode unless a new one is set
+  const needsPasscode = isPrivate && !room.isPrivate;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    // Only send what changed
+    const changes: UpdateRoomRequest = {};
+    if (name.trim() !== room.name) changes.name = name.trim();
+    if (description.trim() !== (room.description ?? "")) {
+      changes.description = description.trim();
+    }
+    if (isPrivate !== room.isPrivate) changes.isPrivate = isPrivate;
+    if (isPrivate && passcode) changes.passcode = passcode;
+    // Private rooms never require approval; the server clears the flag
+    if (!isPrivate && requiresApproval !== room.requiresApproval) {
+      changes.requiresApproval = requiresApproval;
+    }
+    if (readReceipts !== room.readReceipts) {
+      changes.readReceipts = readReceipts;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await updateRoom(room.id, changes);
+      onClose();
+    } catch (error) {
+      // Error is handled by context
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (
+      !window.confirm(
+        `Archive ${room.name}? It becomes read-only and disappears from the public list.`
+      )
+    ) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await archiveRoom(room.id);
+      onClose();
+    } catch (error) {
+      // Error is handled by context
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !window.confirm(
+        `Delete ${room.name} and all of its messages? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await deleteRoom(room.id);
+      // room_deleted takes everyone, this tab included, back to the lobby
+    } catch (error) {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Room Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {room.archivedAt ? (
+          <p className="p-6 text-sm text-gray-600 dark:text-gray-400">
+            This room is archived. Its settings can no longer change.
+          </p>
+        ) : (
+          <>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div>
+                <label
+                  htmlFor="settings-name"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Room Name *
+                </label>
+                <input
+                  id="settings-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                       dark:bg-gray-700 dark:text-white"
+                  required
+                  disabled={isSubmitting}
+                  maxLength={100}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="settings-description"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Description
+                </label>
+                <textarea
+                  id="settings-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                       focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                       dark:bg-gray-700 dark:text-white resize-none"
+                  placeholder="Optional room description"
+                  disabled={isSubmitting}
+                  maxLength={500}
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  id="settings-private"
+                  type="checkbox"
+                  checked={isPrivate}
+                  onChange={(e) => setIsPrivate(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded
+                       focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800
+                       dark:bg-gray-700 dark:border-gray-600"
+                  disabled={isSubmitting}
+                />
+                <label
+                  htmlFor="settings-private"
+                  className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Private room (requires passcode to join)
+                </label>
+              </div>
+
+              {isPrivate ? (
+                <div>
+                  <label
+                    htmlFor="settings-passcode"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                  >
+                    {needsPasscode ? "Passcode *" : "New passcode"}
+                  </label>
+                  <input
+                    id="settings-passcode"
+                    type="password"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         focus:ring-2 focus:ring-blue-500 focus:border-blue-500
+                         dark:bg-gray-700 dark:text-white"
+                    placeholder={
+                      needsPasscode
+                        ? "Enter room passcode"
+                        : "Leave blank to keep the current passcode"
+                    }
+                    required={needsPasscode}
+                    disabled={isSubmitting}
+                    minLength={4}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Minimum 4 characters
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center">
+                    <input
+                      id="settings-requires-approval"
+                      type="checkbox"
+                      checked={requiresApproval}
+                      onChange={(e) => setRequiresApproval(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded
+                           focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800
+                           dark:bg-gray-700 dark:border-gray-600"
+                      disabled={isSubmitting}
+                    />
+                    <label
+                      htmlFor="settings-requires-approval"
+                      className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Require approval to join
+                    </label>
+                  </div>
+                  {room.isPrivate && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Making the room public removes its passcode.
+                    </p>
+                  )}
+                  {room.requiresApproval && !requiresApproval && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Pending join requests will be dropped.
+                    </p>
+                  )}
+                </>
+              )}
+
+              <div>
+                <div className="flex items-center">
+                  <input
+                    id="settings-read-receipts"
+                    type="checkbox"
+                    checked={readReceipts}
+                    onChange={(e) => setReadReceipts(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded
+                           focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800
+                           dark:bg-gray-700 dark:border-gray-600"
+                    disabled={isSubmitting}
+                  />
+                  <label
+                    htmlFor="settings-read-receipts"
+                    className="ml-2 text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Show read receipts
+                  </label>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Turn off for large rooms to cut down on updates.
+                </p>
+              </div>
+
+              {state.error && (
+                <div className="p-3 bg-red-100 border border-red-300 text-red-700 rounded-lg text-sm">
+                  {state.error.message}
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700
+                       hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={
+                    !name.trim() ||
+                    (needsPasscode && !passcode.trim()) ||
+                    isSubmitting
+                  }
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400
+                       disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  {isSubmitting ? "Saving..." : "Save Changes"}
+                </button>
+              </div>
+            </form>
+
+            <RoomInvites roomId={room.id} />
+          </>
+        )}
+
+        {isOwner && (
+          <div className="p-6 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            <h3 className="text-sm font-semibold text-red-600 dark:text-red-400">
+              Danger Zone
+            </h3>
+            {state.error && room.archivedAt && (
+              <div className="p-2 bg-red-100 border border-red-300 text-red-700 rounded-lg text-xs">
+                {state.error.message}
+              </div>
+            )}
+            <div className="flex space-x-3">
+              {!room.archivedAt && (
+                <button
+                  type="button"
+                  onClick={handleArchive}
+                  disabled={isSubmitting}
+                  className="flex-1 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700
+                           hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  Archive Room
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                className="flex-1 px-4 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-400
+                         text-white rounded-lg transition-colors"
+              >
+                Delete Room
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomSettingsModal;
@@ -1,10 +1,101 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useChat } from "../../contexts/ChatContext";
-import { UserPresence } from "../../types";
+import { RoomRole, UserPresence } from "../../types";
+import { hasRoleAtLeast } from "../../utils/room";
+
+const ROLE_BADGES: Record<Exclude<RoomRole, "member">, string> = {
+  owner: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  admin: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  moderator:
+    "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+};
+
+// Roles offered in the promote/demote picker, highest first
+const ASSIGNABLE_ROLES: RoomRole[] = ["admin", "moderator", "member"];
+
+// Mute lengths offered to moderators
+const MUTE_DURATIONS = [
+  { label: "10 minutes", minutes: 10 },
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 24 * 60 },
+];
+
+// Ban lengths in hours; 0 is permanent
+const BAN_DURATIONS = [
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "Permanent", hours: 0 },
+];
 
 const UserList: React.FC<{ roomId: string }> = ({ roomId }) => {
-  const { state, getRoomPresences } = useChat();
+  const {
+    state,
+    getRoomPresences,
+    getMemberRole,
+    setMemberRole,
+    transferOwnership,
+    kickMember,
+    banMember,
+    muteMember,
+    unmuteMember,
+    startDirectMessage,
+  } = useChat();
+  const [banTarget, setBanTarget] = useState<string | null>(null);
+  const [banReason, setBanReason] = useState("");
+  const [banHours, setBanHours] = useState(BAN_DURATIONS[0].hours);
   const roomPresences: UserPresence[] = getRoomPresences(roomId);
+  const myRole = state.currentUser
+    ? getMemberRole(roomId, state.currentUser.id)
+    : "member";
+
+  // Admins and owners manage members strictly below their own role;
+  // moderators can only mute or remove them
+  const canManage = (role: RoomRole) =>
+    hasRoleAtLeast(myRole, "admin") && !hasRoleAtLeast(role, myRole);
+  const canModerate = (role: RoomRole) =>
+    hasRoleAtLeast(myRole, "moderator") && !hasRoleAtLeast(role, myRole);
+
+  const handleKick = (presence: UserPresence) => {
+    if (window.confirm(`Remove ${presence.username} from this room?`)) {
+      kickMember(roomId, presence.userId);
+    }
+  };
+
+  const handleTransfer = (presence: UserPresence) => {
+    if (
+      window.confirm(
+        `Make ${presence.username} the owner? You will become an admin.`
+      )
+    ) {
+      transferOwnership(roomId, presence.userId);
+    }
+  };
+
+  const handleMute = (presence: UserPresence, choice: string) => {
+    if (choice === "unmute") {
+      unmuteMember(roomId, presence.userId);
+    } else {
+      muteMember(roomId, presence.userId, Number(choice));
+    }
+  };
+
+  const openBanForm = (userId: string) => {
+    setBanTarget(userId);
+    setBanReason("");
+    setBanHours(BAN_DURATIONS[0].hours);
+  };
+
+  const handleBan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!banTarget) return;
+
+    const expiresAt = banHours
+      ? new Date(Date.now() + banHours * 60 * 60 * 1000).toISOString()
+      : undefined;
+    banMember(roomId, banTarget, banReason.trim() || undefined, expiresAt);
+    setBanTarget(null);
+  };
 
   // 🔔 Re-render this component periodically so relative times update.
   // We pause updates when the tab is hidden to save work.
@@ -77,44 +168,175 @@ const UserList: React.FC<{ roomId: string }> = ({ roomId }) => {
             No users in room
           </p>
         ) : (
-          sortedPresences.map((presence) => (
-            <div
-              key={presence.userId}
-              className="flex items-center justify-between py-1"
-              title={
-                presence.status === "offline"
-                  ? `Last seen: ${formatLastSeen(presence.lastSeen)}`
-                  : "Currently online"
-              }
-            >
-              <div className="flex items-center space-x-2 min-w-0">
+          sortedPresences.map((presence) => {
+            const role = getMemberRole(roomId, presence.userId);
+            const isSelf = presence.userId === state.currentUser?.id;
+
+            return (
+              <React.Fragment key={presence.userId}>
                 <div
-                  className={`w-2 h-2 rounded-full flex-shrink-0 ${
-                    presence.status === "online"
-                      ? "bg-green-500"
-                      : "bg-gray-400"
-                  }`}
-                ></div>
-                <span
-                  className={`text-sm truncate ${
-                    presence.userId === state.currentUser?.id
-                      ? "font-medium text-blue-600 dark:text-blue-400"
-                      : "text-gray-600 dark:text-gray-400"
-                  }`}
+                  className="group flex items-center justify-between py-1"
+                  title={
+                    presence.status === "offline"
+                      ? `Last seen: ${formatLastSeen(presence.lastSeen)}`
+                      : "Currently online"
+                  }
                 >
-                  {presence.userId === state.currentUser?.id
-                    ? "You"
-                    : presence.username}
-                </span>
-              </div>
-
-              {presence.status === "offline" && (
-                <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
-                  {formatLastSeen(presence.lastSeen)}
-                </span>
-              )}
-            </div>
-          ))
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <div
+                      className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                        presence.status === "online"
+                          ? "bg-green-500"
+                          : "bg-gray-400"
+                      }`}
+                    ></div>
+                    <span
+                      className={`text-sm truncate ${
+                        presence.userId === state.currentUser?.id
+                          ? "font-medium text-blue-600 dark:text-blue-400"
+                          : "text-gray-600 dark:text-gray-400"
+                      }`}
+                    >
+                      {presence.userId === state.currentUser?.id
+                        ? "You"
+                        : presence.username}
+                    </span>
+                    {role !== "member" && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded text-[10px] font-medium uppercase flex-shrink-0 ${ROLE_BADGES[role]}`}
+                      >
+                        {role}
+                      </span>
+                    )}
+                    {!isSelf && canManage(role) && (
+                      <select
+                        value={role}
+                        onChange={(e) =>
+                          setMemberRole(
+                            roomId,
+                            presence.userId,
+                            e.target.value as RoomRole
+                          )
+                        }
+                        className="text-xs bg-transparent text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex-shrink-0"
+                        title={`Change ${presence.username}'s role`}
+                      >
+                        {ASSIGNABLE_ROLES.filter(
+                          (r) => !hasRoleAtLeast(r, myRole)
+                        ).map((r) => (
+                          <option key={r} value={r}>
+                            {r}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {!isSelf && myRole === "owner" && (
+                      <button
+                        onClick={() => handleTransfer(presence)}
+                        className="text-xs text-gray-400 hover:text-amber-500 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                        title={`Make ${presence.username} the owner`}
+                      >
+                        Make owner
+                      </button>
+                    )}
+                    {presence.userId !== state.currentUser?.id && (
+                      <button
+                        onClick={() => startDirectMessage(presence.userId)}
+                        className="text-xs text-gray-400 hover:text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                        title={`Message ${presence.username}`}
+                      >
+                        Message
+                      </button>
+                    )}
+                    {!isSelf && canModerate(role) && (
+                      <>
+                        <select
+                          value=""
+                          onChange={(e) => handleMute(presence, e.target.value)}
+                          className="text-xs bg-transparent text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex-shrink-0"
+                          title={`Mute ${presence.username}`}
+                        >
+                          <option value="" disabled>
+                            Mute
+                          </option>
+                          {MUTE_DURATIONS.map((d) => (
+                            <option key={d.minutes} value={d.minutes}>
+                              {d.label}
+                            </option>
+                          ))}
+                          <option value="unmute">Unmute</option>
+                        </select>
+                        <button
+                          onClick={() => handleKick(presence)}
+                          className="text-xs text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                          title={`Remove ${presence.username} from the room`}
+                        >
+                          Kick
+                        </button>
+                        <button
+                          onClick={() => openBanForm(presence.userId)}
+                          className="text-xs text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                          title={`Ban ${presence.username} from the room`}
+                        >
+                          Ban
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {presence.status === "offline" && (
+                    <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
+                      {formatLastSeen(presence.lastSeen)}
+                    </span>
+                  )}
+                </div>
+
+                {/* Ban reason + duration */}
+                {banTarget === presence.userId && (
+                  <form
+                    onSubmit={handleBan}
+                    className="ml-4 mb-2 p-2 space-y-2 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700"
+                  >
+                    <input
+                      type="text"
+                      value={banReason}
+                      onChange={(e) => setBanReason(e.target.value)}
+                      maxLength={200}
+                      placeholder="Reason (optional)"
+                      autoFocus
+                      className="w-full px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                    />
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={banHours}
+                        onChange={(e) => setBanHours(Number(e.target.value))}
+                        className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                      >
+                        {BAN_DURATIONS.map((d) => (
+                          <option key={d.hours} value={d.hours}>
+                            {d.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setBanTarget(null)}
+                        className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:underline"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        className="px-2 py-1 text-xs bg-red-500 hover:bg-red-600 text-white rounded"
+                      >
+                        Ban
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </React.Fragment>
+            );
+          })
         )}
       </div>
 
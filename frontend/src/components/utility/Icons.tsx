@@ -148,3 +148,145 @@ export const IconLogout: React.FC<IconProps> = ({
     />
   </svg>
 );
+
+export const IconSearch: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Search",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <circle cx="11" cy="11" r="7" stroke="currentColor" strokeWidth={2} />
+    <path
+      d="M20 20l-3.5-3.5"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export const IconSettings: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Settings",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <path
+      d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+    <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth={2} />
+  </svg>
+);
+
+export const IconPin: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Pin",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <path
+      d="M9 4h6l-1 6 3 3v2H7v-2l3-3-1-6z"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+    <path
+      d="M12 15v5"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export const IconPaperclip: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Attach file",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <path
+      d="M21 11.5l-8.5 8.5a5 5 0 01-7-7L14 4.5a3.5 3.5 0 015 5L10.5 18a2 2 0 01-3-3L15 7.5"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export const IconPoll: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Create poll",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <path
+      d="M5 20V10M12 20V4M19 20v-7"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
+export const IconClock: React.FC<IconProps> = ({
+  className = "w-5 h-5",
+  title = "Send later",
+}) => (
+  <svg
+    viewBox="0 0 24 24"
+    fill="none"
+    className={className}
+    aria-hidden={!title}
+    role="img"
+  >
+    {title ? <title>{title}</title> : null}
+    <circle cx="12" cy="12" r="9" stroke="currentColor" strokeWidth={2} />
+    <path
+      d="M12 7v5l3 2"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
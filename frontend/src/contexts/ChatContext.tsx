@@ -1,10 +1,23 @@
 import React, { createContext, useContext, useReducer, useEffect } from "react";
 import {
   Message,
+  MessageRevision,
+  ReactionSummary,
+  Poll,
+  CreatePollRequest,
+  ScheduledMessage,
   TypingUser,
   UserPresence,
   AuthUser,
   Room,
+  RoomRole,
+  ReadReceipt,
+  MentionPayload,
+  CommandInfo,
+  RemovedFromRoomPayload,
+  JoinRequest,
+  JoinRequestResolvedPayload,
+  UpdateRoomRequest,
   MessagePaginationRequest,
   ApiError,
 } from "../types";
@@ -13,6 +26,9 @@ import { authService } from "../services/auth";
 import { roomService } from "../services/room";
 import { makeLogger } from "../utils/log";
 
+// Why the viewer lost a room: kicked, banned, or the room was deleted
+type RemovalNotice = RemovedFromRoomPayload & { deleted?: boolean };
+
 interface ChatState {
   // Auth
   currentUser: AuthUser | null;
@@ -34,15 +50,74 @@ interface ChatState {
       hasMore: boolean;
       nextCursor?: string;
       isLoading: boolean;
+      hasNewer?: boolean; // a window around a message, not the live tail
+      // Latest messages kept aside while a window is shown; stitched back
+      // once paging forward reaches them
+      tail?: { messages: Message[]; hasMore: boolean; nextCursor?: string };
     }
   >;
 
+  // Message to scroll to once it is loaded (e.g. an opened search hit)
+  focusedMessage: { roomId: string; messageId: string } | null;
+
   // Presence per room
   presencesByRoom: Record<string, UserPresence[]>;
 
+  // Member roles per room, keyed by user ID; members without an entry
+  // count as plain members
+  rolesByRoom: Record<string, Record<string, RoomRole>>;
+
   // Typing per room
   typingByRoom: Record<string, TypingUser[]>;
 
+  // Previous versions of edited messages, fetched on demand
+  revisionsByMessage: Record<string, MessageRevision[]>;
+
+  // Thread replies per parent message, plus the thread open in the side panel
+  threadsByMessage: Record<
+    string,
+    {
+      parent: Message;
+      messages: Message[];
+      hasMore: boolean;
+      nextCursor?: string;
+      isLoading: boolean;
+    }
+  >;
+  activeThreadId: string | null;
+
+  // Where each member has read up to, per room and user; empty for rooms
+  // with receipts off
+  readReceiptsByRoom: Record<string, Record<string, ReadReceipt>>;
+
+  // Pinned messages per room, most recently pinned first; loaded when the
+  // drawer opens, then kept current from room updates
+  pinsByRoom: Record<string, Message[]>;
+
+  // The viewer's unsent scheduled messages per room, soonest first; loaded
+  // with the room, then kept current by scheduled_messages events
+  scheduledByRoom: Record<string, ScheduledMessage[]>;
+
+  // When the viewer's mute ends, per room
+  mutedUntilByRoom: Record<string, string>;
+
+  // Last kick/ban of the viewer (or deletion of one of their rooms),
+  // explained in the lobby until dismissed
+  removalNotice: RemovalNotice | null;
+
+  // Pending join requests per room, loaded for rooms the viewer administers
+  joinRequestsByRoom: Record<string, JoinRequest[]>;
+
+  // Outcome of the viewer's own join request, shown in the lobby until dismissed
+  joinRequestNotice: JoinRequestResolvedPayload | null;
+
+  // Latest mention of the viewer in a room they aren't looking at, shown as
+  // a toast until opened or dismissed
+  mentionNotice: MentionPayload | null;
+
+  // Slash commands from GET /api/commands, loaded on first use
+  commands: CommandInfo[] | null;
+
   // UI state
   error: ApiError | null;
   isLoading: boolean;
@@ -57,6 +132,7 @@ type ChatAction =
   | { type: "SET_CURRENT_ROOM"; payload: string | null }
   | { type: "SET_USER_ROOMS"; payload: Room[] }
   | { type: "ADD_USER_ROOM"; payload: Room }
+  | { type: "UPDATE_ROOM"; payload: Room }
   | { type: "REMOVE_USER_ROOM"; payload: string }
   | { type: "SET_PUBLIC_ROOMS"; payload: Room[] }
   | {
@@ -66,9 +142,59 @@ type ChatAction =
         messages: Message[];
         hasMore?: boolean;
         nextCursor?: string;
+        hasNewer?: boolean;
       };
     }
+  | {
+      type: "SET_FOCUSED_MESSAGE";
+      payload: { roomId: string; messageId: string } | null;
+    }
   | { type: "ADD_MESSAGE"; payload: Message }
+  | { type: "UPDATE_MESSAGE"; payload: Message }
+  | {
+      type: "UPDATE_REACTIONS";
+      payload: {
+        roomId: string;
+        messageId: string;
+        reactions: ReactionSummary[];
+      };
+    }
+  | {
+      type: "SET_SCHEDULED_MESSAGES";
+      payload: { roomId: string; scheduled: ScheduledMessage[] };
+    }
+  | {
+      type: "UPDATE_POLL";
+      payload: { roomId: string; messageId: string; poll: Poll };
+    }
+  | {
+      type: "SET_THREAD";
+      payload: {
+        parent: Message;
+        messages: Message[];
+        hasMore: boolean;
+        nextCursor?: string;
+      };
+    }
+  | {
+      type: "PREPEND_THREAD_REPLIES";
+      payload: {
+        parentId: string;
+        messages: Message[];
+        hasMore: boolean;
+        nextCursor?: string;
+      };
+    }
+  | { type: "ADD_THREAD_REPLY"; payload: Message }
+  | {
+      type: "SET_THREAD_LOADING";
+      payload: { parentId: string; loading: boolean };
+    }
+  | { type: "SET_ACTIVE_THREAD"; payload: string | null }
+  | {
+      type: "SET_MESSAGE_REVISIONS";
+      payload: { messageId: string; revisions: MessageRevision[] };
+    }
   | {
       type: "PREPEND_MESSAGES";
       payload: {
@@ -78,6 +204,11 @@ type ChatAction =
         nextCursor?: string;
       };
     }
+  | {
+      type: "APPEND_MESSAGES";
+      payload: { roomId: string; messages: Message[]; hasMore: boolean };
+    }
+  | { type: "RESTORE_TAIL"; payload: string }
   | {
       type: "SET_MESSAGE_PAGINATION";
       payload: { roomId: string; hasMore: boolean; nextCursor?: string };
@@ -91,6 +222,49 @@ type ChatAction =
       type: "SET_ROOM_PRESENCES";
       payload: { roomId: string; presences: UserPresence[] };
     }
+  | {
+      type: "SET_ROOM_ROLES";
+      payload: { roomId: string; roles: Record<string, RoomRole> };
+    }
+  | {
+      type: "UPDATE_MEMBER_ROLE";
+      payload: { roomId: string; userId: string; role: RoomRole };
+    }
+  | { type: "SET_ROOM_MUTE"; payload: { roomId: string; expiresAt?: string } }
+  | { type: "SET_READ_MARKER"; payload: { roomId: string; messageId: string } }
+  | { type: "INCREMENT_UNREAD"; payload: string }
+  | {
+      type: "SET_PINNED_MESSAGES";
+      payload: { roomId: string; pins: Message[] };
+    }
+  | { type: "ADD_MENTION"; payload: MentionPayload }
+  | { type: "CLEAR_MENTION_NOTICE" }
+  | { type: "SET_COMMANDS"; payload: CommandInfo[] }
+  | { type: "ADD_EPHEMERAL_MESSAGE"; payload: Message }
+  | {
+      type: "DISMISS_EPHEMERAL";
+      payload: { roomId: string; messageId: string };
+    }
+  | {
+      type: "SET_READ_RECEIPTS";
+      payload: { roomId: string; receipts: ReadReceipt[] };
+    }
+  | {
+      type: "MERGE_READ_RECEIPTS";
+      payload: { roomId: string; receipts: ReadReceipt[] };
+    }
+  | { type: "ROOM_REMOVED"; payload: RemovalNotice }
+  | { type: "CLEAR_REMOVAL_NOTICE" }
+  | {
+      type: "SET_JOIN_REQUESTS";
+      payload: { roomId: string; requests: JoinRequest[] };
+    }
+  | { type: "ADD_JOIN_REQUEST"; payload: JoinRequest }
+  | { type: "REMOVE_JOIN_REQUEST"; payload: { roomId: string; userId: string } }
+  | {
+      type: "SET_JOIN_REQUEST_NOTICE";
+      payload: JoinRequestResolvedPayload | null;
+    }
   | { type: "UPDATE_TYPING"; payload: TypingUser }
   | { type: "CLEAR_ROOM_TYPING"; payload: string }
   | { type: "SET_ERROR"; payload: ApiError | null }
@@ -105,12 +279,92 @@ const initialState: ChatState = {
   userRooms: [],
   publicRooms: [],
   messagesByRoom: {},
+  focusedMessage: null,
   presencesByRoom: {},
+  rolesByRoom: {},
   typingByRoom: {},
+  revisionsByMessage: {},
+  threadsByMessage: {},
+  activeThreadId: null,
+  readReceiptsByRoom: {},
+  pinsByRoom: {},
+  scheduledByRoom: {},
+  mutedUntilByRoom: {},
+  removalNotice: null,
+  joinRequestsByRoom: {},
+  joinRequestNotice: null,
+  mentionNotice: null,
+  commands: null,
   error: null,
   isLoading: false,
 };
 
+// Broadcast messages carry reaction userIds only; derive the viewer's flag
+function markViewerReactions(message: Message, viewerId?: string): Message {
+  if (!message.reactions) return message;
+  return {
+    ...message,
+    reactions: message.reactions.map((r) => ({
+      ...r,
+      reactedByMe: !!viewerId && r.userIds.includes(viewerId),
+    })),
+  };
+}
+
+// Broadcast polls leave out the viewer's choices; keep the ones we had
+function keepMyVotes(message: Message, previous?: Message): Message {
+  if (!message.poll || message.poll.myVotes || !previous?.poll) return message;
+  return {
+    ...message,
+    poll: { ...message.poll, myVotes: previous.poll.myVotes },
+  };
+}
+
+type RoomMessages = ChatState["messagesByRoom"][string];
+
+const MAX_TAIL_MESSAGES = 200;
+
+// Apply fn to every message of a room, including the kept-aside tail
+function mapRoomMessages(
+  room: RoomMessages,
+  fn: (m: Message) => Message
+): RoomMessages {
+  return {
+    ...room,
+    messages: room.messages.map(fn),
+    tail: room.tail && {
+      ...room.tail,
+      messages: room.tail.messages.map(fn),
+    },
+  };
+}
+
+// Join a window to the live tail once they meet: the tail runs up to the
+// latest message, so any overlap makes window + tail contiguous
+function stitchTail(room: RoomMessages): RoomMessages {
+  const { tail, messages } = room;
+  if (!tail || messages.length === 0) return room;
+
+  const last = messages[messages.length - 1];
+  const reachesTail =
+    !room.hasNewer ||
+    tail.messages.length === 0 ||
+    tail.messages[0].timestamp <= last.timestamp;
+  if (!reachesTail) return room;
+
+  const ids = new Set(messages.map((m) => m.id));
+  const newer = tail.messages.filter(
+    (m) => !ids.has(m.id) && m.timestamp >= last.timestamp
+  );
+
+  return {
+    ...room,
+    messages: [...messages, ...newer],
+    hasNewer: false,
+    tail: undefined,
+  };
+}
+
 function chatReducer(state: ChatState, action: ChatAction): ChatState {
   switch (action.type) {
     case "SET_AUTHENTICATED":
@@ -124,7 +378,17 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, isConnected: action.payload };
 
     case "SET_CURRENT_ROOM":
-      return { ...state, currentRoomId: action.payload };
+      return {
+        ...state,
+        currentRoomId: action.payload,
+        // Threads belong to a room; close the panel when switching away
+        activeThreadId:
+          action.payload === state.currentRoomId ? state.activeThreadId : null,
+        mentionNotice:
+          state.mentionNotice?.roomId === action.payload
+            ? null
+            : state.mentionNotice,
+      };
 
     case "SET_USER_ROOMS":
       return { ...state, userRooms: action.payload };
@@ -138,6 +402,24 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         ],
       };
 
+    // Settings changes carry no viewer-specific fields (role, peer); keep ours
+    case "UPDATE_ROOM":
+      const mergeRoom = (r: Room) =>
+        r.id === action.payload.id
+          ? {
+              ...r,
+              ...action.payload,
+              myRole: r.myRole,
+              peer: r.peer,
+            }
+          : r;
+
+      return {
+        ...state,
+        userRooms: state.userRooms.map(mergeRoom),
+        publicRooms: state.publicRooms.map(mergeRoom),
+      };
+
     case "REMOVE_USER_ROOM":
       return {
         ...state,
@@ -148,19 +430,38 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, publicRooms: action.payload };
 
     case "SET_ROOM_MESSAGES":
+      const previousRoomData = state.messagesByRoom[action.payload.roomId];
+
+      // Keep the latest messages aside while showing an older window
+      let tail: RoomMessages["tail"];
+      if (action.payload.hasNewer && previousRoomData) {
+        tail = previousRoomData.hasNewer
+          ? previousRoomData.tail
+          : {
+              messages: previousRoomData.messages,
+              hasMore: previousRoomData.hasMore,
+              nextCursor: previousRoomData.nextCursor,
+            };
+      }
+
       return {
         ...state,
         messagesByRoom: {
           ...state.messagesByRoom,
-          [action.payload.roomId]: {
+          [action.payload.roomId]: stitchTail({
             messages: action.payload.messages,
             hasMore: !!action.payload.hasMore,
             nextCursor: action.payload.nextCursor,
             isLoading: false,
-          },
+            hasNewer: !!action.payload.hasNewer,
+            tail,
+          }),
         },
       };
 
+    case "SET_FOCUSED_MESSAGE":
+      return { ...state, focusedMessage: action.payload };
+
     case "ADD_MESSAGE":
       const roomId = action.payload.roomId;
       const currentRoomData = state.messagesByRoom[roomId] || {
@@ -169,6 +470,31 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         isLoading: false,
       };
 
+      // Not contiguous with the window; goes to the kept-aside tail
+      if (currentRoomData.hasNewer) {
+        if (!currentRoomData.tail) return state;
+        const tailMessages = [...currentRoomData.tail.messages, action.payload];
+        const trimmed = tailMessages.slice(-MAX_TAIL_MESSAGES);
+
+        return {
+          ...state,
+          messagesByRoom: {
+            ...state.messagesByRoom,
+            [roomId]: {
+              ...currentRoomData,
+              tail:
+                trimmed.length < tailMessages.length
+                  ? {
+                      messages: trimmed,
+                      hasMore: true,
+                      nextCursor: trimmed[0].id,
+                    }
+                  : { ...currentRoomData.tail, messages: trimmed },
+            },
+          },
+        };
+      }
+
       return {
         ...state,
         messagesByRoom: {
@@ -180,6 +506,226 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         },
       };
 
+    case "UPDATE_MESSAGE":
+      const updated = markViewerReactions(
+        action.payload,
+        state.currentUser?.id
+      );
+      const updateRoomData = state.messagesByRoom[updated.roomId];
+      const replaceUpdated = (m: Message) =>
+        m.id === updated.id ? keepMyVotes(updated, m) : m;
+
+      // Drop cached revisions so the history is refetched on next open
+      const newRevisionsByMessage = { ...state.revisionsByMessage };
+      delete newRevisionsByMessage[updated.id];
+
+      // The message may be a thread parent or a reply inside a loaded thread
+      const newThreadsByMessage = { ...state.threadsByMessage };
+      const ownThread = newThreadsByMessage[updated.id];
+      if (ownThread) {
+        newThreadsByMessage[updated.id] = {
+          ...ownThread,
+          parent: keepMyVotes(updated, ownThread.parent),
+        };
+      }
+      const parentThread = updated.replyToId
+        ? newThreadsByMessage[updated.replyToId]
+        : undefined;
+      if (updated.replyToId && parentThread) {
+        newThreadsByMessage[updated.replyToId] = {
+          ...parentThread,
+          messages: parentThread.messages.map(replaceUpdated),
+        };
+      }
+
+      // Pins follow every update: edits, (un)pinning, and deletes (which unpin)
+      const roomPins = state.pinsByRoom[updated.roomId];
+      const updatePinsByRoom = { ...state.pinsByRoom };
+      if (roomPins) {
+        const pins = roomPins.filter((m) => m.id !== updated.id);
+        if (updated.pinnedAt && !updated.isDeleted) {
+          pins.push(updated);
+          pins.sort((a, b) => b.pinnedAt!.localeCompare(a.pinnedAt!));
+        }
+        updatePinsByRoom[updated.roomId] = pins;
+      }
+
+      return {
+        ...state,
+        messagesByRoom: updateRoomData
+          ? {
+              ...state.messagesByRoom,
+              [updated.roomId]: mapRoomMessages(updateRoomData, replaceUpdated),
+            }
+          : state.messagesByRoom,
+        revisionsByMessage: newRevisionsByMessage,
+        threadsByMessage: newThreadsByMessage,
+        pinsByRoom: updatePinsByRoom,
+      };
+
+    case "SET_SCHEDULED_MESSAGES":
+      return {
+        ...state,
+        scheduledByRoom: {
+          ...state.scheduledByRoom,
+          [action.payload.roomId]: action.payload.scheduled,
+        },
+      };
+
+    case "SET_PINNED_MESSAGES":
+      return {
+        ...state,
+        pinsByRoom: {
+          ...state.pinsByRoom,
+          [action.payload.roomId]: action.payload.pins.map((m) =>
+            markViewerReactions(m, state.currentUser?.id)
+          ),
+        },
+      };
+
+    case "UPDATE_REACTIONS":
+      const { messageId: reactedId, reactions } = action.payload;
+      const withReactions = (m: Message) =>
+        m.id === reactedId
+          ? markViewerReactions({ ...m, reactions }, state.currentUser?.id)
+          : m;
+
+      const reactionRoomData = state.messagesByRoom[action.payload.roomId];
+      const reactionThreads: ChatState["threadsByMessage"] = {};
+      for (const [parentId, thread] of Object.entries(state.threadsByMessage)) {
+        reactionThreads[parentId] = {
+          ...thread,
+          parent: withReactions(thread.parent),
+          messages: thread.messages.map(withReactions),
+        };
+      }
+
+      return {
+        ...state,
+        messagesByRoom: reactionRoomData
+          ? {
+              ...state.messagesByRoom,
+              [action.payload.roomId]: mapRoomMessages(
+                reactionRoomData,
+                withReactions
+              ),
+            }
+          : state.messagesByRoom,
+        threadsByMessage: reactionThreads,
+      };
+
+    case "UPDATE_POLL":
+      const { messageId: pollId, poll } = action.payload;
+      const withPoll = (m: Message) =>
+        m.id === pollId ? keepMyVotes({ ...m, poll }, m) : m;
+
+      const pollRoomData = state.messagesByRoom[action.payload.roomId];
+      const pollThreads: ChatState["threadsByMessage"] = {
+        ...state.threadsByMessage,
+      };
+      const pollThread = pollThreads[pollId];
+      if (pollThread) {
+        pollThreads[pollId] = {
+          ...pollThread,
+          parent: withPoll(pollThread.parent),
+        };
+      }
+
+      return {
+        ...state,
+        messagesByRoom: pollRoomData
+          ? {
+              ...state.messagesByRoom,
+              [action.payload.roomId]: mapRoomMessages(pollRoomData, withPoll),
+            }
+          : state.messagesByRoom,
+        threadsByMessage: pollThreads,
+      };
+
+    case "SET_THREAD":
+      return {
+        ...state,
+        threadsByMessage: {
+          ...state.threadsByMessage,
+          [action.payload.parent.id]: {
+            parent: action.payload.parent,
+            messages: action.payload.messages,
+            hasMore: action.payload.hasMore,
+            nextCursor: action.payload.nextCursor,
+            isLoading: false,
+          },
+        },
+      };
+
+    case "PREPEND_THREAD_REPLIES":
+      const prependThread = state.threadsByMessage[action.payload.parentId];
+      if (!prependThread) return state;
+      const existingReplyIds = new Set(prependThread.messages.map((m) => m.id));
+
+      return {
+        ...state,
+        threadsByMessage: {
+          ...state.threadsByMessage,
+          [action.payload.parentId]: {
+            ...prependThread,
+            messages: [
+              ...action.payload.messages.filter(
+                (m) => !existingReplyIds.has(m.id)
+              ),
+              ...prependThread.messages,
+            ],
+            hasMore: action.payload.hasMore,
+            nextCursor: action.payload.nextCursor,
+            isLoading: false,
+          },
+        },
+      };
+
+    case "ADD_THREAD_REPLY":
+      const replyParentId = action.payload.replyToId;
+      const replyThread = replyParentId
+        ? state.threadsByMessage[replyParentId]
+        : undefined;
+      if (!replyParentId || !replyThread) return state;
+
+      return {
+        ...state,
+        threadsByMessage: {
+          ...state.threadsByMessage,
+          [replyParentId]: {
+            ...replyThread,
+            messages: [...replyThread.messages, action.payload],
+          },
+        },
+      };
+
+    case "SET_THREAD_LOADING":
+      const loadingThread = state.threadsByMessage[action.payload.parentId];
+      if (!loadingThread) return state;
+
+      return {
+        ...state,
+        threadsByMessage: {
+          ...state.threadsByMessage,
+          [action.payload.parentId]: {
+            ...loadingThread,
+            isLoading: action.payload.loading,
+          },
+        },
+      };
+
+    case "SET_ACTIVE_THREAD":
+      return { ...state, activeThreadId: action.payload };
+
+    case "SET_MESSAGE_REVISIONS":
+      return {
+        ...state,
+        revisionsByMessage: {
+          ...state.revisionsByMessage,
+          [action.payload.messageId]: action.payload.revisions,
+        },
+      };
+
     case "PREPEND_MESSAGES":
       const {
         roomId: prependRoomId,
@@ -209,6 +755,43 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         },
       };
 
+    case "APPEND_MESSAGES":
+      const appendRoomData = state.messagesByRoom[action.payload.roomId];
+      if (!appendRoomData) return state;
+      const loadedIds = new Set(appendRoomData.messages.map((m) => m.id));
+
+      return {
+        ...state,
+        messagesByRoom: {
+          ...state.messagesByRoom,
+          [action.payload.roomId]: stitchTail({
+            ...appendRoomData,
+            messages: [
+              ...appendRoomData.messages,
+              ...action.payload.messages.filter((m) => !loadedIds.has(m.id)),
+            ],
+            hasNewer: action.payload.hasMore,
+            isLoading: false,
+          }),
+        },
+      };
+
+    case "RESTORE_TAIL":
+      const restoreRoomData = state.messagesByRoom[action.payload];
+      if (!restoreRoomData?.tail) return state;
+
+      return {
+        ...state,
+        messagesByRoom: {
+          ...state.messagesByRoom,
+          [action.payload]: {
+            ...restoreRoomData.tail,
+            isLoading: false,
+            hasNewer: false,
+          },
+        },
+      };
+
     case "SET_MESSAGE_PAGINATION":
       const paginationRoomId = action.payload.roomId;
       const paginationData = state.messagesByRoom[paginationRoomId] || {
@@ -257,108 +840,402 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
         },
       };
 
-    case "UPDATE_TYPING":
-      const typingRoomId = action.payload.roomId;
-      const currentTyping = state.typingByRoom[typingRoomId] || [];
-      const { userId, isTyping } = action.payload;
+    case "SET_ROOM_ROLES":
+      return {
+        ...state,
+        rolesByRoom: {
+          ...state.rolesByRoom,
+          [action.payload.roomId]: action.payload.roles,
+        },
+      };
 
-      let newTyping;
-      if (isTyping) {
-        newTyping = currentTyping.find((t) => t.userId === userId)
-          ? currentTyping.map((t) => (t.userId === userId ? action.payload : t))
-          : [...currentTyping, action.payload];
-      } else {
-        newTyping = currentTyping.filter((t) => t.userId !== userId);
-      }
+    case "UPDATE_MEMBER_ROLE":
+      const { roomId: roleRoomId, userId: roleUserId, role } = action.payload;
 
       return {
         ...state,
-        typingByRoom: {
-          ...state.typingByRoom,
-          [typingRoomId]: newTyping,
+        rolesByRoom: {
+          ...state.rolesByRoom,
+          [roleRoomId]: {
+            ...state.rolesByRoom[roleRoomId],
+            [roleUserId]: role,
+          },
         },
+        // Keep the viewer's own role on the room list in step
+        userRooms:
+          roleUserId === state.currentUser?.id
+            ? state.userRooms.map((r) =>
+                r.id === roleRoomId ? { ...r, myRole: role } : r
+              )
+            : state.userRooms,
       };
 
-    case "CLEAR_ROOM_TYPING":
+    // The marker is always moved to the newest message seen, so nothing
+    // before it is left unread
+    case "SET_READ_MARKER":
       return {
         ...state,
-        typingByRoom: {
-          ...state.typingByRoom,
-          [action.payload]: [],
-        },
+        userRooms: state.userRooms.map((r) =>
+          r.id === action.payload.roomId
+            ? {
+                ...r,
+                lastReadMessageId: action.payload.messageId,
+                unreadCount: 0,
+                unreadMentionCount: 0,
+              }
+            : r
+        ),
       };
 
-    case "CLEAR_ROOM_DATA":
-      const clearRoomId = action.payload;
-      const newMessagesByRoom = { ...state.messagesByRoom };
-      const newPresencesByRoom = { ...state.presencesByRoom };
-      const newTypingByRoom = { ...state.typingByRoom };
+    case "INCREMENT_UNREAD":
+      return {
+        ...state,
+        userRooms: state.userRooms.map((r) =>
+          r.id === action.payload
+            ? { ...r, unreadCount: (r.unreadCount ?? 0) + 1 }
+            : r
+        ),
+      };
 
-      delete newMessagesByRoom[clearRoomId];
-      delete newPresencesByRoom[clearRoomId];
-      delete newTypingByRoom[clearRoomId];
+    // The room being viewed is marked read as messages arrive, and only
+    // top-level messages count as unread (as on the server)
+    case "ADD_MENTION":
+      const mentionRoomId = action.payload.roomId;
+      if (mentionRoomId === state.currentRoomId) return state;
 
       return {
         ...state,
-        messagesByRoom: newMessagesByRoom,
-        presencesByRoom: newPresencesByRoom,
-        typingByRoom: newTypingByRoom,
+        userRooms: action.payload.message.replyToId
+          ? state.userRooms
+          : state.userRooms.map((r) => {
+              if (r.id !== mentionRoomId) return r;
+              const unreadMentionCount = (r.unreadMentionCount ?? 0) + 1;
+              return {
+                ...r,
+                unreadMentionCount,
+                // The mention may arrive without its new_message (e.g. the
+                // room isn't open in this tab)
+                unreadCount: Math.max(r.unreadCount ?? 0, unreadMentionCount),
+              };
+            }),
+        mentionNotice: action.payload,
       };
 
-    case "SET_ERROR":
-      return { ...state, error: action.payload };
+    case "CLEAR_MENTION_NOTICE":
+      return { ...state, mentionNotice: null };
 
-    case "SET_LOADING":
-      return { ...state, isLoading: action.payload };
+    case "SET_COMMANDS":
+      return { ...state, commands: action.payload };
 
-    case "RESET_STATE":
-      return { ...initialState };
+    // Only for rooms we have open; otherwise it's shown with nothing around it
+    case "ADD_EPHEMERAL_MESSAGE":
+      if (!state.messagesByRoom[action.payload.roomId]) return state;
+      return chatReducer(state, {
+        type: "ADD_MESSAGE",
+        payload: action.payload,
+      });
 
-    default:
-      return state;
-  }
-}
+    case "DISMISS_EPHEMERAL": {
+      const ephemeralRoom = state.messagesByRoom[action.payload.roomId];
+      if (!ephemeralRoom) return state;
+      const keep = (m: Message) => m.id !== action.payload.messageId;
 
-interface ChatContextType {
-  state: ChatState;
-  // Auth methods
-  login: (email: string, password: string) => Promise<void>;
-  register: (
-    username: string,
-    email: string,
-    password: string
-  ) => Promise<void>;
-  logout: () => void;
-  // Connection methods
-  connect: () => Promise<void>;
-  disconnect: () => void;
-  // Room methods
-  loadUserRooms: () => Promise<void>;
+      return {
+        ...state,
+        messagesByRoom: {
+          ...state.messagesByRoom,
+          [action.payload.roomId]: {
+            ...ephemeralRoom,
+            messages: ephemeralRoom.messages.filter(keep),
+            tail: ephemeralRoom.tail && {
+              ...ephemeralRoom.tail,
+              messages: ephemeralRoom.tail.messages.filter(keep),
+            },
+          },
+        },
+      };
+    }
+
+    case "SET_READ_RECEIPTS":
+    case "MERGE_READ_RECEIPTS":
+      const receiptRoomId = action.payload.roomId;
+      const receipts =
+        action.type === "MERGE_READ_RECEIPTS"
+          ? { ...state.readReceiptsByRoom[receiptRoomId] }
+          : {};
+      for (const receipt of action.payload.receipts) {
+        receipts[receipt.userId] = receipt;
+      }
+
+      return {
+        ...state,
+        readReceiptsByRoom: {
+          ...state.readReceiptsByRoom,
+          [receiptRoomId]: receipts,
+        },
+      };
+
+    case "SET_ROOM_MUTE":
+      const mutedUntilByRoom = { ...state.mutedUntilByRoom };
+      if (action.payload.expiresAt) {
+        mutedUntilByRoom[action.payload.roomId] = action.payload.expiresAt;
+      } else {
+        delete mutedUntilByRoom[action.payload.roomId];
+      }
+
+      return { ...state, mutedUntilByRoom };
+
+    case "ROOM_REMOVED":
+      const wasViewing = state.currentRoomId === action.payload.roomId;
+
+      return {
+        ...state,
+        currentRoomId: wasViewing ? null : state.currentRoomId,
+        activeThreadId: wasViewing ? null : state.activeThreadId,
+        removalNotice: action.payload,
+      };
+
+    case "CLEAR_REMOVAL_NOTICE":
+      return { ...state, removalNotice: null };
+
+    case "SET_JOIN_REQUESTS":
+      return {
+        ...state,
+        joinRequestsByRoom: {
+          ...state.joinRequestsByRoom,
+          [action.payload.roomId]: action.payload.requests,
+        },
+      };
+
+    case "ADD_JOIN_REQUEST":
+      const pendingRequests =
+        state.joinRequestsByRoom[action.payload.roomId] ?? [];
+      if (pendingRequests.some((r) => r.userId === action.payload.userId)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        joinRequestsByRoom: {
+          ...state.joinRequestsByRoom,
+          [action.payload.roomId]: [...pendingRequests, action.payload],
+        },
+      };
+
+    case "REMOVE_JOIN_REQUEST":
+      const { roomId: requestRoomId, userId: requestUserId } = action.payload;
+      if (!state.joinRequestsByRoom[requestRoomId]) return state;
+
+      return {
+        ...state,
+        joinRequestsByRoom: {
+          ...state.joinRequestsByRoom,
+          [requestRoomId]: state.joinRequestsByRoom[requestRoomId].filter(
+            (r) => r.userId !== requestUserId
+          ),
+        },
+      };
+
+    case "SET_JOIN_REQUEST_NOTICE":
+      return { ...state, joinRequestNotice: action.payload };
+
+    case "UPDATE_TYPING":
+      const typingRoomId = action.payload.roomId;
+      const currentTyping = state.typingByRoom[typingRoomId] || [];
+      const { userId, isTyping } = action.payload;
+
+      let newTyping;
+      if (isTyping) {
+        newTyping = currentTyping.find((t) => t.userId === userId)
+          ? currentTyping.map((t) => (t.userId === userId ? action.payload : t))
+          : [...currentTyping, action.payload];
+      } else {
+        newTyping = currentTyping.filter((t) => t.userId !== userId);
+      }
+
+      return {
+        ...state,
+        typingByRoom: {
+          ...state.typingByRoom,
+          [typingRoomId]: newTyping,
+        },
+      };
+
+    case "CLEAR_ROOM_TYPING":
+      return {
+        ...state,
+        typingByRoom: {
+          ...state.typingByRoom,
+          [action.payload]: [],
+        },
+      };
+
+    case "CLEAR_ROOM_DATA":
+      const clearRoomId = action.payload;
+      const newMessagesByRoom = { ...state.messagesByRoom };
+      const newPresencesByRoom = { ...state.presencesByRoom };
+      const newRolesByRoom = { ...state.rolesByRoom };
+      const newTypingByRoom = { ...state.typingByRoom };
+      const newReadReceiptsByRoom = { ...state.readReceiptsByRoom };
+      const newPinsByRoom = { ...state.pinsByRoom };
+
+      delete newMessagesByRoom[clearRoomId];
+      delete newPresencesByRoom[clearRoomId];
+      delete newRolesByRoom[clearRoomId];
+      delete newTypingByRoom[clearRoomId];
+      delete newReadReceiptsByRoom[clearRoomId];
+      delete newPinsByRoom[clearRoomId];
+
+      return {
+        ...state,
+        messagesByRoom: newMessagesByRoom,
+        presencesByRoom: newPresencesByRoom,
+        rolesByRoom: newRolesByRoom,
+        typingByRoom: newTypingByRoom,
+        readReceiptsByRoom: newReadReceiptsByRoom,
+        pinsByRoom: newPinsByRoom,
+      };
+
+    case "SET_ERROR":
+      return { ...state, error: action.payload };
+
+    case "SET_LOADING":
+      return { ...state, isLoading: action.payload };
+
+    case "RESET_STATE":
+      return { ...initialState };
+
+    default:
+      return state;
+  }
+}
+
+interface ChatContextType {
+  state: ChatState;
+  // Auth methods
+  login: (email: string, password: string) => Promise<void>;
+  register: (
+    username: string,
+    email: string,
+    password: string
+  ) => Promise<void>;
+  logout: () => void;
+  // Connection methods
+  connect: () => Promise<void>;
+  disconnect: () => void;
+  // Room methods
+  loadUserRooms: () => Promise<void>;
   loadPublicRooms: () => Promise<void>;
   createRoom: (
     name: string,
     description: string,
     isPrivate: boolean,
-    passcode?: string
+    passcode?: string,
+    requiresApproval?: boolean
+  ) => Promise<void>;
+  updateRoom: (roomId: string, changes: UpdateRoomRequest) => Promise<void>;
+  joinRoom: (
+    roomId: string,
+    passcode?: string,
+    focusMessageId?: string
   ) => Promise<void>;
-  joinRoom: (roomId: string, passcode?: string) => Promise<void>;
+  joinRoomByInvite: (token: string) => Promise<void>;
   leaveRoom: (roomId: string) => Promise<void>;
+  startDirectMessage: (userId: string) => Promise<void>;
+  setMemberRole: (
+    roomId: string,
+    userId: string,
+    role: RoomRole
+  ) => Promise<void>;
+  transferOwnership: (roomId: string, userId: string) => Promise<void>;
+  kickMember: (
+    roomId: string,
+    userId: string,
+    reason?: string
+  ) => Promise<void>;
+  banMember: (
+    roomId: string,
+    userId: string,
+    reason?: string,
+    expiresAt?: string
+  ) => Promise<void>;
+  clearRemovalNotice: () => void;
+  archiveRoom: (roomId: string) => Promise<void>;
+  deleteRoom: (roomId: string) => Promise<void>;
+  loadJoinRequests: (roomId: string) => Promise<void>;
+  resolveJoinRequest: (
+    roomId: string,
+    userId: string,
+    approve: boolean
+  ) => Promise<void>;
+  clearJoinRequestNotice: () => void;
+  muteMember: (
+    roomId: string,
+    userId: string,
+    durationMinutes: number
+  ) => Promise<void>;
+  unmuteMember: (roomId: string, userId: string) => Promise<void>;
   switchToRoom: (roomId: string) => void;
   goToLobby: () => void;
   // Message methods
   sendMessage: (content: string) => void;
+  sendAttachment: (attachmentId: string, caption: string) => void;
+  sendPoll: (request: Omit<CreatePollRequest, "roomId">) => void;
+  votePoll: (messageId: string, optionIndexes: number[]) => void;
+  editMessage: (messageId: string, content: string) => void;
+  deleteMessage: (messageId: string) => void;
+  toggleReaction: (message: Message, emoji: string) => void;
+  togglePin: (message: Message) => void;
+  loadPinnedMessages: (roomId: string) => Promise<void>;
+  // Scheduled messages
+  loadScheduledMessages: (roomId: string) => Promise<void>;
+  scheduleMessage: (content: string, sendAt: string) => Promise<void>;
+  updateScheduledMessage: (
+    roomId: string,
+    scheduledId: string,
+    changes: { content?: string; sendAt?: string }
+  ) => Promise<void>;
+  cancelScheduledMessage: (
+    roomId: string,
+    scheduledId: string
+  ) => Promise<void>;
+  loadMessageHistory: (messageId: string) => void;
+  // Thread methods
+  openThread: (messageId: string) => void;
+  closeThread: () => void;
+  sendReply: (messageId: string, content: string) => void;
+  loadMoreReplies: (messageId: string) => void;
   loadMoreMessages: (roomId: string) => Promise<void>;
+  loadNewerMessages: (roomId: string) => Promise<void>;
+  // Search navigation
+  jumpToMessage: (message: Message) => Promise<void>;
+  jumpToLatest: (roomId: string) => void;
+  clearFocusedMessage: () => void;
   // Typing methods
   startTyping: (roomId: string) => void;
   stopTyping: (roomId: string) => void;
+  // Read markers
+  markRoomRead: (roomId: string, messageId: string) => void;
+  clearMentionNotice: () => void;
+  // Slash commands
+  loadCommands: () => Promise<void>;
+  // Ephemeral notices
+  dismissEphemeral: (roomId: string, messageId: string) => void;
   // Utility methods
   getRoomData: (roomId: string) => {
     messages: Message[];
     hasMore: boolean;
     isLoading: boolean;
+    hasNewer?: boolean;
   };
   getRoomPresences: (roomId: string) => UserPresence[];
+  getMemberRole: (roomId: string, userId: string) => RoomRole;
+  getMutedUntil: (roomId: string) => string | undefined;
   getRoomTyping: (roomId: string) => TypingUser[];
+  getMessageRevisions: (messageId: string) => MessageRevision[] | undefined;
+  getThreadData: (
+    messageId: string
+  ) => ChatState["threadsByMessage"][string] | undefined;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -390,6 +1267,58 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
 
       if (data.type === "new_message") {
         dispatch({ type: "ADD_MESSAGE", payload: data.message });
+
+        // Counted like the server does; reading the room clears it again
+        const { message } = data;
+        if (
+          message.type !== "system" &&
+          message.userId !== state.currentUser?.id
+        ) {
+          dispatch({ type: "INCREMENT_UNREAD", payload: message.roomId });
+        }
+      } else if (
+        data.type === "message_edited" ||
+        data.type === "message_deleted" ||
+        data.type === "message_pinned" ||
+        data.type === "message_unpinned"
+      ) {
+        dispatch({ type: "UPDATE_MESSAGE", payload: data.message });
+        // A deleted reply brings its parent's lowered reply count
+        if (data.type === "message_deleted" && data.parent) {
+          dispatch({ type: "UPDATE_MESSAGE", payload: data.parent });
+        }
+      } else if (data.type === "poll_updated") {
+        dispatch({
+          type: "UPDATE_POLL",
+          payload: {
+            roomId: data.roomId,
+            messageId: data.messageId,
+            poll: data.poll,
+          },
+        });
+      } else if (data.type === "reaction_updated") {
+        dispatch({
+          type: "UPDATE_REACTIONS",
+          payload: {
+            roomId: data.roomId,
+            messageId: data.messageId,
+            reactions: data.reactions,
+          },
+        });
+      } else if (data.type === "thread_reply") {
+        dispatch({ type: "ADD_THREAD_REPLY", payload: data.message });
+        if (data.parent) {
+          dispatch({ type: "UPDATE_MESSAGE", payload: data.parent });
+        }
+      } else if (data.type === "role_updated") {
+        dispatch({
+          type: "UPDATE_MEMBER_ROLE",
+          payload: {
+            roomId: data.roomId,
+            userId: data.userId,
+            role: data.role,
+          },
+        });
       } else if (
         data.type === "user_joined" ||
         data.type === "user_left" ||
@@ -411,6 +1340,18 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         type: "SET_ROOM_PRESENCES",
         payload: { roomId: data.roomId, presences: data.presences },
       });
+      dispatch({
+        type: "SET_ROOM_ROLES",
+        payload: { roomId: data.roomId, roles: data.roles ?? {} },
+      });
+      dispatch({
+        type: "SET_ROOM_MUTE",
+        payload: { roomId: data.roomId, expiresAt: data.mutedUntil },
+      });
+      dispatch({
+        type: "SET_READ_RECEIPTS",
+        payload: { roomId: data.roomId, receipts: data.receipts ?? [] },
+      });
     });
 
     socketService.onRoomLeft((data) => {
@@ -420,6 +1361,98 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: "SET_CURRENT_ROOM", payload: null });
     });
 
+    socketService.onRemovedFromRoom((data) => {
+      log("onRemovedFromRoom", data);
+      dispatch({ type: "CLEAR_ROOM_DATA", payload: data.roomId });
+      dispatch({ type: "REMOVE_USER_ROOM", payload: data.roomId });
+      dispatch({ type: "ROOM_REMOVED", payload: data });
+    });
+
+    socketService.onRoomDeleted((data) => {
+      log("onRoomDeleted", data);
+      dispatch({ type: "CLEAR_ROOM_DATA", payload: data.roomId });
+      dispatch({ type: "REMOVE_USER_ROOM", payload: data.roomId });
+      dispatch({
+        type: "ROOM_REMOVED",
+        payload: { ...data, banned: false, deleted: true },
+      });
+    });
+
+    socketService.onScheduledMessages((data) => {
+      log("onScheduledMessages", data);
+      dispatch({ type: "SET_SCHEDULED_MESSAGES", payload: data });
+    });
+
+    socketService.onMuteUpdated((data) => {
+      log("onMuteUpdated", data);
+      dispatch({ type: "SET_ROOM_MUTE", payload: data });
+    });
+
+    socketService.onReadMarker((data) => {
+      log("onReadMarker", data);
+      dispatch({ type: "SET_READ_MARKER", payload: data });
+    });
+
+    socketService.onReadReceipts((data) => {
+      log("onReadReceipts", data);
+      dispatch({ type: "MERGE_READ_RECEIPTS", payload: data });
+    });
+
+    // Sent after the message's new_message, so the unread count is bumped first
+    // Never stored, so it only lives in this session's copy of the room
+    socketService.onEphemeralMessage((message) => {
+      log("onEphemeralMessage", message);
+      dispatch({ type: "ADD_EPHEMERAL_MESSAGE", payload: message });
+    });
+
+    socketService.onMention((data) => {
+      log("onMention", data);
+      dispatch({ type: "ADD_MENTION", payload: data });
+    });
+
+    socketService.onJoinRequest((data) => {
+      log("onJoinRequest", data);
+      dispatch({ type: "ADD_JOIN_REQUEST", payload: data });
+    });
+
+    socketService.onJoinRequestResolved((data) => {
+      log("onJoinRequestResolved", data);
+      if (data.userId !== state.currentUser?.id) {
+        dispatch({ type: "REMOVE_JOIN_REQUEST", payload: data });
+        return;
+      }
+
+      dispatch({ type: "SET_JOIN_REQUEST_NOTICE", payload: data });
+      if (data.approved && data.room) {
+        // Membership already exists; joining the socket room announces us
+        dispatch({ type: "ADD_USER_ROOM", payload: data.room });
+        socketService.joinRoom(data.room.id, false);
+      }
+    });
+
+    socketService.onRoomUpdated((data) => {
+      log("onRoomUpdated", data);
+      dispatch({ type: "UPDATE_ROOM", payload: data.room });
+    });
+
+    socketService.onAddedToRoom((data) => {
+      log("onAddedToRoom", data);
+      // The server already put our sockets in the room
+      dispatch({ type: "ADD_USER_ROOM", payload: data.room });
+    });
+
+    socketService.onCommandResult((data) => {
+      log("onCommandResult", data);
+      if (data.action === "leave_room") {
+        leaveRoom(data.roomId).catch(() => undefined); // error already shown
+      }
+    });
+
+    socketService.onDirectRoom((data) => {
+      log("onDirectRoom", data);
+      dispatch({ type: "ADD_USER_ROOM", payload: data.room });
+    });
+
     socketService.onRoomPresences((data) => {
       log("onRoomPresences", data);
       dispatch({
@@ -460,6 +1493,65 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
       });
     });
 
+    socketService.onNewerMessagesLoaded((data) => {
+      log("onNewerMessagesLoaded", data);
+      dispatch({
+        type: "APPEND_MESSAGES",
+        payload: {
+          roomId: data.roomId,
+          messages: data.messages,
+          hasMore: data.hasMore,
+        },
+      });
+    });
+
+    socketService.onMessageContext((data) => {
+      log("onMessageContext", data);
+      dispatch({
+        type: "SET_ROOM_MESSAGES",
+        payload: {
+          roomId: data.roomId,
+          messages: data.messages,
+          hasMore: data.hasMore,
+          nextCursor: data.nextCursor,
+          hasNewer: data.hasNewer,
+        },
+      });
+    });
+
+    socketService.onThreadLoaded((data) => {
+      log("onThreadLoaded", data);
+      if (data.isPage) {
+        dispatch({
+          type: "PREPEND_THREAD_REPLIES",
+          payload: {
+            parentId: data.parent.id,
+            messages: data.messages,
+            hasMore: data.hasMore,
+            nextCursor: data.nextCursor,
+          },
+        });
+      } else {
+        dispatch({
+          type: "SET_THREAD",
+          payload: {
+            parent: data.parent,
+            messages: data.messages,
+            hasMore: data.hasMore,
+            nextCursor: data.nextCursor,
+          },
+        });
+      }
+    });
+
+    socketService.onMessageHistory((data) => {
+      log("onMessageHistory", data);
+      dispatch({
+        type: "SET_MESSAGE_REVISIONS",
+        payload: { messageId: data.messageId, revisions: data.revisions },
+      });
+    });
+
     socketService.onUserTyping((data) => {
       log("onUserTyping", data);
       if (data.userId !== state.currentUser?.id) {
@@ -472,7 +1564,10 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
       const wrapped =
         error instanceof ApiError
           ? error
-          : new ApiError(error?.message || "Socket error", "GENERIC");
+          : new ApiError(
+              error?.message || "Socket error",
+              error?.code || "GENERIC"
+            );
       dispatch({ type: "SET_ERROR", payload: wrapped });
       // If error is due to authentication, log out
       if (wrapped.code === "UNAUTHORIZED") {
@@ -597,7 +1692,8 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     name: string,
     description: string,
     isPrivate: boolean,
-    passcode?: string
+    passcode?: string,
+    requiresApproval?: boolean
   ): Promise<void> => {
     log("createRoom");
     try {
@@ -606,6 +1702,7 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         description,
         isPrivate,
         passcode,
+        requiresApproval,
       });
       await socketService.joinRoom(room.id, false);
       dispatch({ type: "ADD_USER_ROOM", payload: room });
@@ -617,7 +1714,27 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const joinRoom = async (roomId: string, passcode?: string): Promise<void> => {
+  // Members (including this tab) get the result as room_updated
+  const updateRoom = async (
+    roomId: string,
+    changes: UpdateRoomRequest
+  ): Promise<void> => {
+    log("updateRoom");
+    try {
+      const room = await roomService.updateRoom(roomId, changes);
+      dispatch({ type: "UPDATE_ROOM", payload: room });
+      dispatch({ type: "SET_ERROR", payload: null });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  const joinRoom = async (
+    roomId: string,
+    passcode?: string,
+    focusMessageId?: string
+  ): Promise<void> => {
     log("joinRoom");
     dispatch({ type: "SET_ERROR", payload: null });
     try {
@@ -625,6 +1742,24 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
         roomId,
         passcode,
       });
+      await socketService.joinRoom(room.id, alreadyJoined, focusMessageId);
+      dispatch({ type: "ADD_USER_ROOM", payload: room });
+      dispatch({ type: "SET_CURRENT_ROOM", payload: room.id });
+      dispatch({ type: "SET_ERROR", payload: null });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  // Invites skip the passcode; the token alone identifies the room
+  const joinRoomByInvite = async (token: string): Promise<void> => {
+    log("joinRoomByInvite");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      const { room, alreadyJoined } = await roomService.joinRoom({
+        inviteToken: token,
+      });
       await socketService.joinRoom(room.id, alreadyJoined);
       dispatch({ type: "ADD_USER_ROOM", payload: room });
       dispatch({ type: "SET_CURRENT_ROOM", payload: room.id });
@@ -647,6 +1782,164 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const startDirectMessage = async (userId: string): Promise<void> => {
+    log("startDirectMessage");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      const room = await roomService.startDirectMessage(userId);
+      // Membership is set up by the request; no join announcement in DMs
+      await socketService.joinRoom(room.id, true);
+      dispatch({ type: "ADD_USER_ROOM", payload: room });
+      dispatch({ type: "SET_CURRENT_ROOM", payload: room.id });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  // Promote or demote a member; the change arrives back as role_updated
+  const setMemberRole = async (
+    roomId: string,
+    userId: string,
+    role: RoomRole
+  ): Promise<void> => {
+    log("setMemberRole");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.setMemberRole(roomId, userId, role);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  // Both roles come back as role_updated, so member lists follow on their own
+  const transferOwnership = async (
+    roomId: string,
+    userId: string
+  ): Promise<void> => {
+    log("transferOwnership");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.transferOwnership(roomId, userId);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  // Kick and ban; the server posts the system message and updates presences
+  const kickMember = async (
+    roomId: string,
+    userId: string,
+    reason?: string
+  ): Promise<void> => {
+    log("kickMember");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.kickMember(roomId, userId, reason);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const banMember = async (
+    roomId: string,
+    userId: string,
+    reason?: string,
+    expiresAt?: string
+  ): Promise<void> => {
+    log("banMember");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.banMember(roomId, userId, reason, expiresAt);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const clearRemovalNotice = (): void => {
+    dispatch({ type: "CLEAR_REMOVAL_NOTICE" });
+  };
+
+  // Members (including this tab) get the archived room as room_updated
+  const archiveRoom = async (roomId: string): Promise<void> => {
+    log("archiveRoom");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      const room = await roomService.archiveRoom(roomId);
+      dispatch({ type: "UPDATE_ROOM", payload: room });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  // Every member, the owner included, is sent back by room_deleted
+  const deleteRoom = async (roomId: string): Promise<void> => {
+    log("deleteRoom");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.deleteRoom(roomId);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  const loadJoinRequests = async (roomId: string): Promise<void> => {
+    log("loadJoinRequests");
+    try {
+      const requests = await roomService.getJoinRequests(roomId);
+      dispatch({ type: "SET_JOIN_REQUESTS", payload: { roomId, requests } });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  // The list updates from join_request_resolved, sent to every admin
+  const resolveJoinRequest = async (
+    roomId: string,
+    userId: string,
+    approve: boolean
+  ): Promise<void> => {
+    log("resolveJoinRequest");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.resolveJoinRequest(roomId, userId, approve);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const clearJoinRequestNotice = (): void => {
+    dispatch({ type: "SET_JOIN_REQUEST_NOTICE", payload: null });
+  };
+
+  const muteMember = async (
+    roomId: string,
+    userId: string,
+    durationMinutes: number
+  ): Promise<void> => {
+    log("muteMember");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.muteMember(roomId, userId, durationMinutes);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const unmuteMember = async (
+    roomId: string,
+    userId: string
+  ): Promise<void> => {
+    log("unmuteMember");
+    dispatch({ type: "SET_ERROR", payload: null });
+    try {
+      await roomService.unmuteMember(roomId, userId);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
   const switchToRoom = async (
     roomId: string,
     passcode?: string
@@ -668,6 +1961,166 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const sendAttachment = (attachmentId: string, caption: string): void => {
+    log("sendAttachment");
+    if (state.currentRoomId) {
+      socketService.sendAttachment(state.currentRoomId, attachmentId, caption);
+    }
+  };
+
+  const sendPoll = (request: Omit<CreatePollRequest, "roomId">): void => {
+    log("sendPoll");
+    if (state.currentRoomId) {
+      socketService.sendPoll({ ...request, roomId: state.currentRoomId });
+    }
+  };
+
+  // Replaces the viewer's choices; the server echoes them back with the tally
+  const votePoll = (messageId: string, optionIndexes: number[]): void => {
+    log("votePoll", optionIndexes);
+    socketService.votePoll(messageId, optionIndexes);
+  };
+
+  const editMessage = (messageId: string, content: string): void => {
+    log("editMessage");
+    if (content.trim()) {
+      socketService.editMessage(messageId, content);
+    }
+  };
+
+  const deleteMessage = (messageId: string): void => {
+    log("deleteMessage");
+    socketService.deleteMessage(messageId);
+  };
+
+  const toggleReaction = (message: Message, emoji: string): void => {
+    log("toggleReaction", emoji);
+    const existing = message.reactions?.find((r) => r.emoji === emoji);
+    if (existing?.reactedByMe) {
+      socketService.removeReaction(message.id, emoji);
+    } else {
+      socketService.addReaction(message.id, emoji);
+    }
+  };
+
+  const togglePin = (message: Message): void => {
+    log("togglePin");
+    if (message.pinnedAt) {
+      socketService.unpinMessage(message.id);
+    } else {
+      socketService.pinMessage(message.id);
+    }
+  };
+
+  const loadPinnedMessages = async (roomId: string): Promise<void> => {
+    log("loadPinnedMessages");
+    try {
+      const pins = await roomService.getPinnedMessages(roomId);
+      dispatch({ type: "SET_PINNED_MESSAGES", payload: { roomId, pins } });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const loadScheduledMessages = async (roomId: string): Promise<void> => {
+    log("loadScheduledMessages");
+    try {
+      const scheduled = await roomService.getScheduledMessages(roomId);
+      dispatch({
+        type: "SET_SCHEDULED_MESSAGES",
+        payload: { roomId, scheduled },
+      });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  // The list itself follows from the scheduled_messages event. These throw
+  // after showing the error, so the caller can keep what was typed.
+  const scheduleMessage = async (
+    content: string,
+    sendAt: string
+  ): Promise<void> => {
+    log("scheduleMessage");
+    if (!state.currentRoomId) return;
+    try {
+      await roomService.scheduleMessage(state.currentRoomId, {
+        content: content.trim(),
+        sendAt,
+      });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  const updateScheduledMessage = async (
+    roomId: string,
+    scheduledId: string,
+    changes: { content?: string; sendAt?: string }
+  ): Promise<void> => {
+    log("updateScheduledMessage");
+    try {
+      await roomService.updateScheduledMessage(roomId, scheduledId, changes);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+      throw error;
+    }
+  };
+
+  const cancelScheduledMessage = async (
+    roomId: string,
+    scheduledId: string
+  ): Promise<void> => {
+    log("cancelScheduledMessage");
+    try {
+      await roomService.cancelScheduledMessage(roomId, scheduledId);
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const loadMessageHistory = (messageId: string): void => {
+    log("loadMessageHistory");
+    socketService.getMessageHistory(messageId);
+  };
+
+  // Thread methods
+  const openThread = (messageId: string): void => {
+    log("openThread", messageId);
+    dispatch({ type: "SET_ACTIVE_THREAD", payload: messageId });
+    // Always refetch the first page so the panel reflects the latest replies
+    socketService.getThread({ messageId, limit: 50 });
+  };
+
+  const closeThread = (): void => {
+    log("closeThread");
+    dispatch({ type: "SET_ACTIVE_THREAD", payload: null });
+  };
+
+  const sendReply = (messageId: string, content: string): void => {
+    log("sendReply");
+    if (content.trim() && state.currentRoomId) {
+      socketService.sendMessage(state.currentRoomId, content, messageId);
+    }
+  };
+
+  const loadMoreReplies = (messageId: string): void => {
+    log("loadMoreReplies");
+    const thread = state.threadsByMessage[messageId];
+    if (!thread || thread.isLoading || !thread.hasMore) return;
+
+    dispatch({
+      type: "SET_THREAD_LOADING",
+      payload: { parentId: messageId, loading: true },
+    });
+    socketService.getThread({
+      messageId,
+      limit: 50,
+      before: thread.nextCursor,
+    });
+  };
+
   const loadMoreMessages = async (roomId: string): Promise<void> => {
     log("loadMoreMessages");
     const roomData = state.messagesByRoom[roomId];
@@ -701,6 +2154,83 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const loadNewerMessages = async (roomId: string): Promise<void> => {
+    log("loadNewerMessages");
+    const roomData = state.messagesByRoom[roomId];
+
+    if (!roomData || roomData.isLoading || !roomData.hasNewer) {
+      return;
+    }
+
+    dispatch({
+      type: "SET_MESSAGES_LOADING",
+      payload: { roomId, loading: true },
+    });
+
+    try {
+      const request: MessagePaginationRequest = {
+        roomId,
+        limit: 50,
+        after: roomData.messages[roomData.messages.length - 1]?.id,
+      };
+      await socketService.loadMoreMessages(request);
+    } catch (error) {
+      dispatch({
+        type: "SET_ERROR",
+        payload: new ApiError("Failed to load newer messages", "SERVER_ERROR"),
+      });
+    } finally {
+      dispatch({
+        type: "SET_MESSAGES_LOADING",
+        payload: { roomId, loading: false },
+      });
+    }
+  };
+
+  // Search navigation
+  const jumpToMessage = async (message: Message): Promise<void> => {
+    log("jumpToMessage", message.id);
+    const room = state.userRooms.find((r) => r.id === message.roomId);
+    if (!room) return;
+
+    // Replies live in their thread; the timeline shows the parent
+    const anchorId = message.replyToId ?? message.id;
+    dispatch({
+      type: "SET_FOCUSED_MESSAGE",
+      payload: { roomId: room.id, messageId: anchorId },
+    });
+
+    if (state.currentRoomId === room.id) {
+      const isLoaded = state.messagesByRoom[room.id]?.messages.some(
+        (m) => m.id === anchorId
+      );
+      if (!isLoaded) {
+        socketService.getMessageContext(room.id, anchorId);
+      }
+    } else {
+      // joinRoom looks rooms up by name
+      await joinRoom(room.name, undefined, anchorId);
+    }
+
+    if (message.replyToId) {
+      openThread(message.replyToId);
+    }
+  };
+
+  const jumpToLatest = (roomId: string): void => {
+    log("jumpToLatest");
+    if (state.messagesByRoom[roomId]?.tail) {
+      dispatch({ type: "RESTORE_TAIL", payload: roomId });
+      return;
+    }
+    // Nothing kept aside: rejoining resends the latest page
+    socketService.joinRoom(roomId, true);
+  };
+
+  const clearFocusedMessage = (): void => {
+    dispatch({ type: "SET_FOCUSED_MESSAGE", payload: null });
+  };
+
   // Typing methods
   const startTyping = (roomId: string): void => {
     log("startTyping");
@@ -712,6 +2242,33 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     socketService.stopTyping(roomId);
   };
 
+  // Moves the marker here right away; the server echoes it to other tabs
+  const markRoomRead = (roomId: string, messageId: string): void => {
+    const room = state.userRooms.find((r) => r.id === roomId);
+    if (!room || room.lastReadMessageId === messageId) return;
+    log("markRoomRead");
+    dispatch({ type: "SET_READ_MARKER", payload: { roomId, messageId } });
+    socketService.markRead(roomId, messageId);
+  };
+
+  const clearMentionNotice = (): void => {
+    dispatch({ type: "CLEAR_MENTION_NOTICE" });
+  };
+
+  const loadCommands = async (): Promise<void> => {
+    log("loadCommands");
+    try {
+      const commands = await roomService.getCommands();
+      dispatch({ type: "SET_COMMANDS", payload: commands });
+    } catch (error) {
+      dispatch({ type: "SET_ERROR", payload: error as ApiError });
+    }
+  };
+
+  const dismissEphemeral = (roomId: string, messageId: string): void => {
+    dispatch({ type: "DISMISS_EPHEMERAL", payload: { roomId, messageId } });
+  };
+
   // Utility methods
   const getRoomData = (roomId: string) => {
     // log("getRoomData");
@@ -729,11 +2286,39 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     return state.presencesByRoom[roomId] || [];
   };
 
+  const getMemberRole = (roomId: string, userId: string): RoomRole => {
+    const role = state.rolesByRoom[roomId]?.[userId];
+    if (role) return role;
+    // Before room_joined arrives, fall back to the room list for the viewer
+    if (userId === state.currentUser?.id) {
+      return state.userRooms.find((r) => r.id === roomId)?.myRole ?? "member";
+    }
+    return "member";
+  };
+
+  // Expired mutes read as unmuted without waiting for a server event
+  const getMutedUntil = (roomId: string): string | undefined => {
+    const expiresAt = state.mutedUntilByRoom[roomId];
+    return expiresAt && new Date(expiresAt).getTime() > Date.now()
+      ? expiresAt
+      : undefined;
+  };
+
   const getRoomTyping = (roomId: string): TypingUser[] => {
     // log("getRoomTyping");
     return state.typingByRoom[roomId] || [];
   };
 
+  const getMessageRevisions = (
+    messageId: string
+  ): MessageRevision[] | undefined => {
+    return state.revisionsByMessage[messageId];
+  };
+
+  const getThreadData = (messageId: string) => {
+    return state.threadsByMessage[messageId];
+  };
+
   const value: ChatContextType = {
     state,
     login,
@@ -744,17 +2329,61 @@ export function ChatProvider({ children }: { children: React.ReactNode }) {
     loadUserRooms,
     loadPublicRooms,
     createRoom,
+    updateRoom,
     joinRoom,
+    joinRoomByInvite,
     leaveRoom,
+    startDirectMessage,
+    setMemberRole,
+    transferOwnership,
+    kickMember,
+    banMember,
+    clearRemovalNotice,
+    archiveRoom,
+    deleteRoom,
+    loadJoinRequests,
+    resolveJoinRequest,
+    clearJoinRequestNotice,
+    muteMember,
+    unmuteMember,
     switchToRoom,
     goToLobby,
     sendMessage,
+    sendAttachment,
+    sendPoll,
+    votePoll,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    togglePin,
+    loadPinnedMessages,
+    loadScheduledMessages,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    loadMessageHistory,
+    openThread,
+    closeThread,
+    sendReply,
+    loadMoreReplies,
     loadMoreMessages,
+    loadNewerMessages,
+    jumpToMessage,
+    jumpToLatest,
+    clearFocusedMessage,
     startTyping,
     stopTyping,
+    markRoomRead,
+    clearMentionNotice,
+    loadCommands,
+    dismissEphemeral,
     getRoomData,
     getRoomPresences,
+    getMemberRole,
+    getMutedUntil,
     getRoomTyping,
+    getMessageRevisions,
+    getThreadData,
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
@@ -1,9 +1,22 @@
 import {
+  Attachment,
+  CommandInfo,
+  ScheduledMessage,
+  ScheduleMessageRequest,
+  Message,
   Room,
+  RoomRole,
   CreateRoomRequest,
+  UpdateRoomRequest,
   JoinRoomRequest,
+  RoomInvite,
+  CreateInviteRequest,
+  InvitePreview,
+  JoinRequest,
   MessagePaginationRequest,
   MessageResponse,
+  MessageSearchRequest,
+  MessageSearchResponse,
   ApiErrorCode,
   ApiError,
 } from "../types";
@@ -71,6 +84,17 @@ class RoomService {
     return result.room;
   }
 
+  async updateRoom(roomId: string, data: UpdateRoomRequest): Promise<Room> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }
+    );
+    return result.room;
+  }
+
   async joinRoom(
     data: JoinRoomRequest
   ): Promise<{ room: Room; alreadyJoined: boolean }> {
@@ -81,12 +105,291 @@ class RoomService {
     return result;
   }
 
+  async getJoinRequests(roomId: string): Promise<JoinRequest[]> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/join-requests`
+    );
+    return result.requests;
+  }
+
+  // Raw body, so the server's JSON parser leaves the file alone
+  async uploadAttachment(roomId: string, file: File): Promise<Attachment> {
+    const result = await this.makeRequest(
+      `${
+        this.baseUrl
+      }/api/rooms/${roomId}/attachments?filename=${encodeURIComponent(
+        file.name
+      )}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+      }
+    );
+    return result.attachment;
+  }
+
+  async uploadThumbnail(
+    roomId: string,
+    attachmentId: string,
+    thumbnail: Blob
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/attachments/${attachmentId}/thumbnail`,
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: thumbnail,
+      }
+    );
+  }
+
+  // Downloads need the auth header, so files are fetched as blobs rather
+  // than linked to directly
+  async getAttachmentBlob(
+    roomId: string,
+    attachmentId: string,
+    thumbnail = false
+  ): Promise<Blob> {
+    const authHeader = authService.getAuthHeader();
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.baseUrl}/api/rooms/${roomId}/attachments/${attachmentId}${
+          thumbnail ? "/thumbnail" : ""
+        }`,
+        { headers: authHeader ? { Authorization: authHeader } : {} }
+      );
+    } catch {
+      throw new ApiError("Network error", "GENERIC");
+    }
+    if (!response.ok) {
+      throw new ApiError("Attachment not available", "NOT_FOUND");
+    }
+    return response.blob();
+  }
+
+  async getCommands(): Promise<CommandInfo[]> {
+    const result = await this.makeRequest(`${this.baseUrl}/api/commands`);
+    return result.commands;
+  }
+
+  async getPinnedMessages(roomId: string): Promise<Message[]> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/pins`
+    );
+    return result.pins;
+  }
+
+  async getScheduledMessages(roomId: string): Promise<ScheduledMessage[]> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/scheduled`
+    );
+    return result.scheduled;
+  }
+
+  async scheduleMessage(
+    roomId: string,
+    data: ScheduleMessageRequest
+  ): Promise<ScheduledMessage> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/scheduled`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return result.scheduled;
+  }
+
+  async updateScheduledMessage(
+    roomId: string,
+    scheduledId: string,
+    data: Partial<ScheduleMessageRequest>
+  ): Promise<ScheduledMessage> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/scheduled/${scheduledId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      }
+    );
+    return result.scheduled;
+  }
+
+  async cancelScheduledMessage(
+    roomId: string,
+    scheduledId: string
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/scheduled/${scheduledId}`,
+      { method: "DELETE" }
+    );
+  }
+
+  async resolveJoinRequest(
+    roomId: string,
+    userId: string,
+    approve: boolean
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/join-requests/${userId}/${
+        approve ? "approve" : "deny"
+      }`,
+      { method: "POST" }
+    );
+  }
+
+  async getInvitePreview(token: string): Promise<InvitePreview> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/invites/${encodeURIComponent(token)}`
+    );
+    return result.invite;
+  }
+
+  async getInvites(roomId: string): Promise<RoomInvite[]> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/invites`
+    );
+    return result.invites;
+  }
+
+  async createInvite(
+    roomId: string,
+    data: CreateInviteRequest
+  ): Promise<RoomInvite> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/invites`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    );
+    return result.invite;
+  }
+
+  async revokeInvite(roomId: string, inviteId: string): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/invites/${inviteId}`,
+      { method: "DELETE" }
+    );
+  }
+
+  async archiveRoom(roomId: string): Promise<Room> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/archive`,
+      { method: "POST" }
+    );
+    return result.room;
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    await this.makeRequest(`${this.baseUrl}/api/rooms/${roomId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async transferOwnership(roomId: string, userId: string): Promise<void> {
+    await this.makeRequest(`${this.baseUrl}/api/rooms/${roomId}/transfer`, {
+      method: "POST",
+      body: JSON.stringify({ userId }),
+    });
+  }
+
+  async startDirectMessage(userId: string): Promise<Room> {
+    const result = await this.makeRequest(`${this.baseUrl}/api/rooms/direct`, {
+      method: "POST",
+      body: JSON.stringify({ userId }),
+    });
+    return result.room;
+  }
+
+  async setMemberRole(
+    roomId: string,
+    userId: string,
+    role: RoomRole
+  ): Promise<RoomRole> {
+    const result = await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/members/${userId}`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ role }),
+      }
+    );
+    return result.role;
+  }
+
+  async kickMember(
+    roomId: string,
+    userId: string,
+    reason?: string
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/members/${userId}/kick`,
+      {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+      }
+    );
+  }
+
+  async banMember(
+    roomId: string,
+    userId: string,
+    reason?: string,
+    expiresAt?: string
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/members/${userId}/ban`,
+      {
+        method: "POST",
+        body: JSON.stringify({ reason, expiresAt }),
+      }
+    );
+  }
+
+  async muteMember(
+    roomId: string,
+    userId: string,
+    durationMinutes: number
+  ): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/members/${userId}/mute`,
+      {
+        method: "POST",
+        body: JSON.stringify({ durationMinutes }),
+      }
+    );
+  }
+
+  async unmuteMember(roomId: string, userId: string): Promise<void> {
+    await this.makeRequest(
+      `${this.baseUrl}/api/rooms/${roomId}/members/${userId}/mute`,
+      { method: "DELETE" }
+    );
+  }
+
   async leaveRoom(roomId: string): Promise<void> {
     await this.makeRequest(`${this.baseUrl}/api/rooms/${roomId}/leave`, {
       method: "POST",
     });
   }
 
+  async searchMessages(
+    request: MessageSearchRequest
+  ): Promise<MessageSearchResponse> {
+    const params = new URLSearchParams({ q: request.query });
+
+    if (request.roomId) params.append("roomId", request.roomId);
+    if (request.author) params.append("author", request.author);
+    if (request.from) params.append("from", request.from);
+    if (request.to) params.append("to", request.to);
+    if (request.limit) params.append("limit", request.limit.toString());
+    if (request.cursor) params.append("cursor", request.cursor);
+
+    return await this.makeRequest(`${this.baseUrl}/api/rooms/search?${params}`);
+  }
+
   // async getMessages(
   //   request: MessagePaginationRequest
   // ): Promise<MessageResponse> {
@@ -1,10 +1,31 @@
 import { io, Socket } from "socket.io-client";
 import {
   Message,
+  MessageRevision,
+  ReactionSummary,
+  Poll,
+  CreatePollRequest,
+  Room,
+  RoomRole,
+  RemovedFromRoomPayload,
+  MuteUpdatedPayload,
+  JoinRequest,
+  JoinRequestResolvedPayload,
+  RoomDeletedPayload,
+  ReadMarkerPayload,
+  ReadReceipt,
+  ReadReceiptsPayload,
+  MentionPayload,
+  AddedToRoomPayload,
+  CommandResultPayload,
+  ScheduledMessagesPayload,
   TypingUser,
   UserPresence,
   MessagePaginationRequest,
   MessageResponse,
+  MessageContextResponse,
+  ThreadRequest,
+  ThreadResponse,
   ApiError,
 } from "../types";
 import { authService } from "./auth";
@@ -13,7 +34,23 @@ import { makeLogger } from "../utils/log";
 const { log } = makeLogger("SocketService");
 
 type RoomUpdatePayload =
-  | { type: "new_message"; message: Message }
+  | {
+      type:
+        | "new_message"
+        | "message_edited"
+        | "message_pinned"
+        | "message_unpinned";
+      message: Message;
+    }
+  | { type: "message_deleted"; message: Message; parent: Message | null }
+  | { type: "thread_reply"; message: Message; parent: Message | null }
+  | {
+      type: "reaction_updated";
+      roomId: string;
+      messageId: string;
+      reactions: ReactionSummary[];
+    }
+  | { type: "poll_updated"; roomId: string; messageId: string; poll: Poll }
   | {
       type:
         | "user_connected"
@@ -22,7 +59,8 @@ type RoomUpdatePayload =
         | "user_left";
       roomId: string;
       presences: UserPresence[];
-    };
+    }
+  | { type: "role_updated"; roomId: string; userId: string; role: RoomRole };
 
 type Options = {
   serverUrl?: string;
@@ -131,10 +169,15 @@ class SocketService {
 
   // ---- Room + messaging actions (also mark as activity) ----
   // Room operations
-  joinRoom(roomId: string, alreadyJoined: boolean): void {
+  // focusMessageId: load the messages around it instead of the latest page
+  joinRoom(
+    roomId: string,
+    alreadyJoined: boolean,
+    focusMessageId?: string
+  ): void {
     log("joinRoom");
     this.registerActivity();
-    this.socket?.emit("join_room", { roomId, alreadyJoined });
+    this.socket?.emit("join_room", { roomId, alreadyJoined, focusMessageId });
   }
 
   leaveRoom(roomId: string): void {
@@ -144,11 +187,90 @@ class SocketService {
   }
 
   // Messaging
-  sendMessage(roomId: string, content: string): void {
+  sendMessage(roomId: string, content: string, replyToId?: string): void {
     log("sendMessage");
     if (!content.trim()) return;
     this.registerActivity();
-    this.socket?.emit("send_message", { roomId, content: content.trim() });
+    this.socket?.emit("send_message", {
+      roomId,
+      content: content.trim(),
+      replyToId,
+    });
+  }
+
+  // Files are uploaded over REST first; content is an optional caption
+  sendAttachment(roomId: string, attachmentId: string, content: string): void {
+    log("sendAttachment");
+    this.registerActivity();
+    this.socket?.emit("send_message", {
+      roomId,
+      content: content.trim(),
+      attachmentId,
+    });
+  }
+
+  getMessageContext(roomId: string, messageId: string): void {
+    log("getMessageContext");
+    this.socket?.emit("get_message_context", { roomId, messageId });
+  }
+
+  getThread(request: ThreadRequest): void {
+    log("getThread");
+    this.socket?.emit("get_thread", request);
+  }
+
+  editMessage(messageId: string, content: string): void {
+    log("editMessage");
+    if (!content.trim()) return;
+    this.registerActivity();
+    this.socket?.emit("edit_message", { messageId, content: content.trim() });
+  }
+
+  deleteMessage(messageId: string): void {
+    log("deleteMessage");
+    this.registerActivity();
+    this.socket?.emit("delete_message", { messageId });
+  }
+
+  pinMessage(messageId: string): void {
+    log("pinMessage");
+    this.registerActivity();
+    this.socket?.emit("pin_message", { messageId });
+  }
+
+  unpinMessage(messageId: string): void {
+    log("unpinMessage");
+    this.registerActivity();
+    this.socket?.emit("unpin_message", { messageId });
+  }
+
+  sendPoll(request: CreatePollRequest): void {
+    log("sendPoll");
+    this.registerActivity();
+    this.socket?.emit("send_poll", request);
+  }
+
+  votePoll(messageId: string, optionIndexes: number[]): void {
+    log("votePoll");
+    this.registerActivity();
+    this.socket?.emit("vote_poll", { messageId, optionIndexes });
+  }
+
+  addReaction(messageId: string, emoji: string): void {
+    log("addReaction");
+    this.registerActivity();
+    this.socket?.emit("add_reaction", { messageId, emoji });
+  }
+
+  removeReaction(messageId: string, emoji: string): void {
+    log("removeReaction");
+    this.registerActivity();
+    this.socket?.emit("remove_reaction", { messageId, emoji });
+  }
+
+  getMessageHistory(messageId: string): void {
+    log("getMessageHistory");
+    this.socket?.emit("get_message_history", { messageId });
   }
 
   loadMoreMessages(request: MessagePaginationRequest): void {
@@ -156,6 +278,12 @@ class SocketService {
     this.socket?.emit("load_more_messages", request);
   }
 
+  // Read markers
+  markRead(roomId: string, messageId: string): void {
+    log("markRead");
+    this.socket?.emit("mark_read", { roomId, messageId });
+  }
+
   // Typing indicators
   startTyping(roomId: string): void {
     log("startTyping");
@@ -187,7 +315,13 @@ class SocketService {
   }
 
   onRoomJoined(
-    callback: (data: { roomId: string; presences: UserPresence[] }) => void
+    callback: (data: {
+      roomId: string;
+      presences: UserPresence[];
+      roles: Record<string, RoomRole>;
+      mutedUntil?: string;
+      receipts?: ReadReceipt[];
+    }) => void
   ): void {
     log("onRoomJoined");
     this.socket?.on("room_joined", callback);
@@ -220,6 +354,105 @@ class SocketService {
     this.socket?.on("more_messages_loaded", callback);
   }
 
+  onNewerMessagesLoaded(callback: (data: MessageResponse) => void): void {
+    log("onNewerMessagesLoaded");
+    this.socket?.on("newer_messages_loaded", callback);
+  }
+
+  onRoomUpdated(callback: (data: { room: Room }) => void): void {
+    log("onRoomUpdated");
+    this.socket?.on("room_updated", callback);
+  }
+
+  onDirectRoom(callback: (data: { room: Room }) => void): void {
+    log("onDirectRoom");
+    this.socket?.on("direct_room", callback);
+  }
+
+  onAddedToRoom(callback: (data: AddedToRoomPayload) => void): void {
+    log("onAddedToRoom");
+    this.socket?.on("added_to_room", callback);
+  }
+
+  onCommandResult(callback: (data: CommandResultPayload) => void): void {
+    log("onCommandResult");
+    this.socket?.on("command_result", callback);
+  }
+
+  onScheduledMessages(
+    callback: (data: ScheduledMessagesPayload) => void
+  ): void {
+    log("onScheduledMessages");
+    this.socket?.on("scheduled_messages", callback);
+  }
+
+  onRemovedFromRoom(callback: (data: RemovedFromRoomPayload) => void): void {
+    log("onRemovedFromRoom");
+    this.socket?.on("removed_from_room", callback);
+  }
+
+  onMuteUpdated(callback: (data: MuteUpdatedPayload) => void): void {
+    log("onMuteUpdated");
+    this.socket?.on("mute_updated", callback);
+  }
+
+  onRoomDeleted(callback: (data: RoomDeletedPayload) => void): void {
+    log("onRoomDeleted");
+    this.socket?.on("room_deleted", callback);
+  }
+
+  onReadMarker(callback: (data: ReadMarkerPayload) => void): void {
+    log("onReadMarker");
+    this.socket?.on("read_marker", callback);
+  }
+
+  onReadReceipts(callback: (data: ReadReceiptsPayload) => void): void {
+    log("onReadReceipts");
+    this.socket?.on("read_receipts", callback);
+  }
+
+  onEphemeralMessage(callback: (message: Message) => void): void {
+    log("onEphemeralMessage");
+    this.socket?.on("ephemeral_message", callback);
+  }
+
+  onMention(callback: (data: MentionPayload) => void): void {
+    log("onMention");
+    this.socket?.on("mention", callback);
+  }
+
+  onJoinRequest(callback: (data: JoinRequest) => void): void {
+    log("onJoinRequest");
+    this.socket?.on("join_request", callback);
+  }
+
+  onJoinRequestResolved(
+    callback: (data: JoinRequestResolvedPayload) => void
+  ): void {
+    log("onJoinRequestResolved");
+    this.socket?.on("join_request_resolved", callback);
+  }
+
+  onMessageContext(callback: (data: MessageContextResponse) => void): void {
+    log("onMessageContext");
+    this.socket?.on("message_context", callback);
+  }
+
+  onThreadLoaded(callback: (data: ThreadResponse) => void): void {
+    log("onThreadLoaded");
+    this.socket?.on("thread_loaded", callback);
+  }
+
+  onMessageHistory(
+    callback: (data: {
+      messageId: string;
+      revisions: MessageRevision[];
+    }) => void
+  ): void {
+    log("onMessageHistory");
+    this.socket?.on("message_history", callback);
+  }
+
   onRoomPresences(
     callback: (data: { roomId: string; presences: UserPresence[] }) => void
   ): void {
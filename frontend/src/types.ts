@@ -10,9 +10,145 @@ export interface Room {
   name: string;
   description?: string;
   isPrivate: boolean;
+  requiresApproval: boolean; // joins wait for an owner or admin
+  readReceipts: boolean; // members see who has read what
+  archivedAt?: string; // read-only once archived
+  kind: "group" | "direct";
   createdBy: string;
   createdAt: string;
   memberCount?: number;
+  peer?: DirectPeer;
+  myRole?: RoomRole; // viewer's role in the room
+  lastReadMessageId?: string; // viewer's read marker
+  unreadCount?: number;
+  unreadMentionCount?: number;
+}
+
+// Highest first
+export type RoomRole = "owner" | "admin" | "moderator" | "member";
+
+// Sent when a moderator mutes or unmutes you; no expiresAt means unmuted
+export interface MuteUpdatedPayload {
+  roomId: string;
+  expiresAt?: string;
+}
+
+// One of the viewer's messages waiting to be posted; sent ones drop out
+export interface ScheduledMessage {
+  id: string;
+  roomId: string;
+  content: string;
+  sendAt: string;
+  status: "pending" | "sending" | "failed";
+  error?: string; // why a failed one wasn't posted
+  createdAt: string;
+}
+
+export interface ScheduleMessageRequest {
+  content: string;
+  sendAt: string;
+}
+
+// Sent whenever the viewer's scheduled messages in a room change
+export interface ScheduledMessagesPayload {
+  roomId: string;
+  scheduled: ScheduledMessage[];
+}
+
+// Where a member has read up to in a room
+export interface ReadReceipt {
+  userId: string;
+  username: string;
+  messageId: string;
+}
+
+// Everyone's positions (when receipts are switched on) or one that moved
+export interface ReadReceiptsPayload {
+  roomId: string;
+  receipts: ReadReceipt[];
+}
+
+// Sent to all of your tabs when one of them reads further into a room
+export interface ReadMarkerPayload {
+  roomId: string;
+  messageId: string;
+}
+
+// Sent to each member a new message mentions, wherever they are
+export interface MentionPayload {
+  roomId: string;
+  message: Message;
+}
+
+// Sent when an admin adds you to a room (/invite)
+export interface AddedToRoomPayload {
+  room: Room;
+  addedBy: string; // username
+}
+
+// Slash commands, as listed by GET /api/commands
+export interface CommandArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  rest?: boolean; // takes the rest of the line, spaces included
+}
+
+export interface CommandInfo {
+  name: string; // without the slash
+  description: string;
+  args: CommandArgument[];
+  minRole?: RoomRole; // needed in the room to run it
+  groupOnly?: boolean; // not available in direct messages
+}
+
+// Something the client does for a command, e.g. /leave
+export type CommandAction = "leave_room";
+
+// Sent back to the socket that ran a command, for its client to act on
+export interface CommandResultPayload {
+  roomId: string;
+  command: string;
+  action?: CommandAction;
+}
+
+// Sent when a moderator kicks or bans you from a room
+export interface RemovedFromRoomPayload {
+  roomId: string;
+  roomName: string;
+  banned: boolean;
+  reason?: string;
+  expiresAt?: string; // permanent ban when absent
+}
+
+// Sent to every member of a room its owner deleted
+export interface RoomDeletedPayload {
+  roomId: string;
+  roomName: string;
+}
+
+// A pending request to join a room that requires approval
+export interface JoinRequest {
+  roomId: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+// Sent to the requester and the room's admins once a request is decided
+export interface JoinRequestResolvedPayload {
+  roomId: string;
+  roomName: string;
+  userId: string;
+  approved: boolean;
+  room?: Room; // for the requester, when approved
+}
+
+export interface DirectPeer {
+  userId: string;
+  username: string;
+  status: "online" | "offline";
+  lastSeen?: string;
 }
 
 export interface Message {
@@ -21,11 +157,68 @@ export interface Message {
   userId: string;
   username: string;
   content: string;
-  type: "text" | "system";
+  type: "text" | "system" | "attachment" | "poll" | "action";
   timestamp: string;
   isDeleted?: boolean;
   editedAt?: string;
   replyToId?: string;
+  replyCount?: number;
+  reactions?: ReactionSummary[];
+  mentions?: string[]; // ids of the members the message mentions
+  pinnedAt?: string;
+  pinnedBy?: string; // username of whoever pinned it
+  attachment?: Attachment; // for "attachment" messages; content is the caption
+  poll?: Poll; // for "poll" messages; content is the question
+  ephemeral?: boolean; // a notice for this user alone; never stored
+}
+
+export interface Attachment {
+  id: string;
+  roomId: string;
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+  voterCount: number;
+  myVotes?: number[]; // indexes of the options the viewer chose
+}
+
+export interface PollOption {
+  text: string;
+  votes: number;
+  userIds?: string[]; // left out of anonymous polls
+}
+
+export interface CreatePollRequest {
+  roomId: string;
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe?: boolean;
+}
+
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  content: string;
+  editedAt: string;
 }
 
 export interface UserPresence {
@@ -66,17 +259,67 @@ export interface CreateRoomRequest {
   description?: string;
   isPrivate: boolean;
   passcode?: string;
+  requiresApproval?: boolean;
 }
 
+// Omitted fields are left as they are; a null passcode removes it
+export interface UpdateRoomRequest {
+  name?: string;
+  description?: string;
+  isPrivate?: boolean;
+  passcode?: string | null;
+  requiresApproval?: boolean;
+  readReceipts?: boolean;
+}
+
+// Either a room name (plus passcode when private) or an invite token
 export interface JoinRoomRequest {
-  roomId: string;
+  roomId?: string;
   passcode?: string;
+  inviteToken?: string;
+}
+
+export interface RoomInvite {
+  id: string;
+  roomId: string;
+  token: string;
+  createdBy?: string;
+  expiresAt?: string; // never expires when absent
+  maxUses?: number; // unlimited when absent
+  uses: number;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface CreateInviteRequest {
+  expiresInMinutes?: number;
+  maxUses?: number;
+}
+
+// What an invite link shows before joining
+export interface InvitePreview {
+  roomName: string;
+  description?: string;
+  memberCount: number;
+  isPrivate: boolean;
 }
 
 export interface MessagePaginationRequest {
   roomId: string;
   limit?: number;
   before?: string;
+  after?: string;
+}
+
+export interface ThreadRequest {
+  messageId: string;
+  limit?: number;
+  before?: string;
+}
+
+export interface ThreadResponse extends MessageResponse {
+  parent: Message;
+  isPage: boolean;
 }
 
 export interface MessageResponse {
@@ -86,6 +329,33 @@ export interface MessageResponse {
   nextCursor?: string;
 }
 
+export interface MessageSearchRequest {
+  query: string;
+  roomId?: string;
+  author?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface MessageSearchHit {
+  message: Message;
+  roomName: string;
+  snippet: string; // matched terms wrapped in <mark></mark>
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchHit[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export interface MessageContextResponse extends MessageResponse {
+  messageId: string;
+  hasNewer: boolean;
+}
+
 export interface AuthFormProps {
   onSuccess?: () => void;
 }
@@ -98,6 +368,12 @@ export type ApiErrorCode =
   | "FORBIDDEN"
   | "VALIDATION_ERROR"
   | "DUPLICATE_ROOM_NAME"
+  | "BANNED"
+  | "MUTED"
+  | "INVALID_INVITE"
+  | "JOIN_REQUEST_SENT"
+  | "JOIN_REQUEST_PENDING"
+  | "ROOM_ARCHIVED"
   | "SERVER_ERROR"
   | "GENERIC";
 
@@ -0,0 +1,45 @@
+// Server limits; checked here too so oversized files fail before uploading
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 256 * 1024;
+
+// Types the server shows inline; everything else is a download
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const THUMBNAIL_SIZE = 320; // longest side, px
+
+export const isImage = (mimeType: string): boolean =>
+  IMAGE_MIME_TYPES.includes(mimeType);
+
+// 512 B, 3.4 KB, 1.2 MB
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Downscaled JPEG preview of an image, or null when the browser can't
+// decode it (the full image is shown instead)
+export const makeThumbnail = async (file: File): Promise<Blob | null> => {
+  if (!isImage(file.type)) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      1,
+      THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height)
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8)
+    );
+    return blob && blob.size <= MAX_THUMBNAIL_BYTES ? blob : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,36 @@
+import { CommandInfo, Room, RoomRole } from "../types";
+import { hasRoleAtLeast } from "./room";
+
+// "/mute <user> [minutes]"
+export const getCommandUsage = (command: CommandInfo): string =>
+  [
+    `/${command.name}`,
+    ...command.args.map((arg) =>
+      arg.required ? `<${arg.name}>` : `[${arg.name}]`
+    ),
+  ].join(" ");
+
+// Commands the viewer can run in a room (the server checks again)
+export const getAvailableCommands = (
+  commands: CommandInfo[],
+  room: Room | undefined,
+  role: RoomRole
+): CommandInfo[] =>
+  commands.filter(
+    (command) =>
+      (!command.groupOnly || room?.kind !== "direct") &&
+      (!command.minRole || hasRoleAtLeast(role, command.minRole))
+  );
+
+// The command name being typed: "/" and letters from the start up to the caret
+export const getCommandQuery = (text: string, caret: number): string | null =>
+  /^\/([a-z]*)$/i.exec(text.slice(0, caret))?.[1].toLowerCase() ?? null;
+
+// The command a message runs once its name is complete ("/mute bob")
+export const getTypedCommand = (
+  text: string,
+  commands: CommandInfo[]
+): CommandInfo | undefined => {
+  const name = /^\/([a-z]+)\s/i.exec(text)?.[1].toLowerCase();
+  return name ? commands.find((command) => command.name === name) : undefined;
+};
@@ -0,0 +1,164 @@
+// Lightweight syntax highlighting for fenced code blocks: comments,
+// strings, numbers and keywords of common languages. Unknown languages are
+// left plain.
+
+export type TokenType = "plain" | "comment" | "string" | "number" | "keyword";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  lineComment: string[]; // e.g. "//" or "#"
+  blockComment?: [string, string];
+}
+
+const words = (list: string): string[] => list.split(" ");
+
+const JS_KEYWORDS = words(
+  "async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof interface let new null of return static super switch this throw true try type typeof undefined var void while yield"
+);
+
+const C_FAMILY: LanguageSpec = {
+  keywords: words(
+    "abstract bool break case catch char class const continue default do double else enum extends false final finally float fn for func go if impl implements import int interface let long match mut namespace new nil null package private protected pub public return self static struct super switch this throw throws trait true try type use var void while"
+  ),
+  lineComment: ["//"],
+  blockComment: ["/*", "*/"],
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  js: {
+    keywords: JS_KEYWORDS,
+    lineComment: ["//"],
+    blockComment: ["/*", "*/"],
+  },
+  python: {
+    keywords: words(
+      "and as async await break class continue def del elif else except False finally for from if import in is lambda None not or pass raise return self True try while with yield"
+    ),
+    lineComment: ["#"],
+  },
+  shell: {
+    keywords: words(
+      "case do done echo elif else esac exit export fi for function if in local return then while"
+    ),
+    lineComment: ["#"],
+  },
+  sql: {
+    keywords: words(
+      "and as by create delete desc from group having index insert into join left limit not null on or order select set table update values where"
+    ),
+    lineComment: ["--"],
+    blockComment: ["/*", "*/"],
+  },
+  c: C_FAMILY,
+  json: { keywords: words("true false null"), lineComment: [] },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: "js",
+  jsx: "js",
+  ts: "js",
+  tsx: "js",
+  typescript: "js",
+  py: "python",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  cpp: "c",
+  "c++": "c",
+  cs: "c",
+  "c#": "c",
+  java: "c",
+  kotlin: "c",
+  go: "c",
+  rust: "c",
+  rs: "c",
+  swift: "c",
+};
+
+const getLanguage = (lang: string): LanguageSpec | undefined =>
+  LANGUAGES[ALIASES[lang] ?? lang];
+
+export const isHighlighted = (lang: string): boolean => !!getLanguage(lang);
+
+const WORD = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/y;
+
+export const highlight = (code: string, lang: string): Token[] => {
+  const spec = getLanguage(lang);
+  if (!spec) return [{ type: "plain", text: code }];
+
+  // SQL keywords are case-insensitive
+  const keywords = new Set(
+    lang === "sql" ? spec.keywords.map((k) => k.toLowerCase()) : spec.keywords
+  );
+  const isKeyword = (word: string) =>
+    keywords.has(lang === "sql" ? word.toLowerCase() : word);
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const lineComment = spec.lineComment.find((c) => code.startsWith(c, i));
+    if (lineComment) {
+      const end = code.indexOf("\n", i);
+      const stop = end === -1 ? code.length : end;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (spec.blockComment && code.startsWith(spec.blockComment[0], i)) {
+      const end = code.indexOf(spec.blockComment[1], i + 2);
+      const stop = end === -1 ? code.length : end + spec.blockComment[1].length;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const ch = code[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      // To the closing quote, skipping escapes; single-line unless a template
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch) {
+        if (code[j] === "\\") j++;
+        else if (code[j] === "\n" && ch !== "`") break;
+        j++;
+      }
+      const stop = Math.min(j + 1, code.length);
+      push("string", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    WORD.lastIndex = i;
+    const word = WORD.exec(code);
+    if (word) {
+      push(isKeyword(word[0]) ? "keyword" : "plain", word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    NUMBER.lastIndex = i;
+    const number = NUMBER.exec(code);
+    if (number) {
+      push("number", number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    push("plain", ch);
+    i++;
+  }
+
+  return tokens;
+};
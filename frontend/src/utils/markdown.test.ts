@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, parseMarkdown, safeHref } from "./markdown";
+
+describe("safeHref", () => {
+  it.each([
+    ["https://example.com/a?b=c#d", "https://example.com/a?b=c#d"],
+    ["http://example.com", "http://example.com/"],
+    ["mailto:alice@example.com", "mailto:alice@example.com"],
+    ["HTTPS://EXAMPLE.COM/Path", "https://example.com/Path"],
+  ])("allows %s", (href, expected) => {
+    expect(safeHref(href)).toBe(expected);
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "JavaScript:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "data:text/html,<script>alert(1)</script>",
+    "vbscript:msgbox(1)",
+    "file:///etc/passwd",
+    "ftp://example.com",
+    "//example.com",
+    "/relative/path",
+    "example.com",
+    "",
+  ])("rejects %j", (href) => {
+    expect(safeHref(href)).toBeNull();
+  });
+});
+
+describe("parseInline", () => {
+  it("parses emphasis, code and links", () => {
+    expect(
+      parseInline("**bold** *em* `code` [site](https://example.com)")
+    ).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "em", children: [{ type: "text", text: "em" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "code" },
+      { type: "text", text: " " },
+      {
+        type: "link",
+        href: "https://example.com/",
+        children: [{ type: "text", text: "site" }],
+      },
+    ]);
+  });
+
+  it("shows links with an unsafe target as typed", () => {
+    expect(parseInline("[click](javascript:alert(1))")).toEqual([
+      { type: "text", text: "[click](javascript:alert(1))" },
+    ]);
+    expect(parseInline("[x](data:text/html,hi)")).toEqual([
+      { type: "text", text: "[x](data:text/html,hi)" },
+    ]);
+  });
+
+  it("links bare http(s) URLs without trailing punctuation", () => {
+    expect(parseInline("see https://example.com/a.")).toEqual([
+      { type: "text", text: "see " },
+      {
+        type: "link",
+        href: "https://example.com/a",
+        children: [{ type: "text", text: "https://example.com/a" }],
+      },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("doesn't link bare URLs of other protocols", () => {
+    expect(parseInline("javascript:alert(1)")).toEqual([
+      { type: "text", text: "javascript:alert(1)" },
+    ]);
+  });
+
+  it("keeps markup inside code spans literal", () => {
+    expect(parseInline("`[x](javascript:y) **b**`")).toEqual([
+      { type: "code", text: "[x](javascript:y) **b**" },
+    ]);
+  });
+
+  it("keeps HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+      { type: "text", text: "<img src=x onerror=alert(1)>" },
+    ]);
+  });
+
+  it("unescapes backslash-escaped markup", () => {
+    expect(parseInline("\\*not em\\*")).toEqual([
+      { type: "text", text: "*not em*" },
+    ]);
+  });
+
+  it("doesn't treat underscores inside words as emphasis", () => {
+    expect(parseInline("snake_case_name")).toEqual([
+      { type: "text", text: "snake_case_name" },
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses fenced code, quotes and lists", () => {
+    expect(
+      parseMarkdown(
+        "```TS\nconst a = 1;\n```\n> quoted\n- one\n- two\n3. three"
+      )
+    ).toEqual([
+      { type: "code", lang: "ts", text: "const a = 1;" },
+      {
+        type: "quote",
+        children: [
+          { type: "paragraph", children: [{ type: "text", text: "quoted" }] },
+        ],
+      },
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [
+          [{ type: "text", text: "one" }],
+          [{ type: "text", text: "two" }],
+        ],
+      },
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [[{ type: "text", text: "three" }]],
+      },
+    ]);
+  });
+
+  it("runs an unclosed fence to the end of the message", () => {
+    expect(parseMarkdown("```\n**not bold**\n[x](https://a.b)")).toEqual([
+      { type: "code", lang: "", text: "**not bold**\n[x](https://a.b)" },
+    ]);
+  });
+
+  it("keeps line breaks inside a paragraph and normalizes CRLF", () => {
+    expect(parseMarkdown("one\r\ntwo\n\nthree")).toEqual([
+      { type: "paragraph", children: [{ type: "text", text: "one\ntwo" }] },
+      { type: "paragraph", children: [{ type: "text", text: "three" }] },
+    ]);
+  });
+
+  it("stops nesting quotes at the server's depth limit", () => {
+    let blocks = parseMarkdown(`${"> ".repeat(12)}deep`);
+    let depth = 0;
+    while (blocks[0]?.type === "quote") {
+      blocks = blocks[0].children;
+      depth++;
+    }
+    expect(depth).toBe(8);
+    expect(blocks[0]).toEqual({
+      type: "paragraph",
+      children: [{ type: "text", text: "> > > > deep" }],
+    });
+  });
+});
@@ -0,0 +1,178 @@
+// The Markdown subset messages support: **bold**, *italic*, `code`, fenced
+// code blocks, [links](https://...), bare URLs, > quotes and lists. It is
+// parsed into nodes that components render as React elements, never as
+// HTML, so content can't inject markup.
+
+// Same limit the server enforces
+export const MAX_MESSAGE_LENGTH = 4000;
+
+const MAX_QUOTE_DEPTH = 8; // the server rejects deeper nesting
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "quote"; children: BlockNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] };
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+const QUOTE = /^\s*> ?(.*)$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+
+// Links may only leave for the web or a mail client
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+export const safeHref = (href: string): string | null => {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// In priority order; the first alternative that matches at a position wins
+const INLINE_PATTERN = new RegExp(
+  [
+    /\\([\\`*_[\]()>#+\-.!~])/.source, // 1: escaped character
+    /(`+)([^`]|[^`][\s\S]*?[^`])\2(?!`)/.source, // 2,3: code span
+    /\*\*(?=\S)([\s\S]*?\S)\*\*/.source, // 4: bold
+    /(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/.source, // 5: bold
+    /\*(?=[^\s*])([\s\S]*?[^\s*])\*/.source, // 6: italic
+    /(?<!\w)_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/.source, // 7: italic
+    /\[([^\]\n]+)\]\(([^\s()]+)\)/.source, // 8,9: link
+    /(https?:\/\/[^\s<>]*[^\s<>.,:;"'!?)\]])/.source, // 10: bare URL
+  ].join("|"),
+  "g"
+);
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const pushText = (t: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.text += t;
+    else if (t) nodes.push({ type: "text", text: t });
+  };
+
+  let last = 0;
+  for (const m of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(last, m.index));
+    last = m.index + m[0].length;
+
+    if (m[1] !== undefined) {
+      pushText(m[1]);
+    } else if (m[3] !== undefined) {
+      nodes.push({ type: "code", text: m[3] });
+    } else if (m[4] !== undefined || m[5] !== undefined) {
+      nodes.push({ type: "strong", children: parseInline(m[4] ?? m[5]) });
+    } else if (m[6] !== undefined || m[7] !== undefined) {
+      nodes.push({ type: "em", children: parseInline(m[6] ?? m[7]) });
+    } else if (m[8] !== undefined) {
+      const href = safeHref(m[9]);
+      if (href) {
+        nodes.push({ type: "link", href, children: parseInline(m[8]) });
+      } else {
+        pushText(m[0]); // unsafe or invalid target: shown as typed
+      }
+    } else if (m[10] !== undefined) {
+      const href = safeHref(m[10]);
+      if (href) {
+        nodes.push({
+          type: "link",
+          href,
+          children: [{ type: "text", text: m[10] }],
+        });
+      } else {
+        pushText(m[0]);
+      }
+    }
+  }
+  pushText(text.slice(last));
+  return nodes;
+};
+
+const parseLines = (lines: string[], depth: number): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Fenced code; an unclosed fence runs to the end of the message
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence
+      blocks.push({
+        type: "code",
+        lang: fence[1].toLowerCase(),
+        text: body.join("\n"),
+      });
+      continue;
+    }
+
+    if (QUOTE.test(line) && depth < MAX_QUOTE_DEPTH) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseLines(quoted, depth + 1) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      const items: InlineNode[][] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (!next || (next[2] !== undefined) !== ordered) break;
+        items.push(parseInline(next[3]));
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? Number(item[2]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Paragraph: consecutive plain lines, line breaks kept as typed (a quote
+    // nested too deep is one of them)
+    const paragraph = [lines[i++]];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (content: string): BlockNode[] =>
+  parseLines(content.replace(/\r\n?/g, "\n").split("\n"), 0);
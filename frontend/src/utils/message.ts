@@ -0,0 +1,49 @@
+import { Message } from "../types";
+
+// Same pattern the server parses: @ at a word boundary, then a username
+const MENTION_PATTERN = /(^|[^\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+// Mention everyone in the room (@room) or everyone online in it (@here)
+export const BROADCAST_MENTIONS = ["here", "room"];
+
+export interface ContentPart {
+  text: string;
+  mention?: string; // lowercased name after the @
+}
+
+// Split message content into plain text and @mention tokens, in order
+export const splitMentions = (content: string): ContentPart[] => {
+  const parts: ContentPart[] = [];
+  let last = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const start = match.index + match[1].length;
+    const end = match.index + match[0].length;
+    if (start > last) parts.push({ text: content.slice(last, start) });
+    parts.push({
+      text: content.slice(start, end),
+      mention: match[2].toLowerCase(),
+    });
+    last = end;
+  }
+  if (last < content.length) parts.push({ text: content.slice(last) });
+  return parts;
+};
+
+// The "@prefix" being typed right before the caret, if any
+export const getMentionQuery = (
+  text: string,
+  caret: number
+): { start: number; query: string } | null => {
+  const match = /(?:^|[^\w@])@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+};
+
+// One-line summary for toasts and lists; attachments may have no caption
+export const getMessagePreview = (message: Message): string =>
+  message.poll
+    ? `📊 ${message.poll.question}`
+    : message.type === "action"
+    ? `${message.username} ${message.content}`
+    : message.content ||
+      (message.attachment ? `📎 ${message.attachment.filename}` : "");
@@ -0,0 +1,41 @@
+import { Room, RoomRole, UserPresence } from "../types";
+
+// Direct rooms are shown as the other participant's name
+export const getRoomLabel = (room: Room): string =>
+  room.kind === "direct" ? room.peer?.username ?? "Unknown user" : room.name;
+
+// Live presence when the room's presences are loaded, else the snapshot
+// returned with the room list
+export const getPeerStatus = (
+  room: Room,
+  presences: UserPresence[] = []
+): "online" | "offline" => {
+  const live = presences.find((p) => p.userId === room.peer?.userId);
+  return live?.status ?? room.peer?.status ?? "offline";
+};
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const hasRoleAtLeast = (role: RoomRole, min: RoomRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[min];
+
+// Invite links open the app with ?invite=<token>
+const INVITE_PARAM = "invite";
+
+export const getInviteUrl = (token: string): string =>
+  `${window.location.origin}/?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+
+export const readInviteToken = (): string | null =>
+  new URLSearchParams(window.location.search).get(INVITE_PARAM);
+
+// Drop the token from the address bar so a reload doesn't reopen the invite
+export const clearInviteToken = (): void => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(null, "", url.toString());
+};
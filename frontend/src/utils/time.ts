@@ -0,0 +1,5 @@
+// The value a datetime-local input wants: local time, to the minute
+export const toDateTimeInput = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};